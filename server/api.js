@@ -5,16 +5,23 @@ import { config } from "dotenv";
 // Load environment variables from server/.env file
 config({ path: "./server/.env" });
 
-import { ChatOpenAI } from "@langchain/openai";
-import { ChatGoogleGenerativeAI } from "@langchain/google-genai";
 import { createAgent } from "langchain";
 import {
   HumanMessage,
   AIMessage,
   SystemMessage,
 } from "@langchain/core/messages";
-import { getToolsForRole } from "./tools/index.js";
+import { findToolForRole, getToolsForRole } from "./tools/index.js";
+import { getUserRole } from "./tools/shared/helpers.js";
+import {
+  approvePendingAction,
+  getPendingAction,
+  getPendingActionId,
+  rejectPendingAction,
+} from "./tools/shared/approvals.js";
 import { supabase } from "./supabase.js";
+import { createChatModel, getRecursionLimit, loadLLMConfig } from "./llm/index.js";
+import { recomputeEmployeeMetrics, refreshEmployeeMetrics } from "./jobs/employeeMetrics.js";
 // import { listTasks } from "./tools/admin/tasks.js"; // No longer needed - using getToolsForRole instead
 
 const app = express();
@@ -55,22 +62,15 @@ const authenticateToken = async (req, res, next) => {
       return res.status(401).json({ error: "Invalid token or user" });
     }
 
-    // Get user role from database (not metadata)
-    const { data: roleData, error: roleError } = await supabase
-      .from("user_roles")
-      .select("role")
-      .eq("user_id", user.id)
-      .maybeSingle(); // Use maybeSingle to handle empty results
-
-    let userRole = "employee"; // Default role
+    // Get user role from database (not metadata). This is the only source of
+    // the role used for authorization; anything the client sends is ignored.
+    let userRole;
 
-    if (roleError) {
+    try {
+      userRole = await getUserRole(user.id);
+    } catch (roleError) {
       console.error("Role lookup error:", roleError);
-      // Don't fail authentication, just use default role
-    } else if (roleData) {
-      userRole = roleData.role;
-    } else {
-      console.log("No role found for user, using default 'employee' role");
+      return res.status(500).json({ error: "Unable to verify user role" });
     }
 
     req.user = {
@@ -86,21 +86,10 @@ const authenticateToken = async (req, res, next) => {
   }
 };
 
-// Initialize AI models
-const openai = new ChatOpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-  model: process.env.AI_MODEL || "zai-org/GLM-4.5-turbo",
-  temperature: 0.7,
-  configuration: {
-    baseURL: "https://llm.chutes.ai/v1",
-  },
-});
-
-const googleAI = new ChatGoogleGenerativeAI({
-  apiKey: process.env.GOOGLE_GENERATIVE_AI_API_KEY,
-  model: "gemini-2.5-flash",
-  temperature: 0.7,
-});
+// Initialize the AI model (provider, model, temperature and maxSteps come from
+// the environment; see llm/index.js)
+const llmConfig = loadLLMConfig();
+const chatModel = createChatModel(llmConfig);
 
 // Base system prompts
 const systemPrompts = {
@@ -112,6 +101,8 @@ CRITICAL INSTRUCTIONS FOR TOOL USAGE:
 3. Summarize the key findings and provide actionable insights
 4. NEVER return raw JSON or unformatted data to the user
 5. Always conclude with a helpful summary or next steps
+6. Destructive or financial actions (delete_task, delete_employee, create_payment, approve_payment) are never executed when you call them: the call creates a pending action that the user approves or rejects with a button in the chat. Call the tool once you know the arguments, then tell the user it is awaiting their approval. Never claim such an action has been completed
+7. For questions about workload, throughput, overdue work or payout totals, use get_workforce_analytics, get_task_analytics or get_financial_summary instead of listing individual records
 
 Example format for task listings:
 **📋 Task List Results:**
@@ -129,6 +120,17 @@ Example format for task listings:
 **Summary:** Found 3 tasks total, 1 overdue task requiring immediate attention.
 
 Always provide context and recommendations based on the data.`,
+  staff: `You are an AI assistant for a staff member in a task management system. Help with day-to-day task coordination and workforce lookups.
+
+IMPORTANT: Staff members can look up employees, create, assign and update tasks, and view payments and task or workforce analytics.
+They cannot delete tasks, edit employee records, create or approve payments, or view the financial summary. If asked to do any of these, explain that an admin has to do it.
+
+When you use tools and get results, you MUST:
+1. Always format the tool results in a clear and structured manner
+2. Summarize the key information for the user
+3. Provide helpful context and next steps
+4. Use markdown formatting for better readability
+5. Never return raw JSON data directly to the user`,
   employee: `You are an AI assistant for an employee in a task management system. Help with task management, productivity, and work-related queries.
 
 IMPORTANT: When you use tools and get results, you MUST:
@@ -153,11 +155,14 @@ function getAgent(role, userId = null) {
       finalSystemPrompt = `You are an AI assistant for an employee.
 You are acting on behalf of the employee with user_id: ${userId}.
 
-IMPORTANT: The employee tools (list_my_tasks, update_my_task, add_progress_update) automatically use the authenticated user's ID.
-You do NOT need to pass employeeId as a parameter - it's handled automatically by the system.
+IMPORTANT: The employee tools (list_my_tasks, get_my_task_details, update_task_progress, complete_task,
+list_my_invitations, respond_to_invitation, get_my_profile, update_my_profile, get_my_performance, list_my_payments)
+automatically use the authenticated user's ID. You do NOT need to pass employeeId as a parameter - it's handled automatically by the system.
+These tools can only read or change the current employee's own data.
 
 When a user says "my tasks", "my progress", etc., simply call the relevant tools without the employeeId parameter.
 Example: If the user says "show my tasks", call the 'list_my_tasks' tool with only the optional filters (status, priority, etc.).
+Always ask for a reason before rejecting an invitation, and confirm before completing a task.
 
 IMPORTANT: When you use tools and get results, you MUST:
 1. Always format the tool results in a clear and structured manner
@@ -176,10 +181,9 @@ IMPORTANT: When you use tools and get results, you MUST:
 
     // Create agent with proper tools
     const agent = createAgent({
-      model: googleAI,
+      model: chatModel,
       tools: toolsArray, // ✅ Include all tools, not just listTasks
       systemPrompt: finalSystemPrompt,
-      maxSteps: 5,
     });
 
     agents.set(agentKey, { agent, userId });
@@ -192,39 +196,483 @@ app.get("/api/health", (req, res) => {
   res.json({ status: "OK", message: "API server is running" });
 });
 
-// Chat completion endpoint
+// ============================================================================
+// Chat threads
+// ============================================================================
+
+const DEFAULT_THREAD_TITLE = "New conversation";
+
+// Fetch a thread only if it belongs to the given user
+async function getOwnedThread(threadId, userId) {
+  const { data: thread, error } = await supabase
+    .from("chat_threads")
+    .select("*")
+    .eq("id", threadId)
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load chat thread: ${error.message}`);
+  }
+
+  return thread;
+}
+
+// Store one user/assistant exchange and title untitled threads after the first question
+async function saveChatExchange(thread, userContent, assistantContent, actionIds = []) {
+  const { error } = await supabase.from("chat_messages").insert([
+    { thread_id: thread.id, role: "user", content: userContent },
+    {
+      thread_id: thread.id,
+      role: "assistant",
+      content: assistantContent,
+      action_ids: actionIds,
+    },
+  ]);
+
+  if (error) {
+    console.error("Failed to save chat messages:", error);
+    return;
+  }
+
+  if (thread.title === DEFAULT_THREAD_TITLE && userContent.trim()) {
+    const title = userContent.trim().replace(/\s+/g, " ");
+    await supabase
+      .from("chat_threads")
+      .update({ title: title.length > 60 ? `${title.slice(0, 57)}...` : title })
+      .eq("id", thread.id);
+  }
+}
+
+app.get("/api/threads", authenticateToken, async (req, res) => {
+  const { data: threads, error } = await supabase
+    .from("chat_threads")
+    .select("id, title, created_at, updated_at")
+    .eq("user_id", req.user.id)
+    .order("updated_at", { ascending: false });
+
+  if (error) {
+    return res.status(500).json({ error: "Failed to load chat threads", message: error.message });
+  }
+
+  res.json({ threads });
+});
+
+app.post("/api/threads", authenticateToken, async (req, res) => {
+  const title = req.body?.title?.trim() || DEFAULT_THREAD_TITLE;
+
+  const { data: thread, error } = await supabase
+    .from("chat_threads")
+    .insert({ user_id: req.user.id, title: title.slice(0, 200) })
+    .select("id, title, created_at, updated_at")
+    .single();
+
+  if (error) {
+    return res.status(500).json({ error: "Failed to create chat thread", message: error.message });
+  }
+
+  res.status(201).json({ thread });
+});
+
+app.patch("/api/threads/:id", authenticateToken, async (req, res) => {
+  const title = req.body?.title?.trim();
+
+  if (!title) {
+    return res.status(400).json({ error: "Title is required" });
+  }
+
+  const { data: thread, error } = await supabase
+    .from("chat_threads")
+    .update({ title: title.slice(0, 200) })
+    .eq("id", req.params.id)
+    .eq("user_id", req.user.id)
+    .select("id, title, created_at, updated_at")
+    .maybeSingle();
+
+  if (error) {
+    return res.status(500).json({ error: "Failed to rename chat thread", message: error.message });
+  }
+
+  if (!thread) {
+    return res.status(404).json({ error: "Chat thread not found" });
+  }
+
+  res.json({ thread });
+});
+
+app.delete("/api/threads/:id", authenticateToken, async (req, res) => {
+  const { data: deleted, error } = await supabase
+    .from("chat_threads")
+    .delete()
+    .eq("id", req.params.id)
+    .eq("user_id", req.user.id)
+    .select("id");
+
+  if (error) {
+    return res.status(500).json({ error: "Failed to delete chat thread", message: error.message });
+  }
+
+  if (!deleted || deleted.length === 0) {
+    return res.status(404).json({ error: "Chat thread not found" });
+  }
+
+  res.status(204).end();
+});
+
+app.get("/api/threads/:id/messages", authenticateToken, async (req, res) => {
+  try {
+    const thread = await getOwnedThread(req.params.id, req.user.id);
+
+    if (!thread) {
+      return res.status(404).json({ error: "Chat thread not found" });
+    }
+
+    const { data: messages, error } = await supabase
+      .from("chat_messages")
+      .select("id, role, content, action_ids, created_at")
+      .eq("thread_id", thread.id)
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    const { data: actions } = await supabase
+      .from("agent_pending_actions")
+      .select(PENDING_ACTION_FIELDS)
+      .eq("thread_id", thread.id);
+
+    res.json({ thread, messages, actions: actions || [] });
+  } catch (error) {
+    res.status(500).json({ error: "Failed to load chat messages", message: error.message });
+  }
+});
+
+// ============================================================================
+// Pending actions (human-in-the-loop approvals)
+// ============================================================================
+
+const PENDING_ACTION_FIELDS =
+  "id, tool_name, args, summary, status, result, created_at, resolved_at";
+
+// Only expose the fields listed in PENDING_ACTION_FIELDS
+function toActionResponse(action) {
+  return Object.fromEntries(
+    PENDING_ACTION_FIELDS.split(", ").map((field) => [field, action[field]])
+  );
+}
+
+async function getPendingActionsByIds(actionIds) {
+  if (actionIds.length === 0) return [];
+
+  const { data: actions } = await supabase
+    .from("agent_pending_actions")
+    .select(PENDING_ACTION_FIELDS)
+    .in("id", actionIds);
+
+  return actions || [];
+}
+
+// Collect the pending actions proposed by tool calls in a finished agent run
+function getPendingActionIdsFromMessages(messages) {
+  return messages
+    .filter((msg) => msg.getType?.() === "tool")
+    .map((msg) => getPendingActionId(msg))
+    .filter(Boolean);
+}
+
+// Record the outcome in the action's thread so the agent sees it on the next turn
+async function saveActionOutcome(action) {
+  if (!action.thread_id) return null;
+
+  const outcome =
+    action.status === "rejected"
+      ? `❌ Rejected: ${action.summary}`
+      : action.status === "executed"
+      ? `✅ Approved and done: ${action.result?.message || action.summary}`
+      : `⚠️ Approved, but it failed: ${action.result?.error || "unknown error"}`;
+
+  const { data: message } = await supabase
+    .from("chat_messages")
+    .insert({ thread_id: action.thread_id, role: "assistant", content: outcome })
+    .select("id, role, content, action_ids, created_at")
+    .single();
+
+  return message;
+}
+
+app.post("/api/actions/:id/approve", authenticateToken, async (req, res) => {
+  try {
+    const pending = await getPendingAction(req.params.id, req.user.id);
+
+    if (!pending) {
+      return res.status(404).json({ error: "Pending action not found" });
+    }
+
+    const originalTool = findToolForRole(req.user.role, pending.tool_name);
+
+    if (!originalTool) {
+      return res
+        .status(403)
+        .json({ error: `Your role cannot run ${pending.tool_name}` });
+    }
+
+    console.log("🤖 Approved action:", { id: pending.id, tool: pending.tool_name, userId: req.user.id });
+
+    const action = await approvePendingAction(pending.id, req.user, originalTool);
+    const message = await saveActionOutcome(action);
+
+    res.json({ action: toActionResponse(action), message });
+  } catch (error) {
+    res.status(409).json({ error: error.message });
+  }
+});
+
+app.post("/api/actions/:id/reject", authenticateToken, async (req, res) => {
+  try {
+    const pending = await getPendingAction(req.params.id, req.user.id);
+
+    if (!pending) {
+      return res.status(404).json({ error: "Pending action not found" });
+    }
+
+    const action = await rejectPendingAction(pending.id, req.user);
+    const message = await saveActionOutcome(action);
+
+    res.json({ action: toActionResponse(action), message });
+  } catch (error) {
+    res.status(409).json({ error: error.message });
+  }
+});
+
+// Recompute performance metrics now instead of waiting for the next task
+// change or job run: one employee when `userId` is given, otherwise everyone
+app.post("/api/metrics/recompute", authenticateToken, async (req, res) => {
+  if (req.user.role !== "admin" && req.user.role !== "staff") {
+    return res.status(403).json({ error: "Only admins and staff can recompute metrics" });
+  }
+
+  try {
+    const { userId } = req.body || {};
+
+    if (userId) {
+      const metrics = await recomputeEmployeeMetrics(userId);
+
+      if (!metrics) {
+        return res.status(404).json({ error: "Employee not found" });
+      }
+
+      return res.json({ metrics });
+    }
+
+    const summary = await refreshEmployeeMetrics("manual");
+    res.json({ summary: summary || "No metrics changed" });
+  } catch (error) {
+    console.error("Metrics recompute error:", error);
+    res.status(500).json({ error: "Failed to recompute metrics", message: error.message });
+  }
+});
+
+// Convert client chat messages to LangChain format
+function toLangchainMessages(messages) {
+  return messages.map((msg) => {
+    if (msg.role === "user") {
+      return new HumanMessage(msg.content);
+    } else if (msg.role === "assistant") {
+      return new AIMessage(msg.content);
+    } else if (msg.role === "system") {
+      return new SystemMessage(msg.content);
+    }
+    return new HumanMessage(msg.content);
+  });
+}
+
+// Extract the text from a streamed message chunk (Gemini may send content parts)
+function chunkText(chunk) {
+  if (!chunk?.content) return "";
+  if (typeof chunk.content === "string") return chunk.content;
+  return chunk.content
+    .filter((part) => part.type === "text")
+    .map((part) => part.text)
+    .join("");
+}
+
+// Tool inputs are traced as { input: "<JSON args>" }
+function toolArgs(input) {
+  if (typeof input?.input !== "string") return input;
+  try {
+    return JSON.parse(input.input);
+  } catch {
+    return input.input;
+  }
+}
+
+// Write one NDJSON event to a streaming response
+function writeEvent(res, event) {
+  res.write(`${JSON.stringify(event)}\n`);
+}
+
+/**
+ * Stream the agent run as NDJSON events:
+ *   { type: "tool_start", id, tool, args }
+ *   { type: "tool_end", id, tool, success }
+ *   { type: "approval_required", action }
+ *   { type: "token", content }
+ *   { type: "done", response }
+ *   { type: "error", error }
+ */
+async function streamAgentResponse(agent, langchainMessages, runConfig, res, onResponse) {
+  res.setHeader("Content-Type", "application/x-ndjson; charset=utf-8");
+  res.setHeader("Cache-Control", "no-cache");
+  res.setHeader("X-Accel-Buffering", "no");
+  res.flushHeaders();
+
+  // Only the text of the last model turn is the final answer
+  let response = "";
+  const actionIds = [];
+  // Runs of the tools the agent called. The permission, audit and approval
+  // wrappers are tools too, so each call also emits events for the tools it
+  // wraps; only the first (outermost) run in a tool call's checkpoint
+  // namespace is reported.
+  const toolCallNamespaces = new Set();
+  const toolRuns = new Set();
+
+  try {
+    const events = agent.streamEvents(
+      { messages: langchainMessages },
+      {
+        version: "v2",
+        ...runConfig,
+      }
+    );
+
+    for await (const event of events) {
+      switch (event.event) {
+        case "on_chat_model_start":
+          response = "";
+          break;
+        case "on_chat_model_stream": {
+          const text = chunkText(event.data?.chunk);
+          if (text) {
+            response += text;
+            writeEvent(res, { type: "token", content: text });
+          }
+          break;
+        }
+        case "on_tool_start": {
+          const namespace = event.metadata?.checkpoint_ns;
+          if (namespace && toolCallNamespaces.has(namespace)) break;
+          toolCallNamespaces.add(namespace);
+          toolRuns.add(event.run_id);
+
+          const args = toolArgs(event.data?.input);
+          console.log("🤖 Agent Tool Call:", { tool: event.name, args });
+          writeEvent(res, {
+            type: "tool_start",
+            id: event.run_id,
+            tool: event.name,
+            args,
+          });
+          break;
+        }
+        case "on_tool_end": {
+          if (!toolRuns.has(event.run_id)) break;
+          console.log("🤖 Tool Result:", event.data?.output);
+          writeEvent(res, { type: "tool_end", id: event.run_id, tool: event.name, success: true });
+
+          const actionId = getPendingActionId(event.data?.output);
+          if (actionId) {
+            actionIds.push(actionId);
+            const [action] = await getPendingActionsByIds([actionId]);
+            if (action) writeEvent(res, { type: "approval_required", action });
+          }
+          break;
+        }
+        case "on_tool_error":
+          if (!toolRuns.has(event.run_id)) break;
+          writeEvent(res, { type: "tool_end", id: event.run_id, tool: event.name, success: false });
+          break;
+      }
+    }
+
+    console.log("🤖 Server-side AI Agent - Streamed response:", {
+      contentLength: response.length,
+      timestamp: new Date().toISOString(),
+    });
+
+    if (onResponse) {
+      await onResponse(response, actionIds);
+    }
+
+    writeEvent(res, { type: "done", response });
+  } catch (error) {
+    console.error("🤖 Server-side AI Agent - Stream error:", error);
+    writeEvent(res, { type: "error", error: error.message || "Failed to process chat message" });
+  } finally {
+    res.end();
+  }
+}
+
+// Chat completion endpoint (pass `stream: true` for NDJSON token/tool events,
+// and `threadId` to save the exchange to that chat thread)
 app.post("/api/chat", authenticateToken, async (req, res) => {
   try {
-    const { messages, role: requestedRole } = req.body;
-    // Use the role from the request body, fallback to authenticated user's role
-    const role = requestedRole || req.user.role;
+    const { messages, role: requestedRole, stream = false, threadId } = req.body;
+    // The role always comes from user_roles; a role in the body is never trusted
+    const role = req.user.role;
+
+    if (requestedRole && requestedRole !== role) {
+      console.warn("🤖 Ignoring requested chat role:", {
+        userId: req.user.id,
+        requestedRole,
+        role,
+      });
+    }
 
     if (!messages || !Array.isArray(messages)) {
       return res.status(400).json({ error: "Messages array is required" });
     }
 
+    const thread = threadId ? await getOwnedThread(threadId, req.user.id) : null;
+
+    if (threadId && !thread) {
+      return res.status(404).json({ error: "Chat thread not found" });
+    }
+
+    const lastUserMessage = [...messages].reverse().find((msg) => msg.role === "user");
+    const saveResponse = async (response, actionIds) => {
+      if (thread && lastUserMessage) {
+        await saveChatExchange(thread, lastUserMessage.content, response, actionIds);
+      }
+    };
+
+    const runConfig = {
+      recursionLimit: getRecursionLimit(llmConfig), // caps tool-calling rounds at maxSteps
+      configurable: {
+        user: req.user, // ✅ pass user context to tools
+        threadId: thread?.id, // pending actions are filed under the thread
+      },
+    };
+
     console.log("🤖 Server-side AI Agent - Processing request:", {
       role,
       userId: req.user.id,
       userEmail: req.user.email,
       userRole: req.user.role,
       messageCount: messages.length,
+      stream,
+      threadId: thread?.id,
       timestamp: new Date().toISOString(),
     });
 
-    const agent = getAgent(role);
+    const agent = getAgent(role, role === "employee" ? req.user.id : null);
 
     // Convert messages to LangChain format
-    const langchainMessages = messages.map((msg) => {
-      if (msg.role === "user") {
-        return new HumanMessage(msg.content);
-      } else if (msg.role === "assistant") {
-        return new AIMessage(msg.content);
-      } else if (msg.role === "system") {
-        return new SystemMessage(msg.content);
-      }
-      return new HumanMessage(msg.content);
-    });
+    const langchainMessages = toLangchainMessages(messages);
+
+    if (stream) {
+      return await streamAgentResponse(agent, langchainMessages, runConfig, res, saveResponse);
+    }
 
     // Add debug logging for tool calls
     const result = await agent.invoke(
@@ -232,9 +680,7 @@ app.post("/api/chat", authenticateToken, async (req, res) => {
         messages: langchainMessages,
       },
       {
-        configurable: {
-          user: req.user, // ✅ pass user context to tools
-        },
+        ...runConfig,
         callbacks: [
           {
             handleAgentAction: (action) => {
@@ -257,9 +703,13 @@ app.post("/api/chat", authenticateToken, async (req, res) => {
       timestamp: new Date().toISOString(),
     });
 
+    const actionIds = getPendingActionIdsFromMessages(result.messages);
+    await saveResponse(result.messages[result.messages.length - 1].content, actionIds);
+
     res.json({
       success: true,
       response: result.messages[result.messages.length - 1].content,
+      pendingActions: await getPendingActionsByIds(actionIds),
       usage: {}, // LangGraph doesn't provide usage info in the same format
     });
   } catch (error) {
@@ -276,9 +726,15 @@ app.post("/api/chat", authenticateToken, async (req, res) => {
 if (process.env.VERCEL !== '1') {
   app.listen(port, () => {
     console.log(`🚀 API server running on port ${port}`);
+    console.log(`🤖 AI provider: ${llmConfig.provider} (model: ${llmConfig.model})`);
     console.log(
-      `🔐 OpenAI API key configured: ${process.env.OPENAI_API_KEY ? "Yes" : "No"}`
+      `🔐 AI API key configured: ${llmConfig.apiKey || llmConfig.provider === "fake" ? "Yes" : "No"}`
     );
+    // Loaded lazily so a job dependency that fails to import can't take the
+    // chat API down with it
+    import("./jobs/index.js")
+      .then(({ startJobs }) => startJobs())
+      .catch((error) => console.error("⏰ Background jobs not started:", error.message));
   });
 }
 
@@ -0,0 +1,171 @@
+import { once } from "node:events";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+// In-memory stand-in for Supabase: every query on a table resolves to all of
+// its rows, and inserts are recorded
+const db = vi.hoisted(() => ({ tables: {}, inserts: [] }));
+
+vi.mock("./supabase.js", () => {
+  const from = (table) => {
+    let rows = db.tables[table] || [];
+    const query = new Proxy(
+      {},
+      {
+        get(_, method) {
+          if (method === "then") {
+            return (resolve, reject) => Promise.resolve({ data: rows, error: null }).then(resolve, reject);
+          }
+          if (method === "single" || method === "maybeSingle") {
+            return async () => ({ data: rows[0] ?? null, error: null });
+          }
+          if (method === "insert") {
+            return (values) => {
+              db.inserts.push({ table, values });
+              rows = [].concat(values);
+              return query;
+            };
+          }
+          return () => query;
+        },
+      }
+    );
+    return query;
+  };
+
+  return {
+    supabase: {
+      from,
+      rpc: async () => ({ data: null, error: null }),
+      auth: {
+        getUser: async (token) =>
+          token === "admin-token"
+            ? { data: { user: { id: ADMIN_ID, email: "admin@example.com" } }, error: null }
+            : { data: { user: null }, error: { message: "Invalid token" } },
+      },
+    },
+  };
+});
+
+const ADMIN_ID = "00000000-0000-4000-8000-000000000001";
+const TASK_ID = "00000000-0000-4000-8000-000000000002";
+const THREAD_ID = "00000000-0000-4000-8000-000000000003";
+
+const listTasks = { toolCalls: [{ name: "list_tasks", args: { status: "ongoing" } }] };
+
+let server;
+
+// Load a fresh copy of the API so AI_FAKE_RESPONSES is read again
+async function startApi(responses) {
+  vi.stubEnv("VERCEL", "1");
+  vi.stubEnv("AI_PROVIDER", "fake");
+  vi.stubEnv("AI_MAX_STEPS", "");
+  vi.stubEnv("AI_FAKE_RESPONSES", JSON.stringify(responses));
+
+  vi.resetModules();
+  const { default: app } = await import("./api.js");
+  server = app.listen(0);
+  await once(server, "listening");
+}
+
+function postChat(body, token = "admin-token") {
+  return fetch(`http://localhost:${server.address().port}/api/chat`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}` },
+    body: JSON.stringify(body),
+  });
+}
+
+const ask = (content) => ({ messages: [{ role: "user", content }] });
+
+beforeEach(() => {
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  db.inserts = [];
+  db.tables = {
+    user_roles: [{ role: "admin" }],
+    chat_threads: [{ id: THREAD_ID, user_id: ADMIN_ID, title: "New conversation" }],
+    tasks: [
+      { id: TASK_ID, title: "Write the onboarding guide", status: "ongoing", priority: "high", progress: 40, assigned_to: null, deadline: null },
+    ],
+  };
+});
+
+afterEach(async () => {
+  server?.close();
+  server = undefined;
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+});
+
+describe("POST /api/chat", () => {
+  it("rejects requests without a valid token", async () => {
+    await startApi([]);
+
+    const res = await postChat(ask("Hi"), "not-a-token");
+
+    expect(res.status).toBe(401);
+  });
+
+  it("answers after calling a tool and saves the exchange to the thread", async () => {
+    await startApi([listTasks, "You have one ongoing task."]);
+
+    const res = await postChat({ ...ask("What is ongoing?"), threadId: THREAD_ID });
+    const body = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(body).toMatchObject({ success: true, response: "You have one ongoing task.", pendingActions: [] });
+    expect(db.inserts).toContainEqual({
+      table: "chat_messages",
+      values: [
+        { thread_id: THREAD_ID, role: "user", content: "What is ongoing?" },
+        { thread_id: THREAD_ID, role: "assistant", content: "You have one ongoing task.", action_ids: [] },
+      ],
+    });
+  });
+
+  it("streams tool events and tokens as NDJSON", async () => {
+    await startApi([listTasks, "You have one ongoing task."]);
+
+    const res = await postChat({ ...ask("What is ongoing?"), stream: true });
+    const events = (await res.text()).trim().split("\n").map((line) => JSON.parse(line));
+
+    expect(res.headers.get("content-type")).toContain("application/x-ndjson");
+    expect(events.filter((e) => e.type.startsWith("tool_"))).toMatchObject([
+      { type: "tool_start", tool: "list_tasks", args: { status: "ongoing" } },
+      { type: "tool_end", tool: "list_tasks", success: true },
+    ]);
+    expect(events.filter((e) => e.type === "token").map((e) => e.content).join("")).toBe("You have one ongoing task.");
+    expect(events.at(-1)).toEqual({ type: "done", response: "You have one ongoing task." });
+  });
+
+  describe("with the default AI_MAX_STEPS of 5", () => {
+    // A review of an overdue task: find it, read it, check its payments and
+    // then look through the rest of the workload
+    const adminFlow = [
+      { toolCalls: [{ name: "list_tasks", args: { overdue: true } }] },
+      { toolCalls: [{ name: "get_task_details", args: { taskId: TASK_ID } }] },
+      { toolCalls: [{ name: "list_payments", args: {} }] },
+      { toolCalls: [{ name: "list_tasks", args: { priority: "high" } }, { name: "list_tasks", args: { status: "invited" } }] },
+      { toolCalls: [{ name: "list_tasks", args: { status: "completed" } }] },
+    ];
+
+    it("completes a five-round tool flow", async () => {
+      await startApi([...adminFlow, "Here is the review."]);
+
+      const res = await postChat({ ...ask("Review the overdue work"), stream: true });
+      const events = (await res.text()).trim().split("\n").map((line) => JSON.parse(line));
+
+      expect(events.filter((e) => e.type === "tool_end" && e.success)).toHaveLength(6);
+      expect(events.at(-1)).toEqual({ type: "done", response: "Here is the review." });
+    });
+
+    it("stops a sixth round", async () => {
+      await startApi([...adminFlow, listTasks, "Here is the review."]);
+
+      const res = await postChat(ask("Review the overdue work"));
+      const body = await res.json();
+
+      expect(res.status).toBe(500);
+      expect(body.message).toMatch(/recursion limit/i);
+    });
+  });
+});
@@ -0,0 +1,35 @@
+// SMTP email delivery. Configured with the SMTP_* variables; without
+// SMTP_HOST email deliveries stay queued in the outbox. nodemailer is loaded
+// on first use, so a broken install only fails email delivery.
+let transport = null;
+
+export function isEmailConfigured(env = process.env) {
+  return Boolean(env.SMTP_HOST);
+}
+
+async function getTransport(env = process.env) {
+  if (!transport) {
+    const { default: nodemailer } = await import("nodemailer");
+    transport = nodemailer.createTransport({
+      host: env.SMTP_HOST,
+      port: parseInt(env.SMTP_PORT || "587", 10),
+      secure: env.SMTP_SECURE === "true",
+      auth: env.SMTP_USER ? { user: env.SMTP_USER, pass: env.SMTP_PASS } : undefined,
+    });
+  }
+  return transport;
+}
+
+/**
+ * Send one email; throws when the SMTP server rejects it
+ */
+export async function sendEmail({ to, subject, text, html }, env = process.env) {
+  const mailer = await getTransport(env);
+  await mailer.sendMail({
+    from: env.NOTIFICATION_EMAIL_FROM || "ChatFlow Agent <notifications@localhost>",
+    to,
+    subject,
+    text,
+    html,
+  });
+}
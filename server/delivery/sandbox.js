@@ -0,0 +1,103 @@
+// Local delivery sandbox: a fake SMTP server and a webhook receiver that
+// print whatever the delivery job sends, so email and webhook delivery can be
+// tried without real accounts. Run with `npm run delivery:sandbox`, then start
+// the API server with
+//   SMTP_HOST=localhost SMTP_PORT=2525
+// and add a webhook pointing at http://localhost:4040/webhook. Set
+// SANDBOX_WEBHOOK_SECRET to the webhook's secret to check signatures.
+// Set SANDBOX_WEBHOOK_FAIL=1 to answer 500 and watch the retries.
+import net from "node:net";
+import http from "node:http";
+import { verifyWebhookSignature } from "./webhook.js";
+
+const SMTP_PORT = parseInt(process.env.SANDBOX_SMTP_PORT || "2525", 10);
+const WEBHOOK_PORT = parseInt(process.env.SANDBOX_WEBHOOK_PORT || "4040", 10);
+
+// Just enough SMTP for nodemailer: no TLS, no auth, accept every message
+const smtpServer = net.createServer((socket) => {
+  let buffer = "";
+  let inData = false;
+  let envelope = { from: null, to: [] };
+
+  const reply = (line) => socket.write(`${line}\r\n`);
+  reply("220 sandbox ESMTP ready");
+
+  socket.on("data", (chunk) => {
+    buffer += chunk.toString("utf8");
+
+    while (buffer.length > 0) {
+      if (inData) {
+        const end = buffer.indexOf("\r\n.\r\n");
+        if (end === -1) return;
+
+        const message = buffer.slice(0, end).replace(/^\.\./gm, ".");
+        buffer = buffer.slice(end + 5);
+        inData = false;
+        console.log(`\n📧 Email from ${envelope.from} to ${envelope.to.join(", ")}\n${message}\n`);
+        envelope = { from: null, to: [] };
+        reply("250 OK: queued");
+        continue;
+      }
+
+      const lineEnd = buffer.indexOf("\r\n");
+      if (lineEnd === -1) return;
+
+      const line = buffer.slice(0, lineEnd);
+      buffer = buffer.slice(lineEnd + 2);
+      const command = line.slice(0, 4).toUpperCase();
+
+      if (command === "EHLO" || command === "HELO") {
+        reply("250 sandbox");
+      } else if (command === "MAIL") {
+        envelope.from = line.replace(/^MAIL FROM:\s*/i, "");
+        reply("250 OK");
+      } else if (command === "RCPT") {
+        envelope.to.push(line.replace(/^RCPT TO:\s*/i, ""));
+        reply("250 OK");
+      } else if (command === "DATA") {
+        inData = true;
+        reply("354 End data with <CR><LF>.<CR><LF>");
+      } else if (command === "QUIT") {
+        reply("221 Bye");
+        socket.end();
+        return;
+      } else if (command === "RSET" || command === "NOOP") {
+        envelope = { from: null, to: [] };
+        reply("250 OK");
+      } else {
+        reply("502 Command not implemented");
+      }
+    }
+  });
+
+  socket.on("error", () => {});
+});
+
+const webhookServer = http.createServer((req, res) => {
+  let body = "";
+  req.on("data", (chunk) => {
+    body += chunk;
+  });
+  req.on("end", () => {
+    const secret = process.env.SANDBOX_WEBHOOK_SECRET;
+    const signature = req.headers["x-webhook-signature"];
+    const verified = secret
+      ? verifyWebhookSignature(secret, req.headers["x-webhook-timestamp"], body, signature)
+        ? "valid signature"
+        : "INVALID signature"
+      : "signature not checked";
+
+    console.log(`\n🔔 ${req.method} ${req.url} ${req.headers["x-webhook-event"] || ""} (${verified})`);
+    console.log(body);
+
+    const status =
+      verified === "INVALID signature" ? 401 : process.env.SANDBOX_WEBHOOK_FAIL === "1" ? 500 : 200;
+    res.writeHead(status, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ received: status === 200 }));
+  });
+});
+
+smtpServer.listen(SMTP_PORT, () => console.log(`📧 Fake SMTP server on localhost:${SMTP_PORT}`));
+webhookServer.listen(WEBHOOK_PORT, () =>
+  console.log(`🔔 Webhook receiver on http://localhost:${WEBHOOK_PORT}/webhook`)
+);
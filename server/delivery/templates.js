@@ -0,0 +1,76 @@
+// Email templates for outbox deliveries, keyed by event (see
+// public.create_notification). Events without a template use the generic one,
+// which shows the notification title and message.
+
+const escapeHtml = (value) =>
+  String(value ?? "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const layout = (heading, paragraphs, appUrl) => {
+  const body = paragraphs.map((text) => `<p>${escapeHtml(text)}</p>`).join("\n");
+  const link = appUrl ? `<p><a href="${escapeHtml(appUrl)}">Open ChatFlow Agent</a></p>` : "";
+  return `<h2>${escapeHtml(heading)}</h2>\n${body}\n${link}`;
+};
+
+const plain = (heading, paragraphs, appUrl) =>
+  [heading, "", ...paragraphs, ...(appUrl ? ["", `Open ChatFlow Agent: ${appUrl}`] : [])].join("\n");
+
+const TEMPLATES = {
+  invitation_received: (payload) => ({
+    subject: `New task invitation: ${payload.task_title || payload.title}`,
+    heading: "You've been invited to a task",
+    paragraphs: [payload.message, "Open your task invitations to accept or decline before it expires."],
+  }),
+  deadline_tomorrow: (payload) => ({
+    subject: `Deadline tomorrow: ${payload.task_title || payload.title}`,
+    heading: "A deadline is coming up",
+    paragraphs: [payload.message, "Post a progress update if the task is at risk."],
+  }),
+  payment_approved: (payload) => ({
+    subject: payload.metadata?.amount ? `Payment of $${payload.metadata.amount} approved` : "Payment approved",
+    heading: "Your payment was approved",
+    paragraphs: [payload.message, "It will be paid out with the next payment run."],
+  }),
+};
+
+const genericTemplate = (payload) => ({
+  subject: payload.title,
+  heading: payload.title,
+  paragraphs: [payload.message],
+});
+
+/**
+ * Render one notification as an email
+ * @returns {{ subject: string, text: string, html: string }}
+ */
+export function renderNotificationEmail(payload, { appUrl } = {}) {
+  const template = TEMPLATES[payload.event] || genericTemplate;
+  const { subject, heading, paragraphs } = template(payload);
+
+  return {
+    subject,
+    text: plain(heading, paragraphs, appUrl),
+    html: layout(heading, paragraphs, appUrl),
+  };
+}
+
+/**
+ * Render several notifications as one digest email, oldest first
+ * @returns {{ subject: string, text: string, html: string }}
+ */
+export function renderDigestEmail(payloads, { appUrl } = {}) {
+  const count = payloads.length;
+  const heading = `You have ${count} new notification${count === 1 ? "" : "s"}`;
+  const items = payloads.map((payload) => `${payload.title}: ${payload.message}`);
+
+  return {
+    subject: `Your daily digest: ${count} notification${count === 1 ? "" : "s"}`,
+    text: plain(heading, items.map((item) => `- ${item}`), appUrl),
+    html: `<h2>${escapeHtml(heading)}</h2>\n<ul>\n${items
+      .map((item) => `<li>${escapeHtml(item)}</li>`)
+      .join("\n")}\n</ul>\n${appUrl ? `<p><a href="${escapeHtml(appUrl)}">Open ChatFlow Agent</a></p>` : ""}`,
+  };
+}
@@ -0,0 +1,54 @@
+// Signed webhook delivery. Each request carries
+//   X-Webhook-Id         the outbox id, stable across retries (for dedupe)
+//   X-Webhook-Event      the notification event
+//   X-Webhook-Timestamp  unix seconds when this attempt was signed
+//   X-Webhook-Signature  sha256=<hex HMAC-SHA256 of "<timestamp>.<body>">
+// keyed with the webhook's secret.
+import { createHmac, timingSafeEqual } from "node:crypto";
+
+const WEBHOOK_TIMEOUT_MS = 10 * 1000;
+
+export function signWebhookBody(secret, timestamp, body) {
+  return `sha256=${createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`;
+}
+
+/**
+ * Check a received signature, e.g. in a webhook receiver
+ */
+export function verifyWebhookSignature(secret, timestamp, body, signature) {
+  const expected = Buffer.from(signWebhookBody(secret, timestamp, body));
+  const received = Buffer.from(String(signature || ""));
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
+
+/**
+ * POST one outbox delivery to its webhook; throws on network errors,
+ * timeouts and non-2xx responses
+ */
+export async function sendWebhook(webhook, delivery) {
+  const body = JSON.stringify({
+    id: delivery.id,
+    event: delivery.event,
+    created_at: delivery.created_at,
+    data: delivery.payload,
+  });
+  const timestamp = Math.floor(Date.now() / 1000).toString();
+
+  const response = await fetch(webhook.url, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "User-Agent": "ChatFlow-Agent-Webhooks",
+      "X-Webhook-Id": delivery.id,
+      "X-Webhook-Event": delivery.event,
+      "X-Webhook-Timestamp": timestamp,
+      "X-Webhook-Signature": signWebhookBody(webhook.secret, timestamp, body),
+    },
+    body,
+    signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Webhook responded with ${response.status} ${response.statusText}`);
+  }
+}
@@ -0,0 +1,29 @@
+// Reminds assignees of upcoming and missed deadlines and escalates overdue
+// tasks to their creator (see public.send_deadline_reminders). Each reminder
+// is recorded in the database, so reruns never send it again.
+import { supabase } from "../supabase.js";
+
+/**
+ * Send the deadline reminders that are due. Returns a log line, or null when
+ * nothing was sent.
+ */
+export async function sendDeadlineReminders(env = process.env) {
+  const remindBeforeHours = parseFloat(env.DEADLINE_REMIND_BEFORE_HOURS || "24");
+  const escalateAfterHours = parseFloat(env.DEADLINE_ESCALATION_GRACE_HOURS || "24");
+
+  const { data, error } = await supabase.rpc("send_deadline_reminders", {
+    _remind_before: `${remindBeforeHours} hours`,
+    _escalate_after: `${escalateAfterHours} hours`,
+  });
+
+  if (error) {
+    throw new Error(`Failed to send deadline reminders: ${error.message}`);
+  }
+
+  const { due_soon = 0, overdue = 0, escalated = 0 } = data?.[0] || {};
+  if (due_soon + overdue + escalated === 0) {
+    return null;
+  }
+
+  return `Sent ${due_soon} upcoming, ${overdue} overdue and ${escalated} escalation reminder(s)`;
+}
@@ -0,0 +1,50 @@
+// Recomputes employee performance metrics from task history (see
+// public.compute_employee_metrics). Task changes already refresh the assignee;
+// the periodic run catches work that became overdue in the meantime.
+import { supabase } from "../supabase.js";
+
+const METRIC_COLUMNS =
+  "user_id, performance_score, on_time_rate, quality_score, tasks_completed, avg_completion_time";
+
+/**
+ * Recompute every employee's metrics. Returns a log line, or null when
+ * nothing changed.
+ */
+export async function refreshEmployeeMetrics(source = "job") {
+  const { data: changedCount, error } = await supabase.rpc("refresh_all_employee_metrics", {
+    _source: source,
+  });
+
+  if (error) {
+    throw new Error(`Failed to refresh employee metrics: ${error.message}`);
+  }
+
+  return changedCount > 0 ? `Updated metrics for ${changedCount} employee(s)` : null;
+}
+
+/**
+ * Recompute one employee's metrics on request and return the stored values,
+ * or null when the user has no employee profile.
+ */
+export async function recomputeEmployeeMetrics(userId) {
+  const { error } = await supabase.rpc("refresh_employee_metrics", {
+    _user_id: userId,
+    _source: "manual",
+  });
+
+  if (error) {
+    throw new Error(`Failed to recompute employee metrics: ${error.message}`);
+  }
+
+  const { data, error: fetchError } = await supabase
+    .from("employee_profiles")
+    .select(METRIC_COLUMNS)
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (fetchError) {
+    throw new Error(`Failed to load employee metrics: ${fetchError.message}`);
+  }
+
+  return data;
+}
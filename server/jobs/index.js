@@ -0,0 +1,83 @@
+// Background jobs run on an interval by the long-lived API server. Serverless
+// deployments (Vercel) don't run them; schedule the database functions with
+// pg_cron there instead. Job modules are imported when their job starts, so
+// one that fails to load (e.g. a missing delivery dependency) only disables
+// that job.
+
+const JOBS = [
+  {
+    name: "expire-invitations",
+    load: async () => (await import("./invitationExpiry.js")).expireInvitations,
+    intervalEnv: "INVITATION_EXPIRY_INTERVAL_MS",
+    defaultIntervalMs: 5 * 60 * 1000,
+  },
+  {
+    name: "materialize-task-templates",
+    load: async () => (await import("./taskTemplates.js")).materializeTaskTemplates,
+    intervalEnv: "TASK_TEMPLATE_INTERVAL_MS",
+    defaultIntervalMs: 15 * 60 * 1000,
+  },
+  {
+    name: "refresh-employee-metrics",
+    load: async () => (await import("./employeeMetrics.js")).refreshEmployeeMetrics,
+    intervalEnv: "EMPLOYEE_METRICS_INTERVAL_MS",
+    defaultIntervalMs: 60 * 60 * 1000,
+  },
+  {
+    name: "deliver-notifications",
+    load: async () => (await import("./notificationDelivery.js")).deliverNotifications,
+    intervalEnv: "NOTIFICATION_DELIVERY_INTERVAL_MS",
+    defaultIntervalMs: 30 * 1000,
+  },
+  {
+    name: "send-deadline-reminders",
+    load: async () => (await import("./deadlineReminders.js")).sendDeadlineReminders,
+    intervalEnv: "DEADLINE_REMINDER_INTERVAL_MS",
+    defaultIntervalMs: 15 * 60 * 1000,
+  },
+];
+
+/**
+ * Start every job whose interval is not set to 0. Each job runs once at
+ * startup, then on its interval. Resolves to a function that stops them all.
+ */
+export async function startJobs(env = process.env) {
+  const timers = [];
+
+  for (const job of JOBS) {
+    const intervalMs = parseInt(env[job.intervalEnv] || String(job.defaultIntervalMs), 10);
+
+    if (!intervalMs) {
+      console.log(`⏰ Job ${job.name} disabled (${job.intervalEnv}=0)`);
+      continue;
+    }
+
+    let run;
+    try {
+      run = await job.load();
+    } catch (error) {
+      console.error(`⏰ Job ${job.name} not started:`, error.message);
+      continue;
+    }
+
+    const runJob = async () => {
+      try {
+        const summary = await run();
+        if (summary) {
+          console.log(`⏰ Job ${job.name}: ${summary}`);
+        }
+      } catch (error) {
+        // A failed run is retried on the next interval
+        console.error(`⏰ Job ${job.name} failed:`, error.message);
+      }
+    };
+
+    runJob();
+    const timer = setInterval(runJob, intervalMs);
+    // Don't keep the process alive just for the jobs
+    timer.unref();
+    timers.push(timer);
+  }
+
+  return () => timers.forEach((timer) => clearInterval(timer));
+}
@@ -0,0 +1,17 @@
+// Expires unanswered task invitations; the database then invites the next
+// ranked candidate (see public.expire_invitations)
+import { supabase } from "../supabase.js";
+
+/**
+ * Expire every overdue pending invitation. Returns a log line, or null when
+ * there was nothing to do.
+ */
+export async function expireInvitations() {
+  const { data: expiredCount, error } = await supabase.rpc("expire_invitations");
+
+  if (error) {
+    throw new Error(`Failed to expire invitations: ${error.message}`);
+  }
+
+  return expiredCount > 0 ? `Expired ${expiredCount} invitation(s)` : null;
+}
@@ -0,0 +1,176 @@
+// Sends queued emails and webhook calls from public.notification_outbox.
+// Failed sends are retried with exponential backoff until
+// NOTIFICATION_MAX_ATTEMPTS; digest emails are sent as one email per user.
+import { supabase } from "../supabase.js";
+import { isEmailConfigured, sendEmail } from "../delivery/email.js";
+import { sendWebhook } from "../delivery/webhook.js";
+import { renderDigestEmail, renderNotificationEmail } from "../delivery/templates.js";
+
+const BATCH_SIZE = 50;
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+
+/**
+ * Delay before retry number `attempts` (1-based): the base delay doubled per
+ * attempt, capped at an hour
+ */
+export function retryDelayMs(attempts, baseMs) {
+  return Math.min(MAX_RETRY_DELAY_MS, baseMs * 2 ** Math.max(0, attempts - 1));
+}
+
+async function markSent(ids) {
+  if (ids.length === 0) return;
+
+  const { error } = await supabase
+    .from("notification_outbox")
+    .update({ status: "sent", sent_at: new Date().toISOString(), locked_at: null, last_error: null })
+    .in("id", ids);
+
+  if (error) {
+    throw new Error(`Failed to mark deliveries sent: ${error.message}`);
+  }
+}
+
+async function markFailed(rows, message, { maxAttempts, retryBaseMs }) {
+  let retrying = 0;
+
+  for (const row of rows) {
+    const giveUp = row.attempts >= maxAttempts;
+    if (!giveUp) retrying++;
+
+    const { error } = await supabase
+      .from("notification_outbox")
+      .update({
+        status: giveUp ? "failed" : "pending",
+        locked_at: null,
+        last_error: message.slice(0, 1000),
+        ...(giveUp
+          ? {}
+          : { next_attempt_at: new Date(Date.now() + retryDelayMs(row.attempts, retryBaseMs)).toISOString() }),
+      })
+      .eq("id", row.id);
+
+    if (error) {
+      console.error(`Failed to record delivery failure for ${row.id}:`, error.message);
+    }
+  }
+
+  return retrying;
+}
+
+/**
+ * Send every due outbox row. Returns a log line, or null when nothing was due.
+ */
+export async function deliverNotifications(env = process.env) {
+  const options = {
+    maxAttempts: parseInt(env.NOTIFICATION_MAX_ATTEMPTS || "6", 10),
+    retryBaseMs: parseInt(env.NOTIFICATION_RETRY_BASE_MS || "60000", 10),
+  };
+  const appUrl = env.FRONTEND_URL;
+
+  // Without SMTP, emails wait in the outbox until it is configured
+  const { data: rows, error } = await supabase.rpc("claim_notification_outbox", {
+    _channels: isEmailConfigured(env) ? ["email", "webhook"] : ["webhook"],
+    _limit: BATCH_SIZE,
+  });
+
+  if (error) {
+    throw new Error(`Failed to claim notification outbox: ${error.message}`);
+  }
+  if (!rows || rows.length === 0) {
+    return null;
+  }
+
+  const emailRows = rows.filter((row) => row.channel === "email");
+  const webhookRows = rows.filter((row) => row.channel === "webhook");
+  const sentIds = [];
+  let retrying = 0;
+  let failed = 0;
+
+  const fail = async (group, message) => {
+    const retried = await markFailed(group, message, options);
+    retrying += retried;
+    failed += group.length - retried;
+  };
+
+  if (emailRows.length > 0) {
+    const userIds = [...new Set(emailRows.map((row) => row.user_id))];
+    const { data: profiles, error: profileError } = await supabase
+      .from("profiles")
+      .select("id, email")
+      .in("id", userIds);
+
+    if (profileError) {
+      await fail(emailRows, `Failed to load recipients: ${profileError.message}`);
+    } else {
+      const emails = new Map((profiles || []).map((profile) => [profile.id, profile.email]));
+
+      // Immediate emails go one by one; digest emails are one per user
+      const groups = emailRows.filter((row) => !row.digest).map((row) => [row]);
+      const digests = new Map();
+      for (const row of emailRows.filter((row) => row.digest)) {
+        digests.set(row.user_id, [...(digests.get(row.user_id) || []), row]);
+      }
+      groups.push(...digests.values());
+
+      for (const group of groups) {
+        const to = emails.get(group[0].user_id);
+        if (!to) {
+          await fail(group, "Recipient has no email address");
+          continue;
+        }
+
+        const message = group[0].digest
+          ? renderDigestEmail(
+              [...group].sort((a, b) => a.created_at.localeCompare(b.created_at)).map((row) => row.payload),
+              { appUrl }
+            )
+          : renderNotificationEmail(group[0].payload, { appUrl });
+
+        try {
+          await sendEmail({ to, ...message }, env);
+          sentIds.push(...group.map((row) => row.id));
+        } catch (sendError) {
+          await fail(group, sendError.message);
+        }
+      }
+    }
+  }
+
+  if (webhookRows.length > 0) {
+    const webhookIds = [...new Set(webhookRows.map((row) => row.webhook_id))];
+    const { data: webhooks, error: webhookError } = await supabase
+      .from("notification_webhooks")
+      .select("id, url, secret, is_active")
+      .in("id", webhookIds);
+
+    if (webhookError) {
+      await fail(webhookRows, `Failed to load webhooks: ${webhookError.message}`);
+    } else {
+      const byId = new Map((webhooks || []).map((webhook) => [webhook.id, webhook]));
+
+      for (const row of webhookRows) {
+        const webhook = byId.get(row.webhook_id);
+        if (!webhook?.is_active) {
+          // Nothing to retry against
+          await markFailed([row], "Webhook was disabled", { ...options, maxAttempts: 0 });
+          failed++;
+          continue;
+        }
+
+        try {
+          await sendWebhook(webhook, row);
+          sentIds.push(row.id);
+        } catch (sendError) {
+          await fail([row], sendError.message);
+        }
+      }
+    }
+  }
+
+  await markSent(sentIds);
+
+  const parts = [`sent ${sentIds.length}`];
+  if (retrying > 0) parts.push(`retrying ${retrying}`);
+  if (failed > 0) parts.push(`failed ${failed}`);
+  return `Delivered notifications: ${parts.join(", ")}`;
+}
@@ -0,0 +1,150 @@
+// Materializes recurring task templates: every occurrence that has fallen due
+// becomes a task, then the template's next_run_at moves to the next occurrence
+import { supabase } from "../supabase.js";
+import { nextOccurrence } from "../shared/recurrence.js";
+import { inviteEmployee } from "../tools/shared/helpers.js";
+
+// Occurrences created per template and run, so a template that was paused for
+// a long time doesn't flood the task list when it is switched back on
+const MAX_CATCH_UP_OCCURRENCES = 5;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Create the tasks of every due template occurrence. Returns a log line, or
+ * null when there was nothing to do.
+ */
+export async function materializeTaskTemplates(now = new Date()) {
+  const { data: templates, error } = await supabase
+    .from("task_templates")
+    .select("*")
+    .eq("is_active", true)
+    .lte("next_run_at", now.toISOString());
+
+  if (error) {
+    throw new Error(`Failed to load task templates: ${error.message}`);
+  }
+
+  let created = 0;
+  const failures = [];
+
+  for (const template of templates || []) {
+    try {
+      created += await materializeTemplate(template, now);
+    } catch (templateError) {
+      // Leave next_run_at alone so the occurrence is retried on the next run
+      failures.push(`${template.title}: ${templateError.message}`);
+    }
+  }
+
+  if (failures.length > 0) {
+    console.error("⏰ Task templates not materialized:", failures.join("; "));
+  }
+
+  return created > 0 ? `Created ${created} task(s) from templates` : null;
+}
+
+/**
+ * Create the due occurrences of one template and advance it. Returns how many
+ * tasks were created.
+ */
+async function materializeTemplate(template, now) {
+  // Tasks need an owner; templates whose creator was removed wait until an
+  // admin saves them again
+  if (!template.created_by) {
+    throw new Error("template has no owner");
+  }
+
+  const start = new Date(template.starts_at);
+  const until = template.ends_at ? new Date(template.ends_at) : null;
+  let occurrence = new Date(template.next_run_at);
+  let created = 0;
+  let processed = 0;
+
+  while (occurrence && occurrence <= now && processed < MAX_CATCH_UP_OCCURRENCES) {
+    if (await createOccurrenceTask(template, occurrence)) {
+      created++;
+    }
+    processed++;
+    occurrence = nextOccurrence(template.recurrence, start, occurrence, until);
+  }
+
+  const { error } = await supabase
+    .from("task_templates")
+    .update({
+      next_run_at: occurrence ? occurrence.toISOString() : null,
+      last_run_at: now.toISOString(),
+      // The recurrence has ended
+      is_active: occurrence !== null,
+    })
+    .eq("id", template.id);
+
+  if (error) {
+    throw new Error(`failed to advance template: ${error.message}`);
+  }
+
+  return created;
+}
+
+/**
+ * Create the task for one occurrence, inviting the template's default
+ * assignee if it has one. Returns false when it already exists.
+ */
+async function createOccurrenceTask(template, occurrence) {
+  const assignee = template.default_assignee;
+
+  const { data: task, error } = await supabase
+    .from("tasks")
+    .insert({
+      title: template.title,
+      description: template.description,
+      priority: template.priority,
+      estimated_hours: template.estimated_hours,
+      complexity_multiplier: template.complexity_multiplier,
+      project_id: template.project_id,
+      created_by: template.created_by,
+      deadline: new Date(occurrence.getTime() + template.deadline_offset_days * DAY_MS).toISOString(),
+      status: assignee ? "invited" : "pending",
+      progress: 0,
+      template_id: template.id,
+      occurrence_at: occurrence.toISOString(),
+    })
+    .select("id")
+    .single();
+
+  if (error) {
+    // unique_violation: an earlier run already created this occurrence
+    if (error.code === "23505") return false;
+    throw new Error(`failed to create task: ${error.message}`);
+  }
+
+  const skills = Array.isArray(template.required_skills) ? template.required_skills : [];
+  if (skills.length > 0) {
+    const { error: skillsError } = await supabase.from("task_required_skills").insert(
+      skills.map((skill) => ({
+        task_id: task.id,
+        skill: skill.name,
+        min_level: skill.level,
+      }))
+    );
+
+    if (skillsError) {
+      console.error(`Failed to add skills to task ${task.id}:`, skillsError.message);
+    }
+  }
+
+  // The task is assigned, and counts towards their workload, once they
+  // accept the invitation
+  if (assignee) {
+    try {
+      await inviteEmployee(task.id, assignee, template.created_by);
+    } catch (inviteError) {
+      // Leave the occurrence to be created again on the next run rather than
+      // as an invited task nobody was invited to
+      await supabase.from("tasks").delete().eq("id", task.id);
+      throw inviteError;
+    }
+  }
+
+  return true;
+}
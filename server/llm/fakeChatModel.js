@@ -0,0 +1,83 @@
+// Deterministic chat model for tests and local development without an API key
+import { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import { AIMessage, AIMessageChunk } from "@langchain/core/messages";
+import { ChatGenerationChunk } from "@langchain/core/outputs";
+
+/**
+ * Plays back a fixed script of responses, one per model call, cycling when it
+ * runs out. Each response is either a string or
+ * { content, toolCalls: [{ name, args }] } to make the agent call tools.
+ * With no script it echoes the last user message.
+ */
+export class FakeChatModel extends BaseChatModel {
+  constructor({ responses = [] } = {}) {
+    super({});
+    this.responses = responses;
+    this.callCount = 0;
+  }
+
+  _llmType() {
+    return "fake";
+  }
+
+  // Tool schemas are irrelevant to a scripted model
+  bindTools() {
+    return this;
+  }
+
+  nextMessage(messages) {
+    const callIndex = this.callCount++;
+
+    if (this.responses.length === 0) {
+      const lastUserMessage = [...messages].reverse().find((msg) => msg.getType() === "human");
+      return new AIMessage(`Echo: ${lastUserMessage?.content ?? ""}`);
+    }
+
+    const response = this.responses[callIndex % this.responses.length];
+
+    if (typeof response === "string") {
+      return new AIMessage(response);
+    }
+
+    return new AIMessage({
+      content: response.content || "",
+      tool_calls: (response.toolCalls || []).map((toolCall, index) => ({
+        id: `fake-call-${callIndex}-${index}`,
+        name: toolCall.name,
+        args: toolCall.args || {},
+        type: "tool_call",
+      })),
+    });
+  }
+
+  async _generate(messages) {
+    const message = this.nextMessage(messages);
+    return { generations: [{ text: message.content, message }] };
+  }
+
+  // Stream the content word by word, with any tool calls in the final chunk
+  async *_streamResponseChunks(messages, _options, runManager) {
+    const message = this.nextMessage(messages);
+    const words = message.content ? message.content.split(/(?<= )/) : [];
+
+    for (const [index, word] of words.entries()) {
+      const isLast = index === words.length - 1;
+      const chunk = new ChatGenerationChunk({
+        text: word,
+        message: new AIMessageChunk({
+          content: word,
+          tool_calls: isLast ? message.tool_calls : [],
+        }),
+      });
+      yield chunk;
+      await runManager?.handleLLMNewToken(word, undefined, undefined, undefined, undefined, { chunk });
+    }
+
+    if (words.length === 0) {
+      yield new ChatGenerationChunk({
+        text: "",
+        message: new AIMessageChunk({ content: "", tool_calls: message.tool_calls }),
+      });
+    }
+  }
+}
@@ -0,0 +1,91 @@
+// Chat model configuration: the provider is chosen per environment with AI_PROVIDER
+import { ChatOpenAI } from "@langchain/openai";
+import { ChatGoogleGenerativeAI } from "@langchain/google-genai";
+import { FakeChatModel } from "./fakeChatModel.js";
+
+const PROVIDER_DEFAULTS = {
+  gemini: { model: "gemini-2.5-flash" },
+  openai: { model: "zai-org/GLM-4.5-turbo", baseURL: "https://llm.chutes.ai/v1" },
+  ollama: { model: "llama3.1", baseURL: "http://localhost:11434/v1" },
+  fake: { model: "fake" },
+};
+
+function parseFakeResponses(value) {
+  if (!value) return [];
+
+  try {
+    const responses = JSON.parse(value);
+    return Array.isArray(responses) ? responses : [responses];
+  } catch {
+    throw new Error("AI_FAKE_RESPONSES must be a JSON array of responses");
+  }
+}
+
+/**
+ * Read the model configuration from the environment. Call it after dotenv has
+ * loaded (not at import time) so server/.env values are picked up.
+ */
+export function loadLLMConfig(env = process.env) {
+  const provider = env.AI_PROVIDER || "gemini";
+  const defaults = PROVIDER_DEFAULTS[provider];
+
+  if (!defaults) {
+    throw new Error(
+      `Unknown AI_PROVIDER "${provider}". Use one of: ${Object.keys(PROVIDER_DEFAULTS).join(", ")}`
+    );
+  }
+
+  return {
+    provider,
+    model: env.AI_MODEL || defaults.model,
+    temperature: parseFloat(env.AI_TEMPERATURE || "0.7"),
+    // Maximum tool-calling rounds per chat request
+    maxSteps: parseInt(env.AI_MAX_STEPS || "5", 10),
+    baseURL: env.AI_BASE_URL || defaults.baseURL,
+    apiKey:
+      provider === "gemini"
+        ? env.GOOGLE_GENERATIVE_AI_API_KEY
+        : provider === "ollama"
+        ? env.OPENAI_API_KEY || "ollama" // Ollama ignores the key, but the client requires one
+        : env.OPENAI_API_KEY,
+    fakeResponses: provider === "fake" ? parseFakeResponses(env.AI_FAKE_RESPONSES) : [],
+  };
+}
+
+/**
+ * Build the chat model for a config from loadLLMConfig
+ */
+export function createChatModel(config) {
+  switch (config.provider) {
+    case "gemini":
+      return new ChatGoogleGenerativeAI({
+        apiKey: config.apiKey,
+        model: config.model,
+        temperature: config.temperature,
+      });
+    // Ollama serves an OpenAI-compatible API under /v1
+    case "openai":
+    case "ollama":
+      return new ChatOpenAI({
+        apiKey: config.apiKey,
+        model: config.model,
+        temperature: config.temperature,
+        configuration: {
+          baseURL: config.baseURL,
+        },
+      });
+    case "fake":
+      return new FakeChatModel({ responses: config.fakeResponses });
+    default:
+      throw new Error(`Unsupported AI provider: ${config.provider}`);
+  }
+}
+
+/**
+ * LangGraph recursion limit for maxSteps: each step is a model call plus a
+ * tool call, and the final answer takes two more graph steps in
+ * langchain's createAgent
+ */
+export function getRecursionLimit(config) {
+  return config.maxSteps * 2 + 2;
+}
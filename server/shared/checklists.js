@@ -0,0 +1,57 @@
+// @ts-check
+// Task checklists, shared by TaskDialog and the checklist agent tools. Mirrors
+// public.checklist_progress in the task checklists migration - keep in sync.
+
+/**
+ * @typedef {Object} ChecklistItem
+ * @property {string} id
+ * @property {string} title
+ * @property {number} position
+ * @property {boolean} is_done
+ */
+
+export const MAX_CHECKLIST_TITLE_LENGTH = 200;
+
+/**
+ * Percentage of ticked items, or null when there is no checklist
+ * @param {Pick<ChecklistItem, "is_done">[] | null | undefined} items
+ * @returns {number | null}
+ */
+export function checklistProgress(items) {
+  if (!items || items.length === 0) return null;
+  const done = items.filter((item) => item.is_done).length;
+  return Math.round((100 * done) / items.length);
+}
+
+/**
+ * Position for an item appended after the existing ones
+ * @param {Pick<ChecklistItem, "position">[]} items
+ */
+export function nextChecklistPosition(items) {
+  return items.reduce((max, item) => Math.max(max, item.position), -1) + 1;
+}
+
+/**
+ * Find an item by id, 1-based number in display order, or (partial) title
+ * @template {ChecklistItem} T
+ * @param {T[]} items - In display order
+ * @param {string} reference
+ * @returns {T | T[] | null} The item, every candidate when a title is ambiguous, or null
+ */
+export function findChecklistItem(items, reference) {
+  const ref = reference.trim();
+  const byId = items.find((item) => item.id === ref);
+  if (byId) return byId;
+
+  if (/^#?\d+$/.test(ref)) {
+    return items[Number(ref.replace("#", "")) - 1] ?? null;
+  }
+
+  const lower = ref.toLowerCase();
+  const exact = items.find((item) => item.title.toLowerCase() === lower);
+  if (exact) return exact;
+
+  const partial = items.filter((item) => item.title.toLowerCase().includes(lower));
+  if (partial.length === 0) return null;
+  return partial.length === 1 ? partial[0] : partial;
+}
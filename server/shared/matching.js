@@ -0,0 +1,276 @@
+// @ts-check
+// Employee-to-task matching engine, shared by TaskAssignmentDialog and the
+// assign_task / search_employees_by_skills agent tools. Plain JavaScript
+// (typed with JSDoc) so the Node server can import it, like taskStatus.js.
+// The organisation's weights are stored in public.matching_weights.
+
+import { DEFAULT_REQUIRED_LEVEL, DEFAULT_SKILL_LEVEL, FUZZY_SKILL_THRESHOLD, skillSimilarity } from "./skills.js";
+
+/** @typedef {"low" | "medium" | "high"} TaskPriority */
+/** @typedef {"skillMatch" | "availability" | "workloadCapacity" | "performance"} MatchingFactor */
+
+/**
+ * Weight of each factor (summing to 1) plus a multiplier for the task's urgency
+ * @typedef {Record<MatchingFactor, number> & { urgency: number }} MatchingWeights
+ */
+
+/** @typedef {Record<TaskPriority, MatchingWeights>} MatchingWeightsByPriority */
+
+/** @typedef {import("./skills.js").SkillLevel} SkillLevel */
+
+/**
+ * @typedef {Object} MatchCandidate
+ * @property {Array<string | SkillLevel>} skills - Names without a level count as DEFAULT_SKILL_LEVEL
+ * @property {boolean | null} availability
+ * @property {number | null} currentWorkload - Active (accepted or ongoing) tasks
+ * @property {number | null} performanceScore - 0 to 1, as stored in employee_profiles
+ */
+
+/**
+ * @typedef {Object} MatchTask
+ * @property {Array<string | SkillLevel>} requiredSkills - Names without a level accept any proficiency
+ * @property {string} [priority]
+ */
+
+/**
+ * @typedef {Object} FactorScore
+ * @property {MatchingFactor} factor
+ * @property {string} label
+ * @property {number} value - Factor score, 0 to 100
+ * @property {number} weight
+ * @property {number} points - value * weight, before the urgency multiplier
+ */
+
+/**
+ * @typedef {Object} MatchResult
+ * @property {number} score - Overall match, 0 to 100
+ * @property {FactorScore[]} breakdown
+ * @property {number} urgency
+ * @property {string[]} matchedSkills - Required skills the employee has, at any level
+ * @property {string[]} belowLevelSkills - Matched skills held below the required level
+ * @property {string[]} missingSkills
+ */
+
+export const MATCHING_FACTORS = /** @type {const} */ ([
+  { factor: "skillMatch", label: "Skill match" },
+  { factor: "availability", label: "Availability" },
+  { factor: "workloadCapacity", label: "Workload capacity" },
+  { factor: "performance", label: "Performance" },
+]);
+
+// High priority work favours people who are free now; low priority work can
+// wait for the best skill fit
+/** @type {MatchingWeightsByPriority} */
+export const DEFAULT_MATCHING_WEIGHTS = {
+  low: { skillMatch: 0.5, availability: 0.2, workloadCapacity: 0.15, performance: 0.15, urgency: 0.8 },
+  medium: { skillMatch: 0.4, availability: 0.25, workloadCapacity: 0.2, performance: 0.15, urgency: 1.0 },
+  high: { skillMatch: 0.35, availability: 0.3, workloadCapacity: 0.25, performance: 0.1, urgency: 1.3 },
+};
+
+// Workload at which an employee has no capacity left
+const MAX_WORKLOAD = 10;
+// On high priority tasks, employees with this many active tasks count half capacity
+const BUSY_WORKLOAD = 5;
+// Skill score when the task lists no required skills, so other factors decide
+const NEUTRAL_SKILL_MATCH = 50;
+const UNAVAILABLE_SCORE = 10;
+
+/**
+ * Whether a set of weights satisfies the public.matching_weights constraints:
+ * every factor weight between 0 and 1, summing to 1, and an urgency multiplier
+ * between 0.1 and 3
+ * @param {MatchingWeights} weights
+ */
+export function isValidMatchingWeights(weights) {
+  const factorWeights = MATCHING_FACTORS.map(({ factor }) => weights[factor]);
+  if (!factorWeights.every((weight) => Number.isFinite(weight) && weight >= 0 && weight <= 1)) {
+    return false;
+  }
+  const total = factorWeights.reduce((sum, weight) => sum + weight, 0);
+  return Math.abs(total - 1) < 0.001 && Number.isFinite(weights.urgency) && weights.urgency >= 0.1 && weights.urgency <= 3;
+}
+
+/**
+ * Stored weight as a number; NUMERIC columns may arrive as strings, and a
+ * missing value is NaN rather than 0
+ * @param {unknown} value
+ */
+function toWeight(value) {
+  return value === null || value === undefined || value === "" ? NaN : Number(value);
+}
+
+/**
+ * Build the weights map from public.matching_weights rows, falling back to the
+ * defaults for priorities without a valid row
+ * @param {Array<{ priority: string, skill_match: number, availability: number, workload_capacity: number, performance: number, urgency_multiplier: number }> | null | undefined} rows
+ * @returns {MatchingWeightsByPriority}
+ */
+export function weightsFromRows(rows) {
+  const weights = { ...DEFAULT_MATCHING_WEIGHTS };
+
+  for (const row of rows || []) {
+    if (!(row.priority in weights)) continue;
+    const rowWeights = {
+      skillMatch: toWeight(row.skill_match),
+      availability: toWeight(row.availability),
+      workloadCapacity: toWeight(row.workload_capacity),
+      performance: toWeight(row.performance),
+      urgency: toWeight(row.urgency_multiplier),
+    };
+    if (isValidMatchingWeights(rowWeights)) {
+      weights[row.priority] = rowWeights;
+    }
+  }
+
+  return weights;
+}
+
+/**
+ * @param {string | SkillLevel} skill
+ * @param {number} defaultLevel
+ * @returns {SkillLevel}
+ */
+function toSkillLevel(skill, defaultLevel) {
+  return typeof skill === "string" ? { name: skill, level: defaultLevel } : skill;
+}
+
+/**
+ * Find the employee's entry for a required skill: the same canonical skill, or
+ * failing that the most similar name above the fuzzy threshold
+ * @param {string} required
+ * @param {SkillLevel[]} skills
+ * @returns {SkillLevel | undefined}
+ */
+function findSkill(required, skills) {
+  let best;
+  let bestSimilarity = FUZZY_SKILL_THRESHOLD;
+
+  for (const skill of skills) {
+    const similarity = skillSimilarity(required, skill.name);
+    if (similarity === 1) return skill;
+    if (similarity >= bestSimilarity) {
+      best = skill;
+      bestSimilarity = similarity;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Score one employee for a task, with the contribution of every factor
+ * @param {MatchCandidate} candidate
+ * @param {MatchTask} task
+ * @param {MatchingWeightsByPriority} [weightsByPriority]
+ * @returns {MatchResult}
+ */
+export function scoreCandidate(candidate, task, weightsByPriority = DEFAULT_MATCHING_WEIGHTS) {
+  const priority = task.priority in weightsByPriority ? task.priority : "medium";
+  const weights = weightsByPriority[priority];
+  const requiredSkills = task.requiredSkills
+    .map((skill) => toSkillLevel(skill, DEFAULT_REQUIRED_LEVEL))
+    .map((skill) => ({ ...skill, name: skill.name.trim() }))
+    .filter((skill) => skill.name);
+  const skills = (candidate.skills || []).map((skill) => toSkillLevel(skill, DEFAULT_SKILL_LEVEL));
+
+  /** @type {string[]} */
+  const matchedSkills = [];
+  /** @type {string[]} */
+  const belowLevelSkills = [];
+  /** @type {string[]} */
+  const missingSkills = [];
+  // Each required skill earns full credit at or above its level, and partial
+  // credit (level / required level) below it
+  let skillCredit = 0;
+
+  for (const required of requiredSkills) {
+    const held = findSkill(required.name, skills);
+    if (!held) {
+      missingSkills.push(required.name);
+      continue;
+    }
+    matchedSkills.push(required.name);
+    if (held.level < required.level) {
+      belowLevelSkills.push(required.name);
+    }
+    skillCredit += Math.min(1, held.level / required.level);
+  }
+
+  const workload = candidate.currentWorkload || 0;
+  let workloadCapacity = Math.max(0, ((MAX_WORKLOAD - workload) / MAX_WORKLOAD) * 100);
+  if (priority === "high" && workload >= BUSY_WORKLOAD) {
+    workloadCapacity *= 0.5;
+  }
+
+  /** @type {Record<MatchingFactor, number>} */
+  const values = {
+    skillMatch:
+      requiredSkills.length > 0 ? (skillCredit / requiredSkills.length) * 100 : NEUTRAL_SKILL_MATCH,
+    availability: candidate.availability ? 100 : UNAVAILABLE_SCORE,
+    workloadCapacity,
+    performance:
+      candidate.performanceScore === null || candidate.performanceScore === undefined
+        ? 50
+        : Math.min(100, Math.max(0, candidate.performanceScore * 100)),
+  };
+
+  const breakdown = MATCHING_FACTORS.map(({ factor, label }) => ({
+    factor,
+    label,
+    value: Math.round(values[factor]),
+    weight: weights[factor],
+    points: Math.round(values[factor] * weights[factor] * 10) / 10,
+  }));
+
+  const total = breakdown.reduce((sum, item) => sum + values[item.factor] * item.weight, 0);
+
+  return {
+    score: Math.round(Math.min(100, total * weights.urgency)),
+    breakdown,
+    urgency: weights.urgency,
+    matchedSkills,
+    belowLevelSkills,
+    missingSkills,
+  };
+}
+
+/**
+ * Score and sort employees for a task: best score first, then available
+ * employees, then the lightest workload
+ * @template {MatchCandidate} T
+ * @param {T[]} candidates
+ * @param {MatchTask} task
+ * @param {MatchingWeightsByPriority} [weightsByPriority]
+ * @returns {Array<T & { match: MatchResult }>}
+ */
+export function rankCandidates(candidates, task, weightsByPriority = DEFAULT_MATCHING_WEIGHTS) {
+  return candidates
+    .map((candidate) => ({ ...candidate, match: scoreCandidate(candidate, task, weightsByPriority) }))
+    .sort((a, b) => {
+      if (b.match.score !== a.match.score) return b.match.score - a.match.score;
+      if (Boolean(a.availability) !== Boolean(b.availability)) return a.availability ? -1 : 1;
+      return (a.currentWorkload || 0) - (b.currentWorkload || 0);
+    });
+}
+
+/**
+ * Short verdict for a match score
+ * @param {number} score
+ */
+export function describeMatch(score) {
+  if (score >= 70) return "Excellent fit";
+  if (score >= 50) return "Good fit";
+  if (score >= 30) return "Fair fit";
+  return "Possible fit";
+}
+
+/**
+ * One-line explanation of a match, e.g. for agent tool output
+ * @param {MatchResult} match
+ */
+export function explainMatch(match) {
+  const factors = match.breakdown
+    .map((item) => `${item.label} ${item.value}% x ${item.weight} = ${item.points}`)
+    .join(", ");
+  return `${factors}${match.urgency !== 1 ? `; priority multiplier x${match.urgency}` : ""}`;
+}
@@ -0,0 +1,155 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_MATCHING_WEIGHTS, rankCandidates, scoreCandidate, weightsFromRows } from "./matching.js";
+
+const candidate = (overrides = {}) => ({
+  skills: [],
+  availability: true,
+  currentWorkload: 0,
+  performanceScore: 1,
+  ...overrides,
+});
+
+const factorValues = (match) => Object.fromEntries(match.breakdown.map((item) => [item.factor, item.value]));
+
+describe("scoreCandidate", () => {
+  it("breaks the score down per factor", () => {
+    const match = scoreCandidate(
+      candidate({
+        skills: [{ name: "React", level: 2 }, "SQL"],
+        currentWorkload: 2,
+        performanceScore: 0.8,
+      }),
+      { requiredSkills: [{ name: "React", level: 4 }, "Python"], priority: "medium" }
+    );
+
+    // React held at half the required level earns half credit; Python is missing
+    expect(match.breakdown).toEqual([
+      { factor: "skillMatch", label: "Skill match", value: 25, weight: 0.4, points: 10 },
+      { factor: "availability", label: "Availability", value: 100, weight: 0.25, points: 25 },
+      { factor: "workloadCapacity", label: "Workload capacity", value: 80, weight: 0.2, points: 16 },
+      { factor: "performance", label: "Performance", value: 80, weight: 0.15, points: 12 },
+    ]);
+    expect(match.score).toBe(63);
+    expect(match.matchedSkills).toEqual(["React"]);
+    expect(match.belowLevelSkills).toEqual(["React"]);
+    expect(match.missingSkills).toEqual(["Python"]);
+  });
+
+  it("scores skill match as neutral when the task requires no skills", () => {
+    const match = scoreCandidate(
+      candidate({ availability: false, performanceScore: null }),
+      { requiredSkills: ["  "], priority: "medium" }
+    );
+
+    expect(factorValues(match)).toEqual({
+      skillMatch: 50,
+      availability: 10,
+      workloadCapacity: 100,
+      performance: 50,
+    });
+    expect(match.score).toBe(50);
+  });
+
+  it("applies the priority's urgency multiplier and caps the score at 100", () => {
+    const employee = candidate();
+    const low = scoreCandidate(employee, { requiredSkills: [], priority: "low" });
+    const high = scoreCandidate(employee, { requiredSkills: [], priority: "high" });
+
+    // Weighted sum is 75 for low and 82.5 for high
+    expect(low.urgency).toBe(0.8);
+    expect(low.score).toBe(60);
+    expect(high.urgency).toBe(1.3);
+    expect(high.score).toBe(100);
+  });
+
+  it("halves the capacity of busy employees on high priority tasks", () => {
+    const busy = candidate({ currentWorkload: 6 });
+
+    expect(factorValues(scoreCandidate(busy, { requiredSkills: [], priority: "medium" })).workloadCapacity).toBe(40);
+    expect(factorValues(scoreCandidate(busy, { requiredSkills: [], priority: "high" })).workloadCapacity).toBe(20);
+  });
+
+  it("treats an unknown priority as medium", () => {
+    const match = scoreCandidate(candidate(), { requiredSkills: [], priority: "urgent" });
+
+    expect(match.urgency).toBe(DEFAULT_MATCHING_WEIGHTS.medium.urgency);
+    expect(match.breakdown.map((item) => item.weight)).toEqual([0.4, 0.25, 0.2, 0.15]);
+  });
+});
+
+describe("rankCandidates", () => {
+  it("orders candidates by score", () => {
+    const ranked = rankCandidates(
+      [
+        candidate({ id: "novice", skills: [] }),
+        candidate({ id: "expert", skills: [{ name: "React", level: 5 }] }),
+        candidate({ id: "learner", skills: [{ name: "React", level: 1 }] }),
+      ],
+      { requiredSkills: [{ name: "React", level: 4 }], priority: "low" }
+    );
+
+    expect(ranked.map((c) => c.id)).toEqual(["expert", "learner", "novice"]);
+    expect(ranked[0].match.score).toBeGreaterThan(ranked[1].match.score);
+  });
+
+  it("breaks ties by availability, then by the lightest workload", () => {
+    // Only skills and performance count, so every candidate scores the same
+    const weights = weightsFromRows([
+      { priority: "medium", skill_match: 0.5, availability: 0, workload_capacity: 0, performance: 0.5, urgency_multiplier: 1 },
+    ]);
+
+    const ranked = rankCandidates(
+      [
+        candidate({ id: "away", availability: false, currentWorkload: 0 }),
+        candidate({ id: "busy", currentWorkload: 3 }),
+        candidate({ id: "free", currentWorkload: 1 }),
+      ],
+      { requiredSkills: [], priority: "medium" },
+      weights
+    );
+
+    expect(new Set(ranked.map((c) => c.match.score)).size).toBe(1);
+    expect(ranked.map((c) => c.id)).toEqual(["free", "busy", "away"]);
+  });
+});
+
+describe("weightsFromRows", () => {
+  const mediumRow = {
+    priority: "medium",
+    skill_match: "0.700",
+    availability: "0.100",
+    workload_capacity: "0.100",
+    performance: "0.100",
+    urgency_multiplier: "1.50",
+  };
+
+  it("falls back to the defaults without rows", () => {
+    expect(weightsFromRows(null)).toEqual(DEFAULT_MATCHING_WEIGHTS);
+    expect(weightsFromRows([])).toEqual(DEFAULT_MATCHING_WEIGHTS);
+  });
+
+  it("uses stored rows and keeps the defaults for other priorities", () => {
+    const weights = weightsFromRows([mediumRow, { ...mediumRow, priority: "urgent" }]);
+
+    expect(weights.medium).toEqual({
+      skillMatch: 0.7,
+      availability: 0.1,
+      workloadCapacity: 0.1,
+      performance: 0.1,
+      urgency: 1.5,
+    });
+    expect(weights.low).toEqual(DEFAULT_MATCHING_WEIGHTS.low);
+    expect(weights.high).toEqual(DEFAULT_MATCHING_WEIGHTS.high);
+    expect(weights).not.toHaveProperty("urgent");
+  });
+
+  it.each([
+    ["weights that don't add up to 1", { skill_match: 0.9 }],
+    ["a negative weight", { skill_match: 0.9, availability: -0.1 }],
+    ["a missing weight", { performance: null, skill_match: 0.8 }],
+    ["a non-numeric weight", { availability: "a lot" }],
+    ["an urgency multiplier out of range", { urgency_multiplier: 5 }],
+  ])("ignores a row with %s", (_, overrides) => {
+    expect(weightsFromRows([{ ...mediumRow, ...overrides }]).medium).toEqual(DEFAULT_MATCHING_WEIGHTS.medium);
+  });
+});
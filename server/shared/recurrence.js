@@ -0,0 +1,243 @@
+// @ts-check
+// RRULE-style recurrence for task templates, shared by the template manager and
+// the materialization job (server/jobs/taskTemplates.js). Supports the subset
+// admins need: FREQ=DAILY|WEEKLY|MONTHLY with INTERVAL, BYDAY for weekly rules
+// and BYMONTHDAY (1-31, or -1 for the last day) for monthly rules. Rules are
+// evaluated in UTC from the template's start time.
+
+export const RECURRENCE_FREQUENCIES = /** @type {const} */ (["DAILY", "WEEKLY", "MONTHLY"]);
+
+// RRULE weekday codes, Monday first
+export const WEEKDAYS = /** @type {const} */ ([
+  { code: "MO", label: "Monday" },
+  { code: "TU", label: "Tuesday" },
+  { code: "WE", label: "Wednesday" },
+  { code: "TH", label: "Thursday" },
+  { code: "FR", label: "Friday" },
+  { code: "SA", label: "Saturday" },
+  { code: "SU", label: "Sunday" },
+]);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Stop looking for an occurrence after this many periods (e.g. BYMONTHDAY=31
+// with an interval that only lands on short months)
+const MAX_PERIODS = 1000;
+
+/** @typedef {typeof RECURRENCE_FREQUENCIES[number]} RecurrenceFrequency */
+
+/**
+ * @typedef {Object} Recurrence
+ * @property {RecurrenceFrequency} freq
+ * @property {number} interval - Every n days, weeks or months
+ * @property {string[]} byDay - Weekday codes (weekly rules only)
+ * @property {number | null} byMonthDay - Day of the month, -1 for the last (monthly rules only)
+ */
+
+/**
+ * Parse a rule such as "FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH". Throws on anything
+ * outside the supported subset so bad rules are rejected when saved.
+ * @param {string} rule
+ * @returns {Recurrence}
+ */
+export function parseRecurrence(rule) {
+  /** @type {Record<string, string>} */
+  const parts = {};
+  for (const part of rule.replace(/^RRULE:/i, "").split(";")) {
+    if (!part.trim()) continue;
+    const [key, value] = part.split("=");
+    if (!key || value === undefined) {
+      throw new Error(`Invalid recurrence part "${part}"`);
+    }
+    parts[key.trim().toUpperCase()] = value.trim().toUpperCase();
+  }
+
+  const freq = /** @type {RecurrenceFrequency} */ (parts.FREQ);
+  if (!RECURRENCE_FREQUENCIES.includes(freq)) {
+    throw new Error(`Recurrence FREQ must be one of ${RECURRENCE_FREQUENCIES.join(", ")}`);
+  }
+
+  const interval = parts.INTERVAL === undefined ? 1 : Number(parts.INTERVAL);
+  if (!Number.isInteger(interval) || interval < 1 || interval > 365) {
+    throw new Error("Recurrence INTERVAL must be a whole number from 1 to 365");
+  }
+
+  const codes = WEEKDAYS.map((day) => day.code);
+  const byDay = parts.BYDAY ? parts.BYDAY.split(",").map((day) => day.trim()) : [];
+  if (byDay.some((day) => !codes.includes(/** @type {any} */ (day)))) {
+    throw new Error(`Recurrence BYDAY must list weekdays from ${codes.join(",")}`);
+  }
+  if (byDay.length > 0 && freq !== "WEEKLY") {
+    throw new Error("Recurrence BYDAY is only supported for weekly rules");
+  }
+
+  let byMonthDay = null;
+  if (parts.BYMONTHDAY !== undefined) {
+    byMonthDay = Number(parts.BYMONTHDAY);
+    if (freq !== "MONTHLY") {
+      throw new Error("Recurrence BYMONTHDAY is only supported for monthly rules");
+    }
+    if (!Number.isInteger(byMonthDay) || byMonthDay === 0 || byMonthDay < -1 || byMonthDay > 31) {
+      throw new Error("Recurrence BYMONTHDAY must be 1-31, or -1 for the last day");
+    }
+  }
+
+  // Keep weekdays in calendar order, without duplicates
+  const sortedDays = codes.filter((code) => byDay.includes(code));
+
+  return { freq, interval, byDay: sortedDays, byMonthDay };
+}
+
+/**
+ * Build the rule string for a recurrence, e.g. from the template form
+ * @param {Recurrence} recurrence
+ */
+export function formatRecurrence({ freq, interval, byDay, byMonthDay }) {
+  const parts = [`FREQ=${freq}`];
+  if (interval > 1) parts.push(`INTERVAL=${interval}`);
+  if (freq === "WEEKLY" && byDay.length > 0) parts.push(`BYDAY=${byDay.join(",")}`);
+  if (freq === "MONTHLY" && byMonthDay !== null) parts.push(`BYMONTHDAY=${byMonthDay}`);
+  return parts.join(";");
+}
+
+/**
+ * Plain-English summary, e.g. "Every 2 weeks on Monday and Thursday"
+ * @param {string} rule
+ */
+export function describeRecurrence(rule) {
+  const { freq, interval, byDay, byMonthDay } = parseRecurrence(rule);
+  const unit = { DAILY: "day", WEEKLY: "week", MONTHLY: "month" }[freq];
+  const every = interval === 1 ? `Every ${unit}` : `Every ${interval} ${unit}s`;
+
+  if (freq === "WEEKLY" && byDay.length > 0) {
+    const labels = byDay.map((code) => WEEKDAYS.find((day) => day.code === code)?.label);
+    const list = labels.length > 1 ? `${labels.slice(0, -1).join(", ")} and ${labels[labels.length - 1]}` : labels[0];
+    return `${every} on ${list}`;
+  }
+
+  if (freq === "MONTHLY" && byMonthDay !== null) {
+    return `${every} on the ${byMonthDay === -1 ? "last day" : ordinal(byMonthDay)}`;
+  }
+
+  return every;
+}
+
+/**
+ * First occurrence strictly after `after` (or the start itself when `after` is
+ * omitted), or null if there is none before `until`
+ * @param {string} rule
+ * @param {Date} start - First possible occurrence; its UTC time of day is kept
+ * @param {Date | null} [after]
+ * @param {Date | null} [until]
+ * @returns {Date | null}
+ */
+export function nextOccurrence(rule, start, after = null, until = null) {
+  const recurrence = parseRecurrence(rule);
+  const threshold = after ? Math.max(after.getTime() + 1, start.getTime()) : start.getTime();
+
+  for (const occurrence of iterateOccurrences(recurrence, start, new Date(threshold))) {
+    if (until && occurrence.getTime() > until.getTime()) return null;
+    if (occurrence.getTime() >= threshold) return occurrence;
+  }
+
+  return null;
+}
+
+/**
+ * The next `count` occurrences after `after` (or from the start), for previews
+ * @param {string} rule
+ * @param {Date} start
+ * @param {number} count
+ * @param {Date | null} [after]
+ * @param {Date | null} [until]
+ * @returns {Date[]}
+ */
+export function upcomingOccurrences(rule, start, count, after = null, until = null) {
+  /** @type {Date[]} */
+  const occurrences = [];
+  let cursor = after;
+
+  while (occurrences.length < count) {
+    const next = nextOccurrence(rule, start, cursor, until);
+    if (!next) break;
+    occurrences.push(next);
+    cursor = next;
+  }
+
+  return occurrences;
+}
+
+/**
+ * Occurrences in chronological order, skipping the periods that end before `from`
+ * @param {Recurrence} recurrence
+ * @param {Date} start
+ * @param {Date} from
+ * @returns {Generator<Date>}
+ */
+function* iterateOccurrences({ freq, interval, byDay, byMonthDay }, start, from) {
+  const timeOfDay = start.getTime() - startOfUtcDay(start).getTime();
+  const firstPeriod = Math.max(0, periodsBetween(freq, interval, start, from) - 1);
+
+  for (let period = firstPeriod; period < firstPeriod + MAX_PERIODS; period++) {
+    /** @type {Date[]} */
+    let days = [];
+
+    if (freq === "DAILY") {
+      days = [new Date(startOfUtcDay(start).getTime() + period * interval * DAY_MS)];
+    } else if (freq === "WEEKLY") {
+      // Weeks start on Monday, as in RRULE's default WKST
+      const weekday = (start.getUTCDay() + 6) % 7;
+      const weekStart = startOfUtcDay(start).getTime() - weekday * DAY_MS + period * interval * 7 * DAY_MS;
+      const codes = byDay.length > 0 ? byDay : [WEEKDAYS[weekday].code];
+      days = codes.map(
+        (code) => new Date(weekStart + WEEKDAYS.findIndex((day) => day.code === code) * DAY_MS)
+      );
+    } else {
+      const month = start.getUTCMonth() + period * interval;
+      const year = start.getUTCFullYear() + Math.floor(month / 12);
+      const monthIndex = month % 12;
+      const daysInMonth = new Date(Date.UTC(year, monthIndex + 1, 0)).getUTCDate();
+      const day = byMonthDay === null ? start.getUTCDate() : byMonthDay === -1 ? daysInMonth : byMonthDay;
+      // Like RRULE, months without that day are skipped rather than clamped
+      if (day <= daysInMonth) {
+        days = [new Date(Date.UTC(year, monthIndex, day))];
+      }
+    }
+
+    for (const day of days) {
+      const occurrence = new Date(day.getTime() + timeOfDay);
+      if (occurrence.getTime() >= start.getTime()) {
+        yield occurrence;
+      }
+    }
+  }
+}
+
+/**
+ * Whole periods of the rule between two dates (rounded down)
+ * @param {RecurrenceFrequency} freq
+ * @param {number} interval
+ * @param {Date} start
+ * @param {Date} from
+ */
+function periodsBetween(freq, interval, start, from) {
+  if (from.getTime() <= start.getTime()) return 0;
+  if (freq === "MONTHLY") {
+    const months =
+      (from.getUTCFullYear() - start.getUTCFullYear()) * 12 + from.getUTCMonth() - start.getUTCMonth();
+    return Math.floor(months / interval);
+  }
+  const periodMs = (freq === "WEEKLY" ? 7 : 1) * interval * DAY_MS;
+  return Math.floor((from.getTime() - start.getTime()) / periodMs);
+}
+
+/** @param {Date} date */
+function startOfUtcDay(date) {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+/** @param {number} n */
+function ordinal(n) {
+  const suffix = n % 100 >= 11 && n % 100 <= 13 ? "th" : ["th", "st", "nd", "rd"][n % 10] || "th";
+  return `${n}${suffix}`;
+}
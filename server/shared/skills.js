@@ -0,0 +1,179 @@
+// @ts-check
+// Skill taxonomy helpers shared by the skill picker, the matching engine and
+// the agent tools. Names are compared by key (see public.skill_key in the
+// skill taxonomy migration) and resolved through the catalog's aliases.
+
+/**
+ * @typedef {Object} CatalogSkill
+ * @property {string} name - Canonical name
+ * @property {string[]} [aliases]
+ * @property {string | null} [category]
+ */
+
+/**
+ * @typedef {Object} SkillLevel
+ * @property {string} name
+ * @property {number} level - 1 to 5; on task requirements, the minimum level
+ */
+
+export const SKILL_LEVELS = /** @type {const} */ ([
+  { value: 1, label: "Beginner" },
+  { value: 2, label: "Elementary" },
+  { value: 3, label: "Intermediate" },
+  { value: 4, label: "Advanced" },
+  { value: 5, label: "Expert" },
+]);
+
+// Level assumed for employee skills recorded without one
+export const DEFAULT_SKILL_LEVEL = 3;
+// Level a task requires unless it says otherwise: any proficiency will do
+export const DEFAULT_REQUIRED_LEVEL = 1;
+
+// Names at least this similar are treated as the same skill (catches typos
+// such as "Javascrpt"), but only for keys long enough to make that safe
+export const FUZZY_SKILL_THRESHOLD = 0.85;
+const FUZZY_MIN_KEY_LENGTH = 5;
+
+/**
+ * Comparison key for a skill name: lower case, letters and digits only,
+ * keeping + and # ("React.js" -> "reactjs", "C++" -> "c++")
+ * @param {string | null | undefined} name
+ */
+export function skillKey(name) {
+  return (name || "").toLowerCase().replace(/[^\p{L}\p{N}+#]/gu, "");
+}
+
+/**
+ * @param {number} level
+ */
+export function skillLevelLabel(level) {
+  return SKILL_LEVELS.find((item) => item.value === level)?.label ?? `Level ${level}`;
+}
+
+/**
+ * Levenshtein distance between two keys
+ * @param {string} a
+ * @param {string} b
+ */
+function editDistance(a, b) {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+/**
+ * Similarity of two skill names from 0 to 1 (1 = same key)
+ * @param {string} a
+ * @param {string} b
+ */
+export function skillSimilarity(a, b) {
+  const keyA = skillKey(a);
+  const keyB = skillKey(b);
+  if (!keyA || !keyB) return 0;
+  if (keyA === keyB) return 1;
+  if (Math.min(keyA.length, keyB.length) < FUZZY_MIN_KEY_LENGTH) return 0;
+  return 1 - editDistance(keyA, keyB) / Math.max(keyA.length, keyB.length);
+}
+
+/**
+ * Build a resolver from catalog names and aliases to canonical names. Unknown
+ * names resolve to the closest catalog skill if it is similar enough,
+ * otherwise to the trimmed name itself.
+ * @param {CatalogSkill[]} catalog
+ * @returns {(name: string) => string}
+ */
+export function createSkillResolver(catalog) {
+  /** @type {Map<string, string>} */
+  const byKey = new Map();
+
+  for (const skill of catalog) {
+    byKey.set(skillKey(skill.name), skill.name);
+  }
+  // Canonical names win over aliases with the same key
+  for (const skill of catalog) {
+    for (const alias of skill.aliases || []) {
+      const key = skillKey(alias);
+      if (!byKey.has(key)) byKey.set(key, skill.name);
+    }
+  }
+
+  return (name) => {
+    const trimmed = (name || "").trim();
+    const exact = byKey.get(skillKey(trimmed));
+    if (exact) return exact;
+
+    let best = trimmed;
+    let bestSimilarity = FUZZY_SKILL_THRESHOLD;
+    for (const [key, canonical] of byKey) {
+      const similarity = skillSimilarity(trimmed, key);
+      if (similarity >= bestSimilarity) {
+        best = canonical;
+        bestSimilarity = similarity;
+      }
+    }
+    return best;
+  };
+}
+
+/**
+ * Resolve names to canonical catalog names, dropping blanks and duplicates
+ * @param {string[]} names
+ * @param {(name: string) => string} resolve
+ */
+export function canonicalizeSkills(names, resolve) {
+  const seen = new Set();
+  /** @type {string[]} */
+  const result = [];
+
+  for (const name of names) {
+    if (!name || !name.trim()) continue;
+    const canonical = resolve(name);
+    const key = skillKey(canonical);
+    if (seen.has(key)) continue;
+    seen.add(key);
+    result.push(canonical);
+  }
+
+  return result;
+}
+
+/**
+ * Autocomplete suggestions for a query: name prefixes first, then names
+ * containing the query, alias hits, and finally close (misspelt) matches
+ * @param {CatalogSkill[]} catalog
+ * @param {string} query
+ * @param {number} [limit]
+ * @returns {CatalogSkill[]}
+ */
+export function searchSkills(catalog, query, limit = 8) {
+  const needle = skillKey(query);
+  if (!needle) return catalog.slice(0, limit);
+
+  return catalog
+    .map((skill) => {
+      const key = skillKey(skill.name);
+      const aliasKeys = (skill.aliases || []).map(skillKey);
+      let rank = 0;
+      if (key.startsWith(needle)) rank = 4;
+      else if (key.includes(needle)) rank = 3;
+      else if (aliasKeys.some((alias) => alias.startsWith(needle))) rank = 2;
+      else if (skillSimilarity(query, skill.name) >= FUZZY_SKILL_THRESHOLD) rank = 1;
+      return { skill, rank };
+    })
+    .filter((item) => item.rank > 0)
+    .sort((a, b) => b.rank - a.rank || a.skill.name.localeCompare(b.skill.name))
+    .slice(0, limit)
+    .map((item) => item.skill);
+}
@@ -0,0 +1,79 @@
+// @ts-check
+// Finish-to-start task dependencies, shared by TaskList, TaskDialog and the
+// agent tools. Mirrors the task dependencies migration (enforce_task_dependencies
+// and prevent_task_dependency_cycle) - keep in sync.
+
+/**
+ * @typedef {Object} TaskDependency
+ * @property {string} predecessor_id
+ * @property {string} successor_id
+ */
+
+/**
+ * @typedef {Object} TaskBlocker
+ * @property {string} id - Predecessor task id
+ * @property {string} title
+ * @property {string} status
+ */
+
+// A blocked task can't move into these statuses
+export const BLOCKED_TARGET_STATUSES = /** @type {const} */ (["ongoing", "completed"]);
+
+/**
+ * Whether adding predecessor -> successor would close a loop, i.e. the
+ * predecessor already depends (directly or transitively) on the successor
+ * @param {TaskDependency[]} dependencies
+ * @param {string} predecessorId
+ * @param {string} successorId
+ */
+export function wouldCreateCycle(dependencies, predecessorId, successorId) {
+  if (predecessorId === successorId) return true;
+
+  const visited = new Set();
+  const queue = [successorId];
+
+  while (queue.length > 0) {
+    const current = queue.shift();
+    for (const dependency of dependencies) {
+      if (dependency.predecessor_id !== current || visited.has(dependency.successor_id)) continue;
+      if (dependency.successor_id === predecessorId) return true;
+      visited.add(dependency.successor_id);
+      queue.push(dependency.successor_id);
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Group get_task_blockers rows by the blocked task
+ * @param {Array<{ task_id: string, predecessor_id: string, predecessor_title: string, predecessor_status: string }> | null | undefined} rows
+ * @returns {Map<string, TaskBlocker[]>}
+ */
+export function groupBlockers(rows) {
+  /** @type {Map<string, TaskBlocker[]>} */
+  const blockers = new Map();
+
+  for (const row of rows || []) {
+    const list = blockers.get(row.task_id) || [];
+    list.push({ id: row.predecessor_id, title: row.predecessor_title, status: row.predecessor_status });
+    blockers.set(row.task_id, list);
+  }
+
+  return blockers;
+}
+
+/**
+ * Explain why a task can't move to a status because of its blockers, or null
+ * if the move is fine
+ * @param {string} toStatus
+ * @param {TaskBlocker[] | null | undefined} blockers - Incomplete predecessors
+ * @returns {string | null}
+ */
+export function describeBlockedTransition(toStatus, blockers) {
+  if (!blockers || blockers.length === 0) return null;
+  if (!BLOCKED_TARGET_STATUSES.includes(/** @type {any} */ (toStatus))) return null;
+
+  const titles = blockers.map((blocker) => `"${blocker.title}"`).join(", ");
+  return `This task is blocked until ${blockers.length === 1 ? "its predecessor is" : "its predecessors are"} completed: ${titles}.`;
+}
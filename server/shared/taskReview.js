@@ -0,0 +1,54 @@
+// @ts-check
+// Admin review of completed tasks, shared by the UI and the agent server.
+// Completing a task puts it in review; approving it records a 1-5 quality
+// rating, requesting changes reopens it (see the task reviews migration).
+
+export const REVIEW_STATUSES = /** @type {const} */ (["pending", "approved", "changes_requested"]);
+
+/** @typedef {typeof REVIEW_STATUSES[number]} ReviewStatus */
+
+export const MIN_QUALITY_RATING = 1;
+export const MAX_QUALITY_RATING = 5;
+
+/** @type {Record<number, string>} */
+export const QUALITY_RATING_LABELS = {
+  1: "Poor",
+  2: "Below expectations",
+  3: "Meets expectations",
+  4: "Good",
+  5: "Excellent",
+};
+
+/**
+ * Whether a completed task can still be reviewed. Tasks completed before
+ * reviews existed have no review status and can be reviewed too.
+ * @param {{ status: string | null, review_status?: string | null }} task
+ */
+export function isAwaitingReview(task) {
+  return task.status === "completed" && task.review_status !== "approved";
+}
+
+/**
+ * Why a task can't be paid yet, or null when it can: it must be completed and
+ * approved in review. A completed task without a review status was completed
+ * before reviews existed (completing a task always starts a review), so it is
+ * payable as is.
+ * @param {{ status: string | null, review_status?: string | null }} task
+ */
+export function describeUnpayableTask(task) {
+  if (task.status !== "completed") return "not completed";
+  if (task.review_status === "pending") return "awaiting review";
+  if (task.review_status === "changes_requested") return "changes requested in review";
+  return null;
+}
+
+/**
+ * Payment multiplier for a quality rating: 0.8 for 1 up to 1.2 for 5, and 1
+ * for unrated work
+ * @param {number | null | undefined} rating
+ */
+export function qualityRatingMultiplier(rating) {
+  if (!rating) return 1;
+  const clamped = Math.min(MAX_QUALITY_RATING, Math.max(MIN_QUALITY_RATING, Math.round(rating)));
+  return Math.round((0.7 + clamped * 0.1) * 100) / 100;
+}
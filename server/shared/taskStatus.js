@@ -0,0 +1,82 @@
+// @ts-check
+// Task status state machine, shared by the UI and the agent server. It is plain
+// JavaScript (typed with JSDoc) so the Node server can import it without a build
+// step. The database enforces the same rules: keep TASK_STATUS_TRANSITIONS in
+// sync with public.task_status_transitions (see the task status migration).
+
+export const TASK_STATUSES = /** @type {const} */ (["pending", "invited", "accepted", "ongoing", "completed", "rejected"]);
+
+/** @typedef {typeof TASK_STATUSES[number]} TaskStatus */
+/** @typedef {"admin" | "staff" | "employee"} TaskActorRole */
+
+/**
+ * @typedef {Object} TaskStatusTransition
+ * @property {TaskStatus} from
+ * @property {TaskStatus} to
+ * @property {readonly TaskActorRole[]} roles - Roles allowed to make the transition
+ * @property {string} label - Action name shown in the UI
+ */
+
+/** Statuses a task may be created with */
+export const INITIAL_TASK_STATUSES = /** @type {const} */ (["pending", "invited"]);
+
+const MANAGERS = /** @type {const} */ (["admin", "staff"]);
+
+/** @type {readonly TaskStatusTransition[]} */
+export const TASK_STATUS_TRANSITIONS = [
+  { from: "pending", to: "invited", roles: MANAGERS, label: "Invite" },
+  { from: "invited", to: "accepted", roles: ["employee"], label: "Accept" },
+  { from: "invited", to: "rejected", roles: ["employee"], label: "Reject" },
+  { from: "accepted", to: "ongoing", roles: ["employee"], label: "Start" },
+  { from: "accepted", to: "completed", roles: ["employee", ...MANAGERS], label: "Complete" },
+  { from: "ongoing", to: "completed", roles: ["employee", ...MANAGERS], label: "Complete" },
+  // Reassignment sends the task back out as a fresh invitation
+  { from: "accepted", to: "invited", roles: MANAGERS, label: "Reassign" },
+  { from: "ongoing", to: "invited", roles: MANAGERS, label: "Reassign" },
+  { from: "rejected", to: "invited", roles: MANAGERS, label: "Reassign" },
+  // A reviewer sends completed work back (see server/shared/taskReview.js)
+  { from: "completed", to: "ongoing", roles: MANAGERS, label: "Request changes" },
+];
+
+/**
+ * Transitions out of a status that the given role may make
+ * @param {string} from
+ * @param {string} role
+ * @returns {TaskStatusTransition[]}
+ */
+export function getAllowedTransitions(from, role) {
+  return TASK_STATUS_TRANSITIONS.filter(
+    (transition) => transition.from === from && transition.roles.some((allowed) => allowed === role)
+  );
+}
+
+/**
+ * Whether the role may move a task from one status to another. Staying in the
+ * same status is not a transition and is always allowed.
+ * @param {string} from
+ * @param {string} to
+ * @param {string} role
+ */
+export function canTransition(from, to, role) {
+  return from === to || getAllowedTransitions(from, role).some((transition) => transition.to === to);
+}
+
+/**
+ * Explain why a transition is not allowed, or return null when it is
+ * @param {string} from
+ * @param {string} to
+ * @param {string} role
+ * @returns {string | null}
+ */
+export function describeInvalidTransition(from, to, role) {
+  if (canTransition(from, to, role)) return null;
+
+  if (!TASK_STATUS_TRANSITIONS.some((transition) => transition.from === from && transition.to === to)) {
+    return `A task cannot move from ${from} to ${to}.`;
+  }
+
+  const allowedTargets = getAllowedTransitions(from, role).map((transition) => transition.to);
+  return `Your role (${role}) cannot move a task from ${from} to ${to}.${
+    allowedTargets.length > 0 ? ` Allowed next statuses: ${allowedTargets.join(", ")}.` : ""
+  }`;
+}
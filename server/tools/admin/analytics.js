@@ -0,0 +1,405 @@
+// @ts-check
+import { tool } from "langchain";
+import { supabase } from "../../supabase.js";
+import {
+  getFinancialSummarySchema,
+  getTaskAnalyticsSchema,
+  getWorkforceAnalyticsSchema,
+} from "../shared/schemas.js";
+
+/** @typedef {import("../shared/schemas.js").GetWorkforceAnalyticsInput} GetWorkforceAnalyticsInput */
+/** @typedef {import("../shared/schemas.js").GetTaskAnalyticsInput} GetTaskAnalyticsInput */
+/** @typedef {import("../shared/schemas.js").GetFinancialSummaryInput} GetFinancialSummaryInput */
+
+// Number of active tasks at which an employee counts as fully utilized
+const FULL_WORKLOAD = 5;
+
+const ACTIVE_STATUSES = ["invited", "accepted", "ongoing"];
+
+/**
+ * Start date for a time range, counted back from now
+ */
+function getStartDate(timeRange) {
+  const now = new Date();
+  let startDate = new Date();
+
+  switch (timeRange) {
+    case "week":
+      startDate.setDate(now.getDate() - 7);
+      break;
+    case "month":
+      startDate.setMonth(now.getMonth() - 1);
+      break;
+    case "quarter":
+      startDate.setMonth(now.getMonth() - 3);
+      break;
+    case "year":
+      startDate.setFullYear(now.getFullYear() - 1);
+      break;
+    case "all":
+      startDate = new Date(0);
+      break;
+  }
+
+  return startDate;
+}
+
+/**
+ * Monday (UTC) of the week containing the given date, as YYYY-MM-DD
+ */
+function getWeekStart(date) {
+  const d = new Date(date);
+  const day = d.getUTCDay();
+  d.setUTCDate(d.getUTCDate() - ((day + 6) % 7));
+  return d.toISOString().split("T")[0];
+}
+
+function round(value, decimals = 1) {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+}
+
+function isOverdue(task, now) {
+  return (
+    !!task.deadline &&
+    new Date(task.deadline) < now &&
+    task.status !== "completed" &&
+    task.status !== "rejected"
+  );
+}
+
+/**
+ * Tool: Workforce utilization per department
+ */
+export const getWorkforceAnalytics = tool(
+  /** @param {GetWorkforceAnalyticsInput} input */
+  async ({ department }) => {
+    try {
+      let query = supabase
+        .from("employee_profiles")
+        .select("user_id, department, availability, performance_score");
+
+      if (department) {
+        query = query.ilike("department", `%${department}%`);
+      }
+
+      const { data: employees, error } = await query;
+
+      if (error) {
+        throw new Error(`Database error while fetching employees: ${error.message}`);
+      }
+
+      if (!employees || employees.length === 0) {
+        return department
+          ? `No employees found in department "${department}".`
+          : "No employees found.";
+      }
+
+      const userIds = employees.map((e) => e.user_id);
+
+      const { data: tasks } = await supabase
+        .from("tasks")
+        .select("assigned_to, status")
+        .in("assigned_to", userIds);
+
+      const { data: profiles } = await supabase
+        .from("profiles")
+        .select("id, full_name")
+        .in("id", userIds);
+
+      const nameOf = (userId) =>
+        profiles?.find((p) => p.id === userId)?.full_name || "Unknown";
+
+      const activeByUser = new Map();
+      const completedByUser = new Map();
+      const totalByUser = new Map();
+
+      tasks?.forEach((t) => {
+        if (!t.assigned_to) return;
+        totalByUser.set(t.assigned_to, (totalByUser.get(t.assigned_to) || 0) + 1);
+        if (ACTIVE_STATUSES.includes(t.status)) {
+          activeByUser.set(t.assigned_to, (activeByUser.get(t.assigned_to) || 0) + 1);
+        }
+        if (t.status === "completed") {
+          completedByUser.set(
+            t.assigned_to,
+            (completedByUser.get(t.assigned_to) || 0) + 1
+          );
+        }
+      });
+
+      const byDepartment = new Map();
+      employees.forEach((emp) => {
+        const key = emp.department || "Unassigned";
+        byDepartment.set(key, [...(byDepartment.get(key) || []), emp]);
+      });
+
+      const sumFor = (members, counts) =>
+        members.reduce((sum, m) => sum + (counts.get(m.user_id) || 0), 0);
+
+      const departments = [...byDepartment.entries()].map(([name, members]) => {
+        const activeTasks = sumFor(members, activeByUser);
+
+        return {
+          department: name,
+          employeeCount: members.length,
+          availableEmployees: members.filter((m) => m.availability).length,
+          totalTasks: sumFor(members, totalByUser),
+          completedTasks: sumFor(members, completedByUser),
+          ongoingTasks: activeTasks,
+          averageWorkload: round(activeTasks / members.length),
+          utilizationPercent: Math.round(
+            (activeTasks / (members.length * FULL_WORKLOAD)) * 100
+          ),
+          overloadedEmployees: members
+            .filter((m) => (activeByUser.get(m.user_id) || 0) >= FULL_WORKLOAD)
+            .map((m) => nameOf(m.user_id)),
+          topPerformers: [...members]
+            .sort((a, b) => (b.performance_score || 0) - (a.performance_score || 0))
+            .slice(0, 3)
+            .map((m) => ({
+              name: nameOf(m.user_id),
+              performanceScore: m.performance_score || 0,
+            })),
+        };
+      });
+
+      departments.sort((a, b) => b.utilizationPercent - a.utilizationPercent);
+
+      const totalActive = departments.reduce((sum, d) => sum + d.ongoingTasks, 0);
+
+      return {
+        departments,
+        overall: {
+          employeeCount: employees.length,
+          availableEmployees: employees.filter((e) => e.availability).length,
+          activeTasks: totalActive,
+          utilizationPercent: Math.round(
+            (totalActive / (employees.length * FULL_WORKLOAD)) * 100
+          ),
+        },
+      };
+    } catch (error) {
+      throw new Error(
+        error instanceof Error
+          ? error.message
+          : "An unexpected error occurred while calculating workforce analytics"
+      );
+    }
+  },
+  {
+    name: "get_workforce_analytics",
+    description: `Get workforce analytics per department: headcount, availability, active and completed tasks, average workload, utilization (active tasks against a capacity of ${FULL_WORKLOAD} per employee) and top performers. Use this when the user asks 'who is overloaded', 'how busy is engineering', 'which team has capacity', etc.`,
+    schema: getWorkforceAnalyticsSchema,
+  }
+);
+
+/**
+ * Tool: Task throughput, overdue ratio and cycle time
+ */
+export const getTaskAnalytics = tool(
+  /** @param {GetTaskAnalyticsInput} input */
+  async ({ timeRange = "month", department }) => {
+    try {
+      const startDate = getStartDate(timeRange);
+
+      let query = supabase
+        .from("tasks")
+        .select("id, status, priority, progress, deadline, accepted_at, completed_at, assigned_to")
+        .gte("created_at", startDate.toISOString());
+
+      if (department) {
+        const { data: members } = await supabase
+          .from("employee_profiles")
+          .select("user_id")
+          .ilike("department", `%${department}%`);
+
+        if (!members || members.length === 0) {
+          throw new Error(`No employees found in department "${department}"`);
+        }
+
+        query = query.in(
+          "assigned_to",
+          members.map((m) => m.user_id)
+        );
+      }
+
+      const { data: tasks, error } = await query;
+
+      if (error) {
+        throw new Error(`Database error while fetching tasks: ${error.message}`);
+      }
+
+      const allTasks = tasks || [];
+      const now = new Date();
+
+      const byStatus = {};
+      const byPriority = {};
+      allTasks.forEach((t) => {
+        byStatus[t.status] = (byStatus[t.status] || 0) + 1;
+        byPriority[t.priority] = (byPriority[t.priority] || 0) + 1;
+      });
+
+      const completed = allTasks.filter((t) => t.status === "completed");
+      const open = allTasks.filter(
+        (t) => t.status !== "completed" && t.status !== "rejected"
+      );
+      const overdue = allTasks.filter((t) => isOverdue(t, now));
+      const withDeadline = completed.filter((t) => t.deadline && t.completed_at);
+      const onTime = withDeadline.filter(
+        (t) => new Date(t.completed_at) <= new Date(t.deadline)
+      );
+
+      // Throughput: completed tasks bucketed by the week they were completed in
+      const throughput = new Map();
+      completed.forEach((t) => {
+        if (!t.completed_at) return;
+        const week = getWeekStart(t.completed_at);
+        throughput.set(week, (throughput.get(week) || 0) + 1);
+      });
+
+      const cycleTimes = completed
+        .filter((t) => t.accepted_at && t.completed_at)
+        .map(
+          (t) =>
+            (new Date(t.completed_at).getTime() - new Date(t.accepted_at).getTime()) /
+            (1000 * 60 * 60 * 24)
+        );
+
+      return {
+        timeRange,
+        department: department || null,
+        total: allTasks.length,
+        byStatus,
+        byPriority,
+        completionRate:
+          allTasks.length > 0
+            ? Math.round((completed.length / allTasks.length) * 100)
+            : 0,
+        onTimeRate:
+          withDeadline.length > 0
+            ? Math.round((onTime.length / withDeadline.length) * 100)
+            : 0,
+        averageProgressPercentage:
+          open.length > 0
+            ? Math.round(open.reduce((sum, t) => sum + (t.progress || 0), 0) / open.length)
+            : 0,
+        overdue: {
+          count: overdue.length,
+          openTasks: open.length,
+          ratioPercent:
+            open.length > 0 ? Math.round((overdue.length / open.length) * 100) : 0,
+        },
+        weeklyThroughput: [...throughput.entries()]
+          .sort(([a], [b]) => a.localeCompare(b))
+          .map(([weekStart, count]) => ({ weekStart, completed: count })),
+        averageCompletionDays:
+          cycleTimes.length > 0
+            ? round(cycleTimes.reduce((sum, d) => sum + d, 0) / cycleTimes.length)
+            : 0,
+      };
+    } catch (error) {
+      throw new Error(
+        error instanceof Error
+          ? error.message
+          : "An unexpected error occurred while calculating task analytics"
+      );
+    }
+  },
+  {
+    name: "get_task_analytics",
+    description:
+      "Get task analytics: counts by status and priority, completion and on-time rates, overdue ratio, weekly throughput (tasks completed per week) and average time from acceptance to completion. Use this when the user asks 'how many tasks did we finish last month', 'what share of tasks are overdue', 'how long do tasks take', etc.",
+    schema: getTaskAnalyticsSchema,
+  }
+);
+
+/**
+ * Tool: Payout totals by status
+ */
+export const getFinancialSummary = tool(
+  /** @param {GetFinancialSummaryInput} input */
+  async ({ timeRange = "month" }) => {
+    try {
+      const startDate = getStartDate(timeRange);
+
+      const { data: payments, error } = await supabase
+        .from("payments")
+        .select("user_id, amount_manual, amount_ai_suggested, status")
+        .gte("created_at", startDate.toISOString());
+
+      if (error) {
+        throw new Error(`Database error while fetching payments: ${error.message}`);
+      }
+
+      const allPayments = payments || [];
+
+      const byStatus = {
+        pending: { count: 0, total: 0 },
+        approved: { count: 0, total: 0 },
+        paid: { count: 0, total: 0 },
+      };
+      const byEmployee = new Map();
+      let aiSuggestedTotal = 0;
+      let manualOverrides = 0;
+
+      allPayments.forEach((p) => {
+        // A manual override always wins over the AI suggestion
+        const amount = p.amount_manual ?? p.amount_ai_suggested ?? 0;
+        byStatus[p.status].count += 1;
+        byStatus[p.status].total += amount;
+
+        aiSuggestedTotal += p.amount_ai_suggested || 0;
+        if (p.amount_manual !== null) manualOverrides += 1;
+
+        byEmployee.set(p.user_id, (byEmployee.get(p.user_id) || 0) + amount);
+      });
+
+      const topEarners = [...byEmployee.entries()]
+        .sort(([, a], [, b]) => b - a)
+        .slice(0, 5);
+
+      const { data: profiles } = await supabase
+        .from("profiles")
+        .select("id, full_name")
+        .in(
+          "id",
+          topEarners.map(([id]) => id)
+        );
+
+      const grandTotal =
+        byStatus.pending.total + byStatus.approved.total + byStatus.paid.total;
+
+      return {
+        timeRange,
+        byStatus: Object.fromEntries(
+          Object.entries(byStatus).map(([status, { count, total }]) => [
+            status,
+            { count, total: round(total, 2) },
+          ])
+        ),
+        grandTotal: round(grandTotal, 2),
+        outstanding: round(byStatus.pending.total + byStatus.approved.total, 2),
+        aiSuggestedTotal: round(aiSuggestedTotal, 2),
+        manualOverrides,
+        paymentCount: allPayments.length,
+        topEarners: topEarners.map(([id, total]) => ({
+          name: profiles?.find((p) => p.id === id)?.full_name || "Unknown",
+          total: round(total, 2),
+        })),
+      };
+    } catch (error) {
+      throw new Error(
+        error instanceof Error
+          ? error.message
+          : "An unexpected error occurred while calculating the financial summary"
+      );
+    }
+  },
+  {
+    name: "get_financial_summary",
+    description:
+      "Get a financial summary of payouts: totals and counts by status (pending, approved, paid), AI-suggested vs manual amounts, and the top earners in the period. Use this when the user asks 'how much have we paid out', 'what's pending approval', 'payroll this quarter', etc.",
+    schema: getFinancialSummarySchema,
+  }
+);
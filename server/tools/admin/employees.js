@@ -1,31 +1,40 @@
+// @ts-check
 // Server-side employee management tools
-import { tool } from 'ai';
-import { z } from 'zod';
+import { tool } from 'langchain';
 import { supabase } from '../../supabase.js';
+import {
+  deleteEmployeeSchema,
+  getEmployeeDetailsSchema,
+  getEmployeePerformanceSchema,
+  listEmployeesSchema,
+  searchEmployeesBySkillsSchema,
+  updateEmployeeSchema,
+} from '../shared/schemas.js';
 import { 
   getEmployeeSkills, 
   setEmployeeSkills, 
   findEmployee,
-  createErrorResponse 
+  createErrorResponse,
+  getEmployeeSkillLevels,
+  getMatchingWeights,
+  resolveSkillNames
 } from '../shared/helpers.js';
+import { describeMatch, explainMatch, rankCandidates } from '../../shared/matching.js';
+import { FUZZY_SKILL_THRESHOLD, DEFAULT_REQUIRED_LEVEL, skillSimilarity } from '../../shared/skills.js';
+
+/** @typedef {import("../shared/schemas.js").ListEmployeesInput} ListEmployeesInput */
+/** @typedef {import("../shared/schemas.js").GetEmployeeDetailsInput} GetEmployeeDetailsInput */
+/** @typedef {import("../shared/schemas.js").UpdateEmployeeInput} UpdateEmployeeInput */
+/** @typedef {import("../shared/schemas.js").GetEmployeePerformanceInput} GetEmployeePerformanceInput */
+/** @typedef {import("../shared/schemas.js").DeleteEmployeeInput} DeleteEmployeeInput */
+/** @typedef {import("../shared/schemas.js").SearchEmployeesBySkillsInput} SearchEmployeesBySkillsInput */
 
 /**
  * Tool: List all employees with optional filters
  */
-export const listEmployees = tool({
-  description: `Get a comprehensive list of all employees with optional filters. 
-  Use this when the user asks to "show employees", "list staff", "who works here", etc.
-  You can filter by department, designation, availability, or search by name/skills.`,
-  
-  inputSchema: z.object({
-    department: z.string().optional().describe('Filter by department (e.g., "Engineering", "Design", "Marketing")'),
-    designation: z.string().optional().describe('Filter by job title/designation (e.g., "Senior Developer", "Designer")'),
-    availability: z.boolean().optional().describe('Filter by availability status - true for available, false for unavailable'),
-    searchQuery: z.string().optional().describe('Search employees by name or email (case-insensitive partial match)'),
-    skills: z.array(z.string()).optional().describe('Filter by required skills (employees must have ALL specified skills)'),
-  }),
-  
-  execute: async ({ department, designation, availability, searchQuery, skills }) => {
+export const listEmployees = tool(
+  /** @param {ListEmployeesInput} input */
+  async ({ department, designation, availability, searchQuery, skills }) => {
     try {
       // Get all employee profiles first
       let query = supabase
@@ -105,11 +114,10 @@ export const listEmployees = tool({
       // Filter out null values and by skills if specified
       let employees = employeesWithSkills.filter(Boolean);
       if (skills && skills.length > 0) {
+        const wantedSkills = await resolveSkillNames(skills);
         employees = employees.filter(emp =>
-          skills.every(skill =>
-            emp.skills.some(empSkill =>
-              empSkill.toLowerCase().includes(skill.toLowerCase())
-            )
+          wantedSkills.every(skill =>
+            emp.skills.some(empSkill => skillSimilarity(empSkill, skill) >= FUZZY_SKILL_THRESHOLD)
           )
         );
       }
@@ -132,24 +140,21 @@ export const listEmployees = tool({
       );
     }
   },
-});
+  {
+    name: 'list_employees',
+    description: `Get a comprehensive list of all employees with optional filters. 
+  Use this when the user asks to "show employees", "list staff", "who works here", etc.
+  You can filter by department, designation, availability, or search by name/skills.`,
+    schema: listEmployeesSchema,
+  }
+);
 
 /**
  * Tool: Get detailed information about a specific employee
  */
-export const getEmployeeDetails = tool({
-  description: `Get comprehensive details about a specific employee including their profile, current tasks, performance metrics, and payment history.
-  Use this when the user asks for details about a specific employee, their workload, performance, etc.
-  If you have the employee ID, use it. Otherwise, search by name.`,
-  
-  inputSchema: z.object({
-    employeeId: z.string().uuid().optional().describe('The unique UUID of the employee'),
-    employeeName: z.string().optional().describe('The name of the employee to search for (if ID not available)'),
-  }).refine(data => data.employeeId || data.employeeName, {
-    message: 'Either employeeId or employeeName must be provided',
-  }),
-  
-  execute: async ({ employeeId, employeeName }) => {
+export const getEmployeeDetails = tool(
+  /** @param {GetEmployeeDetailsInput} input */
+  async ({ employeeId, employeeName }) => {
     try {
       // Find the employee using helper
       const employeeResult = await findEmployee(employeeId || employeeName);
@@ -219,30 +224,21 @@ export const getEmployeeDetails = tool({
       );
     }
   },
-});
+  {
+    name: 'get_employee_details',
+    description: `Get comprehensive details about a specific employee including their profile, current tasks, performance metrics, and payment history.
+  Use this when the user asks for details about a specific employee, their workload, performance, etc.
+  If you have the employee ID, use it. Otherwise, search by name.`,
+    schema: getEmployeeDetailsSchema,
+  }
+);
 
 /**
  * Tool: Update employee profile information
  */
-export const updateEmployee = tool({
-  description: `Update an employee's profile information such as department, designation, hourly rate, skills, or availability.
-  IMPORTANT: Always confirm the changes with the user before updating.
-  Ask for confirmation if making significant changes (e.g., changing hourly rate, department).`,
-  
-  inputSchema: z.object({
-    employeeId: z.string().uuid().describe('The unique UUID of the employee to update'),
-    updates: z.object({
-      department: z.string().optional().describe('New department'),
-      designation: z.string().optional().describe('New job title/designation'),
-      hourlyRate: z.number().positive().optional().describe('New hourly rate in USD'),
-      skills: z.array(z.string()).optional().describe('Updated list of skills (replaces existing)'),
-      availability: z.boolean().optional().describe('Availability status'),
-    }).refine(data => Object.keys(data).length > 0, {
-      message: 'At least one field must be provided to update',
-    }),
-  }),
-  
-  execute: async ({ employeeId, updates }) => {
+export const updateEmployee = tool(
+  /** @param {UpdateEmployeeInput} input */
+  async ({ employeeId, updates }) => {
     try {
       // First, verify employee exists and get profile ID
       const { data: existing, error: fetchError } = await supabase
@@ -308,21 +304,21 @@ export const updateEmployee = tool({
       );
     }
   },
-});
+  {
+    name: 'update_employee',
+    description: `Update an employee's profile information such as department, designation, hourly rate, skills, or availability.
+  IMPORTANT: Always confirm the changes with the user before updating.
+  Ask for confirmation if making significant changes (e.g., changing hourly rate, department).`,
+    schema: updateEmployeeSchema,
+  }
+);
 
 /**
  * Tool: Get employee performance metrics
  */
-export const getEmployeePerformance = tool({
-  description: `Get detailed performance metrics for an employee including completion rate, on-time delivery, quality scores, and workload analysis.
-  Use this to evaluate employee performance, answer questions about productivity, or generate performance reports.`,
-  
-  inputSchema: z.object({
-    employeeId: z.string().uuid().describe('The unique UUID of the employee'),
-    timeRange: z.enum(['week', 'month', 'quarter', 'year', 'all']).optional().default('month').describe('Time period for metrics calculation'),
-  }),
-  
-  execute: async ({ employeeId, timeRange = 'month' }) => {
+export const getEmployeePerformance = tool(
+  /** @param {GetEmployeePerformanceInput} input */
+  async ({ employeeId, timeRange = 'month' }) => {
     try {
       // Get employee basic info using helper
       const employeeResult = await findEmployee(employeeId);
@@ -427,30 +423,27 @@ export const getEmployeePerformance = tool({
       );
     }
   },
-});
+  {
+    name: 'get_employee_performance',
+    description: `Get detailed performance metrics for an employee including completion rate, on-time delivery, quality scores, and workload analysis.
+  Use this to evaluate employee performance, answer questions about productivity, or generate performance reports.`,
+    schema: getEmployeePerformanceSchema,
+  }
+);
 
 /**
  * Tool: Delete an employee from the system
  */
-export const deleteEmployee = tool({
-  description: `Delete an employee from the system.
-  This is a destructive operation that will permanently remove the employee and all associated data.
-  IMPORTANT: Always ask for explicit confirmation first by asking "Are you sure you want to delete [employee name]? This action cannot be undone."
-  When the user confirms, call this tool again with confirmed: true.
-  The employee cannot be deleted if they have any active (non-completed) tasks.`,
-
-  inputSchema: z.object({
-    employeeId: z.string().uuid().optional().describe('The unique UUID of the employee to delete'),
-    employeeName: z.string().optional().describe('The name of the employee to delete (if ID not available)'),
-    confirmed: z.boolean().default(false).describe('Must be true to confirm deletion. Default is false - ask user for confirmation first before setting to true.'),
-  }).refine(data => data.employeeId || data.employeeName, {
-    message: 'Either employeeId or employeeName must be provided',
-  }),
-
-  execute: async ({ employeeId, employeeName, confirmed }) => {
+export const deleteEmployee = tool(
+  /** @param {DeleteEmployeeInput} input */
+  async ({ employeeId, employeeName, confirmed }) => {
     console.log('🗑️ Delete Employee Called:', { employeeId, employeeName, confirmed });
 
     try {
+      if (!employeeId && !employeeName) {
+        throw new Error('Either employeeId or employeeName must be provided');
+      }
+
       // Find the employee using helper
       const employeeResult = await findEmployee(employeeId || employeeName);
 
@@ -487,7 +480,7 @@ export const deleteEmployee = tool({
         return {
           success: false,
           error: 'Confirmation required',
-          details: `Please confirm that you want to delete employee "${employee.full_name}" (ID: ${employee.user_id}). This action cannot be undone and will permanently remove all employee data including skills, task history, and payment records.`,
+          details: `Permanently delete employee "${employee.full_name}" (ID: ${employee.user_id}) and all of their data, including skills, task history and payment records.`,
           missingFields: ['confirmation'],
         };
       }
@@ -522,24 +515,26 @@ export const deleteEmployee = tool({
       );
     }
   },
-});
+  {
+    name: 'delete_employee',
+    description: `Delete an employee from the system.
+  This is a destructive operation that will permanently remove the employee and all associated data.
+  Identify the employee by employeeId or employeeName.
+  The employee cannot be deleted if they have any active (non-completed) tasks.`,
+    schema: deleteEmployeeSchema,
+  }
+);
 
 /**
  * Tool: Search employees by required skills
  */
-export const searchEmployeesBySkills = tool({
-  description: `Find employees who have specific skills. Perfect for task assignment - helps find the right person for a job.
-  Returns employees sorted by best match (skills, availability, and workload).
-  Use this when assigning tasks or looking for someone with specific expertise.`,
-
-  inputSchema: z.object({
-    requiredSkills: z.array(z.string()).min(1).describe('List of required skills to search for'),
-    availability: z.boolean().optional().describe('Filter by availability - true to show only available employees'),
-    limit: z.number().int().positive().optional().default(10).describe('Maximum number of results to return'),
-  }),
-
-  execute: async ({ requiredSkills, availability, limit = 10 }) => {
+export const searchEmployeesBySkills = tool(
+  /** @param {SearchEmployeesBySkillsInput} input */
+  async ({ requiredSkills, availability, minLevel = DEFAULT_REQUIRED_LEVEL, priority = 'medium', limit = 10 }) => {
     try {
+      // Resolve aliases and misspellings ("ReactJS" -> "React") against the skills catalog
+      const searchedSkills = await resolveSkillNames(requiredSkills);
+
       // Get all employees (or only available ones)
       let query = supabase
         .from('employee_profiles')
@@ -573,73 +568,55 @@ export const searchEmployeesBySkills = tool({
         throw new Error('Failed to fetch employee profiles');
       }
 
-      // Build employees with skills and calculate match scores
-      const employeesWithScores = await Promise.all(
+      // Build employees with skills and score them with the matching engine
+      const employees = await Promise.all(
         empProfiles.map(async (emp) => {
           const profile = profiles.find(p => p.id === emp.user_id);
           if (!profile) return null;
 
-          const empSkills = await getEmployeeSkills(emp.id);
-
-          // Count matching skills (case-insensitive)
-          const matchingSkills = requiredSkills.filter(reqSkill =>
-            empSkills.some(empSkill =>
-              empSkill.toLowerCase().includes(reqSkill.toLowerCase()) ||
-              reqSkill.toLowerCase().includes(empSkill.toLowerCase())
-            )
-          );
-
-          const skillMatchCount = matchingSkills.length;
-          const skillMatchPercentage = (skillMatchCount / requiredSkills.length) * 100;
-
-          // Calculate overall score (skills * 50% + performance * 30% + workload * 20%)
-          const performanceScore = (emp.performance_score || 0) * 20; // Max 100
-          const workloadScore = Math.max(0, 100 - (emp.current_workload || 0) * 20); // Lower workload = higher score
-          const skillScore = skillMatchPercentage * 0.5;
-
-          const totalScore = (
-            skillScore +
-            performanceScore * 0.3 +
-            workloadScore * 0.2
-          );
-
           return {
             id: emp.user_id,
             name: profile.full_name,
             email: profile.email,
             department: emp.department,
             designation: emp.designation,
-            skills: empSkills,
+            skills: await getEmployeeSkillLevels(emp.id),
             availability: emp.availability,
             currentWorkload: emp.current_workload || 0,
             performanceScore: emp.performance_score || 0,
             hourlyRate: emp.hourly_rate,
-            skillMatchCount,
-            skillMatchPercentage: Math.round(skillMatchPercentage),
-            overallScore: Math.round(totalScore),
           };
         })
       );
 
-      // Filter and sort
-      const scoredEmployees = employeesWithScores
-        .filter(emp => emp && emp.skillMatchCount > 0) // Only include those with at least one matching skill
-        .sort((a, b) => b.overallScore - a.overallScore) // Sort by score descending
+      const matchingWeights = await getMatchingWeights();
+      const scoredEmployees = rankCandidates(
+        employees.filter(Boolean),
+        { requiredSkills: searchedSkills.map(name => ({ name, level: minLevel })), priority },
+        matchingWeights
+      )
+        .filter(emp => emp.match.matchedSkills.length > 0) // Only include those with at least one matching skill
         .slice(0, limit); // Limit results
 
       if (scoredEmployees.length === 0) {
         throw new Error(
-          `No employees found with skills: ${requiredSkills.join(', ')}. Try searching for different or fewer skills`
+          `No employees found with skills: ${searchedSkills.join(', ')}. Try searching for different or fewer skills`
         );
       }
 
       return {
-        searchedSkills: requiredSkills,
-        matches: scoredEmployees.map(emp => ({
+        searchedSkills,
+        minLevel,
+        matches: scoredEmployees.map(({ match, skills, ...emp }) => ({
           ...emp,
-          recommendation: emp.overallScore >= 70 ? 'Excellent match' :
-                        emp.overallScore >= 50 ? 'Good match' :
-                        emp.overallScore >= 30 ? 'Fair match' : 'Partial match',
+          skills: skills.map(skill => `${skill.name} (level ${skill.level})`),
+          matchedSkills: match.matchedSkills,
+          belowLevelSkills: match.belowLevelSkills,
+          missingSkills: match.missingSkills,
+          overallScore: match.score,
+          breakdown: match.breakdown,
+          explanation: explainMatch(match),
+          recommendation: describeMatch(match.score),
         })),
         count: scoredEmployees.length,
       };
@@ -649,4 +626,13 @@ export const searchEmployeesBySkills = tool({
       );
     }
   },
-});
\ No newline at end of file
+  {
+    name: 'search_employees_by_skills',
+    description: `Find employees who have specific skills. Perfect for task assignment - helps find the right person for a job.
+  Returns employees sorted by best match (skills, availability, workload and performance),
+  each with a per-factor score breakdown explaining the match. Skill names are resolved against the skills
+  catalog, so aliases like "ReactJS" match "React"; use minLevel to require a proficiency from 1 to 5.
+  Use this when assigning tasks or looking for someone with specific expertise.`,
+    schema: searchEmployeesBySkillsSchema,
+  }
+);
\ No newline at end of file
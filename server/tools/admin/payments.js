@@ -0,0 +1,519 @@
+// @ts-check
+import { tool } from "langchain";
+import { supabase } from "../../supabase.js";
+import {
+  approvePaymentSchema,
+  createPaymentSchema,
+  getPaymentDetailsSchema,
+  listPaymentsSchema,
+} from "../shared/schemas.js";
+import { calculateAIPayment, findEmployee } from "../shared/helpers.js";
+import { describeUnpayableTask } from "../../shared/taskReview.js";
+
+/** @typedef {import("../shared/schemas.js").CreatePaymentInput} CreatePaymentInput */
+/** @typedef {import("../shared/schemas.js").ApprovePaymentInput} ApprovePaymentInput */
+/** @typedef {import("../shared/schemas.js").ListPaymentsInput} ListPaymentsInput */
+/** @typedef {import("../shared/schemas.js").GetPaymentDetailsInput} GetPaymentDetailsInput */
+
+/**
+ * Effective payout amount: a manual override always wins over the AI suggestion
+ */
+function effectiveAmount(payment) {
+  return payment.amount_manual ?? payment.amount_ai_suggested ?? 0;
+}
+
+/**
+ * Sum hours logged per task from task_updates
+ */
+async function getHoursLoggedByTask(taskIds) {
+  const hours = new Map();
+  if (taskIds.length === 0) return hours;
+
+  const { data: updates } = await supabase
+    .from("task_updates")
+    .select("task_id, hours_logged")
+    .in("task_id", taskIds);
+
+  updates?.forEach((u) => {
+    hours.set(u.task_id, (hours.get(u.task_id) || 0) + (u.hours_logged || 0));
+  });
+
+  return hours;
+}
+
+/**
+ * Differences between the drafts about to be created and the amounts shown
+ * when the payments were submitted for approval
+ */
+function describeChangedDrafts(drafts, amounts, previewedAmounts) {
+  const format = (amount) => (amount === null ? "no amount" : `$${amount.toFixed(2)}`);
+  const changes = drafts
+    .filter((d) => !(d.taskId in previewedAmounts))
+    .map((d) => `"${d.taskTitle}" was not in the preview.`);
+
+  for (const d of drafts) {
+    const previewed = previewedAmounts[d.taskId];
+    const amount = amounts[d.taskId];
+    const changed =
+      previewed === null || amount === null ? previewed !== amount : Math.abs(previewed - amount) >= 0.005;
+
+    if (d.taskId in previewedAmounts && changed) {
+      changes.push(`"${d.taskTitle}" is now ${format(amount)} instead of ${format(previewed)}.`);
+    }
+  }
+
+  const missing = Object.keys(previewedAmounts).filter((id) => !(id in amounts)).length;
+  if (missing > 0) {
+    changes.push(`${missing} previewed task(s) can no longer be paid.`);
+  }
+
+  return changes;
+}
+
+/**
+ * Tool: Draft payments for completed tasks
+ */
+export const createPayment = tool(
+  /** @param {CreatePaymentInput} input */
+  async ({ taskId, completedSince, manualAmount, confirmed = false, previewedAmounts }) => {
+    try {
+      if (!taskId && !completedSince) {
+        throw new Error("Either taskId or completedSince must be provided.");
+      }
+
+      if (manualAmount !== undefined && !taskId) {
+        throw new Error("manualAmount can only be used with a single taskId.");
+      }
+
+      if (manualAmount !== undefined && manualAmount < 0) {
+        throw new Error("manualAmount can't be negative.");
+      }
+
+      let query = supabase
+        .from("tasks")
+        .select("id, title, status, review_status, assigned_to, completed_at")
+        .eq("status", "completed")
+        .not("assigned_to", "is", null);
+
+      if (taskId) {
+        query = query.eq("id", taskId);
+      } else {
+        query = query.gte("completed_at", new Date(completedSince).toISOString());
+      }
+
+      const { data: tasks, error } = await query;
+
+      if (error) {
+        throw new Error(`Database error while fetching completed tasks: ${error.message}`);
+      }
+
+      if (!tasks || tasks.length === 0) {
+        throw new Error(
+          taskId
+            ? `Task "${taskId}" is not a completed, assigned task.`
+            : "No completed tasks found in that period."
+        );
+      }
+
+      // Only reviewed and approved work is paid
+      const unreviewed = tasks
+        .map((t) => ({ task: t, reason: describeUnpayableTask(t) }))
+        .filter((u) => u.reason);
+      const approved = tasks.filter((t) => !unreviewed.some((u) => u.task.id === t.id));
+
+      if (taskId && unreviewed.length > 0) {
+        throw new Error(
+          `Task "${unreviewed[0].task.title}" can't be paid yet: ${unreviewed[0].reason}. Approve it in review first.`
+        );
+      }
+
+      // Skip tasks that already have a payment
+      const { data: existing } =
+        approved.length > 0
+          ? await supabase
+              .from("payments")
+              .select("task_id")
+              .in("task_id", approved.map((t) => t.id))
+          : { data: [] };
+
+      const alreadyPaid = new Set(existing?.map((p) => p.task_id) || []);
+      const payable = approved.filter((t) => !alreadyPaid.has(t.id));
+
+      const skipped = [
+        alreadyPaid.size > 0 ? `Skipped ${alreadyPaid.size} task(s) that already have a payment.` : null,
+        ...unreviewed.map((u) => `Skipped "${u.task.title}": ${u.reason}.`),
+      ].filter(Boolean);
+
+      if (payable.length === 0) {
+        return `Nothing to draft. ${skipped.join(" ")}`;
+      }
+
+      const hoursByTask = await getHoursLoggedByTask(payable.map((t) => t.id));
+
+      const { data: profiles } = await supabase
+        .from("profiles")
+        .select("id, full_name")
+        .in("id", payable.map((t) => t.assigned_to));
+
+      const drafts = await Promise.all(
+        payable.map(async (task) => {
+          const calculation = await calculateAIPayment(
+            task.id,
+            hoursByTask.get(task.id) || undefined
+          );
+          return {
+            taskId: task.id,
+            taskTitle: task.title,
+            employeeId: task.assigned_to,
+            employeeName:
+              profiles?.find((p) => p.id === task.assigned_to)?.full_name || "Unknown",
+            amountAiSuggested: calculation.success ? calculation.data.suggestedAmount : null,
+            amountManual: manualAmount ?? null,
+            calculation: calculation.success
+              ? calculation.data.calculation
+              : calculation.error,
+          };
+        })
+      );
+
+      const amounts = Object.fromEntries(
+        drafts.map((d) => [d.taskId, d.amountManual ?? d.amountAiSuggested])
+      );
+      const total = drafts.reduce((sum, d) => sum + (amounts[d.taskId] ?? 0), 0);
+
+      const lines = drafts.map(
+        (d) =>
+          `• ${d.taskTitle} → ${d.employeeName}: $${(
+            d.amountManual ?? d.amountAiSuggested ?? 0
+          ).toFixed(2)} (${d.calculation})`
+      );
+
+      if (!confirmed) {
+        return {
+          success: false,
+          error: "Confirmation required",
+          details: `Draft ${drafts.length} payment(s) totalling $${total.toFixed(
+            2
+          )}.${skipped.length > 0 ? ` ${skipped.join(" ")}` : ""}\n${lines.join("\n")}`,
+          missingFields: ["confirmation"],
+          approvalArgs: { previewedAmounts: amounts },
+        };
+      }
+
+      if (previewedAmounts) {
+        const changes = describeChangedDrafts(drafts, amounts, previewedAmounts);
+
+        if (changes.length > 0) {
+          throw new Error(
+            `The payments changed since they were previewed, so none were created: ${changes.join(" ")} Ask for approval again.`
+          );
+        }
+      }
+
+      const { data: created, error: insertError } = await supabase
+        .from("payments")
+        .insert(
+          drafts.map((d) => ({
+            task_id: d.taskId,
+            user_id: d.employeeId,
+            amount_ai_suggested: d.amountAiSuggested,
+            amount_manual: d.amountManual,
+            status: "pending",
+          }))
+        )
+        .select("id, task_id");
+
+      if (insertError) {
+        throw new Error(`Failed to create payments: ${insertError.message}`);
+      }
+
+      return {
+        success: true,
+        message: `Drafted ${created?.length || 0} pending payment(s) totalling $${total.toFixed(2)}.${
+          skipped.length > 0 ? ` ${skipped.join(" ")}` : ""
+        }`,
+        payments: drafts.map((d) => ({
+          ...d,
+          paymentId: created?.find((c) => c.task_id === d.taskId)?.id,
+        })),
+      };
+    } catch (error) {
+      throw new Error(
+        error instanceof Error
+          ? error.message
+          : "An unexpected error occurred while creating payments"
+      );
+    }
+  },
+  {
+    name: "create_payment",
+    description:
+      "Draft pending payments for completed tasks that passed review using the AI-suggested amount (hourly rate x hours x complexity, where hours are the approved timesheet hours, falling back to hours logged in progress updates and then the estimate). Pass taskId for one task, or completedSince to draft payments for every approved task without a payment completed since that date; tasks still awaiting review or sent back for changes are skipped (e.g. 'everything completed this week').",
+    schema: createPaymentSchema,
+  }
+);
+
+/**
+ * Tool: Approve payments or mark them as paid
+ */
+export const approvePayment = tool(
+  /** @param {ApprovePaymentInput} input */
+  async ({ paymentIds, action, manualAmount, confirmed = false }) => {
+    try {
+      if (manualAmount !== undefined && (paymentIds.length !== 1 || action !== "approve")) {
+        throw new Error("manualAmount can only be set when approving a single payment.");
+      }
+
+      if (manualAmount !== undefined && manualAmount < 0) {
+        throw new Error("manualAmount can't be negative.");
+      }
+
+      const { data: payments, error } = await supabase
+        .from("payments")
+        .select("*")
+        .in("id", paymentIds);
+
+      if (error) {
+        throw new Error(`Database error while fetching payments: ${error.message}`);
+      }
+
+      const missing = paymentIds.filter((id) => !payments?.some((p) => p.id === id));
+      if (missing.length > 0) {
+        throw new Error(`Payment(s) not found: ${missing.join(", ")}`);
+      }
+
+      const requiredStatus = action === "approve" ? "pending" : "approved";
+      const invalid = payments.filter((p) => p.status !== requiredStatus);
+      if (invalid.length > 0) {
+        throw new Error(
+          `Only ${requiredStatus} payments can be ${
+            action === "approve" ? "approved" : "marked as paid"
+          }: ${invalid.map((p) => `${p.id} is ${p.status}`).join(", ")}`
+        );
+      }
+
+      const { data: profiles } = await supabase
+        .from("profiles")
+        .select("id, full_name")
+        .in("id", [...new Set(payments.map((p) => p.user_id))]);
+
+      const nameOf = (userId) =>
+        profiles?.find((p) => p.id === userId)?.full_name || "Unknown";
+      const amountFor = (p) => manualAmount ?? effectiveAmount(p);
+      const total = payments.reduce((sum, p) => sum + amountFor(p), 0);
+
+      if (!confirmed) {
+        const verb = action === "approve" ? "Approve" : "Mark as paid";
+        return {
+          success: false,
+          error: "Confirmation required",
+          details: `${verb} ${payments.length} payment(s) totalling $${total.toFixed(
+            2
+          )}:\n${payments
+            .map((p) => `• $${amountFor(p).toFixed(2)} for ${nameOf(p.user_id)}`)
+            .join("\n")}`,
+          missingFields: ["confirmation"],
+        };
+      }
+
+      const updateData =
+        action === "approve"
+          ? { status: "approved" }
+          : { status: "paid", paid_at: new Date().toISOString() };
+
+      if (manualAmount !== undefined) updateData.amount_manual = manualAmount;
+
+      const { error: updateError } = await supabase
+        .from("payments")
+        .update(updateData)
+        .in("id", paymentIds)
+        .eq("status", requiredStatus);
+
+      if (updateError) {
+        throw new Error(`Failed to update payments: ${updateError.message}`);
+      }
+
+      return {
+        success: true,
+        message: `${action === "approve" ? "Approved" : "Marked as paid"} ${
+          payments.length
+        } payment(s) totalling $${total.toFixed(2)}.`,
+      };
+    } catch (error) {
+      throw new Error(
+        error instanceof Error
+          ? error.message
+          : "An unexpected error occurred while updating payments"
+      );
+    }
+  },
+  {
+    name: "approve_payment",
+    description:
+      "Approve pending payments (action 'approve') or mark approved payments as paid (action 'mark_paid'), optionally overriding the amount.",
+    schema: approvePaymentSchema,
+  }
+);
+
+/**
+ * Tool: List payments with filters
+ */
+export const listPayments = tool(
+  /** @param {ListPaymentsInput} input */
+  async ({ status, employee, createdSince, limit = 20 }) => {
+    try {
+      let query = supabase
+        .from("payments")
+        .select("*")
+        .order("created_at", { ascending: false })
+        .limit(limit);
+
+      if (status) {
+        query = query.eq("status", status);
+      }
+
+      if (createdSince) {
+        query = query.gte("created_at", new Date(createdSince).toISOString());
+      }
+
+      if (employee) {
+        const empResult = await findEmployee(employee);
+        if (empResult.success && empResult.data) {
+          query = query.eq("user_id", empResult.data.user_id);
+        } else {
+          throw new Error(empResult.error || "Employee not found");
+        }
+      }
+
+      const { data: payments, error } = await query;
+
+      if (error) {
+        throw new Error(`Database error while fetching payments: ${error.message}`);
+      }
+
+      if (!payments || payments.length === 0) {
+        return "No payments found for the given filters.";
+      }
+
+      const { data: tasks } = await supabase
+        .from("tasks")
+        .select("id, title")
+        .in("id", [...new Set(payments.map((p) => p.task_id))]);
+
+      const { data: profiles } = await supabase
+        .from("profiles")
+        .select("id, full_name")
+        .in("id", [...new Set(payments.map((p) => p.user_id))]);
+
+      const totals = payments.reduce(
+        (acc, p) => {
+          acc[p.status] += effectiveAmount(p);
+          return acc;
+        },
+        { pending: 0, approved: 0, paid: 0 }
+      );
+
+      const lines = payments.map((p) => {
+        const task = tasks?.find((t) => t.id === p.task_id);
+        const profile = profiles?.find((pr) => pr.id === p.user_id);
+        const ai = p.amount_ai_suggested !== null ? `$${Number(p.amount_ai_suggested).toFixed(2)}` : "n/a";
+        const manual = p.amount_manual !== null ? `$${Number(p.amount_manual).toFixed(2)}` : "n/a";
+
+        return `• [${p.id}] ${task?.title || "Unknown task"} - ${
+          profile?.full_name || "Unknown"
+        } - AI: ${ai} - Manual: ${manual} - Status: ${p.status}`;
+      });
+
+      return `${lines.join("\n")}\n\nTotals - Pending: $${totals.pending.toFixed(
+        2
+      )}, Approved: $${totals.approved.toFixed(2)}, Paid: $${totals.paid.toFixed(2)}`;
+    } catch (error) {
+      throw new Error(
+        error instanceof Error
+          ? error.message
+          : "An unexpected error occurred while fetching payments"
+      );
+    }
+  },
+  {
+    name: "list_payments",
+    description:
+      "Get a list of payments with AI-suggested and manual amounts side by side. Use this when the user asks 'show pending payments', 'what did we pay Sarah', 'review payments', etc.",
+    schema: listPaymentsSchema,
+  }
+);
+
+/**
+ * Tool: Get detailed payment information
+ */
+export const getPaymentDetails = tool(
+  /** @param {GetPaymentDetailsInput} input */
+  async ({ paymentId }) => {
+    try {
+      const { data: payment, error } = await supabase
+        .from("payments")
+        .select("*")
+        .eq("id", paymentId)
+        .single();
+
+      if (error || !payment) {
+        throw new Error(`Payment with ID "${paymentId}" not found`);
+      }
+
+      const { data: task } = await supabase
+        .from("tasks")
+        .select("id, title, status, estimated_hours, complexity_multiplier, completed_at")
+        .eq("id", payment.task_id)
+        .single();
+
+      const { data: profile } = await supabase
+        .from("profiles")
+        .select("full_name, email")
+        .eq("id", payment.user_id)
+        .single();
+
+      const { data: empProfile } = await supabase
+        .from("employee_profiles")
+        .select("hourly_rate")
+        .eq("user_id", payment.user_id)
+        .single();
+
+      const hoursLogged =
+        (await getHoursLoggedByTask([payment.task_id])).get(payment.task_id) || 0;
+      const calculation = await calculateAIPayment(payment.task_id, hoursLogged || undefined);
+
+      return {
+        payment: {
+          id: payment.id,
+          status: payment.status,
+          amountAiSuggested: payment.amount_ai_suggested,
+          amountManual: payment.amount_manual,
+          amount: effectiveAmount(payment),
+          createdAt: payment.created_at,
+          paidAt: payment.paid_at,
+        },
+        task,
+        employee: {
+          id: payment.user_id,
+          name: profile?.full_name || "Unknown",
+          email: profile?.email,
+          hourlyRate: empProfile?.hourly_rate || 0,
+        },
+        hoursLogged,
+        currentAiCalculation: calculation.success ? calculation.data : null,
+      };
+    } catch (error) {
+      throw new Error(
+        error instanceof Error
+          ? error.message
+          : "An unexpected error occurred while fetching payment details"
+      );
+    }
+  },
+  {
+    name: "get_payment_details",
+    description:
+      "Get full details of a payment including the task, employee, hours logged and how the AI-suggested amount was calculated. Use this to review a payment before approving it.",
+    schema: getPaymentDetailsSchema,
+  }
+);
@@ -1,10 +1,464 @@
-import * as z from "zod";
+// @ts-check
 import { tool } from "langchain";
 import { supabase } from "../../supabase.js";
-import { findEmployee, getTaskRequiredSkills } from "../shared/helpers.js";
+import {
+  addChecklistItemsSchema,
+  assignTaskSchema,
+  createTaskSchema,
+  deleteTaskSchema,
+  getTaskDetailsSchema,
+  listTasksSchema,
+  tickChecklistItemSchema,
+  updateTaskSchema,
+} from "../shared/schemas.js";
+import {
+  appendChecklistItems,
+  findEmployee,
+  findProject,
+  getAuthenticatedUser,
+  getChecklistItems,
+  getEmployeeSkillLevels,
+  getMatchingWeights,
+  getTaskBlockers,
+  getTaskRequiredSkills,
+  getTaskSkillRequirements,
+  inviteEmployee,
+  setChecklistItemDone,
+  setTaskRequiredSkills,
+} from "../shared/helpers.js";
+import { describeInvalidTransition } from "../../shared/taskStatus.js";
+import { describeBlockedTransition } from "../../shared/taskDependencies.js";
+import { describeMatch, explainMatch, rankCandidates } from "../../shared/matching.js";
+
+/** @typedef {import("../shared/schemas.js").CreateTaskInput} CreateTaskInput */
+/** @typedef {import("../shared/schemas.js").AssignTaskInput} AssignTaskInput */
+/** @typedef {import("../shared/schemas.js").UpdateTaskInput} UpdateTaskInput */
+/** @typedef {import("../shared/schemas.js").ListTasksInput} ListTasksInput */
+/** @typedef {import("../shared/schemas.js").GetTaskDetailsInput} GetTaskDetailsInput */
+/** @typedef {import("../shared/schemas.js").AddChecklistItemsInput} AddChecklistItemsInput */
+/** @typedef {import("../shared/schemas.js").TickChecklistItemInput} TickChecklistItemInput */
+/** @typedef {import("../shared/schemas.js").DeleteTaskInput} DeleteTaskInput */
 
+/**
+ * Tool: Create a new task
+ */
+export const createTask = tool(
+  /** @param {CreateTaskInput} input */
+  async ({ title, description, assignTo, deadline, priority, estimatedHours, skills, project }, config) => {
+    try {
+      const user = getAuthenticatedUser(config);
+
+      // Find the employee
+      const employeeResult = await findEmployee(assignTo);
+
+      if (!employeeResult.success || !employeeResult.data) {
+        throw new Error(
+          "error" in employeeResult ? employeeResult.error : "Employee not found"
+        );
+      }
+
+      const employee = employeeResult.data;
+
+      // Validate deadline is in the future
+      const deadlineDate = new Date(deadline);
+      if (Number.isNaN(deadlineDate.getTime()) || deadlineDate < new Date()) {
+        throw new Error("Invalid deadline: The deadline must be a valid date in the future");
+      }
+
+      // Resolve the project, if one was given
+      let projectRecord = null;
+      if (project) {
+        const projectResult = await findProject(project);
+        if (!projectResult.success) {
+          throw new Error(projectResult.error);
+        }
+        projectRecord = projectResult.data;
+      }
+
+      // Create the task on behalf of the signed-in admin or staff member. Like
+      // the assignment dialog, it stays unassigned until the employee accepts
+      // the invitation.
+      const { data: newTask, error: createError } = await supabase
+        .from("tasks")
+        .insert({
+          title,
+          description,
+          created_by: user.id,
+          deadline: deadlineDate.toISOString(),
+          priority,
+          estimated_hours: estimatedHours,
+          project_id: projectRecord?.id ?? null,
+          status: "invited",
+          progress: 0,
+        })
+        .select()
+        .single();
+
+      if (createError) {
+        throw new Error(`Failed to create task in database: ${createError.message}`);
+      }
+
+      let invitation;
+      try {
+        invitation = await inviteEmployee(newTask.id, employee.user_id, user.id);
+      } catch (inviteError) {
+        // Don't leave a task behind that nobody was invited to
+        await supabase.from("tasks").delete().eq("id", newTask.id);
+        throw inviteError;
+      }
+
+      // Add required skills if provided
+      if (skills && skills.length > 0) {
+        const skillsResult = await setTaskRequiredSkills(newTask.id, skills);
+        if (!skillsResult.success) {
+          // Task created but skills failed - return with warning
+          return {
+            task: {
+              id: newTask.id,
+              title: newTask.title,
+              status: newTask.status,
+              invited: employee.full_name,
+              invitationExpiresAt: invitation.expires_at,
+            },
+            warning: "Skills could not be added",
+          };
+        }
+      }
+
+      return {
+        task: {
+          id: newTask.id,
+          title: newTask.title,
+          status: newTask.status,
+          invited: employee.full_name,
+          invitationExpiresAt: invitation.expires_at,
+          deadline: newTask.deadline,
+          priority: newTask.priority,
+          requiredSkills: skills || [],
+          project: projectRecord?.name ?? null,
+        },
+        employee: {
+          id: employee.user_id,
+          name: employee.full_name,
+          currentWorkload: employee.current_workload || 0,
+        },
+      };
+    } catch (error) {
+      throw new Error(
+        error instanceof Error
+          ? error.message
+          : "An unexpected error occurred while creating the task"
+      );
+    }
+  },
+  {
+    name: "create_task",
+    description: `Create a new task and invite an employee to it. The task is assigned to them once they accept the invitation.
+  IMPORTANT: If ANY required information is missing (title, description, assignee, deadline, priority),
+  ask the user for it before creating the task. Don't make assumptions.`,
+    schema: createTaskSchema,
+  }
+);
+
+/**
+ * Tool: Assign or reassign a task to an employee
+ */
+export const assignTask = tool(
+  /** @param {AssignTaskInput} input */
+  async ({ taskId, assignTo, getSuggestions }, config) => {
+    const user = getAuthenticatedUser(config);
+
+    try {
+      // Get the task
+      const { data: task, error: taskError } = await supabase
+        .from("tasks")
+        .select("*")
+        .eq("id", taskId)
+        .single();
+
+      if (taskError || !task) {
+        throw new Error(`Task with ID "${taskId}" not found`);
+      }
+
+      // Get required skills (with minimum levels) for matching
+      const requirements = await getTaskSkillRequirements(taskId);
+
+      // If requesting suggestions or no assignee provided
+      if (getSuggestions || !assignTo) {
+        const { data: empProfiles } = await supabase
+          .from("employee_profiles")
+          .select("*")
+          .eq("availability", true);
+
+        if (!empProfiles || empProfiles.length === 0) {
+          throw new Error("No available employees found");
+        }
+
+        // Get profiles
+        const { data: profiles } = await supabase
+          .from("profiles")
+          .select("id, full_name, email")
+          .in("id", empProfiles.map((ep) => ep.user_id));
+
+        if (!profiles) {
+          throw new Error("Failed to fetch employee profiles");
+        }
+
+        // Score employees with the shared matching engine (server/shared/matching.js)
+        const employees = await Promise.all(
+          empProfiles
+            .filter((emp) => profiles.some((p) => p.id === emp.user_id))
+            .map(async (emp) => ({
+              employee: emp,
+              profile: profiles.find((p) => p.id === emp.user_id),
+              skills: await getEmployeeSkillLevels(emp.id),
+              availability: emp.availability,
+              currentWorkload: emp.current_workload,
+              performanceScore: emp.performance_score,
+            }))
+        );
+
+        const matchingWeights = await getMatchingWeights();
+        const topSuggestions = rankCandidates(
+          employees,
+          { requiredSkills: requirements, priority: task.priority },
+          matchingWeights
+        ).slice(0, 5);
+
+        if (!assignTo) {
+          // Return suggestions only
+          return {
+            task: {
+              id: task.id,
+              title: task.title,
+              requiredSkills: requirements.map((skill) => `${skill.name} (min level ${skill.level})`),
+            },
+            suggestions: topSuggestions.map((item) => ({
+              id: item.employee.user_id,
+              name: item.profile.full_name,
+              email: item.profile.email,
+              department: item.employee.department,
+              designation: item.employee.designation,
+              skills: item.skills.map((skill) => `${skill.name} (level ${skill.level})`),
+              currentWorkload: item.employee.current_workload || 0,
+              performanceScore: item.employee.performance_score || 0,
+              matchedSkills: item.match.matchedSkills,
+              belowLevelSkills: item.match.belowLevelSkills,
+              missingSkills: item.match.missingSkills,
+              overallScore: item.match.score,
+              breakdown: item.match.breakdown,
+              explanation: explainMatch(item.match),
+              recommendation: describeMatch(item.match.score),
+            })),
+          };
+        }
+      }
+
+      // Find the employee to assign to
+      const employeeResult = await findEmployee(assignTo);
+
+      if (!employeeResult.success || !employeeResult.data) {
+        throw new Error(
+          "error" in employeeResult ? employeeResult.error : "Employee not found"
+        );
+      }
+
+      const newEmployee = employeeResult.data;
+
+      const transitionError = describeInvalidTransition(task.status, "invited", user.role);
+      if (transitionError) {
+        throw new Error(`Cannot assign "${task.title}": ${transitionError}`);
+      }
+
+      // Back to invited and unassigned until the new employee accepts
+      const { error: updateError } = await supabase
+        .from("tasks")
+        .update({
+          assigned_to: null,
+          status: "invited",
+          updated_at: new Date().toISOString(),
+        })
+        .eq("id", taskId);
+
+      if (updateError) {
+        throw new Error(`Failed to assign task: ${updateError.message}`);
+      }
+
+      // A direct assignment replaces any open multi-candidate invitations
+      await supabase
+        .from("invitations")
+        .update({ status: "withdrawn", responded_at: new Date().toISOString() })
+        .eq("task_id", taskId)
+        .in("status", ["queued", "pending"]);
+
+      const invitation = await inviteEmployee(taskId, newEmployee.user_id, user.id);
+
+      return {
+        task: {
+          id: task.id,
+          title: task.title,
+          status: "invited",
+        },
+        invited: {
+          id: newEmployee.user_id,
+          name: newEmployee.full_name,
+          currentWorkload: newEmployee.current_workload || 0,
+          invitationExpiresAt: invitation.expires_at,
+        },
+      };
+    } catch (error) {
+      throw new Error(
+        error instanceof Error
+          ? error.message
+          : "An unexpected error occurred while assigning the task"
+      );
+    }
+  },
+  {
+    name: "assign_task",
+    description: `Assign or reassign a task to an employee by inviting them; the task is theirs once they accept.
+  Can suggest best employees based on skills, availability, workload and performance, weighted by the task priority,
+  with a per-factor breakdown of each suggestion.
+  Use this when the user wants to assign/reassign a task or ask "who should do this task?".`,
+    schema: assignTaskSchema,
+  }
+);
+
+/**
+ * Tool: Update task details
+ */
+export const updateTask = tool(
+  /** @param {UpdateTaskInput} input */
+  async ({ taskId, updates }, config) => {
+    const user = getAuthenticatedUser(config);
+
+    try {
+      // Verify task exists
+      const { data: task, error: fetchError } = await supabase
+        .from("tasks")
+        .select("id, title, status, assigned_to, progress_from_checklist")
+        .eq("id", taskId)
+        .single();
+
+      if (fetchError || !task) {
+        throw new Error(`Task with ID "${taskId}" not found. Please verify the task ID`);
+      }
+
+      if (updates.progress !== undefined && task.progress_from_checklist) {
+        throw new Error(
+          `Progress on "${task.title}" follows its checklist. Tick checklist items with tick_checklist_item instead.`
+        );
+      }
+
+      if (updates.status !== undefined) {
+        const transitionError =
+          describeInvalidTransition(task.status, updates.status, user.role) ??
+          (updates.status !== task.status
+            ? describeBlockedTransition(updates.status, await getTaskBlockers(taskId))
+            : null);
+        if (transitionError) {
+          throw new Error(`Cannot update "${task.title}": ${transitionError}`);
+        }
+      }
+
+      // Validate deadline if provided
+      if (updates.deadline) {
+        const deadlineDate = new Date(updates.deadline);
+        if (deadlineDate < new Date() && task.status !== "completed" && task.status !== "rejected") {
+          throw new Error(
+            `Invalid deadline: Deadline must be in the future for active tasks (provided: ${updates.deadline})`
+          );
+        }
+      }
+
+      // Build update object
+      const updateData = {
+        updated_at: new Date().toISOString(),
+      };
+
+      if (updates.title !== undefined) updateData.title = updates.title;
+      if (updates.description !== undefined) updateData.description = updates.description;
+      if (updates.deadline !== undefined) updateData.deadline = new Date(updates.deadline).toISOString();
+      if (updates.priority !== undefined) updateData.priority = updates.priority;
+      if (updates.progress !== undefined) updateData.progress = updates.progress;
+      if (updates.status !== undefined) {
+        updateData.status = updates.status;
+        if (updates.status === "completed") {
+          updateData.completed_at = new Date().toISOString();
+          updateData.progress = 100;
+        }
+      }
+      if (updates.estimatedHours !== undefined) updateData.estimated_hours = updates.estimatedHours;
+      if (updates.project === null) updateData.project_id = null;
+      if (updates.project) {
+        const projectResult = await findProject(updates.project);
+        if (!projectResult.success) {
+          throw new Error(projectResult.error);
+        }
+        updateData.project_id = projectResult.data.id;
+      }
+
+      // Perform update
+      const { error: updateError } = await supabase
+        .from("tasks")
+        .update(updateData)
+        .eq("id", taskId);
+
+      if (updateError) {
+        throw new Error(`Failed to update task: ${updateError.message}`);
+      }
+
+      // Update skills if provided
+      if (updates.requiredSkills !== undefined) {
+        const skillsResult = await setTaskRequiredSkills(taskId, updates.requiredSkills);
+        if (!skillsResult.success) {
+          return {
+            success: true,
+            message: "Task updated but failed to update required skills",
+            data: {
+              taskId,
+              warning: "Skills update failed",
+            },
+          };
+        }
+      }
+
+      // The assignee's workload and completion count are recomputed by the
+      // database when the status changes
+
+      const changedFields = Object.keys(updates).join(", ");
+
+      return {
+        success: true,
+        message: `Successfully updated ${changedFields} for task "${task.title}"`,
+        data: {
+          taskId,
+          updatedFields: updates,
+        },
+      };
+    } catch (error) {
+      throw new Error(
+        error instanceof Error
+          ? error.message
+          : "An unexpected error occurred while updating the task"
+      );
+    }
+  },
+  {
+    name: "update_task",
+    description: `Update task information such as title, description, deadline, priority, status or progress.
+  Use this when the user wants to modify an existing task.
+  IMPORTANT: For sensitive updates (e.g., changing deadline, priority), confirm with the user first.`,
+    schema: updateTaskSchema,
+  }
+);
+
+/**
+ * Tool: List tasks with filters
+ */
 export const listTasks = tool(
-  async ({ status, priority, assignedTo, overdue, limit = 20 } = {}) => {
+  /** @param {ListTasksInput} input */
+  async ({ status, priority, assignedTo, project, overdue, limit = 20 }) => {
     try {
       // Build query
       let query = supabase
@@ -34,6 +488,16 @@ export const listTasks = tool(
         }
       }
 
+      if (project === "none") {
+        query = query.is("project_id", null);
+      } else if (project) {
+        const projectResult = await findProject(project);
+        if (!projectResult.success) {
+          throw new Error(projectResult.error);
+        }
+        query = query.eq("project_id", projectResult.data.id);
+      }
+
       const { data: tasks, error } = await query;
 
       if (error) {
@@ -65,6 +529,14 @@ export const listTasks = tool(
         .select("id, full_name, email")
         .in("id", employeeIds);
 
+      // Get project names
+      const projectIds = [
+        ...new Set(filteredTasks.map((t) => t.project_id).filter(Boolean)),
+      ];
+      const { data: projects } = projectIds.length > 0
+        ? await supabase.from("projects").select("id, name").in("id", projectIds)
+        : { data: [] };
+
       // Sort by priority and deadline
       filteredTasks.sort((a, b) => {
         const priorityOrder = { high: 3, medium: 2, low: 1 };
@@ -92,6 +564,7 @@ export const listTasks = tool(
 
       const lines = filteredTasks.map((task) => {
         const assignee = profiles?.find((p) => p.id === task.assigned_to);
+        const taskProject = projects?.find((p) => p.id === task.project_id);
         const isOverdue =
           task.deadline &&
           new Date(task.deadline) < new Date() &&
@@ -102,8 +575,8 @@ export const listTasks = tool(
         } - Priority: ${task.priority} - Progress: ${
           task.progress
         }% - Assigned to: ${assignee?.full_name || "Unassigned"}${
-          isOverdue ? " ⚠️ OVERDUE" : ""
-        }`;
+          taskProject ? ` - Project: ${taskProject.name}` : ""
+        }${isOverdue ? " ⚠️ OVERDUE" : ""}`;
       });
 
       const summary = `Found ${filteredTasks.length} task(s) matching your criteria.`;
@@ -120,38 +593,8 @@ export const listTasks = tool(
   {
     name: "list_tasks",
     description:
-      "Get a list of tasks with optional filters. Use this when the user asks 'show tasks', 'what are the active tasks', 'list overdue tasks', etc.",
-    schema: z.object({
-      status: z
-        .string()
-        .optional()
-        .describe(
-          "Filter by task status: pending, invited, accepted, ongoing, completed, rejected"
-        ),
-      priority: z
-        .string()
-        .optional()
-        .describe("Filter by priority level: low, medium, high"),
-      assignedTo: z
-        .string()
-        .optional()
-        .describe("Filter by employee name or ID"),
-      overdue: z
-        .boolean()
-        .optional()
-        .describe("Show only overdue tasks (true/false)"),
-      limit: z
-        .number()
-        .int()
-        .min(1)
-        .max(100)
-        .optional()
-        .default(20)
-        .describe("Maximum number of results (1-100)"),
-    }),
-    returnType: z
-      .string()
-      .describe("A formatted, human-readable list of tasks"),
+      "Get a list of tasks with optional filters. Use this when the user asks 'show tasks', 'what are the active tasks', 'list overdue tasks', 'tasks in the website project', etc.",
+    schema: listTasksSchema,
   }
 );
 
@@ -159,6 +602,7 @@ export const listTasks = tool(
  * Tool: Get details for a single task
  */
 export const getTaskDetails = tool(
+  /** @param {GetTaskDetailsInput} input */
   async ({ taskId }) => {
     try {
       if (!taskId) throw new Error("taskId is required");
@@ -184,8 +628,10 @@ export const getTaskDetails = tool(
         assignee = profile || null;
       }
 
-      // Get required skills
+      // Get required skills and unfinished predecessors
       const skills = await getTaskRequiredSkills(taskId);
+      const blockers = await getTaskBlockers(taskId);
+      const checklist = await getChecklistItems(taskId);
 
       // Get recent updates
       const { data: updates } = await supabase
@@ -201,6 +647,13 @@ export const getTaskDetails = tool(
         ...task,
         assignee,
         requiredSkills: skills,
+        blockedBy: blockers,
+        checklist: checklist.map((item, index) => ({
+          number: index + 1,
+          id: item.id,
+          title: item.title,
+          done: item.is_done,
+        })),
         recentUpdates: safeUpdates,
       };
     } catch (error) {
@@ -214,9 +667,97 @@ export const getTaskDetails = tool(
   {
     name: "get_task_details",
     description: "Get comprehensive details for a single task by its ID.",
-    schema: z.object({
-      taskId: z.string().uuid().describe("The unique ID of the task to fetch"),
-    }),
+    schema: getTaskDetailsSchema,
+  }
+);
+
+/**
+ * Load a task for a checklist change, refusing closed tasks
+ */
+async function getOpenTaskForChecklist(taskId) {
+  const { data: task, error } = await supabase
+    .from("tasks")
+    .select("id, title, status")
+    .eq("id", taskId)
+    .maybeSingle();
+
+  if (error || !task) {
+    throw new Error(`Task with ID "${taskId}" not found. Please verify the task ID`);
+  }
+
+  if (task.status === "completed" || task.status === "rejected") {
+    throw new Error(`Cannot change the checklist of "${task.title}" because it is ${task.status}.`);
+  }
+
+  return task;
+}
+
+/**
+ * Tool: Add checklist items to a task
+ */
+export const addChecklistItems = tool(
+  /** @param {AddChecklistItemsInput} input */
+  async ({ taskId, items, deriveProgress }, config) => {
+    const user = getAuthenticatedUser(config);
+
+    try {
+      const task = await getOpenTaskForChecklist(taskId);
+      const result = await appendChecklistItems(taskId, items, user.id, deriveProgress);
+
+      return {
+        success: true,
+        message: `Added ${items.length} checklist item(s) to "${task.title}".`,
+        ...result,
+      };
+    } catch (error) {
+      throw new Error(
+        error instanceof Error
+          ? error.message
+          : "An unexpected error occurred while adding checklist items"
+      );
+    }
+  },
+  {
+    name: "add_checklist_items",
+    description:
+      "Add checklist items (subtasks) to a task. Set deriveProgress to make the task's progress follow the share of ticked items instead of manual updates.",
+    schema: addChecklistItemsSchema,
+  }
+);
+
+/**
+ * Tool: Tick or untick a checklist item
+ */
+export const tickChecklistItem = tool(
+  /** @param {TickChecklistItemInput} input */
+  async ({ taskId, item, done = true }, config) => {
+    const user = getAuthenticatedUser(config);
+
+    try {
+      const task = await getOpenTaskForChecklist(taskId);
+      const result = await setChecklistItemDone(taskId, item, done, user.id);
+
+      return {
+        success: true,
+        message: `${done ? "Ticked" : "Unticked"} "${result.item.title}" on "${task.title}".${
+          result.progressFromChecklist ? ` Task progress is now ${result.taskProgress}%.` : ""
+        }`,
+        checklist: result.checklist,
+        taskProgress: result.taskProgress,
+      };
+    } catch (error) {
+      throw new Error(
+        error instanceof Error
+          ? error.message
+          : "An unexpected error occurred while updating the checklist"
+      );
+    }
+  },
+  {
+    name: "tick_checklist_item",
+    description:
+      "Tick (or untick with done=false) a checklist item on a task. The item can be given by number, title or ID; get_task_details lists the checklist.",
+    schema: tickChecklistItemSchema,
   }
 );
 
@@ -224,16 +765,12 @@ export const getTaskDetails = tool(
  * Tool: Delete a task
  */
 export const deleteTask = tool(
+  /** @param {DeleteTaskInput} input */
   async ({ taskId, confirmed }) => {
     try {
       console.log("🗑️ Delete Task Called:", { taskId, confirmed });
       
       if (!taskId) throw new Error("taskId is required");
-      
-      // Require explicit confirmation for safety
-      if (!confirmed) {
-        throw new Error("Task deletion requires explicit confirmation. Please set confirmed=true to proceed.");
-      }
 
       // Get task details first for logging
       const { data: task } = await supabase
@@ -246,6 +783,16 @@ export const deleteTask = tool(
         throw new Error(`Task with ID "${taskId}" not found`);
       }
 
+      // Require explicit confirmation for safety
+      if (!confirmed) {
+        return {
+          success: false,
+          error: "Confirmation required",
+          details: `Permanently delete the task "${task.title}" (status: ${task.status}) and all of its updates and history.`,
+          missingFields: ["confirmation"],
+        };
+      }
+
       // Note: Supabase RLS policies should handle cascading deletes (e.g., skills, updates)
       const { error } = await supabase.from("tasks").delete().eq("id", taskId);
 
@@ -253,36 +800,7 @@ export const deleteTask = tool(
         throw new Error(`Failed to delete task: ${error.message}`);
       }
 
-      // Update employee workload if task was active
-      // (try/catch so we don't fail deletion just because workload update failed)
-      try {
-        if (
-          task?.assigned_to &&
-          task?.status &&
-          !["completed", "rejected"].includes(task.status)
-        ) {
-          const { data: employee } = await supabase
-            .from("employee_profiles")
-            .select("current_workload")
-            .eq("user_id", task.assigned_to)
-            .single();
-
-          if (employee) {
-            await supabase
-              .from("employee_profiles")
-              .update({
-                current_workload: Math.max(
-                  0,
-                  (employee.current_workload || 0) - 1
-                ),
-              })
-              .eq("user_id", task.assigned_to);
-          }
-        }
-      } catch (e) {
-        // ignore workload update error
-        console.warn("Failed to update workload after delete:", e);
-      }
+      // The sync_employee_workload trigger updates the assignee's workload
 
       return {
         success: true,
@@ -299,10 +817,7 @@ export const deleteTask = tool(
   {
     name: "delete_task",
     description:
-      "Permanently delete a task from the system. This action cannot be undone. Requires confirmation parameter.",
-    schema: z.object({
-      taskId: z.string().uuid().describe("The unique ID of the task to delete"),
-      confirmed: z.boolean().describe("Must be true to confirm deletion. This is a destructive operation."),
-    }),
+      "Permanently delete a task from the system. This action cannot be undone.",
+    schema: deleteTaskSchema,
   }
 );
@@ -0,0 +1,194 @@
+// @ts-check
+import { tool } from "langchain";
+import { supabase } from "../../supabase.js";
+import {
+  listMyInvitationsSchema,
+  respondToInvitationSchema,
+} from "../shared/schemas.js";
+import { embeddedRow, getAssignedTask, getAuthenticatedUser } from "../shared/helpers.js";
+import { getAllowedTransitions } from "../../shared/taskStatus.js";
+
+/** @typedef {import("../shared/schemas.js").ListMyInvitationsInput} ListMyInvitationsInput */
+/** @typedef {import("../shared/schemas.js").RespondToInvitationInput} RespondToInvitationInput */
+
+/**
+ * Tool: List the current employee's task invitations
+ */
+export const listMyInvitations = tool(
+  /** @param {ListMyInvitationsInput} input */
+  async ({ status = "pending" }, config) => {
+    const user = getAuthenticatedUser(config);
+
+    try {
+      const { data: invitations, error } = await supabase
+        .from("invitations")
+        .select("id, task_id, from_user_id, status, rejection_reason, expires_at, created_at")
+        .eq("to_user_id", user.id)
+        .eq("status", status)
+        .order("created_at", { ascending: false });
+
+      if (error) {
+        throw new Error(`Database error while fetching invitations: ${error.message}`);
+      }
+
+      // Tasks assigned directly with status "invited" count as pending invitations too
+      const { data: invitedTasks } =
+        status === "pending"
+          ? await supabase
+              .from("tasks")
+              .select("id")
+              .eq("assigned_to", user.id)
+              .eq("status", "invited")
+          : { data: [] };
+
+      const taskIds = [
+        ...new Set([
+          ...(invitations || []).map((inv) => inv.task_id),
+          ...(invitedTasks || []).map((t) => t.id),
+        ]),
+      ];
+
+      if (taskIds.length === 0) {
+        return `You have no ${status} invitations.`;
+      }
+
+      const { data: tasks } = await supabase
+        .from("tasks")
+        .select("id, title, priority, deadline, created_by")
+        .in("id", taskIds);
+
+      const senderIds = [...new Set((tasks || []).map((t) => t.created_by))];
+      const { data: senders } = await supabase
+        .from("profiles")
+        .select("id, full_name")
+        .in("id", senderIds);
+
+      const lines = taskIds.map((taskId) => {
+        const task = tasks?.find((t) => t.id === taskId);
+        const invitation = invitations?.find((inv) => inv.task_id === taskId);
+        const sender = senders?.find(
+          (p) => p.id === (invitation?.from_user_id || task?.created_by)
+        );
+
+        return `• [${taskId}] ${task?.title || "Unknown task"} - Priority: ${
+          task?.priority || "n/a"
+        } - From: ${sender?.full_name || "Unknown"}${
+          task?.deadline ? ` - Deadline: ${new Date(task.deadline).toDateString()}` : ""
+        }${
+          status === "pending" && invitation?.expires_at
+            ? ` - Respond by: ${new Date(invitation.expires_at).toLocaleString()}`
+            : ""
+        }${invitation?.rejection_reason ? ` - Reason: ${invitation.rejection_reason}` : ""}`;
+      });
+
+      return `${lines.join("\n")}\n\nFound ${taskIds.length} ${status} invitation(s).`;
+    } catch (error) {
+      throw new Error(
+        error instanceof Error
+          ? error.message
+          : "An unexpected error occurred while fetching invitations"
+      );
+    }
+  },
+  {
+    name: "list_my_invitations",
+    description:
+      "Get the task invitations sent to the current employee. Use this when the user asks 'do I have new tasks', 'show my invitations', 'what's in my inbox', etc.",
+    schema: listMyInvitationsSchema,
+  }
+);
+
+/**
+ * Tool: Accept or reject a task invitation
+ */
+export const respondToInvitation = tool(
+  /** @param {RespondToInvitationInput} input */
+  async ({ taskId, response, reason }, config) => {
+    const user = getAuthenticatedUser(config);
+
+    try {
+      const accepted = response === "accept";
+
+      if (response === "reject" && !reason?.trim()) {
+        throw new Error("A reason is required when rejecting an invitation.");
+      }
+
+      const now = new Date().toISOString();
+
+      // Invitation rows (possibly one of several candidates): answering the
+      // invitation lets the database claim the task or invite the next candidate
+      const { data: invitation } = await supabase
+        .from("invitations")
+        .select("id, tasks (title)")
+        .eq("task_id", taskId)
+        .eq("to_user_id", user.id)
+        .eq("status", "pending")
+        .maybeSingle();
+
+      if (invitation) {
+        const { error: invitationError } = await supabase
+          .from("invitations")
+          .update({
+            status: accepted ? "accepted" : "rejected",
+            responded_at: now,
+            rejection_reason: accepted ? null : reason.trim(),
+          })
+          .eq("id", invitation.id)
+          .eq("status", "pending");
+
+        if (invitationError) {
+          throw new Error(`Failed to ${response} the invitation: ${invitationError.message}`);
+        }
+
+        const title = embeddedRow(invitation.tasks)?.title || "the task";
+        return {
+          success: true,
+          message: accepted ? `You accepted "${title}".` : `You rejected "${title}".`,
+        };
+      }
+
+      // Task assigned directly with status "invited"
+      const task = await getAssignedTask(taskId, user.id);
+      const nextStatus = accepted ? "accepted" : "rejected";
+
+      if (!getAllowedTransitions(task.status, "employee").some((t) => t.to === nextStatus)) {
+        throw new Error(
+          `There is no open invitation for "${task.title}" (the task is ${task.status}).`
+        );
+      }
+
+      const { error: taskError } = await supabase
+        .from("tasks")
+        .update(
+          accepted
+            ? { status: "accepted", accepted_at: now, updated_at: now }
+            : { status: "rejected", updated_at: now }
+        )
+        .eq("id", taskId)
+        .eq("assigned_to", user.id);
+
+      if (taskError) {
+        throw new Error(`Failed to ${response} the task: ${taskError.message}`);
+      }
+
+      return {
+        success: true,
+        message: accepted
+          ? `You accepted "${task.title}".`
+          : `You rejected "${task.title}".`,
+      };
+    } catch (error) {
+      throw new Error(
+        error instanceof Error
+          ? error.message
+          : "An unexpected error occurred while responding to the invitation"
+      );
+    }
+  },
+  {
+    name: "respond_to_invitation",
+    description:
+      "Accept or reject a task the current employee has been invited to. A task may be offered to several employees at once; the first to accept gets it. A reason is REQUIRED when rejecting - ask for it if missing. Confirm the choice with the user before calling.",
+    schema: respondToInvitationSchema,
+  }
+);
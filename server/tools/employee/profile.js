@@ -0,0 +1,304 @@
+// @ts-check
+import { tool } from "langchain";
+import { supabase } from "../../supabase.js";
+import {
+  getMyPerformanceSchema,
+  getMyProfileSchema,
+  listMyPaymentsSchema,
+  updateMyProfileSchema,
+} from "../shared/schemas.js";
+import {
+  findEmployee,
+  getAuthenticatedUser,
+  setEmployeeSkills,
+} from "../shared/helpers.js";
+
+/** @typedef {import("../shared/schemas.js").GetMyProfileInput} GetMyProfileInput */
+/** @typedef {import("../shared/schemas.js").UpdateMyProfileInput} UpdateMyProfileInput */
+/** @typedef {import("../shared/schemas.js").GetMyPerformanceInput} GetMyPerformanceInput */
+/** @typedef {import("../shared/schemas.js").ListMyPaymentsInput} ListMyPaymentsInput */
+
+/**
+ * Tool: View the current employee's profile
+ */
+export const getMyProfile = tool(
+  /** @param {GetMyProfileInput} _input */
+  async (_input, config) => {
+    const user = getAuthenticatedUser(config);
+
+    const employeeResult = await findEmployee(user.id);
+
+    if (!employeeResult.success) {
+      throw new Error(employeeResult.error || "Your employee profile was not found");
+    }
+
+    const { data: empProfile } = await supabase
+      .from("employee_profiles")
+      .select("bio")
+      .eq("user_id", user.id)
+      .single();
+
+    return {
+      ...employeeResult.data,
+      bio: empProfile?.bio || null,
+    };
+  },
+  {
+    name: "get_my_profile",
+    description:
+      "Get the current employee's own profile: department, designation, skills, availability, bio and hourly rate.",
+    schema: getMyProfileSchema,
+  }
+);
+
+/**
+ * Tool: Update the current employee's skills, availability or bio
+ */
+export const updateMyProfile = tool(
+  /** @param {UpdateMyProfileInput} input */
+  async ({ skills, availability, bio }, config) => {
+    const user = getAuthenticatedUser(config);
+
+    try {
+      if (skills === undefined && availability === undefined && bio === undefined) {
+        throw new Error("At least one field must be provided to update.");
+      }
+
+      const { data: existing, error: fetchError } = await supabase
+        .from("employee_profiles")
+        .select("id")
+        .eq("user_id", user.id)
+        .single();
+
+      if (fetchError || !existing) {
+        throw new Error("Your employee profile was not found.");
+      }
+
+      const updateData = {
+        updated_at: new Date().toISOString(),
+      };
+
+      if (availability !== undefined) updateData.availability = availability;
+      if (bio !== undefined) updateData.bio = bio;
+
+      if (Object.keys(updateData).length > 1) {
+        const { error: updateError } = await supabase
+          .from("employee_profiles")
+          .update(updateData)
+          .eq("user_id", user.id);
+
+        if (updateError) {
+          throw new Error(`Failed to update your profile: ${updateError.message}`);
+        }
+      }
+
+      if (skills !== undefined) {
+        const skillsResult = await setEmployeeSkills(existing.id, skills);
+        if (!skillsResult.success) {
+          throw new Error(skillsResult.error || "Failed to update skills");
+        }
+      }
+
+      const changedFields = Object.entries({ skills, availability, bio })
+        .filter(([, value]) => value !== undefined)
+        .map(([key]) => key);
+
+      return {
+        success: true,
+        message: `Updated your ${changedFields.join(", ")}.`,
+      };
+    } catch (error) {
+      throw new Error(
+        error instanceof Error
+          ? error.message
+          : "An unexpected error occurred while updating your profile"
+      );
+    }
+  },
+  {
+    name: "update_my_profile",
+    description:
+      "Update the current employee's own skills, availability or bio. Skills replace the existing list, so include the ones to keep. Department, designation and hourly rate can only be changed by an admin.",
+    schema: updateMyProfileSchema,
+  }
+);
+
+/**
+ * Tool: View the current employee's performance metrics
+ */
+export const getMyPerformance = tool(
+  /** @param {GetMyPerformanceInput} input */
+  async ({ timeRange = "month" }, config) => {
+    const user = getAuthenticatedUser(config);
+
+    try {
+      const { data: empProfile } = await supabase
+        .from("employee_profiles")
+        .select("current_workload, performance_score, quality_score, tasks_completed")
+        .eq("user_id", user.id)
+        .single();
+
+      const now = new Date();
+      let startDate = new Date();
+
+      switch (timeRange) {
+        case "week":
+          startDate.setDate(now.getDate() - 7);
+          break;
+        case "month":
+          startDate.setMonth(now.getMonth() - 1);
+          break;
+        case "quarter":
+          startDate.setMonth(now.getMonth() - 3);
+          break;
+        case "year":
+          startDate.setFullYear(now.getFullYear() - 1);
+          break;
+        case "all":
+          startDate = new Date(0);
+          break;
+      }
+
+      const { data: tasks } = await supabase
+        .from("tasks")
+        .select("id, status, deadline, accepted_at, completed_at")
+        .eq("assigned_to", user.id)
+        .gte("created_at", startDate.toISOString());
+
+      const completedTasks = tasks?.filter((t) => t.status === "completed") || [];
+      const onTimeTasks = completedTasks.filter(
+        (t) =>
+          t.deadline &&
+          t.completed_at &&
+          new Date(t.completed_at) <= new Date(t.deadline)
+      );
+
+      const { data: updates } = await supabase
+        .from("task_updates")
+        .select("hours_logged")
+        .eq("user_id", user.id)
+        .gte("created_at", startDate.toISOString());
+
+      const totalHours =
+        updates?.reduce((sum, u) => sum + (u.hours_logged || 0), 0) || 0;
+
+      const completionTimes = completedTasks
+        .filter((t) => t.accepted_at && t.completed_at)
+        .map(
+          (t) =>
+            (new Date(t.completed_at).getTime() -
+              new Date(t.accepted_at).getTime()) /
+            (1000 * 60 * 60 * 24)
+        );
+
+      const avgCompletionTime =
+        completionTimes.length > 0
+          ? completionTimes.reduce((sum, time) => sum + time, 0) /
+            completionTimes.length
+          : 0;
+
+      return {
+        timeRange,
+        metrics: {
+          tasksTotal: tasks?.length || 0,
+          tasksCompleted: completedTasks.length,
+          completionRate:
+            tasks && tasks.length > 0
+              ? Math.round((completedTasks.length / tasks.length) * 100)
+              : 0,
+          onTimeRate:
+            completedTasks.length > 0
+              ? Math.round((onTimeTasks.length / completedTasks.length) * 100)
+              : 0,
+          averageCompletionDays: Math.round(avgCompletionTime * 10) / 10,
+          totalHoursLogged: Math.round(totalHours * 10) / 10,
+          currentWorkload: empProfile?.current_workload || 0,
+          performanceScore: empProfile?.performance_score || 0,
+          qualityScore: empProfile?.quality_score || 0,
+          lifetimeTasksCompleted: empProfile?.tasks_completed || 0,
+        },
+      };
+    } catch (error) {
+      throw new Error(
+        error instanceof Error
+          ? error.message
+          : "An unexpected error occurred while calculating your performance"
+      );
+    }
+  },
+  {
+    name: "get_my_performance",
+    description:
+      "Get the current employee's own performance metrics: completion rate, on-time delivery, hours logged and quality score. Use this when the user asks 'how am I doing', 'show my performance', etc.",
+    schema: getMyPerformanceSchema,
+  }
+);
+
+/**
+ * Tool: View the current employee's payments
+ */
+export const listMyPayments = tool(
+  /** @param {ListMyPaymentsInput} input */
+  async ({ status }, config) => {
+    const user = getAuthenticatedUser(config);
+
+    try {
+      let query = supabase
+        .from("payments")
+        .select("id, task_id, amount_manual, amount_ai_suggested, status, created_at, paid_at")
+        .eq("user_id", user.id)
+        .order("created_at", { ascending: false });
+
+      if (status) {
+        query = query.eq("status", status);
+      }
+
+      const { data: payments, error } = await query;
+
+      if (error) {
+        throw new Error(`Database error while fetching your payments: ${error.message}`);
+      }
+
+      const taskIds = [...new Set((payments || []).map((p) => p.task_id))];
+      const { data: tasks } = await supabase
+        .from("tasks")
+        .select("id, title")
+        .in("id", taskIds);
+
+      const amountOf = (p) => p.amount_manual ?? p.amount_ai_suggested ?? 0;
+
+      const totals = (payments || []).reduce(
+        (acc, p) => {
+          acc[p.status] += amountOf(p);
+          return acc;
+        },
+        { pending: 0, approved: 0, paid: 0 }
+      );
+
+      return {
+        payments: (payments || []).map((p) => ({
+          id: p.id,
+          task: tasks?.find((t) => t.id === p.task_id)?.title || "Unknown task",
+          amount: amountOf(p),
+          status: p.status,
+          createdAt: p.created_at,
+          paidAt: p.paid_at,
+        })),
+        totals,
+        count: payments?.length || 0,
+      };
+    } catch (error) {
+      throw new Error(
+        error instanceof Error
+          ? error.message
+          : "An unexpected error occurred while fetching your payments"
+      );
+    }
+  },
+  {
+    name: "list_my_payments",
+    description:
+      "Get the current employee's own payments with their status (pending, approved, paid) and totals. Use this when the user asks 'have I been paid', 'show my earnings', etc.",
+    schema: listMyPaymentsSchema,
+  }
+);
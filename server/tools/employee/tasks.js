@@ -0,0 +1,419 @@
+// @ts-check
+import { tool } from "langchain";
+import { supabase } from "../../supabase.js";
+import {
+  addMyChecklistItemsSchema,
+  completeTaskSchema,
+  getMyTaskDetailsSchema,
+  listMyTasksSchema,
+  tickMyChecklistItemSchema,
+  updateTaskProgressSchema,
+} from "../shared/schemas.js";
+import {
+  appendChecklistItems,
+  getAssignedTask,
+  getAuthenticatedUser,
+  getChecklistItems,
+  getTaskBlockers,
+  getTaskRequiredSkills,
+  setChecklistItemDone,
+} from "../shared/helpers.js";
+import { describeInvalidTransition } from "../../shared/taskStatus.js";
+import { describeBlockedTransition } from "../../shared/taskDependencies.js";
+
+/** @typedef {import("../shared/schemas.js").ListMyTasksInput} ListMyTasksInput */
+/** @typedef {import("../shared/schemas.js").GetMyTaskDetailsInput} GetMyTaskDetailsInput */
+/** @typedef {import("../shared/schemas.js").UpdateTaskProgressInput} UpdateTaskProgressInput */
+/** @typedef {import("../shared/schemas.js").CompleteTaskInput} CompleteTaskInput */
+/** @typedef {import("../shared/schemas.js").AddMyChecklistItemsInput} AddMyChecklistItemsInput */
+/** @typedef {import("../shared/schemas.js").TickMyChecklistItemInput} TickMyChecklistItemInput */
+
+/**
+ * Tool: List tasks assigned to the current employee
+ */
+export const listMyTasks = tool(
+  /** @param {ListMyTasksInput} input */
+  async ({ status, priority, overdue, limit = 20 }, config) => {
+    const user = getAuthenticatedUser(config);
+
+    try {
+      let query = supabase
+        .from("tasks")
+        .select("*")
+        .eq("assigned_to", user.id)
+        .order("created_at", { ascending: false })
+        .limit(limit);
+
+      if (status) {
+        query = query.eq("status", status);
+      }
+
+      if (priority) {
+        query = query.eq("priority", priority);
+      }
+
+      const { data: tasks, error } = await query;
+
+      if (error) {
+        throw new Error(`Database error while fetching your tasks: ${error.message}`);
+      }
+
+      const now = new Date();
+      let filteredTasks = tasks || [];
+
+      if (overdue) {
+        filteredTasks = filteredTasks.filter(
+          (task) =>
+            task.deadline &&
+            new Date(task.deadline) < now &&
+            task.status !== "completed" &&
+            task.status !== "rejected"
+        );
+      }
+
+      // Sort by priority and deadline
+      filteredTasks.sort((a, b) => {
+        const priorityOrder = { high: 3, medium: 2, low: 1 };
+        const aPriority = priorityOrder[a.priority] || 0;
+        const bPriority = priorityOrder[b.priority] || 0;
+
+        if (aPriority !== bPriority) {
+          return bPriority - aPriority;
+        }
+
+        const aDeadline = a.deadline ? new Date(a.deadline).getTime() : Infinity;
+        const bDeadline = b.deadline ? new Date(b.deadline).getTime() : Infinity;
+        return aDeadline - bDeadline;
+      });
+
+      if (filteredTasks.length === 0) {
+        return "You have no tasks matching the given filters.";
+      }
+
+      const lines = filteredTasks.map((task) => {
+        const isOverdue =
+          task.deadline &&
+          new Date(task.deadline) < now &&
+          task.status !== "completed" &&
+          task.status !== "rejected";
+
+        return `• [${task.id}] ${task.title} - Status: ${task.status} - Priority: ${
+          task.priority
+        } - Progress: ${task.progress}%${
+          task.deadline ? ` - Deadline: ${new Date(task.deadline).toDateString()}` : ""
+        }${isOverdue ? " ⚠️ OVERDUE" : ""}`;
+      });
+
+      return `${lines.join("\n")}\n\nFound ${filteredTasks.length} task(s).`;
+    } catch (error) {
+      throw new Error(
+        error instanceof Error
+          ? error.message
+          : "An unexpected error occurred while fetching your tasks"
+      );
+    }
+  },
+  {
+    name: "list_my_tasks",
+    description:
+      "Get the tasks assigned to the current employee. Use this when the user asks 'show my tasks', 'what am I working on', 'what's overdue', etc. The employee is identified automatically.",
+    schema: listMyTasksSchema,
+  }
+);
+
+/**
+ * Tool: Get details of one of the current employee's tasks
+ */
+export const getMyTaskDetails = tool(
+  /** @param {GetMyTaskDetailsInput} input */
+  async ({ taskId }, config) => {
+    const user = getAuthenticatedUser(config);
+
+    try {
+      const task = await getAssignedTask(taskId, user.id);
+      const requiredSkills = await getTaskRequiredSkills(taskId);
+      const blockers = await getTaskBlockers(taskId);
+      const checklist = await getChecklistItems(taskId);
+
+      const { data: updates } = await supabase
+        .from("task_updates")
+        .select("id, update_text, progress, hours_logged, created_at")
+        .eq("task_id", taskId)
+        .eq("user_id", user.id)
+        .order("created_at", { ascending: false });
+
+      const totalHoursLogged =
+        updates?.reduce((sum, u) => sum + (u.hours_logged || 0), 0) || 0;
+
+      return {
+        task: {
+          id: task.id,
+          title: task.title,
+          description: task.description,
+          status: task.status,
+          priority: task.priority,
+          progress: task.progress,
+          deadline: task.deadline,
+          estimatedHours: task.estimated_hours,
+          requiredSkills,
+          blockedBy: blockers.map((blocker) => blocker.title),
+          progressFromChecklist: task.progress_from_checklist,
+          checklist: checklist.map((item, index) => ({
+            number: index + 1,
+            id: item.id,
+            title: item.title,
+            done: item.is_done,
+          })),
+          acceptedAt: task.accepted_at,
+          completedAt: task.completed_at,
+        },
+        totalHoursLogged,
+        recentUpdates: (updates || []).slice(0, 5).map((update) => ({
+          message: update.update_text,
+          progress: update.progress,
+          hoursLogged: update.hours_logged,
+          createdAt: update.created_at,
+        })),
+      };
+    } catch (error) {
+      throw new Error(
+        error instanceof Error
+          ? error.message
+          : "An unexpected error occurred while fetching task details"
+      );
+    }
+  },
+  {
+    name: "get_my_task_details",
+    description:
+      "Get full details of one of the current employee's tasks, including required skills, recent updates and hours logged.",
+    schema: getMyTaskDetailsSchema,
+  }
+);
+
+/**
+ * Tool: Log progress and hours on one of the current employee's tasks
+ */
+export const updateTaskProgress = tool(
+  /** @param {UpdateTaskProgressInput} input */
+  async ({ taskId, progress, hoursLogged, note }, config) => {
+    const user = getAuthenticatedUser(config);
+
+    try {
+      const task = await getAssignedTask(taskId, user.id);
+
+      const transitionError = describeInvalidTransition(task.status, "ongoing", "employee");
+      if (transitionError) {
+        throw new Error(
+          `Cannot log progress on "${task.title}" because it is ${task.status}. Only accepted or ongoing tasks can be updated.`
+        );
+      }
+
+      if (task.status !== "ongoing") {
+        const blockedError = describeBlockedTransition("ongoing", await getTaskBlockers(taskId));
+        if (blockedError) {
+          throw new Error(`Cannot start "${task.title}": ${blockedError}`);
+        }
+      }
+
+      if (task.progress_from_checklist && progress !== task.progress) {
+        throw new Error(
+          `Progress on "${task.title}" follows its checklist (${task.progress}%). Tick checklist items with tick_my_checklist_item instead.`
+        );
+      }
+
+      const { error: taskError } = await supabase
+        .from("tasks")
+        .update({
+          progress,
+          status: "ongoing",
+          updated_at: new Date().toISOString(),
+        })
+        .eq("id", taskId)
+        .eq("assigned_to", user.id);
+
+      if (taskError) {
+        throw new Error(`Failed to update task progress: ${taskError.message}`);
+      }
+
+      const { error: updateError } = await supabase.from("task_updates").insert({
+        task_id: taskId,
+        user_id: user.id,
+        update_text: note?.trim() || `Progress updated to ${progress}%`,
+        progress,
+        hours_logged: hoursLogged && hoursLogged > 0 ? hoursLogged : null,
+      });
+
+      if (updateError) {
+        throw new Error(
+          `Progress saved but the update entry could not be recorded: ${updateError.message}`
+        );
+      }
+
+      return {
+        success: true,
+        message: `Progress on "${task.title}" updated to ${progress}%${
+          hoursLogged ? ` with ${hoursLogged}h logged` : ""
+        }.`,
+      };
+    } catch (error) {
+      throw new Error(
+        error instanceof Error
+          ? error.message
+          : "An unexpected error occurred while updating progress"
+      );
+    }
+  },
+  {
+    name: "update_task_progress",
+    description:
+      "Log progress on one of the current employee's accepted or ongoing tasks, optionally with hours worked and a note. Ask for the progress percentage if the user did not give one. Use complete_task to finish a task.",
+    schema: updateTaskProgressSchema,
+  }
+);
+
+/**
+ * Tool: Mark one of the current employee's tasks as completed
+ */
+export const completeTask = tool(
+  /** @param {CompleteTaskInput} input */
+  async ({ taskId, hoursLogged, note }, config) => {
+    const user = getAuthenticatedUser(config);
+
+    try {
+      const task = await getAssignedTask(taskId, user.id);
+
+      const transitionError = describeInvalidTransition(task.status, "completed", "employee");
+      if (transitionError) {
+        throw new Error(`Cannot complete "${task.title}": ${transitionError}`);
+      }
+
+      const blockedError = describeBlockedTransition("completed", await getTaskBlockers(taskId));
+      if (blockedError) {
+        throw new Error(`Cannot complete "${task.title}": ${blockedError}`);
+      }
+
+      const completedAt = new Date().toISOString();
+
+      const { error: taskError } = await supabase
+        .from("tasks")
+        .update({
+          status: "completed",
+          progress: 100,
+          completed_at: completedAt,
+          updated_at: completedAt,
+        })
+        .eq("id", taskId)
+        .eq("assigned_to", user.id);
+
+      if (taskError) {
+        throw new Error(`Failed to complete task: ${taskError.message}`);
+      }
+
+      await supabase.from("task_updates").insert({
+        task_id: taskId,
+        user_id: user.id,
+        update_text: note?.trim() || "Task completed",
+        progress: 100,
+        hours_logged: hoursLogged && hoursLogged > 0 ? hoursLogged : null,
+      });
+
+      // Workload and completion count are recomputed by the database
+      return {
+        success: true,
+        message: `Task "${task.title}" marked as completed and sent for review.`,
+      };
+    } catch (error) {
+      throw new Error(
+        error instanceof Error
+          ? error.message
+          : "An unexpected error occurred while completing the task"
+      );
+    }
+  },
+  {
+    name: "complete_task",
+    description:
+      "Mark one of the current employee's accepted or ongoing tasks as completed. Confirm with the user before calling. Optionally log final hours and a completion note.",
+    schema: completeTaskSchema,
+  }
+);
+
+/**
+ * Tool: Add checklist items to one of the current employee's tasks
+ */
+export const addMyChecklistItems = tool(
+  /** @param {AddMyChecklistItemsInput} input */
+  async ({ taskId, items, deriveProgress }, config) => {
+    const user = getAuthenticatedUser(config);
+
+    try {
+      const task = await getAssignedTask(taskId, user.id);
+
+      if (task.status === "completed" || task.status === "rejected") {
+        throw new Error(`Cannot change the checklist of "${task.title}" because it is ${task.status}.`);
+      }
+
+      const result = await appendChecklistItems(taskId, items, user.id, deriveProgress);
+
+      return {
+        success: true,
+        message: `Added ${items.length} checklist item(s) to "${task.title}".`,
+        ...result,
+      };
+    } catch (error) {
+      throw new Error(
+        error instanceof Error
+          ? error.message
+          : "An unexpected error occurred while adding checklist items"
+      );
+    }
+  },
+  {
+    name: "add_my_checklist_items",
+    description:
+      "Add checklist items (subtasks) to one of the current employee's tasks. Set deriveProgress to make the task's progress follow the checklist.",
+    schema: addMyChecklistItemsSchema,
+  }
+);
+
+/**
+ * Tool: Tick or untick a checklist item on one of the current employee's tasks
+ */
+export const tickMyChecklistItem = tool(
+  /** @param {TickMyChecklistItemInput} input */
+  async ({ taskId, item, done = true }, config) => {
+    const user = getAuthenticatedUser(config);
+
+    try {
+      const task = await getAssignedTask(taskId, user.id);
+
+      if (task.status === "completed" || task.status === "rejected") {
+        throw new Error(`Cannot change the checklist of "${task.title}" because it is ${task.status}.`);
+      }
+
+      const result = await setChecklistItemDone(taskId, item, done, user.id);
+
+      return {
+        success: true,
+        message: `${done ? "Ticked" : "Unticked"} "${result.item.title}" on "${task.title}".${
+          result.progressFromChecklist ? ` Task progress is now ${result.taskProgress}%.` : ""
+        }`,
+        checklist: result.checklist,
+        taskProgress: result.taskProgress,
+      };
+    } catch (error) {
+      throw new Error(
+        error instanceof Error
+          ? error.message
+          : "An unexpected error occurred while updating the checklist"
+      );
+    }
+  },
+  {
+    name: "tick_my_checklist_item",
+    description:
+      "Tick (or untick with done=false) a checklist item on one of the current employee's tasks. The item can be given by number, title or ID; get_my_task_details lists the checklist.",
+    schema: tickMyChecklistItemSchema,
+  }
+);
@@ -1,37 +1,137 @@
-// Server-side tools implementation
-import { tool } from 'ai';
-import { z } from 'zod';
-import { supabase } from '../supabase.js';
+// @ts-check
+// Server-side tools implementation: the single tool package used by the chat agent.
+// Every tool is a LangChain tool whose input schema lives in shared/schemas.js.
 
 // Import individual tool modules
 import * as employeeTools from './admin/employees.js';
 import * as taskTools from './admin/tasks.js';
+import * as paymentTools from './admin/payments.js';
+import * as analyticsTools from './admin/analytics.js';
+import * as myTaskTools from './employee/tasks.js';
+import * as inboxTools from './employee/inbox.js';
+import * as profileTools from './employee/profile.js';
+import { applyApprovals } from './shared/approvals.js';
+import { applyAudit, withAudit } from './shared/audit.js';
+import { withPermission } from './shared/permissions.js';
+
+// Admin tools staff may also use: read access plus day-to-day task management.
+// Deleting, editing employee records and moving money stay admin-only.
+const STAFF_TOOLS = new Set([
+  'listEmployees',
+  'getEmployeeDetails',
+  'getEmployeePerformance',
+  'searchEmployeesBySkills',
+  'createTask',
+  'assignTask',
+  'updateTask',
+  'listTasks',
+  'getTaskDetails',
+  'addChecklistItems',
+  'tickChecklistItem',
+  'listPayments',
+  'getPaymentDetails',
+  'getWorkforceAnalytics',
+  'getTaskAnalytics',
+]);
 
 /**
- * Get tools based on user role
+ * Management tools shared by admins and staff. Each one re-checks the caller's
+ * role via checkPermission when invoked, whatever agent it was handed to.
  */
-export function getToolsForRole(role) {
+function getManagementTools() {
+  const tools = {
+    // Employee Management Tools
+    listEmployees: employeeTools.listEmployees,
+    getEmployeeDetails: employeeTools.getEmployeeDetails,
+    updateEmployee: employeeTools.updateEmployee,
+    getEmployeePerformance: employeeTools.getEmployeePerformance,
+    deleteEmployee: employeeTools.deleteEmployee,
+    searchEmployeesBySkills: employeeTools.searchEmployeesBySkills,
+
+    // Task Management Tools
+    createTask: taskTools.createTask,
+    assignTask: taskTools.assignTask,
+    updateTask: taskTools.updateTask,
+    deleteTask: taskTools.deleteTask,
+    listTasks: taskTools.listTasks,
+    getTaskDetails: taskTools.getTaskDetails,
+    addChecklistItems: taskTools.addChecklistItems,
+    tickChecklistItem: taskTools.tickChecklistItem,
+
+    // Payment Management Tools
+    createPayment: paymentTools.createPayment,
+    approvePayment: paymentTools.approvePayment,
+    listPayments: paymentTools.listPayments,
+    getPaymentDetails: paymentTools.getPaymentDetails,
+
+    // Analytics Tools
+    getWorkforceAnalytics: analyticsTools.getWorkforceAnalytics,
+    getTaskAnalytics: analyticsTools.getTaskAnalytics,
+    getFinancialSummary: analyticsTools.getFinancialSummary,
+  };
+
+  return Object.fromEntries(
+    Object.entries(tools).map(([key, t]) => [
+      key,
+      withPermission(t, STAFF_TOOLS.has(key) ? 'staff' : 'admin'),
+    ])
+  );
+}
+
+/**
+ * Unwrapped tools for a role (approval-required tools execute directly)
+ */
+function getBaseToolsForRole(role) {
   if (role === 'admin') {
-    return {
-      // Employee Management Tools
-      listEmployees: employeeTools.listEmployees,
-      getEmployeeDetails: employeeTools.getEmployeeDetails,
-      updateEmployee: employeeTools.updateEmployee,
-      getEmployeePerformance: employeeTools.getEmployeePerformance,
-      searchEmployeesBySkills: employeeTools.searchEmployeesBySkills,
-      
-      // Task Management Tools
-      createTask: taskTools.createTask,
-      assignTask: taskTools.assignTask,
-      updateTask: taskTools.updateTask,
-      deleteTask: taskTools.deleteTask,
-      listTasks: taskTools.listTasks,
-      getTaskDetails: taskTools.getTaskDetails,
-    };
+    return getManagementTools();
   }
-  
-  // Employee tools (to be implemented)
-  return {};
+
+  if (role === 'staff') {
+    return Object.fromEntries(
+      Object.entries(getManagementTools()).filter(([key]) => STAFF_TOOLS.has(key))
+    );
+  }
+
+  // Employee tools (scoped to the authenticated user via config.configurable.user)
+  return {
+    // Task Tools
+    listMyTasks: myTaskTools.listMyTasks,
+    getMyTaskDetails: myTaskTools.getMyTaskDetails,
+    updateTaskProgress: myTaskTools.updateTaskProgress,
+    completeTask: myTaskTools.completeTask,
+    addMyChecklistItems: myTaskTools.addMyChecklistItems,
+    tickMyChecklistItem: myTaskTools.tickMyChecklistItem,
+
+    // Inbox Tools
+    listMyInvitations: inboxTools.listMyInvitations,
+    respondToInvitation: inboxTools.respondToInvitation,
+
+    // Profile Tools
+    getMyProfile: profileTools.getMyProfile,
+    updateMyProfile: profileTools.updateMyProfile,
+    getMyPerformance: profileTools.getMyPerformance,
+    listMyPayments: profileTools.listMyPayments,
+  };
+}
+
+/**
+ * Get tools based on user role. Destructive and financial tools are wrapped so
+ * the agent can only propose them; see shared/approvals.js. Every call is
+ * recorded in agent_audit_log; see shared/audit.js
+ */
+export function getToolsForRole(role) {
+  return applyAudit(applyApprovals(getBaseToolsForRole(role)));
+}
+
+/**
+ * Find the executable (approval-free, audited) tool a role may run, by its tool name
+ */
+export function findToolForRole(role, toolName) {
+  const found = Object.values(getBaseToolsForRole(role)).find(
+    (t) => t?.name === toolName
+  );
+
+  return found ? withAudit(found) : null;
 }
 
 /**
@@ -39,4 +139,4 @@ export function getToolsForRole(role) {
  */
 export function getAvailableToolNames(role) {
   return Object.keys(getToolsForRole(role));
-}
\ No newline at end of file
+}
@@ -0,0 +1,190 @@
+// @ts-check
+import { tool } from "langchain";
+import { supabase } from "../../supabase.js";
+import { getAuthenticatedUser } from "./helpers.js";
+
+/**
+ * Tools that never run straight from the agent. Calling them records a pending
+ * action; the server executes it only when the user approves that action ID.
+ */
+export const APPROVAL_REQUIRED_TOOLS = new Set([
+  "delete_task",
+  "delete_employee",
+  "create_payment",
+  "approve_payment",
+]);
+
+export const PENDING_APPROVAL_STATUS = "pending_approval";
+
+// Inputs only the approval flow sets; they are hidden from the agent
+const APPROVAL_FIELDS = ["confirmed", "previewedAmounts"];
+
+/**
+ * Build the approval-card summary by asking the tool for its confirmation preview
+ * (tools answer confirmed=false with { missingFields: ["confirmation"], details }).
+ * A preview may also return approvalArgs, stored with the action so the
+ * approved run can check it still matches what the approver saw.
+ */
+async function previewAction(originalTool, args, config) {
+  const preview = await originalTool.invoke({ ...args, confirmed: false }, config);
+
+  if (preview?.missingFields?.includes("confirmation") && preview.details) {
+    return { summary: preview.details, approvalArgs: preview.approvalArgs || {} };
+  }
+
+  return { summary: `Run ${originalTool.name} with ${JSON.stringify(args)}`, approvalArgs: {} };
+}
+
+/**
+ * Wrap a tool so that calling it creates a pending action instead of executing it
+ */
+export function withApproval(originalTool) {
+  const hidden = APPROVAL_FIELDS.filter((field) => originalTool.schema?.shape?.[field]);
+  const schema =
+    hidden.length > 0
+      ? originalTool.schema.omit(Object.fromEntries(hidden.map((field) => [field, true])))
+      : originalTool.schema;
+
+  return tool(
+    async (args, config) => {
+      const user = getAuthenticatedUser(config);
+
+      // Invalid requests (unknown task, nothing to pay, ...) fail here, before anything is stored
+      const { summary, approvalArgs } = await previewAction(originalTool, args, config);
+
+      const { data: action, error } = await supabase
+        .from("agent_pending_actions")
+        .insert({
+          user_id: user.id,
+          thread_id: config?.configurable?.threadId || null,
+          tool_name: originalTool.name,
+          args: { .../** @type {object} */ (args), ...approvalArgs },
+          summary,
+        })
+        .select("id")
+        .single();
+
+      if (error) {
+        throw new Error(`Failed to record the action for approval: ${error.message}`);
+      }
+
+      return {
+        status: PENDING_APPROVAL_STATUS,
+        actionId: action.id,
+        summary,
+        message:
+          "This action has NOT been performed. It is waiting for the user to approve or reject it in the chat. Tell the user it is awaiting their approval.",
+      };
+    },
+    {
+      name: originalTool.name,
+      description: `${originalTool.description} This tool requires approval: calling it does not perform the action, it asks the user to approve or reject it in the chat.`,
+      schema,
+    }
+  );
+}
+
+/**
+ * Wrap every approval-required tool in a role's tool map
+ */
+export function applyApprovals(tools) {
+  return Object.fromEntries(
+    Object.entries(tools).map(([key, t]) => [
+      key,
+      t?.name && APPROVAL_REQUIRED_TOOLS.has(t.name) ? withApproval(t) : t,
+    ])
+  );
+}
+
+/**
+ * Read the pending action ID out of a tool result, if the tool asked for approval
+ */
+export function getPendingActionId(toolOutput) {
+  const content = toolOutput?.content ?? toolOutput;
+
+  try {
+    const parsed = typeof content === "string" ? JSON.parse(content) : content;
+    return parsed?.status === PENDING_APPROVAL_STATUS ? parsed.actionId : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Load a user's pending action
+ */
+export async function getPendingAction(actionId, userId) {
+  const { data: action, error } = await supabase
+    .from("agent_pending_actions")
+    .select("*")
+    .eq("id", actionId)
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load pending action: ${error.message}`);
+  }
+
+  return action;
+}
+
+/**
+ * Claim a pending action for resolution. Only one request can move it out of
+ * "pending", so an action can never be executed twice.
+ */
+async function claimPendingAction(actionId, userId, status) {
+  const { data: action, error } = await supabase
+    .from("agent_pending_actions")
+    .update({ status, resolved_at: new Date().toISOString() })
+    .eq("id", actionId)
+    .eq("user_id", userId)
+    .eq("status", "pending")
+    .select("*")
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to update pending action: ${error.message}`);
+  }
+
+  if (!action) {
+    throw new Error("This action is no longer pending.");
+  }
+
+  return action;
+}
+
+/**
+ * Execute an approved action with the original (unwrapped) tool
+ */
+export async function approvePendingAction(actionId, user, originalTool) {
+  const action = await claimPendingAction(actionId, user.id, "approved");
+
+  let status = "executed";
+  let result;
+
+  try {
+    result = await originalTool.invoke(
+      { ...action.args, confirmed: true },
+      { configurable: { user, threadId: action.thread_id, actionId: action.id } }
+    );
+  } catch (error) {
+    status = "failed";
+    result = { error: error instanceof Error ? error.message : String(error) };
+  }
+
+  const { data: resolved } = await supabase
+    .from("agent_pending_actions")
+    .update({ status, result })
+    .eq("id", action.id)
+    .select("*")
+    .single();
+
+  return resolved || { ...action, status, result };
+}
+
+/**
+ * Reject a pending action without executing it
+ */
+export async function rejectPendingAction(actionId, user) {
+  return claimPendingAction(actionId, user.id, "rejected");
+}
@@ -0,0 +1,100 @@
+// @ts-check
+import { tool } from "langchain";
+import { supabase } from "../../supabase.js";
+import { PENDING_APPROVAL_STATUS } from "./approvals.js";
+
+const MAX_SUMMARY_LENGTH = 500;
+
+function truncate(text) {
+  return text.length > MAX_SUMMARY_LENGTH
+    ? `${text.slice(0, MAX_SUMMARY_LENGTH - 1)}…`
+    : text;
+}
+
+/**
+ * Short, human-readable description of what a tool returned
+ */
+function summarizeResult(result) {
+  if (result === undefined || result === null) return null;
+  if (typeof result === "string") return truncate(result);
+
+  if (result.status === PENDING_APPROVAL_STATUS) {
+    return truncate(`Awaiting approval: ${result.summary}`);
+  }
+
+  return truncate(result.message || result.details || JSON.stringify(result));
+}
+
+/**
+ * Record one tool invocation. Audit failures are logged but never fail the tool.
+ */
+async function recordInvocation(entry) {
+  const { error } = await supabase.from("agent_audit_log").insert(entry);
+
+  if (error) {
+    console.error("Failed to write agent audit log:", error.message);
+  }
+}
+
+/**
+ * Wrap a tool so every invocation (including denied and failed ones) is written
+ * to agent_audit_log. Calls made while executing an approved pending action
+ * carry its ID in config.configurable.actionId and are recorded as "approval".
+ */
+export function withAudit(originalTool) {
+  return tool(
+    async (args, config) => {
+      const user = config?.configurable?.user;
+      const approvedActionId = config?.configurable?.actionId || null;
+      const startedAt = Date.now();
+
+      const entry = {
+        user_id: user?.id || null,
+        user_email: user?.email || null,
+        user_role: user?.role || "unknown",
+        tool_name: originalTool.name,
+        args: args || {},
+        source: approvedActionId ? "approval" : "agent",
+        thread_id: config?.configurable?.threadId || null,
+        action_id: approvedActionId,
+      };
+
+      try {
+        const result = await originalTool.invoke(args, config);
+
+        await recordInvocation({
+          ...entry,
+          action_id: entry.action_id || result?.actionId || null,
+          result_summary: summarizeResult(result),
+          success: result?.success !== false,
+          latency_ms: Date.now() - startedAt,
+        });
+
+        return result;
+      } catch (error) {
+        await recordInvocation({
+          ...entry,
+          result_summary: truncate(error instanceof Error ? error.message : String(error)),
+          success: false,
+          latency_ms: Date.now() - startedAt,
+        });
+
+        throw error;
+      }
+    },
+    {
+      name: originalTool.name,
+      description: originalTool.description,
+      schema: originalTool.schema,
+    }
+  );
+}
+
+/**
+ * Wrap every tool in a role's tool map
+ */
+export function applyAudit(tools) {
+  return Object.fromEntries(
+    Object.entries(tools).map(([key, t]) => [key, t?.name ? withAudit(t) : t])
+  );
+}
@@ -1,14 +1,67 @@
+// @ts-check
 // Shared helper functions for server-side tools
 import { supabase } from '../../supabase.js';
+import { DEFAULT_MATCHING_WEIGHTS, weightsFromRows } from '../../shared/matching.js';
+import {
+  DEFAULT_REQUIRED_LEVEL,
+  DEFAULT_SKILL_LEVEL,
+  canonicalizeSkills,
+  createSkillResolver,
+  skillKey,
+} from '../../shared/skills.js';
+import { findChecklistItem, nextChecklistPosition } from '../../shared/checklists.js';
+import { qualityRatingMultiplier } from '../../shared/taskReview.js';
+
+/**
+ * Get the skills catalog (canonical names with their aliases)
+ */
+export async function getSkillCatalog() {
+  try {
+    const { data, error } = await supabase
+      .from('skills')
+      .select('name, category, skill_aliases(alias)');
+
+    if (error) {
+      console.error('Error fetching skills catalog:', error);
+      return [];
+    }
+
+    return data.map(skill => ({
+      name: skill.name,
+      category: skill.category,
+      aliases: (skill.skill_aliases || []).map(a => a.alias),
+    }));
+  } catch (error) {
+    console.error('Error in getSkillCatalog:', error);
+    return [];
+  }
+}
+
+/**
+ * Resolve free-text skill names to canonical catalog names (aliases and close
+ * misspellings included), dropping duplicates
+ */
+export async function resolveSkillNames(names) {
+  const resolve = createSkillResolver(await getSkillCatalog());
+  return canonicalizeSkills(names, resolve);
+}
 
 /**
  * Get employee skills from the database
  */
 export async function getEmployeeSkills(employeeProfileId) {
+  const skills = await getEmployeeSkillLevels(employeeProfileId);
+  return skills.map(s => s.name);
+}
+
+/**
+ * Get employee skills with their proficiency levels (1-5)
+ */
+export async function getEmployeeSkillLevels(employeeProfileId) {
   try {
     const { data: skills, error } = await supabase
       .from('employee_skills')
-      .select('skill')
+      .select('skill, level')
       .eq('employee_id', employeeProfileId);
 
     if (error) {
@@ -16,18 +69,27 @@ export async function getEmployeeSkills(employeeProfileId) {
       return [];
     }
 
-    return skills.map(s => s.skill);
+    return skills.map(s => ({ name: s.skill, level: s.level ?? DEFAULT_SKILL_LEVEL }));
   } catch (error) {
-    console.error('Error in getEmployeeSkills:', error);
+    console.error('Error in getEmployeeSkillLevels:', error);
     return [];
   }
 }
 
 /**
- * Set employee skills (replace existing)
+ * Set employee skills (replace existing). Skills kept from the previous list
+ * keep their level; new ones get the default level unless given as { name, level }.
  */
 export async function setEmployeeSkills(employeeProfileId, skills) {
   try {
+    const previousLevels = new Map(
+      (await getEmployeeSkillLevels(employeeProfileId)).map(s => [skillKey(s.name), s.level])
+    );
+    const explicitLevels = new Map(
+      skills.filter(s => typeof s !== 'string').map(s => [skillKey(s.name), s.level])
+    );
+    const names = await resolveSkillNames(skills.map(s => (typeof s === 'string' ? s : s.name)));
+
     // Delete existing skills
     const { error: deleteError } = await supabase
       .from('employee_skills')
@@ -39,10 +101,11 @@ export async function setEmployeeSkills(employeeProfileId, skills) {
     }
 
     // Insert new skills
-    if (skills.length > 0) {
-      const skillsToInsert = skills.map(skill => ({
+    if (names.length > 0) {
+      const skillsToInsert = names.map(name => ({
         employee_id: employeeProfileId,
-        skill: skill.trim()
+        skill: name,
+        level: explicitLevels.get(skillKey(name)) ?? previousLevels.get(skillKey(name)) ?? DEFAULT_SKILL_LEVEL
       }));
 
       const { error: insertError } = await supabase
@@ -171,10 +234,18 @@ export async function findEmployee(identifier) {
  * Get required skills for a task
  */
 export async function getTaskRequiredSkills(taskId) {
+  const skills = await getTaskSkillRequirements(taskId);
+  return skills.map(s => s.name);
+}
+
+/**
+ * Get required skills for a task with the minimum level (1-5) each needs
+ */
+export async function getTaskSkillRequirements(taskId) {
   try {
     const { data: skills, error } = await supabase
       .from('task_required_skills')
-      .select('skill_name')
+      .select('skill, min_level')
       .eq('task_id', taskId);
 
     if (error) {
@@ -182,18 +253,24 @@ export async function getTaskRequiredSkills(taskId) {
       return [];
     }
 
-    return skills.map(s => s.skill_name);
+    return skills.map(s => ({ name: s.skill, level: s.min_level ?? DEFAULT_REQUIRED_LEVEL }));
   } catch (error) {
-    console.error('Error in getTaskRequiredSkills:', error);
+    console.error('Error in getTaskSkillRequirements:', error);
     return [];
   }
 }
 
 /**
- * Set required skills for a task
+ * Set required skills for a task (replace existing). Kept skills keep their
+ * minimum level; new ones accept any level.
  */
 export async function setTaskRequiredSkills(taskId, skills) {
   try {
+    const previousLevels = new Map(
+      (await getTaskSkillRequirements(taskId)).map(s => [skillKey(s.name), s.level])
+    );
+    const names = await resolveSkillNames(skills);
+
     // Delete existing skills
     const { error: deleteError } = await supabase
       .from('task_required_skills')
@@ -205,10 +282,11 @@ export async function setTaskRequiredSkills(taskId, skills) {
     }
 
     // Insert new skills
-    if (skills.length > 0) {
-      const skillsToInsert = skills.map(skill => ({
+    if (names.length > 0) {
+      const skillsToInsert = names.map(name => ({
         task_id: taskId,
-        skill_name: skill.trim()
+        skill: name,
+        min_level: previousLevels.get(skillKey(name)) ?? DEFAULT_REQUIRED_LEVEL
       }));
 
       const { error: insertError } = await supabase
@@ -226,6 +304,27 @@ export async function setTaskRequiredSkills(taskId, skills) {
   }
 }
 
+/**
+ * Get the organisation's matching weights (falls back to the defaults)
+ */
+export async function getMatchingWeights() {
+  try {
+    const { data, error } = await supabase
+      .from('matching_weights')
+      .select('priority, skill_match, availability, workload_capacity, performance, urgency_multiplier');
+
+    if (error) {
+      console.error('Error fetching matching weights:', error);
+      return DEFAULT_MATCHING_WEIGHTS;
+    }
+
+    return weightsFromRows(data);
+  } catch (error) {
+    console.error('Error in getMatchingWeights:', error);
+    return DEFAULT_MATCHING_WEIGHTS;
+  }
+}
+
 /**
  * Create error response for tools
  */
@@ -236,4 +335,364 @@ export function createErrorResponse(message, details, additionalInfo = []) {
     details,
     additionalInfo
   };
-}
\ No newline at end of file
+}
+/**
+ * Get the authenticated user from the agent run config.
+ * Employee tools must only ever act on this user, never on IDs supplied by the model.
+ */
+export function getAuthenticatedUser(config) {
+  const user = config?.configurable?.user;
+
+  if (!user || !user.id) {
+    throw new Error("User authentication required. Please log in and try again.");
+  }
+
+  return user;
+}
+
+/**
+ * Load a task only if it is assigned to the given user
+ */
+export async function getAssignedTask(taskId, userId) {
+  const { data: task, error } = await supabase
+    .from('tasks')
+    .select('*')
+    .eq('id', taskId)
+    .eq('assigned_to', userId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load task: ${error.message}`);
+  }
+
+  if (!task) {
+    throw new Error(`Task with ID "${taskId}" not found or not assigned to you`);
+  }
+
+  return task;
+}
+
+// Hours a candidate has to answer an invitation, as in the assignment dialog
+export const DEFAULT_RESPONSE_WINDOW_HOURS = 48;
+
+/**
+ * Offer an invited task to one employee, like the assignment dialog does: a
+ * pending invitation that expires after the response window. The database
+ * assigns the task when they accept (see handle_invitation_response).
+ */
+export async function inviteEmployee(taskId, toUserId, fromUserId, responseWindowHours = DEFAULT_RESPONSE_WINDOW_HOURS) {
+  const { data: invitation, error } = await supabase
+    .from('invitations')
+    .insert({
+      task_id: taskId,
+      to_user_id: toUserId,
+      from_user_id: fromUserId,
+      status: 'pending',
+      candidate_rank: 1,
+      response_window_hours: responseWindowHours,
+      expires_at: new Date(Date.now() + responseWindowHours * 60 * 60 * 1000).toISOString(),
+    })
+    .select('id, expires_at')
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to invite the employee: ${error.message}`);
+  }
+
+  return invitation;
+}
+
+/**
+ * Find a project by ID or (partial) name
+ */
+export async function findProject(identifier) {
+  try {
+    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+    let query = supabase
+      .from('projects')
+      .select('id, name, owner_id, budget, start_date, end_date');
+
+    query = uuidRegex.test(identifier)
+      ? query.eq('id', identifier)
+      : query.ilike('name', `%${identifier}%`).limit(5);
+
+    const { data: projects, error } = await query;
+
+    if (error || !projects || projects.length === 0) {
+      return { success: false, error: `Project "${identifier}" not found` };
+    }
+
+    // An exact name wins over partial matches
+    const exact = projects.find(p => p.name.toLowerCase() === identifier.toLowerCase());
+    if (projects.length > 1 && !exact) {
+      return {
+        success: false,
+        error: 'Multiple projects found. Please be more specific or use the project ID.',
+        matches: projects.map(p => ({ id: p.id, name: p.name }))
+      };
+    }
+
+    return { success: true, data: exact || projects[0] };
+  } catch (error) {
+    console.error('Error in findProject:', error);
+    return { success: false, error: error.message };
+  }
+}
+
+/**
+ * The row of a many-to-one embed such as `tasks (title)`. PostgREST returns a
+ * single row or null; without generated database types supabase-js types it
+ * as an array.
+ * @template T
+ * @param {T[] | T | null | undefined} value
+ * @returns {T | null}
+ */
+export function embeddedRow(value) {
+  return Array.isArray(value) ? value[0] ?? null : value ?? null;
+}
+
+/**
+ * Get the incomplete predecessors holding a task up (finish-to-start dependencies)
+ * @returns {Promise<import('../../shared/taskDependencies.js').TaskBlocker[]>}
+ */
+export async function getTaskBlockers(taskId) {
+  try {
+    const { data, error } = await supabase
+      .from('task_dependencies')
+      .select('predecessor:tasks!task_dependencies_predecessor_id_fkey(id, title, status)')
+      .eq('successor_id', taskId);
+
+    if (error) {
+      console.error('Error fetching task blockers:', error);
+      return [];
+    }
+
+    return data
+      .map(d => embeddedRow(d.predecessor))
+      .filter(p => p && p.status !== 'completed');
+  } catch (error) {
+    console.error('Error in getTaskBlockers:', error);
+    return [];
+  }
+}
+
+/**
+ * Get a task's checklist items in display order
+ */
+export async function getChecklistItems(taskId) {
+  const { data, error } = await supabase
+    .from('task_checklist_items')
+    .select('id, title, position, is_done, done_at')
+    .eq('task_id', taskId)
+    .order('position')
+    .order('created_at');
+
+  if (error) {
+    throw new Error(`Failed to load checklist: ${error.message}`);
+  }
+
+  return data || [];
+}
+
+/**
+ * Append checklist items to a task, optionally switching its progress to follow
+ * the checklist. Returns the whole checklist and the task's resulting progress
+ */
+export async function appendChecklistItems(taskId, titles, userId, deriveProgress) {
+  const existing = await getChecklistItems(taskId);
+  const start = nextChecklistPosition(existing);
+
+  const { error } = await supabase.from('task_checklist_items').insert(
+    titles.map((title, index) => ({
+      task_id: taskId,
+      title,
+      position: start + index,
+      created_by: userId,
+    }))
+  );
+
+  if (error) {
+    throw new Error(`Failed to add checklist items: ${error.message}`);
+  }
+
+  if (deriveProgress !== undefined) {
+    const { error: modeError } = await supabase
+      .from('tasks')
+      .update({ progress_from_checklist: deriveProgress })
+      .eq('id', taskId);
+
+    if (modeError) {
+      throw new Error(`Checklist items added, but the progress mode could not be changed: ${modeError.message}`);
+    }
+  }
+
+  return getChecklistSnapshot(taskId);
+}
+
+/**
+ * Tick or untick one checklist item, found by ID, number or title
+ */
+export async function setChecklistItemDone(taskId, reference, done, userId) {
+  const items = await getChecklistItems(taskId);
+
+  if (items.length === 0) {
+    throw new Error('This task has no checklist items yet');
+  }
+
+  const item = findChecklistItem(items, reference);
+
+  if (!item) {
+    throw new Error(`No checklist item matches "${reference}"`);
+  }
+
+  if (Array.isArray(item)) {
+    throw new Error(
+      `"${reference}" matches several items: ${item.map(i => `"${i.title}"`).join(', ')}. Use the item number or ID.`
+    );
+  }
+
+  const { error } = await supabase
+    .from('task_checklist_items')
+    .update({ is_done: done, done_by: done ? userId : null })
+    .eq('id', item.id);
+
+  if (error) {
+    throw new Error(`Failed to update checklist item: ${error.message}`);
+  }
+
+  return { item: { ...item, is_done: done }, ...(await getChecklistSnapshot(taskId)) };
+}
+
+/**
+ * Checklist plus the task progress the database derived from it
+ */
+async function getChecklistSnapshot(taskId) {
+  const [items, { data: task }] = await Promise.all([
+    getChecklistItems(taskId),
+    supabase
+      .from('tasks')
+      .select('progress, progress_from_checklist')
+      .eq('id', taskId)
+      .single(),
+  ]);
+
+  return {
+    checklist: items.map((item, index) => ({
+      number: index + 1,
+      id: item.id,
+      title: item.title,
+      done: item.is_done,
+    })),
+    taskProgress: task?.progress ?? null,
+    progressFromChecklist: task?.progress_from_checklist ?? false,
+  };
+}
+
+/**
+ * Hours logged on a task in approved timesheets (0 when there are none)
+ */
+export async function getApprovedTaskHours(taskId) {
+  const { data, error } = await supabase.rpc('approved_task_hours', { _task_id: taskId });
+
+  if (error) {
+    console.error('Error fetching approved hours:', error);
+    return 0;
+  }
+
+  return Number(data) || 0;
+}
+
+/**
+ * Calculate AI-suggested payment based on task details. Approved timesheet
+ * hours are used when there are any; otherwise the hours logged in progress
+ * updates, then the estimate.
+ */
+export async function calculateAIPayment(taskId, hoursLogged) {
+  try {
+    const { data: task, error } = await supabase
+      .from('tasks')
+      .select('*')
+      .eq('id', taskId)
+      .single();
+
+    if (error || !task) {
+      return { success: false, error: 'Task not found' };
+    }
+
+    if (!task.assigned_to) {
+      return { success: false, error: 'Task has no assigned employee' };
+    }
+
+    const { data: empProfile } = await supabase
+      .from('employee_profiles')
+      .select('hourly_rate')
+      .eq('user_id', task.assigned_to)
+      .single();
+
+    const hourlyRate = empProfile?.hourly_rate || 0;
+    const approvedHours = await getApprovedTaskHours(taskId);
+    const [hours, hoursSource] = approvedHours > 0
+      ? [approvedHours, 'approved timesheets']
+      : hoursLogged
+        ? [hoursLogged, 'progress updates']
+        : [task.estimated_hours || 0, 'estimate'];
+    const complexityMultiplier = task.complexity_multiplier || 1.0;
+    const qualityMultiplier = qualityRatingMultiplier(task.quality_rating);
+    const suggestedAmount = hourlyRate * hours * complexityMultiplier * qualityMultiplier;
+    const qualityNote = task.quality_rating
+      ? `, Quality: ${qualityMultiplier}x (rated ${task.quality_rating}/5)`
+      : '';
+
+    return {
+      success: true,
+      data: {
+        suggestedAmount: Math.round(suggestedAmount * 100) / 100,
+        calculation: `Hourly Rate: $${hourlyRate}, Hours: ${hours} (${hoursSource}), Complexity: ${complexityMultiplier}x${qualityNote} = $${suggestedAmount.toFixed(2)}`
+      }
+    };
+  } catch (error) {
+    return { success: false, error: error.message };
+  }
+}
+
+// A user may hold several roles; the most privileged one wins
+const ROLE_PRIORITY = ['admin', 'staff', 'employee'];
+
+/**
+ * Get a user's effective role from user_roles (defaults to employee)
+ */
+export async function getUserRole(userId) {
+  const { data: roles, error } = await supabase
+    .from('user_roles')
+    .select('role')
+    .eq('user_id', userId);
+
+  if (error) {
+    throw new Error(`Unable to verify user role: ${error.message}`);
+  }
+
+  const held = (roles || []).map((r) => r.role);
+  return ROLE_PRIORITY.find((role) => held.includes(role)) || 'employee';
+}
+
+/**
+ * Check that a user holds the required role. Admins satisfy every requirement.
+ */
+export async function checkPermission(userId, requiredRole) {
+  try {
+    const userRole = await getUserRole(userId);
+    const hasPermission = userRole === 'admin' || userRole === requiredRole;
+
+    return {
+      success: true,
+      message: hasPermission ? 'Permission granted' : 'Permission denied',
+      data: {
+        hasPermission,
+        userRole,
+      },
+    };
+  } catch (error) {
+    return { success: false, error: error.message };
+  }
+}
@@ -0,0 +1,33 @@
+// @ts-check
+import { tool } from "langchain";
+import { checkPermission, getAuthenticatedUser } from "./helpers.js";
+
+/**
+ * Wrap a tool so it re-checks the caller's role in user_roles before running.
+ * The role an agent was built for is not trusted on its own.
+ */
+export function withPermission(originalTool, requiredRole) {
+  return tool(
+    async (args, config) => {
+      const user = getAuthenticatedUser(config);
+      const permission = await checkPermission(user.id, requiredRole);
+
+      if (!permission.success) {
+        throw new Error(permission.error || "Unable to verify user permissions");
+      }
+
+      if (!permission.data.hasPermission) {
+        throw new Error(
+          `Permission denied: ${originalTool.name} requires the ${requiredRole} role (you are ${permission.data.userRole}).`
+        );
+      }
+
+      return originalTool.invoke(args, config);
+    },
+    {
+      name: originalTool.name,
+      description: originalTool.description,
+      schema: originalTool.schema,
+    }
+  );
+}
@@ -0,0 +1,362 @@
+// @ts-check
+// Input schemas for every agent tool, in one place. Tool modules import their
+// schema from here and its input type from the typedefs at the end.
+import * as z from "zod";
+import { TASK_STATUSES } from "../../shared/taskStatus.js";
+import { MAX_CHECKLIST_TITLE_LENGTH } from "../../shared/checklists.js";
+
+// ============================================================================
+// Shared enums
+// ============================================================================
+
+// Task statuses and their legal transitions live in the module shared with the UI
+export { TASK_STATUSES };
+export const TASK_PRIORITIES = /** @type {const} */ (["low", "medium", "high"]);
+export const PAYMENT_STATUSES = /** @type {const} */ (["pending", "approved", "paid"]);
+export const TIME_RANGES = /** @type {const} */ (["week", "month", "quarter", "year", "all"]);
+
+const taskStatus = z.enum(TASK_STATUSES);
+const taskPriority = z.enum(TASK_PRIORITIES);
+const paymentStatus = z.enum(PAYMENT_STATUSES);
+
+const timeRange = (description) =>
+  z.enum(TIME_RANGES).optional().default("month").describe(description);
+
+const resultLimit = (defaultLimit = 20) =>
+  z
+    .number()
+    .int()
+    .min(1)
+    .max(100)
+    .optional()
+    .default(defaultLimit)
+    .describe("Maximum number of results (1-100)");
+
+// Destructive and financial tools preview their effect unless confirmed
+// (see shared/approvals.js, which fills this in when the user approves)
+const confirmed = (description) =>
+  z.boolean().optional().default(false).describe(description);
+
+// Checklist tools exist for managers and for the assignee with the same inputs
+const checklistFields = {
+  add: {
+    taskId: z.string().uuid().describe("The unique ID of the task"),
+    items: z
+      .array(z.string().trim().min(1).max(MAX_CHECKLIST_TITLE_LENGTH))
+      .min(1)
+      .max(20)
+      .describe("Titles of the checklist items to append, in order"),
+    deriveProgress: z
+      .boolean()
+      .optional()
+      .describe("Set to true to make the task's progress follow the checklist from now on"),
+  },
+  tick: {
+    taskId: z.string().uuid().describe("The unique ID of the task"),
+    item: z
+      .string()
+      .min(1)
+      .describe("The checklist item: its ID, its number in the list (1 = first) or its title"),
+    done: z.boolean().optional().default(true).describe("true to tick the item, false to untick it"),
+  },
+};
+
+// ============================================================================
+// Employee management
+// ============================================================================
+
+export const listEmployeesSchema = z.object({
+  department: z.string().optional().describe('Filter by department (e.g., "Engineering", "Design", "Marketing")'),
+  designation: z.string().optional().describe('Filter by job title/designation (e.g., "Senior Developer", "Designer")'),
+  availability: z.boolean().optional().describe("Filter by availability status - true for available, false for unavailable"),
+  searchQuery: z.string().optional().describe("Search employees by name or email (case-insensitive partial match)"),
+  skills: z.array(z.string()).optional().describe("Filter by required skills (employees must have ALL specified skills)"),
+});
+
+export const getEmployeeDetailsSchema = z
+  .object({
+    employeeId: z.string().uuid().optional().describe("The unique UUID of the employee"),
+    employeeName: z.string().optional().describe("The name of the employee to search for (if ID not available)"),
+  })
+  .refine((data) => data.employeeId || data.employeeName, {
+    message: "Either employeeId or employeeName must be provided",
+  });
+
+export const updateEmployeeSchema = z.object({
+  employeeId: z.string().uuid().describe("The unique UUID of the employee to update"),
+  updates: z
+    .object({
+      department: z.string().optional().describe("New department"),
+      designation: z.string().optional().describe("New job title/designation"),
+      hourlyRate: z.number().positive().optional().describe("New hourly rate in USD"),
+      skills: z.array(z.string()).optional().describe("Updated list of skills (replaces existing)"),
+      availability: z.boolean().optional().describe("Availability status"),
+    })
+    .refine((data) => Object.keys(data).length > 0, {
+      message: "At least one field must be provided to update",
+    }),
+});
+
+export const getEmployeePerformanceSchema = z.object({
+  employeeId: z.string().uuid().describe("The unique UUID of the employee"),
+  timeRange: timeRange("Time period for metrics calculation"),
+});
+
+// Either field identifies the employee; the tool reports a missing identifier
+export const deleteEmployeeSchema = z.object({
+  employeeId: z.string().uuid().optional().describe("The unique UUID of the employee to delete"),
+  employeeName: z.string().optional().describe("The name of the employee to delete (if ID not available)"),
+  confirmed: confirmed("Must be true to delete. Without it the tool only describes what would be deleted."),
+});
+
+export const searchEmployeesBySkillsSchema = z.object({
+  requiredSkills: z.array(z.string()).min(1).describe("List of required skills to search for"),
+  availability: z.boolean().optional().describe("Filter by availability - true to show only available employees"),
+  minLevel: z
+    .number()
+    .int()
+    .min(1)
+    .max(5)
+    .optional()
+    .describe("Minimum proficiency for every skill, from 1 (beginner) to 5 (expert); default 1"),
+  priority: taskPriority.optional().describe("Priority of the work, which selects the matching weights (default: medium)"),
+  limit: resultLimit(10),
+});
+
+// ============================================================================
+// Task management
+// ============================================================================
+
+export const createTaskSchema = z.object({
+  title: z.string().min(3).describe("Task title (minimum 3 characters)"),
+  description: z.string().min(10).describe("Detailed task description (minimum 10 characters)"),
+  assignTo: z.string().describe("Employee name or ID to assign the task to"),
+  deadline: z.string().describe("Deadline in ISO format (YYYY-MM-DD or YYYY-MM-DDTHH:mm:ss)"),
+  priority: taskPriority.describe("Task priority level"),
+  estimatedHours: z.number().positive().optional().describe("Estimated hours to complete (optional)"),
+  skills: z.array(z.string()).optional().describe("Required skills for this task (optional)"),
+  project: z.string().optional().describe("Project name or ID the task belongs to (optional)"),
+});
+
+export const assignTaskSchema = z.object({
+  taskId: z.string().uuid().describe("The UUID of the task to assign"),
+  assignTo: z
+    .string()
+    .optional()
+    .describe("Employee name or ID. If not provided, will suggest best matches based on task requirements"),
+  getSuggestions: z
+    .boolean()
+    .optional()
+    .default(false)
+    .describe("Set to true to get AI suggestions for best employee matches"),
+});
+
+export const updateTaskSchema = z.object({
+  taskId: z.string().uuid().describe("The UUID of the task to update"),
+  updates: z
+    .object({
+      title: z.string().min(3).optional().describe("New task title"),
+      description: z.string().min(10).optional().describe("New task description"),
+      deadline: z.string().optional().describe("New deadline (ISO format)"),
+      priority: taskPriority.optional().describe("New priority level"),
+      status: taskStatus
+        .exclude(["pending"])
+        .optional()
+        .describe("New task status (only legal transitions are accepted, e.g. ongoing -> completed)"),
+      progress: z.number().min(0).max(100).optional().describe("Task progress percentage (0-100)"),
+      estimatedHours: z.number().positive().optional().describe("New estimated hours"),
+      requiredSkills: z.array(z.string()).optional().describe("Updated list of required skills (replaces existing)"),
+      project: z
+        .string()
+        .nullable()
+        .optional()
+        .describe("Project name or ID to move the task to, or null to take it out of its project"),
+    })
+    .refine((data) => Object.keys(data).length > 0, {
+      message: "At least one field must be provided to update",
+    }),
+});
+
+export const listTasksSchema = z.object({
+  status: taskStatus.optional().describe("Filter by task status"),
+  priority: taskPriority.optional().describe("Filter by priority level"),
+  assignedTo: z.string().optional().describe("Filter by employee name or ID"),
+  project: z.string().optional().describe("Filter by project name or ID; use 'none' for tasks outside any project"),
+  overdue: z.boolean().optional().describe("Show only overdue tasks (true/false)"),
+  limit: resultLimit(),
+});
+
+export const getTaskDetailsSchema = z.object({
+  taskId: z.string().uuid().describe("The unique ID of the task to fetch"),
+});
+
+export const addChecklistItemsSchema = z.object(checklistFields.add);
+
+export const tickChecklistItemSchema = z.object(checklistFields.tick);
+
+export const deleteTaskSchema = z.object({
+  taskId: z.string().uuid().describe("The unique ID of the task to delete"),
+  confirmed: confirmed("Must be true to delete. Without it the tool only describes what would be deleted."),
+});
+
+// ============================================================================
+// Payment management
+// ============================================================================
+
+export const createPaymentSchema = z.object({
+  taskId: z.string().uuid().optional().describe("The unique ID of a single completed task to pay for"),
+  completedSince: z
+    .string()
+    .optional()
+    .describe("Draft payments for all tasks completed on or after this date (ISO format)"),
+  manualAmount: z.number().nonnegative().optional().describe("Manual amount override in USD (single task only)"),
+  confirmed: confirmed("Must be true to create the payments. Show the preview first."),
+  // Set by the approval flow, never by the agent: the amount per task ID the
+  // approver saw. Nothing is created if the drafts no longer match.
+  previewedAmounts: z.record(z.string(), z.number().nullable()).optional(),
+});
+
+export const approvePaymentSchema = z.object({
+  paymentIds: z.array(z.string().uuid()).min(1).describe("Unique IDs of the payments to update"),
+  action: z
+    .enum(["approve", "mark_paid"])
+    .describe("approve a pending payment, or mark an approved payment as paid"),
+  manualAmount: z
+    .number()
+    .nonnegative()
+    .optional()
+    .describe("Manual amount override in USD (single payment approval only)"),
+  confirmed: confirmed("Must be true to apply the change. Show the summary first."),
+});
+
+export const listPaymentsSchema = z.object({
+  status: paymentStatus.optional().describe("Filter by payment status"),
+  employee: z.string().optional().describe("Filter by employee name or ID"),
+  createdSince: z.string().optional().describe("Only payments created on or after this date (ISO format)"),
+  limit: resultLimit(),
+});
+
+export const getPaymentDetailsSchema = z.object({
+  paymentId: z.string().uuid().describe("The unique ID of the payment"),
+});
+
+// ============================================================================
+// Analytics
+// ============================================================================
+
+export const getWorkforceAnalyticsSchema = z.object({
+  department: z.string().optional().describe("Only include this department"),
+});
+
+export const getTaskAnalyticsSchema = z.object({
+  timeRange: timeRange("Only include tasks created in this period"),
+  department: z.string().optional().describe("Only include tasks assigned to employees in this department"),
+});
+
+export const getFinancialSummarySchema = z.object({
+  timeRange: timeRange("Only include payments created in this period"),
+});
+
+// ============================================================================
+// Employee self-service
+// ============================================================================
+
+export const listMyTasksSchema = z.object({
+  status: taskStatus.optional().describe("Filter by task status"),
+  priority: taskPriority.optional().describe("Filter by priority level"),
+  overdue: z.boolean().optional().describe("Show only overdue tasks"),
+  limit: resultLimit(),
+});
+
+export const getMyTaskDetailsSchema = z.object({
+  taskId: z.string().uuid().describe("The unique ID of the task"),
+});
+
+export const updateTaskProgressSchema = z.object({
+  taskId: z.string().uuid().describe("The unique ID of the task"),
+  progress: z.number().int().min(0).max(99).describe("New progress percentage (0-99)"),
+  hoursLogged: z.number().min(0).max(100).optional().describe("Hours worked since the last update"),
+  note: z.string().max(500).optional().describe("Short description of the work done"),
+});
+
+export const completeTaskSchema = z.object({
+  taskId: z.string().uuid().describe("The unique ID of the task to complete"),
+  hoursLogged: z.number().min(0).max(100).optional().describe("Final hours worked since the last update"),
+  note: z.string().max(500).optional().describe("Completion note"),
+});
+
+export const addMyChecklistItemsSchema = z.object(checklistFields.add);
+
+export const tickMyChecklistItemSchema = z.object(checklistFields.tick);
+
+export const listMyInvitationsSchema = z.object({
+  status: z
+    .enum(["pending", "accepted", "rejected", "withdrawn", "expired"])
+    .optional()
+    .default("pending")
+    .describe("Filter by invitation status (withdrawn: another candidate accepted first)"),
+});
+
+export const respondToInvitationSchema = z.object({
+  taskId: z.string().uuid().describe("The unique ID of the task the invitation is for"),
+  response: z.enum(["accept", "reject"]).describe("Whether to accept or reject the invitation"),
+  reason: z.string().max(500).optional().describe("Reason for rejecting (required when rejecting)"),
+});
+
+export const getMyProfileSchema = z.object({});
+
+export const updateMyProfileSchema = z.object({
+  skills: z
+    .array(z.string().min(1))
+    .min(1)
+    .optional()
+    .describe("Complete updated list of skills (replaces existing)"),
+  availability: z.boolean().optional().describe("Whether the employee is available for new tasks"),
+  bio: z.string().max(1000).optional().describe("Short professional bio"),
+});
+
+export const getMyPerformanceSchema = z.object({
+  timeRange: timeRange("Time period for metrics calculation"),
+});
+
+export const listMyPaymentsSchema = z.object({
+  status: paymentStatus.optional().describe("Filter by payment status"),
+});
+
+// ============================================================================
+// Tool input types
+// ============================================================================
+
+/** @typedef {z.infer<typeof listEmployeesSchema>} ListEmployeesInput */
+/** @typedef {z.infer<typeof getEmployeeDetailsSchema>} GetEmployeeDetailsInput */
+/** @typedef {z.infer<typeof updateEmployeeSchema>} UpdateEmployeeInput */
+/** @typedef {z.infer<typeof getEmployeePerformanceSchema>} GetEmployeePerformanceInput */
+/** @typedef {z.infer<typeof deleteEmployeeSchema>} DeleteEmployeeInput */
+/** @typedef {z.infer<typeof searchEmployeesBySkillsSchema>} SearchEmployeesBySkillsInput */
+/** @typedef {z.infer<typeof createTaskSchema>} CreateTaskInput */
+/** @typedef {z.infer<typeof assignTaskSchema>} AssignTaskInput */
+/** @typedef {z.infer<typeof updateTaskSchema>} UpdateTaskInput */
+/** @typedef {z.infer<typeof listTasksSchema>} ListTasksInput */
+/** @typedef {z.infer<typeof getTaskDetailsSchema>} GetTaskDetailsInput */
+/** @typedef {z.infer<typeof addChecklistItemsSchema>} AddChecklistItemsInput */
+/** @typedef {z.infer<typeof tickChecklistItemSchema>} TickChecklistItemInput */
+/** @typedef {z.infer<typeof deleteTaskSchema>} DeleteTaskInput */
+/** @typedef {z.infer<typeof createPaymentSchema>} CreatePaymentInput */
+/** @typedef {z.infer<typeof approvePaymentSchema>} ApprovePaymentInput */
+/** @typedef {z.infer<typeof listPaymentsSchema>} ListPaymentsInput */
+/** @typedef {z.infer<typeof getPaymentDetailsSchema>} GetPaymentDetailsInput */
+/** @typedef {z.infer<typeof getWorkforceAnalyticsSchema>} GetWorkforceAnalyticsInput */
+/** @typedef {z.infer<typeof getTaskAnalyticsSchema>} GetTaskAnalyticsInput */
+/** @typedef {z.infer<typeof getFinancialSummarySchema>} GetFinancialSummaryInput */
+/** @typedef {z.infer<typeof listMyTasksSchema>} ListMyTasksInput */
+/** @typedef {z.infer<typeof getMyTaskDetailsSchema>} GetMyTaskDetailsInput */
+/** @typedef {z.infer<typeof updateTaskProgressSchema>} UpdateTaskProgressInput */
+/** @typedef {z.infer<typeof completeTaskSchema>} CompleteTaskInput */
+/** @typedef {z.infer<typeof addMyChecklistItemsSchema>} AddMyChecklistItemsInput */
+/** @typedef {z.infer<typeof tickMyChecklistItemSchema>} TickMyChecklistItemInput */
+/** @typedef {z.infer<typeof listMyInvitationsSchema>} ListMyInvitationsInput */
+/** @typedef {z.infer<typeof respondToInvitationSchema>} RespondToInvitationInput */
+/** @typedef {z.infer<typeof getMyProfileSchema>} GetMyProfileInput */
+/** @typedef {z.infer<typeof updateMyProfileSchema>} UpdateMyProfileInput */
+/** @typedef {z.infer<typeof getMyPerformanceSchema>} GetMyPerformanceInput */
+/** @typedef {z.infer<typeof listMyPaymentsSchema>} ListMyPaymentsInput */
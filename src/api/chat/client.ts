@@ -14,6 +14,64 @@ export interface ChatResponse {
     totalTokens: number;
   };
   error?: string;
+  pendingActions?: PendingAction[];
+}
+
+// A destructive or financial tool call the agent proposed, executed only once approved
+export interface PendingAction {
+  id: string;
+  tool_name: string;
+  args: Record<string, unknown>;
+  summary: string;
+  status: "pending" | "approved" | "rejected" | "executed" | "failed";
+  result: { message?: string; error?: string } | null;
+  created_at: string;
+  resolved_at: string | null;
+}
+
+export interface ChatThread {
+  id: string;
+  title: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface StoredChatMessage extends ChatMessage {
+  id: string;
+  action_ids: string[];
+  created_at: string;
+}
+
+// Stored performance metrics of an employee; rates and scores are 0 to 1
+export interface EmployeeMetrics {
+  user_id: string;
+  performance_score: number | null;
+  on_time_rate: number | null;
+  quality_score: number | null;
+  tasks_completed: number | null;
+  avg_completion_time: string | null;
+}
+
+export interface ActionResolution {
+  action: PendingAction;
+  // Outcome note saved to the action's chat thread
+  message: StoredChatMessage | null;
+}
+
+// Events emitted by /api/chat when called with `stream: true` (one JSON object per line)
+export type ChatStreamEvent =
+  | { type: "token"; content: string }
+  | { type: "tool_start"; id: string; tool: string; args?: unknown }
+  | { type: "tool_end"; id: string; tool: string; success: boolean }
+  | { type: "approval_required"; action: PendingAction }
+  | { type: "done"; response: string }
+  | { type: "error"; error: string };
+
+export interface ChatStreamHandlers {
+  onToken?: (content: string) => void;
+  onToolStart?: (tool: string, id: string) => void;
+  onToolEnd?: (tool: string, id: string, success: boolean) => void;
+  onApprovalRequired?: (action: PendingAction) => void;
 }
 
 export class ChatApiClient {
@@ -24,7 +82,7 @@ export class ChatApiClient {
     this.baseUrl = baseUrl || import.meta.env.VITE_BACKEND_URL || '/api';
   }
 
-  async sendMessage(messages: ChatMessage[], role: 'admin' | 'employee' = 'employee', authToken?: string): Promise<ChatResponse> {
+  async sendMessage(messages: ChatMessage[], role: 'admin' | 'staff' | 'employee' = 'employee', authToken?: string): Promise<ChatResponse> {
     try {
       const headers: HeadersInit = {
         'Content-Type': 'application/json',
@@ -61,6 +119,165 @@ export class ChatApiClient {
     }
   }
 
+  /**
+   * Send messages and stream the reply. Handlers fire as tokens and tool calls arrive;
+   * the resolved value carries the final response, like sendMessage.
+   */
+  async streamMessage(
+    messages: ChatMessage[],
+    role: 'admin' | 'staff' | 'employee' = 'employee',
+    authToken: string | undefined,
+    handlers: ChatStreamHandlers = {},
+    threadId?: string
+  ): Promise<ChatResponse> {
+    try {
+      const headers: HeadersInit = {
+        'Content-Type': 'application/json',
+      };
+
+      if (authToken) {
+        headers['Authorization'] = `Bearer ${authToken}`;
+      }
+
+      const response = await fetch(`${this.baseUrl}/api/chat`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          messages,
+          role,
+          stream: true,
+          threadId
+        }),
+      });
+
+      if (!response.ok || !response.body) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+      let result: ChatResponse | null = null;
+      const pendingActions: PendingAction[] = [];
+
+      const handleLine = (line: string) => {
+        if (!line.trim()) return;
+
+        const event = JSON.parse(line) as ChatStreamEvent;
+        switch (event.type) {
+          case 'token':
+            handlers.onToken?.(event.content);
+            break;
+          case 'tool_start':
+            handlers.onToolStart?.(event.tool, event.id);
+            break;
+          case 'tool_end':
+            handlers.onToolEnd?.(event.tool, event.id, event.success);
+            break;
+          case 'approval_required':
+            pendingActions.push(event.action);
+            handlers.onApprovalRequired?.(event.action);
+            break;
+          case 'done':
+            result = { success: true, response: event.response, pendingActions };
+            break;
+          case 'error':
+            throw new Error(event.error);
+        }
+      };
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() ?? '';
+        lines.forEach(handleLine);
+      }
+      handleLine(buffer);
+
+      if (!result) {
+        throw new Error('Chat stream ended before the response was complete');
+      }
+
+      return result;
+    } catch (error) {
+      console.error('Chat API stream error:', error);
+      toast.error("Failed to send message to server");
+      return {
+        success: false,
+        response: "Sorry, I encountered an error. Please try again.",
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  private async authedRequest<T>(path: string, authToken: string, init: RequestInit = {}): Promise<T> {
+    const response = await fetch(`${this.baseUrl}/api${path}`, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${authToken}`,
+      },
+    });
+
+    if (!response.ok) {
+      const body = await response.json().catch(() => ({}));
+      throw new Error(body.error || `HTTP error! status: ${response.status}`);
+    }
+
+    return response.status === 204 ? (undefined as T) : response.json();
+  }
+
+  async listThreads(authToken: string): Promise<ChatThread[]> {
+    const { threads } = await this.authedRequest<{ threads: ChatThread[] }>('/threads', authToken);
+    return threads;
+  }
+
+  async createThread(authToken: string, title?: string): Promise<ChatThread> {
+    const { thread } = await this.authedRequest<{ thread: ChatThread }>('/threads', authToken, {
+      method: 'POST',
+      body: JSON.stringify({ title }),
+    });
+    return thread;
+  }
+
+  async renameThread(authToken: string, threadId: string, title: string): Promise<ChatThread> {
+    const { thread } = await this.authedRequest<{ thread: ChatThread }>(`/threads/${threadId}`, authToken, {
+      method: 'PATCH',
+      body: JSON.stringify({ title }),
+    });
+    return thread;
+  }
+
+  async deleteThread(authToken: string, threadId: string): Promise<void> {
+    await this.authedRequest<void>(`/threads/${threadId}`, authToken, { method: 'DELETE' });
+  }
+
+  async getThreadMessages(
+    authToken: string,
+    threadId: string
+  ): Promise<{ messages: StoredChatMessage[]; actions: PendingAction[] }> {
+    return this.authedRequest(`/threads/${threadId}/messages`, authToken);
+  }
+
+  async approveAction(authToken: string, actionId: string): Promise<ActionResolution> {
+    return this.authedRequest(`/actions/${actionId}/approve`, authToken, { method: 'POST' });
+  }
+
+  async rejectAction(authToken: string, actionId: string): Promise<ActionResolution> {
+    return this.authedRequest(`/actions/${actionId}/reject`, authToken, { method: 'POST' });
+  }
+
+  async recomputeEmployeeMetrics(authToken: string, userId: string): Promise<EmployeeMetrics> {
+    const { metrics } = await this.authedRequest<{ metrics: EmployeeMetrics }>('/metrics/recompute', authToken, {
+      method: 'POST',
+      body: JSON.stringify({ userId }),
+    });
+    return metrics;
+  }
+
   async healthCheck(): Promise<boolean> {
     try {
       const response = await fetch(`${this.baseUrl}/api/health`);
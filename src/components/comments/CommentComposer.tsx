@@ -0,0 +1,159 @@
+import { useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { MAX_COMMENT_LENGTH, mentionQueryAt, mentionToken } from "@/lib/comments";
+
+export interface MentionableProfile {
+  id: string;
+  full_name: string;
+}
+
+interface CommentComposerProps {
+  profiles: MentionableProfile[];
+  onSubmit: (body: string) => Promise<boolean>;
+  onCancel?: () => void;
+  initialValue?: string;
+  submitLabel?: string;
+  placeholder?: string;
+  autoFocus?: boolean;
+}
+
+const MAX_SUGGESTIONS = 6;
+
+/**
+ * Markdown comment box. Typing "@" suggests profiles to mention; picking one
+ * inserts a mention token.
+ */
+const CommentComposer = ({
+  profiles,
+  onSubmit,
+  onCancel,
+  initialValue = "",
+  submitLabel = "Comment",
+  placeholder = "Write a comment... Use @ to mention someone. Markdown is supported.",
+  autoFocus = false,
+}: CommentComposerProps) => {
+  const [body, setBody] = useState(initialValue);
+  const [caret, setCaret] = useState(0);
+  const [highlighted, setHighlighted] = useState(0);
+  const [submitting, setSubmitting] = useState(false);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  const mentionQuery = mentionQueryAt(body, caret);
+  const suggestions = mentionQuery
+    ? profiles
+        .filter((profile) => profile.full_name.toLowerCase().includes(mentionQuery.query.toLowerCase()))
+        .slice(0, MAX_SUGGESTIONS)
+    : [];
+
+  const insertMention = (profile: MentionableProfile) => {
+    if (!mentionQuery) return;
+    const token = `${mentionToken(profile)} `;
+    const next = body.slice(0, mentionQuery.start) + token + body.slice(caret);
+    const nextCaret = mentionQuery.start + token.length;
+    setBody(next);
+    setCaret(nextCaret);
+    setHighlighted(0);
+
+    requestAnimationFrame(() => {
+      textareaRef.current?.focus();
+      textareaRef.current?.setSelectionRange(nextCaret, nextCaret);
+    });
+  };
+
+  const handleSubmit = async () => {
+    if (!body.trim()) return;
+    setSubmitting(true);
+    const saved = await onSubmit(body.trim());
+    setSubmitting(false);
+    if (saved) {
+      setBody("");
+      setCaret(0);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (suggestions.length > 0) {
+      if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+        e.preventDefault();
+        const step = e.key === "ArrowDown" ? 1 : -1;
+        setHighlighted((current) => (current + step + suggestions.length) % suggestions.length);
+        return;
+      }
+      if (e.key === "Enter" || e.key === "Tab") {
+        e.preventDefault();
+        insertMention(suggestions[Math.min(highlighted, suggestions.length - 1)]);
+        return;
+      }
+    }
+
+    if (e.key === "Enter" && (e.metaKey || e.ctrlKey)) {
+      e.preventDefault();
+      handleSubmit();
+    } else if (e.key === "Escape" && onCancel) {
+      onCancel();
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="relative">
+        <Textarea
+          ref={textareaRef}
+          value={body}
+          onChange={(e) => {
+            setBody(e.target.value);
+            setCaret(e.target.selectionStart);
+            setHighlighted(0);
+          }}
+          onSelect={(e) => setCaret(e.currentTarget.selectionStart)}
+          onKeyDown={handleKeyDown}
+          placeholder={placeholder}
+          maxLength={MAX_COMMENT_LENGTH}
+          rows={3}
+          autoFocus={autoFocus}
+          aria-label="Comment"
+          aria-autocomplete="list"
+          aria-expanded={suggestions.length > 0}
+        />
+        {suggestions.length > 0 && (
+          <ul
+            className="absolute z-10 left-2 top-full mt-1 w-64 rounded-md border bg-popover p-1 shadow-md"
+            role="listbox"
+            aria-label="Mention suggestions"
+          >
+            {suggestions.map((profile, index) => (
+              <li
+                key={profile.id}
+                role="option"
+                aria-selected={index === highlighted}
+                className={`cursor-pointer rounded-sm px-2 py-1.5 text-sm ${
+                  index === highlighted ? "bg-accent text-accent-foreground" : ""
+                }`}
+                onMouseDown={(e) => {
+                  // Keep the textarea focused
+                  e.preventDefault();
+                  insertMention(profile);
+                }}
+              >
+                {profile.full_name}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+      <div className="flex justify-end gap-2">
+        {onCancel && (
+          <Button type="button" variant="ghost" size="sm" onClick={onCancel} disabled={submitting}>
+            Cancel
+          </Button>
+        )}
+        <Button type="button" size="sm" onClick={handleSubmit} disabled={!body.trim() || submitting}>
+          {submitting ? "Saving..." : submitLabel}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default CommentComposer;
@@ -0,0 +1,357 @@
+import { useCallback, useEffect, useState } from "react";
+import ReactMarkdown from "react-markdown";
+import { formatDistanceToNow } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent } from "@/components/ui/card";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { toast } from "sonner";
+import { History, MessageSquare, Pencil, Reply, Trash2 } from "lucide-react";
+import {
+  MENTION_HREF_PREFIX,
+  buildThreads,
+  mentionsToMarkdown,
+  mentionsToText,
+} from "@/lib/comments";
+import CommentComposer, { type MentionableProfile } from "./CommentComposer";
+
+interface TaskCommentsProps {
+  task: { id: string };
+  userId: string;
+  /** Admins and staff can moderate (edit or delete) any comment */
+  isAdmin: boolean;
+}
+
+interface CommentRow {
+  id: string;
+  task_id: string;
+  parent_id: string | null;
+  author_id: string;
+  body: string;
+  mentions: string[];
+  edited_at: string | null;
+  deleted_at: string | null;
+  created_at: string | null;
+  author: { full_name: string } | null;
+}
+
+interface Revision {
+  id: string;
+  body: string;
+  action: string;
+  created_at: string | null;
+  editor: { full_name: string } | null;
+}
+
+const COMMENT_COLUMNS =
+  "id, task_id, parent_id, author_id, body, mentions, edited_at, deleted_at, created_at, author:profiles!task_comments_author_id_fkey(full_name)";
+
+const CommentBody = ({ body }: { body: string }) => (
+  <div className="text-sm prose prose-sm max-w-none dark:prose-invert">
+    <ReactMarkdown
+      components={{
+        a: ({ href, children }) =>
+          href?.startsWith(MENTION_HREF_PREFIX) ? (
+            <span className="rounded bg-primary/10 px-1 font-medium text-primary">{children}</span>
+          ) : (
+            <a href={href} target="_blank" rel="noopener noreferrer">
+              {children}
+            </a>
+          ),
+      }}
+    >
+      {mentionsToMarkdown(body)}
+    </ReactMarkdown>
+  </div>
+);
+
+/**
+ * Comment threads on a task with @mentions and markdown. Edits and deletions
+ * keep the earlier text, which anyone in the thread can look up.
+ */
+const TaskComments = ({ task, userId, isAdmin }: TaskCommentsProps) => {
+  const [comments, setComments] = useState<CommentRow[]>([]);
+  const [profiles, setProfiles] = useState<MentionableProfile[]>([]);
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [deleting, setDeleting] = useState<CommentRow | null>(null);
+  const [history, setHistory] = useState<{ comment: CommentRow; revisions: Revision[] } | null>(null);
+
+  const loadComments = useCallback(async () => {
+    const { data, error } = await supabase
+      .from("task_comments")
+      .select(COMMENT_COLUMNS)
+      .eq("task_id", task.id)
+      .order("created_at");
+
+    if (error) {
+      console.error("Error loading comments:", error);
+      return;
+    }
+    setComments((data || []) as CommentRow[]);
+  }, [task.id]);
+
+  useEffect(() => {
+    loadComments();
+
+    const loadProfiles = async () => {
+      const { data, error } = await supabase.from("profiles").select("id, full_name").order("full_name");
+      if (error) {
+        console.error("Error loading profiles:", error);
+        return;
+      }
+      setProfiles((data || []).filter((profile) => profile.id !== userId));
+    };
+    loadProfiles();
+
+    const channel = supabase
+      .channel(`task-comments-${task.id}`)
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "task_comments", filter: `task_id=eq.${task.id}` },
+        () => loadComments()
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [task.id, userId, loadComments]);
+
+  const addComment = async (body: string, parentId: string | null) => {
+    const { error } = await supabase.from("task_comments").insert({
+      task_id: task.id,
+      parent_id: parentId,
+      author_id: userId,
+      body,
+    });
+
+    if (error) {
+      toast.error(error.message);
+      return false;
+    }
+
+    setReplyingTo(null);
+    await loadComments();
+    return true;
+  };
+
+  const editComment = async (comment: CommentRow, body: string) => {
+    if (body === comment.body) {
+      setEditingId(null);
+      return true;
+    }
+
+    const { error } = await supabase
+      .from("task_comments")
+      .update({ body })
+      .eq("id", comment.id);
+
+    if (error) {
+      toast.error(error.message);
+      return false;
+    }
+
+    setEditingId(null);
+    await loadComments();
+    return true;
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) return;
+
+    // Soft delete: the database keeps the text in the comment's history
+    const { error } = await supabase
+      .from("task_comments")
+      .update({ deleted_at: new Date().toISOString() })
+      .eq("id", deleting.id);
+
+    if (error) {
+      toast.error(error.message);
+    } else {
+      toast.success("Comment deleted");
+      await loadComments();
+    }
+    setDeleting(null);
+  };
+
+  const showHistory = async (comment: CommentRow) => {
+    const { data, error } = await supabase
+      .from("task_comment_revisions")
+      .select("id, body, action, created_at, editor:profiles!task_comment_revisions_changed_by_fkey(full_name)")
+      .eq("comment_id", comment.id)
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      toast.error("Failed to load comment history");
+      return;
+    }
+    setHistory({ comment, revisions: (data || []) as Revision[] });
+  };
+
+  const renderComment = (comment: CommentRow, isReply: boolean) => {
+    const canChange = !comment.deleted_at && (comment.author_id === userId || isAdmin);
+    const timestamp = comment.created_at
+      ? formatDistanceToNow(new Date(comment.created_at), { addSuffix: true })
+      : "";
+
+    return (
+      <div key={comment.id} className={isReply ? "ml-6 border-l pl-4" : ""}>
+        <div className="group space-y-1">
+          <div className="flex items-center gap-2 text-xs">
+            <span className="font-medium text-sm">{comment.author?.full_name || "Unknown"}</span>
+            <span className="text-muted-foreground">{timestamp}</span>
+            {(comment.edited_at || comment.deleted_at) && (
+              <button
+                type="button"
+                className="inline-flex items-center gap-1 text-muted-foreground underline-offset-2 hover:underline"
+                onClick={() => showHistory(comment)}
+              >
+                <History className="h-3 w-3" aria-hidden="true" />
+                {comment.deleted_at ? "deleted" : "edited"}
+              </button>
+            )}
+          </div>
+
+          {comment.deleted_at ? (
+            <p className="text-sm italic text-muted-foreground">This comment was deleted.</p>
+          ) : editingId === comment.id ? (
+            <CommentComposer
+              profiles={profiles}
+              initialValue={comment.body}
+              submitLabel="Save"
+              autoFocus
+              onSubmit={(body) => editComment(comment, body)}
+              onCancel={() => setEditingId(null)}
+            />
+          ) : (
+            <CommentBody body={comment.body} />
+          )}
+
+          {!comment.deleted_at && editingId !== comment.id && (
+            <div className="flex gap-1 opacity-60 group-hover:opacity-100 focus-within:opacity-100">
+              {!isReply && (
+                <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={() => setReplyingTo(comment.id)}>
+                  <Reply className="h-3 w-3 mr-1" aria-hidden="true" />
+                  Reply
+                </Button>
+              )}
+              {canChange && (
+                <>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 px-2 text-xs"
+                    onClick={() => setEditingId(comment.id)}
+                    aria-label="Edit comment"
+                  >
+                    <Pencil className="h-3 w-3" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 px-2 text-xs"
+                    onClick={() => setDeleting(comment)}
+                    aria-label="Delete comment"
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                </>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  const threads = buildThreads(comments);
+  const visibleCount = comments.filter((comment) => !comment.deleted_at).length;
+
+  return (
+    <Card role="region" aria-label="Task comments">
+      <CardContent className="pt-6 space-y-4">
+        <div className="flex items-center gap-2">
+          <MessageSquare className="h-4 w-4 text-muted-foreground" aria-hidden="true" />
+          <Label className="text-base font-semibold">Comments</Label>
+          {visibleCount > 0 && <span className="text-sm text-muted-foreground">{visibleCount}</span>}
+        </div>
+
+        {threads.map((thread) => (
+          <div key={thread.id} className="space-y-3">
+            {renderComment(thread, false)}
+            {thread.replies.map((reply) => renderComment(reply, true))}
+            {replyingTo === thread.id && (
+              <div className="ml-6 border-l pl-4">
+                <CommentComposer
+                  profiles={profiles}
+                  submitLabel="Reply"
+                  placeholder="Write a reply..."
+                  autoFocus
+                  onSubmit={(body) => addComment(body, thread.id)}
+                  onCancel={() => setReplyingTo(null)}
+                />
+              </div>
+            )}
+          </div>
+        ))}
+
+        <CommentComposer profiles={profiles} onSubmit={(body) => addComment(body, null)} />
+
+        <AlertDialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Delete this comment?</AlertDialogTitle>
+              <AlertDialogDescription>
+                It is replaced by a placeholder; replies stay. The text remains in the comment's history.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+
+        <Dialog open={!!history} onOpenChange={(open) => !open && setHistory(null)}>
+          <DialogContent className="max-w-lg max-h-[80vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>Comment history</DialogTitle>
+            </DialogHeader>
+            <div className="space-y-4">
+              {history?.comment.deleted_at === null && (
+                <div className="space-y-1">
+                  <p className="text-xs text-muted-foreground">Current</p>
+                  <CommentBody body={history.comment.body} />
+                </div>
+              )}
+              {history?.revisions.map((revision) => (
+                <div key={revision.id} className="space-y-1 border-t pt-3">
+                  <p className="text-xs text-muted-foreground">
+                    {revision.action === "delete" ? "Deleted" : "Edited"} by {revision.editor?.full_name || "Unknown"}{" "}
+                    {revision.created_at && formatDistanceToNow(new Date(revision.created_at), { addSuffix: true })}
+                    {revision.action === "edit" && " — previous text:"}
+                  </p>
+                  <p className="text-sm whitespace-pre-wrap">{mentionsToText(revision.body)}</p>
+                </div>
+              ))}
+            </div>
+          </DialogContent>
+        </Dialog>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TaskComments;
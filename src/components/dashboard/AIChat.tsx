@@ -9,154 +9,192 @@ import { MessageCircle, Send, Bot, User, Loader2 } from "lucide-react";
 import { toast } from "sonner";
 import { cn } from "@/lib/utils";
 import { supabase } from "@/integrations/supabase/client";
-import { chatApiClient, ChatMessage as ApiChatMessage } from "@/api/chat/client";
+import {
+  chatApiClient,
+  ChatMessage as ApiChatMessage,
+  ChatThread,
+  PendingAction,
+  StoredChatMessage,
+} from "@/api/chat/client";
 import { useAuthStore } from "@/stores/authStore";
+import ChatThreadSidebar from "./ChatThreadSidebar";
+import PendingActionCard from "./PendingActionCard";
 
 interface ChatMessage {
   id: string;
   role: "user" | "assistant";
   content: string;
   timestamp: Date;
-  isApprovalRequest?: boolean;
+  // Actions proposed in this reply that only run once approved
+  actions?: PendingAction[];
+  // Tool calls still running while the reply streams in
+  runningTools?: Array<{ id: string; tool: string }>;
 }
 
 interface AIChatProps {
-  userRole: "admin" | "employee";
+  userRole: "admin" | "staff" | "employee";
 }
 
 const AIChat = ({ userRole }: AIChatProps) => {
   const [input, setInput] = useState("");
   const [isLoading, setIsLoading] = useState(false);
   const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [threads, setThreads] = useState<ChatThread[]>([]);
+  const [activeThreadId, setActiveThreadId] = useState<string | null>(null);
+  const [resolvingActionId, setResolvingActionId] = useState<string | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const { user } = useAuthStore();
 
-  // Helper function to detect approval request messages
-  const isApprovalRequest = (content: string): boolean => {
-    const approvalPatterns = [
-      /would you like me to/i,
-      /please reply with "yes"/i,
-      /do you want me to/i,
-      /should i proceed/i,
-      /confirm.*assign/i,
-      /confirm.*create/i
-    ];
-    return approvalPatterns.some(pattern => pattern.test(content));
+  const getAccessToken = async () => {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) throw new Error("User not authenticated");
+    return session.access_token;
   };
 
-  // Handle approval button clicks
-  const handleApprovalResponse = async (response: "yes" | "no") => {
-    if (isLoading) return;
-
-    // Add user response message
-    const userMessage: ChatMessage = {
-      id: Date.now().toString(),
-      role: "user",
-      content: response,
-      timestamp: new Date()
-    };
+  const toChatMessage = (msg: StoredChatMessage, actions: PendingAction[] = []): ChatMessage => ({
+    id: msg.id,
+    role: msg.role,
+    content: msg.content,
+    timestamp: new Date(msg.created_at),
+    actions: actions.filter(action => msg.action_ids?.includes(action.id))
+  });
+
+  const loadThreads = async (accessToken: string) => {
+    const list = await chatApiClient.listThreads(accessToken);
+    setThreads(list);
+    return list;
+  };
 
-    setMessages(prev => [...prev, userMessage]);
-    setIsLoading(true);
+  const selectThread = async (threadId: string) => {
+    setActiveThreadId(threadId);
+    setMessages([]);
 
     try {
-      // Get current session for authentication token
-      const { data: { session } } = await supabase.auth.getSession();
-      if (!session || !user) throw new Error("User not authenticated");
+      const stored = await chatApiClient.getThreadMessages(await getAccessToken(), threadId);
+      setMessages(stored.messages.map(msg => toChatMessage(msg, stored.actions)));
+    } catch (error) {
+      console.error('Failed to load chat messages:', error);
+      toast.error("Failed to load conversation");
+    }
+  };
 
-      // Prepare messages for server API including the approval response
-      const messagesForApi: ApiChatMessage[] = [
-        ...messages.map(msg => ({ role: msg.role, content: msg.content })),
-        { role: 'user', content: response }
-      ];
+  // Messages are sent without a thread until the first one, which creates it
+  const ensureThread = async (accessToken: string) => {
+    if (activeThreadId) return activeThreadId;
 
-      // Add initial assistant message with empty content
-      const assistantId = (Date.now() + 1).toString();
-      const assistantMessage: ChatMessage = {
-        id: assistantId,
-        role: "assistant",
-        content: "",
-        timestamp: new Date()
-      };
+    const thread = await chatApiClient.createThread(accessToken);
+    setActiveThreadId(thread.id);
+    setThreads(prev => [thread, ...prev]);
+    return thread.id;
+  };
 
-      setMessages(prev => [...prev, assistantMessage]);
+  // Stream the assistant reply into a new message, showing tool calls while they run
+  const streamAssistantReply = async (messagesForApi: ApiChatMessage[], accessToken: string) => {
+    const threadId = await ensureThread(accessToken);
+    const assistantId = (Date.now() + 1).toString();
+    const assistantMessage: ChatMessage = {
+      id: assistantId,
+      role: "assistant",
+      content: "",
+      timestamp: new Date(),
+      runningTools: [],
+      actions: []
+    };
 
-      // Send request to server-side API
-      const result = await chatApiClient.sendMessage(messagesForApi, userRole, session.access_token);
-
-      if (result.success) {
-        // Update the assistant message with the complete response
-        setMessages(prev => prev.map(msg =>
-          msg.id === assistantId
-            ? { ...msg, content: result.response, isApprovalRequest: isApprovalRequest(result.response) }
-            : msg
-        ));
-      } else {
-        throw new Error(result.error || 'Failed to get response from server');
-      }
+    setMessages(prev => [...prev, assistantMessage]);
 
-    } catch (error) {
-      console.error("Error processing approval response:", error);
-      toast.error("Failed to process response");
+    const updateAssistant = (update: (msg: ChatMessage) => Partial<ChatMessage>) => {
+      setMessages(prev => prev.map(msg =>
+        msg.id === assistantId ? { ...msg, ...update(msg) } : msg
+      ));
+    };
 
-      // Add error message
-      const errorMessage: ChatMessage = {
-        id: (Date.now() + 2).toString(),
-        role: "assistant",
-        content: "Sorry, I encountered an error. Please try again.",
-        timestamp: new Date()
-      };
-      setMessages(prev => [...prev, errorMessage]);
-    } finally {
-      setIsLoading(false);
+    const result = await chatApiClient.streamMessage(messagesForApi, userRole, accessToken, {
+      onToken: (content) => updateAssistant(msg => ({ content: msg.content + content })),
+      onToolStart: (tool, id) => updateAssistant(msg => ({
+        runningTools: [...(msg.runningTools || []), { id, tool }]
+      })),
+      onToolEnd: (_tool, id) => updateAssistant(msg => ({
+        runningTools: (msg.runningTools || []).filter(t => t.id !== id)
+      })),
+      onApprovalRequired: (action) => updateAssistant(msg => ({
+        actions: [...(msg.actions || []), action]
+      })),
+    }, threadId);
+
+    if (!result.success) {
+      // Drop the bubble if nothing was streamed into it
+      setMessages(prev => prev.filter(msg => msg.id !== assistantId || msg.content));
+      throw new Error(result.error || 'Failed to get response from server');
     }
-  };
 
-  // Helper function to get user-specific localStorage key
-  const getStorageKey = (userId: string) => `ai-chat-messages-${userId}`;
+    // Replace the streamed text with the final answer from the last model turn
+    updateAssistant(() => ({
+      content: result.response,
+      runningTools: [],
+      actions: result.pendingActions || []
+    }));
 
-  // Auto-scroll to bottom when new messages arrive
-  useEffect(() => {
-    messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
-  }, [messages]);
+    // The server titles new threads after the first exchange and re-sorts by activity
+    loadThreads(accessToken).catch(error => console.warn('Failed to refresh chat threads:', error));
 
-  // Load messages from localStorage when user changes
-  useEffect(() => {
-    if (!user?.id) {
-      setMessages([]);
-      return;
-    }
+    return result;
+  };
+
+  // Approve or reject a pending action; only an approval executes the tool
+  const resolveAction = async (actionId: string, decision: "approve" | "reject") => {
+    if (resolvingActionId) return;
+    setResolvingActionId(actionId);
 
     try {
-      const saved = localStorage.getItem(getStorageKey(user.id));
-      if (saved) {
-        const parsed = JSON.parse(saved);
-        const messagesWithDates = parsed.map((msg: any) => ({
+      const accessToken = await getAccessToken();
+      const { action, message } = decision === "approve"
+        ? await chatApiClient.approveAction(accessToken, actionId)
+        : await chatApiClient.rejectAction(accessToken, actionId);
+
+      setMessages(prev => {
+        const updated = prev.map(msg => ({
           ...msg,
-          timestamp: new Date(msg.timestamp),
-          isApprovalRequest: msg.isApprovalRequest || (msg.role === 'assistant' && isApprovalRequest(msg.content))
+          actions: msg.actions?.map(a => (a.id === action.id ? action : a))
         }));
-        setMessages(messagesWithDates);
-      } else {
-        setMessages([]);
-      }
+        return message ? [...updated, toChatMessage(message)] : updated;
+      });
+
+      if (action.status === "executed") toast.success("Action approved");
+      else if (action.status === "failed") toast.error(action.result?.error || "Action failed");
+      else toast.success("Action rejected");
     } catch (error) {
-      console.warn('Failed to load chat messages from localStorage:', error);
-      setMessages([]);
+      console.error(`Failed to ${decision} action:`, error);
+      toast.error(error instanceof Error ? error.message : `Failed to ${decision} action`);
+    } finally {
+      setResolvingActionId(null);
     }
-  }, [user?.id]);
+  };
 
-  // Save messages to localStorage whenever messages change
+  // Auto-scroll to bottom when new messages arrive
   useEffect(() => {
-    if (!user?.id) return;
+    messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
+  }, [messages]);
 
-    try {
-      localStorage.setItem(getStorageKey(user.id), JSON.stringify(messages));
-    } catch (error) {
-      console.warn('Failed to save chat messages to localStorage:', error);
-    }
-  }, [messages, user?.id]);
+  // Load the user's threads and open the most recent one when the user changes
+  useEffect(() => {
+    setThreads([]);
+    setActiveThreadId(null);
+    setMessages([]);
+
+    if (!user?.id) return;
 
+    getAccessToken()
+      .then(loadThreads)
+      .then(list => {
+        if (list.length > 0) selectThread(list[0].id);
+      })
+      .catch(error => {
+        console.warn('Failed to load chat threads:', error);
+        toast.error("Failed to load conversations");
+      });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [user?.id]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -196,46 +234,18 @@ const AIChat = ({ userRole }: AIChatProps) => {
         { role: 'user', content: input }
       ];
 
-      // Add initial assistant message with empty content
-      const assistantId = (Date.now() + 1).toString();
-      const assistantMessage: ChatMessage = {
-        id: assistantId,
-        role: "assistant",
-        content: "",
-        timestamp: new Date()
-      };
-
-      setMessages(prev => [...prev, assistantMessage]);
-
       // Send request to server-side API
       console.log('🤖 AI Agent - Sending to server API:', {
         messagesCount: messagesForApi.length,
         role: currentUserRole
       });
 
-      const result = await chatApiClient.sendMessage(messagesForApi, currentUserRole, session.access_token);
-
-      if (result.success) {
-        // Update the assistant message with the complete response
-        setMessages(prev => prev.map(msg =>
-          msg.id === assistantId
-            ? { ...msg, content: result.response, isApprovalRequest: isApprovalRequest(result.response) }
-            : msg
-        ));
-
-        console.log('🤖 AI Agent - Approval Response:', {
-          response,
-          newContentLength: result.response.length,
-          timestamp: new Date().toISOString()
-        });
-
-        console.log('🤖 AI Agent - Server Response:', {
-          contentLength: result.response.length,
-          timestamp: new Date().toISOString()
-        });
-      } else {
-        throw new Error(result.error || 'Failed to get response from server');
-      }
+      const result = await streamAssistantReply(messagesForApi, session.access_token);
+
+      console.log('🤖 AI Agent - Server Response:', {
+        contentLength: result.response.length,
+        timestamp: new Date().toISOString()
+      });
 
     } catch (error) {
       console.error("🤖 AI Agent - Error:", error);
@@ -254,12 +264,31 @@ const AIChat = ({ userRole }: AIChatProps) => {
     }
   };
 
-  const clearChat = () => {
-    if (!user?.id) return;
-
+  const startNewChat = () => {
+    setActiveThreadId(null);
     setMessages([]);
-    localStorage.removeItem(getStorageKey(user.id));
-    toast.success("Chat cleared");
+  };
+
+  const renameThread = async (threadId: string, title: string) => {
+    try {
+      const updated = await chatApiClient.renameThread(await getAccessToken(), threadId, title);
+      setThreads(prev => prev.map(t => (t.id === threadId ? updated : t)));
+    } catch (error) {
+      console.error('Failed to rename chat thread:', error);
+      toast.error("Failed to rename conversation");
+    }
+  };
+
+  const deleteThread = async (threadId: string) => {
+    try {
+      await chatApiClient.deleteThread(await getAccessToken(), threadId);
+      setThreads(prev => prev.filter(t => t.id !== threadId));
+      if (threadId === activeThreadId) startNewChat();
+      toast.success("Conversation deleted");
+    } catch (error) {
+      console.error('Failed to delete chat thread:', error);
+      toast.error("Failed to delete conversation");
+    }
   };
 
   return (
@@ -273,123 +302,132 @@ const AIChat = ({ userRole }: AIChatProps) => {
               ({userRole} mode)
             </span>
           </div>
-          <Button variant="outline" size="sm" onClick={clearChat}>
-            Clear Chat
-          </Button>
         </CardHeader>
 
-        <CardContent className="flex flex-col flex-1 p-0 relative">
-          {/* Messages Area - Takes most of the space */}
-          <ScrollArea className="flex-1 rounded-lg border">
-            <div className="p-4 space-y-4">
-              {messages.length === 0 && (
-                <div className="text-center text-muted-foreground py-8 h-full flex items-center justify-center">
-                  <div>
-                    <Bot className="h-12 w-12 mx-auto mb-2" />
-                    <p>How can I help you today?</p>
+        <CardContent className="flex flex-1 p-0 min-h-0">
+          <ChatThreadSidebar
+            threads={threads}
+            activeThreadId={activeThreadId}
+            disabled={isLoading}
+            onSelect={selectThread}
+            onNew={startNewChat}
+            onRename={renameThread}
+            onDelete={deleteThread}
+          />
+
+          <div className="flex flex-col flex-1 min-w-0 relative">
+            {/* Messages Area - Takes most of the space */}
+            <ScrollArea className="flex-1 rounded-lg border">
+              <div className="p-4 space-y-4">
+                {messages.length === 0 && (
+                  <div className="text-center text-muted-foreground py-8 h-full flex items-center justify-center">
+                    <div>
+                      <Bot className="h-12 w-12 mx-auto mb-2" />
+                      <p>How can I help you today?</p>
+                    </div>
                   </div>
-                </div>
-              )}
-
-              {messages.map((message) => (
-                <div
-                  key={message.id}
-                  className={cn(
-                    "flex gap-3",
-                    message.role === "user" ? "justify-end" : "justify-start"
-                  )}
-                >
-                  {message.role === "assistant" && (
-                    <Avatar className="h-8 w-8 flex-shrink-0">
-                      <AvatarFallback className="bg-primary">
-                        <Bot className="h-4 w-4" />
-                      </AvatarFallback>
-                    </Avatar>
-                  )}
+                )}
 
+                {messages.map((message) => (
                   <div
+                    key={message.id}
                     className={cn(
-                      "rounded-lg px-4 py-2 max-w-md",
-                      message.role === "user"
-                        ? "bg-primary text-primary-foreground"
-                        : "bg-muted"
+                      "flex gap-3",
+                      message.role === "user" ? "justify-end" : "justify-start"
                     )}
                   >
-                    {message.role === "assistant" ? (
-                      message.isApprovalRequest ? (
-                        <div className="space-y-3">
+                    {message.role === "assistant" && (
+                      <Avatar className="h-8 w-8 flex-shrink-0">
+                        <AvatarFallback className="bg-primary">
+                          <Bot className="h-4 w-4" />
+                        </AvatarFallback>
+                      </Avatar>
+                    )}
+
+                    <div
+                      className={cn(
+                        "rounded-lg px-4 py-2 max-w-md",
+                        message.role === "user"
+                          ? "bg-primary text-primary-foreground"
+                          : "bg-muted"
+                      )}
+                    >
+                      {message.runningTools && message.runningTools.length > 0 && (
+                        <div className="space-y-1 mb-1">
+                          {message.runningTools.map((t) => (
+                            <div key={t.id} className="flex items-center gap-2 text-xs text-muted-foreground">
+                              <Loader2 className="h-3 w-3 animate-spin" />
+                              <span>Running {t.tool}…</span>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+
+                      {message.role === "assistant" && !message.content && !message.runningTools?.length && isLoading && (
+                        <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                          <Loader2 className="h-3 w-3 animate-spin" />
+                          <span>Thinking…</span>
+                        </div>
+                      )}
+
+                      {message.role === "assistant" ? (
+                        <>
                           <div className="text-sm prose">
                             <ReactMarkdown>
                               {message.content}
                             </ReactMarkdown>
                           </div>
-                          <div className="flex gap-2">
-                            <Button
-                              size="sm"
-                              onClick={() => handleApprovalResponse("yes")}
-                              disabled={isLoading}
-                              className="bg-green-600 hover:bg-green-700"
-                            >
-                              Yes
-                            </Button>
-                            <Button
-                              size="sm"
-                              variant="outline"
-                              onClick={() => handleApprovalResponse("no")}
-                              disabled={isLoading}
-                              className="border-red-300 text-red-600 hover:bg-red-50"
-                            >
-                              No
-                            </Button>
-                          </div>
-                        </div>
+                          {message.actions?.map((action) => (
+                            <PendingActionCard
+                              key={action.id}
+                              action={action}
+                              isResolving={resolvingActionId === action.id}
+                              onApprove={(id) => resolveAction(id, "approve")}
+                              onReject={(id) => resolveAction(id, "reject")}
+                            />
+                          ))}
+                        </>
                       ) : (
-                        <div className="text-sm prose">
-                          <ReactMarkdown>
-                            {message.content}
-                          </ReactMarkdown>
-                        </div>
-                      )
-                    ) : (
-                      <p className="text-sm">{message.content}</p>
+                        <p className="text-sm">{message.content}</p>
+                      )}
+                    </div>
+
+                    {message.role === "user" && (
+                      <Avatar className="h-8 w-8 flex-shrink-0">
+                        <AvatarFallback className="bg-secondary">
+                          <User className="h-4 w-4" />
+                        </AvatarFallback>
+                      </Avatar>
                     )}
                   </div>
-
-                  {message.role === "user" && (
-                    <Avatar className="h-8 w-8 flex-shrink-0">
-                      <AvatarFallback className="bg-secondary">
-                        <User className="h-4 w-4" />
-                      </AvatarFallback>
-                    </Avatar>
-                  )}
-                </div>
-              ))}
-
-              <div ref={messagesEndRef} />
-            </div>
-          </ScrollArea>
-
-          {/* Input Area - Fixed at bottom */}
-          <form onSubmit={handleSubmit} className="sticky bottom-0 left-0 right-0 flex gap-2 p-4 bg-background border-t">
-            <Input
-              placeholder="Type your message..."
-              value={input}
-              onChange={(e) => setInput(e.target.value)}
-              disabled={isLoading}
-              className="flex-1"
-            />
-            <Button
-              type="submit"
-              disabled={isLoading || !input.trim()}
-              size="icon"
-            >
-              {isLoading ? (
-                <Loader2 className="h-4 w-4 animate-spin" />
-              ) : (
-                <Send className="h-4 w-4" />
-              )}
-            </Button>
-          </form>
+                ))}
+
+                <div ref={messagesEndRef} />
+              </div>
+            </ScrollArea>
+
+            {/* Input Area - Fixed at bottom */}
+            <form onSubmit={handleSubmit} className="sticky bottom-0 left-0 right-0 flex gap-2 p-4 bg-background border-t">
+              <Input
+                placeholder="Type your message..."
+                value={input}
+                onChange={(e) => setInput(e.target.value)}
+                disabled={isLoading}
+                className="flex-1"
+              />
+              <Button
+                type="submit"
+                disabled={isLoading || !input.trim()}
+                size="icon"
+              >
+                {isLoading ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : (
+                  <Send className="h-4 w-4" />
+                )}
+              </Button>
+            </form>
+          </div>
         </CardContent>
       </Card>
     </div>
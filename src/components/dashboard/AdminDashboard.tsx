@@ -1,7 +1,7 @@
 import { useEffect } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { LogOut, Users, ListTodo, BarChart3, Settings, Search, DollarSign, UserCircle, MessageCircle } from "lucide-react";
+import { LogOut, Users, ListTodo, BarChart3, Settings, Search, DollarSign, UserCircle, MessageCircle, ShieldCheck, FolderKanban, Repeat, Clock, ClipboardCheck } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -11,14 +11,23 @@ import DashboardSummary from "./DashboardSummary";
 import PaymentManagement from "./PaymentManagement";
 import Profile from "@/components/profile/Profile";
 import AIChat from "./AIChat";
+import AgentAuditLog from "./AgentAuditLog";
+import MatchingWeightsSettings from "./MatchingWeightsSettings";
+import ProjectList from "@/components/projects/ProjectList";
+import TaskTemplateManager from "@/components/templates/TaskTemplateManager";
+import TimesheetApprovals from "@/components/time/TimesheetApprovals";
+import ReviewQueue from "@/components/reviews/ReviewQueue";
 import { useRealtimeNotificationsOptimized } from "@/hooks/use-realtime-notifications-optimized";
 import ErrorBoundary from "@/components/ui/error-boundary";
 import { useAuthStore } from "@/stores/authStore";
 import { useUIStore } from "@/stores/uiStore";
-import { useNotificationStore } from "@/stores/notificationStore";
+import { useNotificationStore, type Notification } from "@/stores/notificationStore";
+import NotificationInbox from "@/components/notifications/NotificationInbox";
+import NotificationPreferences from "@/components/notifications/NotificationPreferences";
+import NotificationWebhooksSettings from "@/components/notifications/NotificationWebhooksSettings";
 
 const AdminDashboard = () => {
-  const { user, logout } = useAuthStore();
+  const { user, userRole, logout } = useAuthStore();
   const {
     activeView,
     searchQuery,
@@ -41,7 +50,7 @@ const AdminDashboard = () => {
 
   useEffect(() => {
     if (user?.id) {
-      const unsubscribe = subscribeToRealtimeUpdates(user.id, "admin");
+      const unsubscribe = subscribeToRealtimeUpdates(user.id);
       return unsubscribe;
     }
   }, [user?.id, subscribeToRealtimeUpdates]);
@@ -90,6 +99,16 @@ const AdminDashboard = () => {
     };
   }, [setActiveView]);
 
+  const handleOpenNotification = (notification: Notification) => {
+    if (notification.type === "payment") {
+      setActiveView("payments");
+    } else if (notification.type === "task_status" && notification.metadata.to === "completed") {
+      setActiveView("reviews");
+    } else if (notification.taskId) {
+      setActiveView("tasks");
+    }
+  };
+
   const handleLogout = async () => {
     await logout();
     toast.success("Logged out successfully");
@@ -99,9 +118,12 @@ const AdminDashboard = () => {
     <div className="h-screen bg-background flex flex-col md:flex-row overflow-hidden">
       {/* Sidebar - Fixed height, independently scrollable */}
       <aside className="w-full md:w-64 border-r bg-muted/30 dark:bg-slate-900 flex flex-col md:h-screen" aria-label="Main navigation">
-        <div className="p-6 border-b flex-shrink-0">
-          <h1 className="text-xl font-bold" id="admin-dashboard-title">ChatFlow Agent</h1>
-          <p className="text-sm text-muted-foreground" id="admin-dashboard-subtitle">Admin Dashboard</p>
+        <div className="p-6 border-b flex-shrink-0 flex items-start justify-between gap-2">
+          <div>
+            <h1 className="text-xl font-bold" id="admin-dashboard-title">ChatFlow Agent</h1>
+            <p className="text-sm text-muted-foreground" id="admin-dashboard-subtitle">Admin Dashboard</p>
+          </div>
+          <NotificationInbox onOpenNotification={handleOpenNotification} />
         </div>
 
         <nav className="flex-1 p-4 space-y-2 hidden md:block overflow-y-auto" aria-label="Dashboard navigation">
@@ -139,7 +161,34 @@ const AdminDashboard = () => {
             aria-current={activeView === "tasks" ? "page" : undefined}
           >
             <ListTodo className="mr-2 h-4 w-4" aria-hidden="true" />
-            Projects / Tasks
+            Tasks
+          </Button>
+          <Button
+            variant={activeView === "projects" ? "default" : "ghost"}
+            className="w-full justify-start"
+            onClick={() => setActiveView("projects")}
+            aria-current={activeView === "projects" ? "page" : undefined}
+          >
+            <FolderKanban className="mr-2 h-4 w-4" aria-hidden="true" />
+            Projects
+          </Button>
+          <Button
+            variant={activeView === "templates" ? "default" : "ghost"}
+            className="w-full justify-start"
+            onClick={() => setActiveView("templates")}
+            aria-current={activeView === "templates" ? "page" : undefined}
+          >
+            <Repeat className="mr-2 h-4 w-4" aria-hidden="true" />
+            Templates
+          </Button>
+          <Button
+            variant={activeView === "reviews" ? "default" : "ghost"}
+            className="w-full justify-start"
+            onClick={() => setActiveView("reviews")}
+            aria-current={activeView === "reviews" ? "page" : undefined}
+          >
+            <ClipboardCheck className="mr-2 h-4 w-4" aria-hidden="true" />
+            Reviews
           </Button>
           <Button
             variant={activeView === "payments" ? "default" : "ghost"}
@@ -150,6 +199,26 @@ const AdminDashboard = () => {
             <DollarSign className="mr-2 h-4 w-4" aria-hidden="true" />
             Payments
           </Button>
+          <Button
+            variant={activeView === "timesheets" ? "default" : "ghost"}
+            className="w-full justify-start"
+            onClick={() => setActiveView("timesheets")}
+            aria-current={activeView === "timesheets" ? "page" : undefined}
+          >
+            <Clock className="mr-2 h-4 w-4" aria-hidden="true" />
+            Timesheets
+          </Button>
+          {userRole === "admin" && (
+            <Button
+              variant={activeView === "audit" ? "default" : "ghost"}
+              className="w-full justify-start"
+              onClick={() => setActiveView("audit")}
+              aria-current={activeView === "audit" ? "page" : undefined}
+            >
+              <ShieldCheck className="mr-2 h-4 w-4" aria-hidden="true" />
+              Agent Audit Log
+            </Button>
+          )}
           <Button
             variant={activeView === "profile" ? "default" : "ghost"}
             className="w-full justify-start"
@@ -240,7 +309,7 @@ const AdminDashboard = () => {
           )}
           {activeView === "chat" && (
             <ErrorBoundary componentName="Chat">
-              <AIChat userRole="admin" />
+              <AIChat userRole={userRole === "staff" ? "staff" : "admin"} />
             </ErrorBoundary>
           )}
           {activeView === "employees" && (
@@ -253,11 +322,36 @@ const AdminDashboard = () => {
               <TaskList key={refreshTrigger} isAdmin={true} searchQuery={searchQuery} />
             </ErrorBoundary>
           )}
+          {activeView === "projects" && (
+            <ErrorBoundary componentName="ProjectList">
+              <ProjectList searchQuery={searchQuery} />
+            </ErrorBoundary>
+          )}
+          {activeView === "templates" && (
+            <ErrorBoundary componentName="TaskTemplateManager">
+              <TaskTemplateManager searchQuery={searchQuery} />
+            </ErrorBoundary>
+          )}
+          {activeView === "reviews" && (
+            <ErrorBoundary componentName="ReviewQueue">
+              <ReviewQueue searchQuery={searchQuery} />
+            </ErrorBoundary>
+          )}
           {activeView === "payments" && (
             <ErrorBoundary componentName="PaymentManagement">
               <PaymentManagement userRole="admin" />
             </ErrorBoundary>
           )}
+          {activeView === "timesheets" && (
+            <ErrorBoundary componentName="TimesheetApprovals">
+              <TimesheetApprovals searchQuery={searchQuery} />
+            </ErrorBoundary>
+          )}
+          {activeView === "audit" && userRole === "admin" && (
+            <ErrorBoundary componentName="AgentAuditLog">
+              <AgentAuditLog />
+            </ErrorBoundary>
+          )}
           {activeView === "profile" && (
             <ErrorBoundary componentName="Profile">
               <Profile userId={user.id} userRole="admin" />
@@ -275,9 +369,25 @@ const AdminDashboard = () => {
                   <p className="text-sm text-muted-foreground">Role: Administrator</p>
                 </div>
                 <div>
-                  <h3 className="text-sm font-medium mb-2">System Preferences</h3>
-                  <p className="text-sm text-muted-foreground">Notification settings and preferences will be available soon.</p>
+                  <h3 className="text-sm font-medium mb-2">Notifications</h3>
+                  <NotificationPreferences />
                 </div>
+                {userRole === "admin" && (
+                  <div>
+                    <h3 className="text-sm font-medium mb-2">Webhooks</h3>
+                    <ErrorBoundary componentName="NotificationWebhooksSettings">
+                      <NotificationWebhooksSettings />
+                    </ErrorBoundary>
+                  </div>
+                )}
+                {userRole === "admin" && (
+                  <div>
+                    <h3 className="text-sm font-medium mb-2">Employee Matching</h3>
+                    <ErrorBoundary componentName="MatchingWeightsSettings">
+                      <MatchingWeightsSettings />
+                    </ErrorBoundary>
+                  </div>
+                )}
               </CardContent>
             </Card>
           )}
@@ -0,0 +1,282 @@
+import { Fragment, useCallback, useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ChevronDown, ChevronRight, RefreshCw, Search, ShieldCheck } from "lucide-react";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import ErrorBoundary from "@/components/ui/error-boundary";
+
+type AuditEntry = Tables<"agent_audit_log">;
+
+const PAGE_SIZE = 200;
+
+// How far back to look, in days (0 = no limit)
+const PERIOD_OPTIONS = [
+  { value: "1", label: "Last 24 hours" },
+  { value: "7", label: "Last 7 days" },
+  { value: "30", label: "Last 30 days" },
+  { value: "0", label: "All time" },
+];
+
+const formatTimestamp = (value: string | null) =>
+  value ? new Date(value).toLocaleString() : "—";
+
+const AgentAuditLog = () => {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [userQuery, setUserQuery] = useState("");
+  const [toolQuery, setToolQuery] = useState("");
+  const [outcomeFilter, setOutcomeFilter] = useState("all");
+  const [sourceFilter, setSourceFilter] = useState("all");
+  const [period, setPeriod] = useState("7");
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const fetchEntries = useCallback(async () => {
+    setLoading(true);
+
+    let query = supabase
+      .from("agent_audit_log")
+      .select("*")
+      .order("created_at", { ascending: false })
+      .limit(PAGE_SIZE);
+
+    if (userQuery.trim()) {
+      query = query.ilike("user_email", `%${userQuery.trim()}%`);
+    }
+    if (toolQuery.trim()) {
+      query = query.ilike("tool_name", `%${toolQuery.trim()}%`);
+    }
+    if (outcomeFilter !== "all") {
+      query = query.eq("success", outcomeFilter === "success");
+    }
+    if (sourceFilter !== "all") {
+      query = query.eq("source", sourceFilter);
+    }
+    if (period !== "0") {
+      const since = new Date(Date.now() - Number(period) * 24 * 60 * 60 * 1000);
+      query = query.gte("created_at", since.toISOString());
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      toast.error("Failed to load agent audit log");
+      console.error("Error fetching agent audit log:", error);
+    } else {
+      setEntries(data || []);
+    }
+
+    setLoading(false);
+  }, [userQuery, toolQuery, outcomeFilter, sourceFilter, period]);
+
+  useEffect(() => {
+    // Debounce so typing in the search boxes doesn't fire a query per keystroke
+    const timeout = setTimeout(fetchEntries, 300);
+    return () => clearTimeout(timeout);
+  }, [fetchEntries]);
+
+  const failedCount = entries.filter((entry) => !entry.success).length;
+
+  return (
+    <ErrorBoundary componentName="AgentAuditLog">
+      <div className="space-y-4">
+        <div className="flex items-center justify-between gap-2">
+          <div>
+            <h2 className="text-2xl font-bold flex items-center gap-2">
+              <ShieldCheck className="h-6 w-6" aria-hidden="true" />
+              Agent Audit Log
+            </h2>
+            <p className="text-sm text-muted-foreground">
+              Every tool the AI assistant ran, who it ran for, and what happened
+            </p>
+          </div>
+          <Button variant="outline" size="sm" onClick={fetchEntries} disabled={loading}>
+            <RefreshCw className={`h-4 w-4 mr-2 ${loading ? "animate-spin" : ""}`} aria-hidden="true" />
+            Refresh
+          </Button>
+        </div>
+
+        <div className="flex flex-col lg:flex-row gap-2" role="search" aria-label="Filter agent audit log">
+          <div className="relative flex-1">
+            <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" aria-hidden="true" />
+            <Input
+              placeholder="Filter by user email..."
+              value={userQuery}
+              onChange={(e) => setUserQuery(e.target.value)}
+              className="pl-8"
+              aria-label="Filter by user email"
+            />
+          </div>
+          <Input
+            placeholder="Tool name (e.g. delete_task)"
+            value={toolQuery}
+            onChange={(e) => setToolQuery(e.target.value)}
+            className="lg:w-[220px]"
+            aria-label="Filter by tool name"
+          />
+          <Select value={outcomeFilter} onValueChange={setOutcomeFilter}>
+            <SelectTrigger className="w-full lg:w-[150px]" aria-label="Filter by outcome">
+              <SelectValue placeholder="Outcome" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All outcomes</SelectItem>
+              <SelectItem value="success">Succeeded</SelectItem>
+              <SelectItem value="failed">Failed</SelectItem>
+            </SelectContent>
+          </Select>
+          <Select value={sourceFilter} onValueChange={setSourceFilter}>
+            <SelectTrigger className="w-full lg:w-[170px]" aria-label="Filter by source">
+              <SelectValue placeholder="Source" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All sources</SelectItem>
+              <SelectItem value="agent">Called by AI</SelectItem>
+              <SelectItem value="approval">Approved by user</SelectItem>
+            </SelectContent>
+          </Select>
+          <Select value={period} onValueChange={setPeriod}>
+            <SelectTrigger className="w-full lg:w-[160px]" aria-label="Filter by period">
+              <SelectValue placeholder="Period" />
+            </SelectTrigger>
+            <SelectContent>
+              {PERIOD_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">
+              {entries.length} {entries.length === PAGE_SIZE ? "most recent " : ""}calls
+              {failedCount > 0 && (
+                <span className="ml-2 text-sm font-normal text-red-600">({failedCount} failed)</span>
+              )}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {loading && entries.length === 0 ? (
+              <div className="text-center py-8 text-muted-foreground">Loading audit log...</div>
+            ) : entries.length === 0 ? (
+              <div className="text-center py-8 text-muted-foreground" aria-live="polite">
+                No agent tool calls match your filters
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead scope="col" className="w-8" />
+                      <TableHead scope="col" className="text-xs sm:text-sm">Time</TableHead>
+                      <TableHead scope="col" className="text-xs sm:text-sm">User</TableHead>
+                      <TableHead scope="col" className="text-xs sm:text-sm">Tool</TableHead>
+                      <TableHead scope="col" className="text-xs sm:text-sm">Source</TableHead>
+                      <TableHead scope="col" className="text-xs sm:text-sm">Result</TableHead>
+                      <TableHead scope="col" className="text-xs sm:text-sm text-right">Latency</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {entries.map((entry) => {
+                      const isExpanded = expandedId === entry.id;
+
+                      return (
+                        <Fragment key={entry.id}>
+                          <TableRow
+                            className="cursor-pointer"
+                            onClick={() => setExpandedId(isExpanded ? null : entry.id)}
+                            aria-expanded={isExpanded}
+                          >
+                            <TableCell>
+                              {isExpanded ? (
+                                <ChevronDown className="h-4 w-4" aria-hidden="true" />
+                              ) : (
+                                <ChevronRight className="h-4 w-4" aria-hidden="true" />
+                              )}
+                            </TableCell>
+                            <TableCell className="text-xs whitespace-nowrap">
+                              {formatTimestamp(entry.created_at)}
+                            </TableCell>
+                            <TableCell className="text-xs">
+                              <div>{entry.user_email || "Deleted user"}</div>
+                              <div className="text-muted-foreground capitalize">{entry.user_role}</div>
+                            </TableCell>
+                            <TableCell className="text-xs font-mono">{entry.tool_name}</TableCell>
+                            <TableCell>
+                              <Badge variant="outline" className="text-xs">
+                                {entry.source === "approval" ? "Approved by user" : "AI"}
+                              </Badge>
+                            </TableCell>
+                            <TableCell className="text-xs max-w-[320px]">
+                              <div className="flex items-center gap-2">
+                                <Badge
+                                  variant="outline"
+                                  className={entry.success ? "bg-green-100 text-green-800" : "bg-red-100 text-red-800"}
+                                >
+                                  {entry.success ? "OK" : "Failed"}
+                                </Badge>
+                                <span className="truncate">{entry.result_summary}</span>
+                              </div>
+                            </TableCell>
+                            <TableCell className="text-xs text-right whitespace-nowrap">
+                              {entry.latency_ms} ms
+                            </TableCell>
+                          </TableRow>
+                          {isExpanded && (
+                            <TableRow>
+                              <TableCell />
+                              <TableCell colSpan={6} className="space-y-2 bg-muted/30">
+                                <div>
+                                  <h4 className="text-xs font-medium mb-1">Arguments</h4>
+                                  <pre className="text-xs bg-background rounded p-2 overflow-x-auto">
+                                    {JSON.stringify(entry.args, null, 2)}
+                                  </pre>
+                                </div>
+                                {entry.result_summary && (
+                                  <div>
+                                    <h4 className="text-xs font-medium mb-1">Result</h4>
+                                    <p className="text-xs whitespace-pre-line">{entry.result_summary}</p>
+                                  </div>
+                                )}
+                                <p className="text-xs text-muted-foreground">
+                                  {entry.thread_id && <>Chat thread: {entry.thread_id} · </>}
+                                  {entry.action_id && <>Pending action: {entry.action_id}</>}
+                                </p>
+                              </TableCell>
+                            </TableRow>
+                          )}
+                        </Fragment>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </ErrorBoundary>
+  );
+};
+
+export default AgentAuditLog;
@@ -0,0 +1,152 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { MessageSquare, Pencil, Plus, Trash2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { ChatThread } from "@/api/chat/client";
+
+interface ChatThreadSidebarProps {
+  threads: ChatThread[];
+  activeThreadId: string | null;
+  disabled?: boolean;
+  onSelect: (threadId: string) => void;
+  onNew: () => void;
+  onRename: (threadId: string, title: string) => void;
+  onDelete: (threadId: string) => void;
+}
+
+const ChatThreadSidebar = ({
+  threads,
+  activeThreadId,
+  disabled,
+  onSelect,
+  onNew,
+  onRename,
+  onDelete,
+}: ChatThreadSidebarProps) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editTitle, setEditTitle] = useState("");
+  const [pendingDelete, setPendingDelete] = useState<ChatThread | null>(null);
+
+  const startEditing = (thread: ChatThread) => {
+    setEditingId(thread.id);
+    setEditTitle(thread.title);
+  };
+
+  const submitRename = () => {
+    if (editingId && editTitle.trim()) {
+      onRename(editingId, editTitle.trim());
+    }
+    setEditingId(null);
+  };
+
+  return (
+    <div className="flex flex-col w-56 flex-shrink-0 border-r">
+      <div className="p-2 border-b">
+        <Button variant="outline" size="sm" className="w-full" onClick={onNew} disabled={disabled}>
+          <Plus className="h-4 w-4 mr-2" />
+          New Chat
+        </Button>
+      </div>
+
+      <ScrollArea className="flex-1">
+        <div className="p-2 space-y-1">
+          {threads.length === 0 && (
+            <p className="text-xs text-muted-foreground text-center py-4">No conversations yet</p>
+          )}
+
+          {threads.map((thread) => (
+            <div
+              key={thread.id}
+              className={cn(
+                "group flex items-center gap-1 rounded-md px-2 py-1.5 text-sm cursor-pointer hover:bg-muted",
+                thread.id === activeThreadId && "bg-muted font-medium"
+              )}
+              onClick={() => !disabled && editingId !== thread.id && onSelect(thread.id)}
+            >
+              {editingId === thread.id ? (
+                <Input
+                  autoFocus
+                  value={editTitle}
+                  onChange={(e) => setEditTitle(e.target.value)}
+                  onBlur={submitRename}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") submitRename();
+                    if (e.key === "Escape") setEditingId(null);
+                  }}
+                  className="h-7 text-sm"
+                  maxLength={200}
+                />
+              ) : (
+                <>
+                  <MessageSquare className="h-3.5 w-3.5 flex-shrink-0 text-muted-foreground" />
+                  <span className="flex-1 truncate" title={thread.title}>{thread.title}</span>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6 opacity-0 group-hover:opacity-100"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      startEditing(thread);
+                    }}
+                    disabled={disabled}
+                  >
+                    <Pencil className="h-3 w-3" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6 opacity-0 group-hover:opacity-100 text-red-600"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      setPendingDelete(thread);
+                    }}
+                    disabled={disabled}
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                </>
+              )}
+            </div>
+          ))}
+        </div>
+      </ScrollArea>
+
+      <AlertDialog open={!!pendingDelete} onOpenChange={(open) => !open && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete conversation</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{pendingDelete?.title}" and all of its messages will be permanently deleted.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (pendingDelete) onDelete(pendingDelete.id);
+                setPendingDelete(null);
+              }}
+              className="bg-red-600 hover:bg-red-700"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default ChatThreadSidebar;
@@ -1,7 +1,7 @@
 import { useEffect, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { LogOut, ListTodo, Inbox, Home, UserCircle, MessageCircle } from "lucide-react";
+import { LogOut, ListTodo, Inbox, Home, UserCircle, MessageCircle, Clock } from "lucide-react";
 import { toast } from "sonner";
 import { supabase } from "@/integrations/supabase/client";
 import TaskList from "./TaskList";
@@ -10,11 +10,13 @@ import EmployeeDashboardSummary from "./EmployeeDashboardSummary";
 import EmployeeOnboarding from "@/components/onboarding/EmployeeOnboarding";
 import Profile from "@/components/profile/Profile";
 import AIChat from "./AIChat";
+import WeeklyTimesheet from "@/components/time/WeeklyTimesheet";
 import { useRealtimeNotificationsOptimized } from "@/hooks/use-realtime-notifications-optimized";
 import ErrorBoundary from "@/components/ui/error-boundary";
 import { useAuthStore } from "@/stores/authStore";
 import { useUIStore } from "@/stores/uiStore";
-import { useNotificationStore } from "@/stores/notificationStore";
+import { useNotificationStore, type Notification } from "@/stores/notificationStore";
+import NotificationInbox from "@/components/notifications/NotificationInbox";
 
 const EmployeeDashboard = () => {
   const { user, logout } = useAuthStore();
@@ -24,7 +26,8 @@ const EmployeeDashboard = () => {
     setActiveView,
     triggerRefresh
   } = useUIStore();
-  const { unreadCount, markAllAsRead, subscribeToRealtimeUpdates } = useNotificationStore();
+  const { notifications, markAllAsRead, subscribeToRealtimeUpdates } = useNotificationStore();
+  const unreadInvitations = notifications.filter((n) => n.type === "invitation" && !n.read).length;
   const [needsOnboarding, setNeedsOnboarding] = useState<boolean | null>(null);
 
   // Check if user needs onboarding
@@ -74,7 +77,7 @@ const EmployeeDashboard = () => {
 
   useEffect(() => {
     if (user?.id) {
-      const unsubscribe = subscribeToRealtimeUpdates(user.id, "employee");
+      const unsubscribe = subscribeToRealtimeUpdates(user.id);
       return unsubscribe;
     }
   }, [user?.id, subscribeToRealtimeUpdates]);
@@ -95,7 +98,7 @@ const EmployeeDashboard = () => {
           case '2':
             e.preventDefault();
             setActiveView("inbox");
-            markAllAsRead();
+            markAllAsRead("invitation");
             break;
           case '3':
             e.preventDefault();
@@ -116,6 +119,14 @@ const EmployeeDashboard = () => {
     };
   }, [setActiveView, markAllAsRead]);
 
+  const handleOpenNotification = (notification: Notification) => {
+    if (notification.type === "invitation") {
+      setActiveView("inbox");
+    } else if (notification.taskId) {
+      setActiveView("tasks");
+    }
+  };
+
   const handleLogout = async () => {
     await logout();
     toast.success("Logged out successfully");
@@ -145,9 +156,12 @@ const EmployeeDashboard = () => {
     <div className="h-screen bg-background flex flex-col md:flex-row overflow-hidden">
       {/* Sidebar - Fixed height, independently scrollable */}
       <aside className="w-full md:w-64 border-r bg-card flex flex-col md:h-screen" aria-label="Employee navigation">
-        <div className="p-6 border-b flex-shrink-0">
-          <h1 className="text-xl font-bold" id="employee-dashboard-title">ChatFlow Agent</h1>
-          <p className="text-sm text-muted-foreground" id="employee-dashboard-subtitle">Employee Dashboard</p>
+        <div className="p-6 border-b flex-shrink-0 flex items-start justify-between gap-2">
+          <div>
+            <h1 className="text-xl font-bold" id="employee-dashboard-title">ChatFlow Agent</h1>
+            <p className="text-sm text-muted-foreground" id="employee-dashboard-subtitle">Employee Dashboard</p>
+          </div>
+          <NotificationInbox onOpenNotification={handleOpenNotification} />
         </div>
 
         <nav className="flex-1 p-4 space-y-2 hidden md:block overflow-y-auto" aria-label="Employee dashboard navigation">
@@ -174,20 +188,20 @@ const EmployeeDashboard = () => {
             className="w-full justify-start relative"
             onClick={() => {
               setActiveView("inbox");
-              markAllAsRead(); // Clear unread count when opening inbox
+              markAllAsRead("invitation"); // Invitations are read once the inbox is open
             }}
             aria-current={activeView === "inbox" ? "page" : undefined}
-            aria-label={`Task invitations${unreadCount > 0 ? `, ${unreadCount} unread` : ''}`}
+            aria-label={`Task invitations${unreadInvitations > 0 ? `, ${unreadInvitations} unread` : ''}`}
           >
             <Inbox className="mr-2 h-4 w-4" aria-hidden="true" />
             Task Invitations
-            {unreadCount > 0 && (
+            {unreadInvitations > 0 && (
               <Badge
                 variant="destructive"
                 className="ml-auto h-5 w-5 p-0 flex items-center justify-center"
                 aria-hidden="true"
               >
-                {unreadCount > 9 ? "9+" : unreadCount}
+                {unreadInvitations > 9 ? "9+" : unreadInvitations}
               </Badge>
             )}
           </Button>
@@ -200,6 +214,15 @@ const EmployeeDashboard = () => {
             <ListTodo className="mr-2 h-4 w-4" aria-hidden="true" />
             My Tasks
           </Button>
+          <Button
+            variant={activeView === "timesheet" ? "default" : "ghost"}
+            className="w-full justify-start"
+            onClick={() => setActiveView("timesheet")}
+            aria-current={activeView === "timesheet" ? "page" : undefined}
+          >
+            <Clock className="mr-2 h-4 w-4" aria-hidden="true" />
+            Timesheet
+          </Button>
           <Button
             variant={activeView === "profile" ? "default" : "ghost"}
             className="w-full justify-start"
@@ -265,6 +288,11 @@ const EmployeeDashboard = () => {
               <TaskList key={refreshTrigger} isAdmin={false} />
             </ErrorBoundary>
           )}
+          {activeView === "timesheet" && (
+            <ErrorBoundary componentName="WeeklyTimesheet">
+              <WeeklyTimesheet userId={user.id} />
+            </ErrorBoundary>
+          )}
           {activeView === "profile" && (
             <ErrorBoundary componentName="Profile">
               <Profile userId={user.id} userRole="employee" />
@@ -40,6 +40,7 @@ import {
 import ErrorBoundary from "@/components/ui/error-boundary";
 import { useAuthStore } from "@/stores/authStore";
 import { chatApiClient } from "@/api/chat/client";
+import EmployeeMetricsTrend from "./EmployeeMetricsTrend";
 
 interface EmployeeDetailDialogProps {
   employee: any;
@@ -345,6 +346,8 @@ const EmployeeDetailDialog = ({ employee, open, onClose }: EmployeeDetailDialogP
                       {(employee.performance_score * 100).toFixed(0)}%
                     </p>
                   </div>
+
+                  <EmployeeMetricsTrend userId={employee.user_id} canRecompute />
                 </CardContent>
               </Card>
 
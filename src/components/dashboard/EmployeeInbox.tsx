@@ -13,6 +13,7 @@ import { Check, X, Clock, Calendar, Search, CheckCircle, XCircle, Filter } from
 import { toast } from "sonner";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { rejectionReasonSchema, type RejectionReasonFormData } from "@/lib/validation";
+import { getAllowedTransitions } from "@shared/taskStatus";
 import {
   Form,
   FormControl,
@@ -27,11 +28,13 @@ interface Invitation {
   task_id: string;
   status: string;
   created_at: string;
+  expires_at?: string;
   responded_at?: string;
   rejection_reason?: string;
   tasks: {
     title: string;
     description: string;
+    status: string;
     priority: string;
     deadline?: string;
     required_skills: string[];
@@ -41,6 +44,13 @@ interface Invitation {
   };
 }
 
+// Invitations that can no longer be answered, shown on the "Closed" tab
+const CLOSED_STATUS_LABELS: Record<string, string> = {
+  rejected: "Rejected",
+  withdrawn: "Withdrawn",
+  expired: "Expired",
+};
+
 interface EmployeeInboxProps {
   userId: string;
 }
@@ -65,10 +75,11 @@ const EmployeeInbox = ({ userId }: EmployeeInboxProps) => {
       .from("invitations")
       .select(`
         *,
-        tasks (title, description, priority, deadline, required_skills),
+        tasks (title, description, status, priority, deadline, required_skills),
         profiles:from_user_id (full_name)
       `)
       .eq("to_user_id", userId)
+      .neq("status", "queued") // Backup candidates only see the invitation once it is sent
       .order("created_at", { ascending: false });
 
     if (data) setInvitations(data as unknown as Invitation[]);
@@ -79,7 +90,7 @@ const EmployeeInbox = ({ userId }: EmployeeInboxProps) => {
     // Tab filter
     if (activeTab === "pending" && inv.status !== "pending") return false;
     if (activeTab === "accepted" && inv.status !== "accepted") return false;
-    if (activeTab === "rejected" && inv.status !== "rejected") return false;
+    if (activeTab === "rejected" && !CLOSED_STATUS_LABELS[inv.status]) return false;
 
     // Search filter
     if (searchQuery && !inv.tasks.title.toLowerCase().includes(searchQuery.toLowerCase()) &&
@@ -155,29 +166,24 @@ const EmployeeInbox = ({ userId }: EmployeeInboxProps) => {
     setLoading({ ...loading, [invitationId]: true });
 
     try {
-      // Use edge function for accepting/rejecting tasks
-      const { data, error } = await supabase.functions.invoke("ai-chat", {
-        body: {
-          userId,
-          action: status === "accepted" ? "accept_task" : "reject_task",
-          actionData: {
-            taskId,
-            reason: status === "rejected" ? reason : undefined,
-          },
-        },
-      });
-
-      if (error) throw error;
-
-      // Also update invitation status
-      await supabase
+      // The database updates the task: accepting claims it (unless another
+      // candidate was faster) and rejecting invites the next candidate
+      const { data, error } = await supabase
         .from("invitations")
         .update({
           status,
           responded_at: new Date().toISOString(),
           rejection_reason: status === "rejected" ? reason : null,
         })
-        .eq("id", invitationId);
+        .eq("id", invitationId)
+        .eq("task_id", taskId)
+        .eq("status", "pending")
+        .select("id");
+
+      if (error) throw error;
+      if (!data || data.length === 0) {
+        throw new Error("This invitation is no longer open");
+      }
 
       toast.success(status === "accepted" ? "✅ Task accepted!" : "❌ Invitation rejected");
       loadInvitations();
@@ -192,7 +198,7 @@ const EmployeeInbox = ({ userId }: EmployeeInboxProps) => {
 
   const pendingCount = invitations.filter((inv) => inv.status === "pending").length;
   const acceptedCount = invitations.filter((inv) => inv.status === "accepted").length;
-  const rejectedCount = invitations.filter((inv) => inv.status === "rejected").length;
+  const rejectedCount = invitations.filter((inv) => CLOSED_STATUS_LABELS[inv.status]).length;
 
   return (
     <div className="space-y-4">
@@ -239,7 +245,7 @@ const EmployeeInbox = ({ userId }: EmployeeInboxProps) => {
             Accepted ({acceptedCount})
           </TabsTrigger>
           <TabsTrigger value="rejected" role="tab" aria-selected={activeTab === "rejected"}>
-            Rejected ({rejectedCount})
+            Closed ({rejectedCount})
           </TabsTrigger>
         </TabsList>
 
@@ -266,6 +272,10 @@ const EmployeeInbox = ({ userId }: EmployeeInboxProps) => {
               >
                 {rowVirtualizer.getVirtualItems().map((virtualItem) => {
                   const invitation = filteredInvitations[virtualItem.index];
+                  // The task may have moved on (e.g. been reassigned) since the invitation was sent
+                  const canRespond = getAllowedTransitions(invitation.tasks.status, "employee").some(
+                    (transition) => transition.to === "accepted"
+                  );
                   return (
                     <div
                       key={invitation.id}
@@ -328,53 +338,66 @@ const EmployeeInbox = ({ userId }: EmployeeInboxProps) => {
                             <span>Received: {new Date(invitation.created_at).toLocaleString()}</span>
                           </div>
 
-                          <Form {...form}>
-                            <form onSubmit={form.handleSubmit((data) => handleResponse(invitation.id, invitation.task_id, "rejected", data.reason))} className="space-y-2">
-                              <FormField
-                                control={form.control}
-                                name="reason"
-                                render={({ field }) => (
-                                  <FormItem>
-                                    <FormLabel htmlFor={`rejection-reason-${invitation.id}`} className="text-xs md:text-sm">
-                                      Reason for rejection (optional)
-                                    </FormLabel>
-                                    <FormControl>
-                                      <Textarea
-                                        id={`rejection-reason-${invitation.id}`}
-                                        placeholder="Enter reason for rejection..."
-                                        {...field}
-                                        rows={2}
-                                        className="text-xs md:text-sm"
-                                        aria-describedby={`rejection-reason-help-${invitation.id}`}
-                                      />
-                                    </FormControl>
-                                    <FormMessage />
-                                  </FormItem>
-                                )}
-                              />
-                              <div className="flex gap-2">
-                                <Button
-                                  onClick={() => handleResponse(invitation.id, invitation.task_id, "accepted")}
-                                  disabled={loading[invitation.id]}
-                                  className="flex-1 text-xs md:text-sm"
-                                  aria-busy={loading[invitation.id]}
-                                >
-                                  <Check className="h-3 w-3 md:h-4 md:w-4 mr-1 md:mr-2" aria-hidden="true" />
-                                  Accept Task
-                                </Button>
-                                <Button
-                                  type="submit"
-                                  variant="destructive"
-                                  disabled={loading[invitation.id]}
-                                  className="flex-1 text-xs md:text-sm"
-                                  aria-busy={loading[invitation.id]}
-                                >
-                                  <X className="h-3 w-3 md:h-4 md:w-4 mr-1 md:mr-2" aria-hidden="true" />
-                                  Reject
-                                </Button>
-                              </div>
-                            </form>
-                          </Form>
+                          {invitation.expires_at && (
+                            <div className="flex items-center gap-2 text-xs md:text-sm text-orange-600">
+                              <Clock className="h-3 w-3 md:h-4 md:w-4" aria-hidden="true" />
+                              <span>Respond by: {new Date(invitation.expires_at).toLocaleString()}</span>
+                            </div>
+                          )}
+
+                          {canRespond ? (
+                            <Form {...form}>
+                              <form onSubmit={form.handleSubmit((data) => handleResponse(invitation.id, invitation.task_id, "rejected", data.reason))} className="space-y-2">
+                                <FormField
+                                  control={form.control}
+                                  name="reason"
+                                  render={({ field }) => (
+                                    <FormItem>
+                                      <FormLabel htmlFor={`rejection-reason-${invitation.id}`} className="text-xs md:text-sm">
+                                        Reason for rejection (optional)
+                                      </FormLabel>
+                                      <FormControl>
+                                        <Textarea
+                                          id={`rejection-reason-${invitation.id}`}
+                                          placeholder="Enter reason for rejection..."
+                                          {...field}
+                                          rows={2}
+                                          className="text-xs md:text-sm"
+                                          aria-describedby={`rejection-reason-help-${invitation.id}`}
+                                        />
+                                      </FormControl>
+                                      <FormMessage />
+                                    </FormItem>
+                                  )}
+                                />
+                                <div className="flex gap-2">
+                                  <Button
+                                    onClick={() => handleResponse(invitation.id, invitation.task_id, "accepted")}
+                                    disabled={loading[invitation.id]}
+                                    className="flex-1 text-xs md:text-sm"
+                                    aria-busy={loading[invitation.id]}
+                                  >
+                                    <Check className="h-3 w-3 md:h-4 md:w-4 mr-1 md:mr-2" aria-hidden="true" />
+                                    Accept Task
+                                  </Button>
+                                  <Button
+                                    type="submit"
+                                    variant="destructive"
+                                    disabled={loading[invitation.id]}
+                                    className="flex-1 text-xs md:text-sm"
+                                    aria-busy={loading[invitation.id]}
+                                  >
+                                    <X className="h-3 w-3 md:h-4 md:w-4 mr-1 md:mr-2" aria-hidden="true" />
+                                    Reject
+                                  </Button>
+                                </div>
+                              </form>
+                            </Form>
+                          ) : (
+                            <p className="text-xs md:text-sm text-muted-foreground" role="status">
+                              This task is no longer open for a response (it is {invitation.tasks.status}).
+                            </p>
+                          )}
                         </CardContent>
                       </Card>
                     </div>
@@ -460,7 +483,7 @@ const EmployeeInbox = ({ userId }: EmployeeInboxProps) => {
           {filteredInvitations.length === 0 ? (
             <Card>
               <CardContent className="p-6 text-center text-muted-foreground">
-                No rejected invitations
+                No closed invitations
               </CardContent>
             </Card>
           ) : (
@@ -477,7 +500,12 @@ const EmployeeInbox = ({ userId }: EmployeeInboxProps) => {
                         From: {invitation.profiles?.full_name}
                       </p>
                     </div>
-                    <Badge variant="destructive" aria-label="Status: Rejected">Rejected</Badge>
+                    <Badge
+                      variant={invitation.status === "rejected" ? "destructive" : "secondary"}
+                      aria-label={`Status: ${CLOSED_STATUS_LABELS[invitation.status]}`}
+                    >
+                      {CLOSED_STATUS_LABELS[invitation.status]}
+                    </Badge>
                   </div>
                 </CardHeader>
                 <CardContent className="space-y-2">
@@ -491,7 +519,11 @@ const EmployeeInbox = ({ userId }: EmployeeInboxProps) => {
                     </div>
                   )}
                   <div className="text-sm text-muted-foreground">
-                    Rejected: {invitation.responded_at ? new Date(invitation.responded_at).toLocaleString() : "N/A"}
+                    {invitation.status === "expired"
+                      ? `Expired: ${invitation.expires_at ? new Date(invitation.expires_at).toLocaleString() : "N/A"}`
+                      : `${CLOSED_STATUS_LABELS[invitation.status]}: ${
+                          invitation.responded_at ? new Date(invitation.responded_at).toLocaleString() : "N/A"
+                        }`}
                   </div>
                 </CardContent>
               </Card>
@@ -0,0 +1,150 @@
+import { useCallback, useEffect, useState } from "react";
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { Button } from "@/components/ui/button";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { toast } from "sonner";
+import { RefreshCw } from "lucide-react";
+import { chatApiClient } from "@/api/chat/client";
+
+type MetricSnapshot = Tables<"employee_metric_snapshots">;
+
+interface EmployeeMetricsTrendProps {
+  userId: string;
+  /** Show the button that recomputes the metrics now (admins and staff) */
+  canRecompute?: boolean;
+}
+
+const chartConfig = {
+  performance: { label: "Performance", color: "hsl(var(--primary))" },
+  onTime: { label: "On time", color: "hsl(var(--success))" },
+  quality: { label: "Quality", color: "hsl(var(--warning))" },
+  accuracy: { label: "Estimate accuracy", color: "hsl(var(--muted-foreground))" },
+} satisfies ChartConfig;
+
+const percent = (value: number | null) => (value === null ? "—" : `${Math.round(value * 100)}%`);
+
+// Postgres intervals arrive as e.g. "3 days 04:30:00"
+const formatDuration = (interval: unknown) => {
+  if (typeof interval !== "string") return "—";
+  const days = parseInt(interval.match(/(-?\d+) days?/)?.[1] || "0", 10);
+  const hours = parseInt(interval.match(/(\d+):\d{2}:\d{2}/)?.[1] || "0", 10);
+  const totalHours = days * 24 + hours;
+  return totalHours >= 48 ? `${(totalHours / 24).toFixed(1)} days` : `${totalHours} h`;
+};
+
+/**
+ * Computed performance metrics of an employee and how they changed over time
+ */
+const EmployeeMetricsTrend = ({ userId, canRecompute = false }: EmployeeMetricsTrendProps) => {
+  const [snapshots, setSnapshots] = useState<MetricSnapshot[]>([]);
+  const [recomputing, setRecomputing] = useState(false);
+
+  const loadSnapshots = useCallback(async () => {
+    const { data, error } = await supabase
+      .from("employee_metric_snapshots")
+      .select("*")
+      .eq("user_id", userId)
+      .order("computed_at", { ascending: false })
+      .limit(60);
+
+    if (error) {
+      console.error("Error loading metric history:", error);
+      return;
+    }
+    setSnapshots((data || []).reverse());
+  }, [userId]);
+
+  useEffect(() => {
+    loadSnapshots();
+  }, [loadSnapshots]);
+
+  const handleRecompute = async () => {
+    setRecomputing(true);
+    try {
+      const {
+        data: { session },
+      } = await supabase.auth.getSession();
+      if (!session) throw new Error("Not authenticated");
+
+      await chatApiClient.recomputeEmployeeMetrics(session.access_token, userId);
+      await loadSnapshots();
+      toast.success("Metrics recomputed");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to recompute metrics");
+    } finally {
+      setRecomputing(false);
+    }
+  };
+
+  const latest = snapshots[snapshots.length - 1];
+  const chartData = snapshots.map((snapshot) => ({
+    date: snapshot.computed_at ? new Date(snapshot.computed_at).toLocaleDateString() : "",
+    performance: snapshot.performance_score,
+    onTime: snapshot.on_time_rate,
+    quality: snapshot.quality_score,
+    accuracy: snapshot.estimate_accuracy,
+  }));
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-muted-foreground">Metrics from task history</p>
+        {canRecompute && (
+          <Button variant="outline" size="sm" onClick={handleRecompute} disabled={recomputing}>
+            <RefreshCw className={`h-4 w-4 mr-2 ${recomputing ? "animate-spin" : ""}`} aria-hidden="true" />
+            {recomputing ? "Recomputing..." : "Recompute"}
+          </Button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <div>
+          <p className="text-xs text-muted-foreground">On-time rate</p>
+          <p className="text-lg font-semibold">{percent(latest?.on_time_rate ?? null)}</p>
+        </div>
+        <div>
+          <p className="text-xs text-muted-foreground">Quality</p>
+          <p className="text-lg font-semibold">{percent(latest?.quality_score ?? null)}</p>
+        </div>
+        <div>
+          <p className="text-xs text-muted-foreground">Estimate accuracy</p>
+          <p className="text-lg font-semibold">{percent(latest?.estimate_accuracy ?? null)}</p>
+        </div>
+        <div>
+          <p className="text-xs text-muted-foreground">Avg. completion time</p>
+          <p className="text-lg font-semibold">{formatDuration(latest?.avg_completion_time)}</p>
+        </div>
+      </div>
+
+      {chartData.length > 1 ? (
+        <ChartContainer config={chartConfig} className="h-48 w-full" aria-label="Performance metrics over time">
+          <LineChart data={chartData} margin={{ left: 0, right: 8 }}>
+            <CartesianGrid vertical={false} />
+            <XAxis dataKey="date" tickLine={false} axisLine={false} minTickGap={24} />
+            <YAxis domain={[0, 1]} tickFormatter={(value) => `${Math.round(value * 100)}%`} width={40} tickLine={false} axisLine={false} />
+            <ChartTooltip content={<ChartTooltipContent />} />
+            {Object.keys(chartConfig).map((key) => (
+              <Line
+                key={key}
+                dataKey={key}
+                type="monotone"
+                stroke={`var(--color-${key})`}
+                strokeWidth={2}
+                dot={false}
+                connectNulls
+              />
+            ))}
+          </LineChart>
+        </ChartContainer>
+      ) : (
+        <p className="text-xs text-muted-foreground">
+          The trend appears once the metrics have changed at least once.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default EmployeeMetricsTrend;
@@ -0,0 +1,206 @@
+import { useCallback, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Loader2, RotateCcw, Save } from "lucide-react";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuthStore } from "@/stores/authStore";
+import { DEFAULT_MATCHING_WEIGHTS, MATCHING_FACTORS, weightsFromRows } from "@shared/matching";
+
+type Priority = keyof typeof DEFAULT_MATCHING_WEIGHTS;
+type Factor = (typeof MATCHING_FACTORS)[number]["factor"];
+
+// Weights are edited as whole percentages, urgency as a multiplier
+type WeightsForm = Record<Priority, Record<Factor, string> & { urgency: string }>;
+
+const PRIORITIES: Priority[] = ["low", "medium", "high"];
+
+const toForm = (weights: typeof DEFAULT_MATCHING_WEIGHTS): WeightsForm =>
+  PRIORITIES.reduce((form, priority) => {
+    const row = weights[priority];
+    form[priority] = {
+      skillMatch: String(Math.round(row.skillMatch * 100)),
+      availability: String(Math.round(row.availability * 100)),
+      workloadCapacity: String(Math.round(row.workloadCapacity * 100)),
+      performance: String(Math.round(row.performance * 100)),
+      urgency: String(row.urgency),
+    };
+    return form;
+  }, {} as WeightsForm);
+
+const factorTotal = (row: WeightsForm[Priority]) =>
+  MATCHING_FACTORS.reduce((sum, { factor }) => sum + (Number(row[factor]) || 0), 0);
+
+const validate = (form: WeightsForm): string | null => {
+  for (const priority of PRIORITIES) {
+    const row = form[priority];
+    for (const { factor, label } of MATCHING_FACTORS) {
+      const value = Number(row[factor]);
+      if (row[factor] === "" || !Number.isFinite(value) || value < 0 || value > 100) {
+        return `${label} weight for ${priority} priority must be between 0 and 100`;
+      }
+    }
+    if (factorTotal(row) !== 100) {
+      return `Weights for ${priority} priority must add up to 100% (currently ${factorTotal(row)}%)`;
+    }
+    const urgency = Number(row.urgency);
+    if (row.urgency === "" || !Number.isFinite(urgency) || urgency < 0.1 || urgency > 3) {
+      return `Priority multiplier for ${priority} priority must be between 0.1 and 3`;
+    }
+  }
+  return null;
+};
+
+/**
+ * Admin editor for the employee matching weights used by the assignment
+ * dialog and the agent tools
+ */
+const MatchingWeightsSettings = () => {
+  const { user } = useAuthStore();
+  const [form, setForm] = useState<WeightsForm>(() => toForm(DEFAULT_MATCHING_WEIGHTS));
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const loadWeights = useCallback(async () => {
+    setLoading(true);
+    const { data, error } = await supabase
+      .from("matching_weights")
+      .select("priority, skill_match, availability, workload_capacity, performance, urgency_multiplier");
+
+    if (error) {
+      console.error("Error loading matching weights:", error);
+      toast.error("Failed to load matching weights");
+    } else {
+      setForm(toForm(weightsFromRows(data)));
+    }
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    loadWeights();
+  }, [loadWeights]);
+
+  const updateField = (priority: Priority, field: Factor | "urgency", value: string) => {
+    setForm((current) => ({
+      ...current,
+      [priority]: { ...current[priority], [field]: value },
+    }));
+  };
+
+  const handleSave = async () => {
+    const validationError = validate(form);
+    if (validationError) {
+      toast.error(validationError);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      for (const priority of PRIORITIES) {
+        const row = form[priority];
+        const { error } = await supabase
+          .from("matching_weights")
+          .update({
+            skill_match: Number(row.skillMatch) / 100,
+            availability: Number(row.availability) / 100,
+            workload_capacity: Number(row.workloadCapacity) / 100,
+            performance: Number(row.performance) / 100,
+            urgency_multiplier: Number(row.urgency),
+            updated_by: user?.id ?? null,
+          })
+          .eq("priority", priority);
+
+        if (error) throw error;
+      }
+      toast.success("Matching weights saved");
+    } catch (error) {
+      console.error("Error saving matching weights:", error);
+      toast.error("Failed to save matching weights");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        <Loader2 className="h-4 w-4 animate-spin" aria-hidden="true" />
+        Loading matching weights...
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        How much each factor counts when recommending employees for a task. The four weights of a priority add up
+        to 100%; the multiplier scales the final score for that priority.
+      </p>
+
+      <div className="grid gap-4 md:grid-cols-3">
+        {PRIORITIES.map((priority) => {
+          const total = factorTotal(form[priority]);
+          return (
+            <div key={priority} className="rounded-lg border p-4 space-y-3">
+              <div className="flex items-center justify-between">
+                <h4 className="text-sm font-medium capitalize">{priority} priority</h4>
+                <Badge variant={total === 100 ? "secondary" : "destructive"}>{total}%</Badge>
+              </div>
+              {MATCHING_FACTORS.map(({ factor, label }) => (
+                <div key={factor} className="flex items-center justify-between gap-2">
+                  <Label htmlFor={`weight-${priority}-${factor}`} className="text-sm font-normal">
+                    {label}
+                  </Label>
+                  <Input
+                    id={`weight-${priority}-${factor}`}
+                    type="number"
+                    min={0}
+                    max={100}
+                    step={5}
+                    className="w-20 h-8"
+                    value={form[priority][factor]}
+                    onChange={(e) => updateField(priority, factor, e.target.value)}
+                  />
+                </div>
+              ))}
+              <div className="flex items-center justify-between gap-2 border-t pt-3">
+                <Label htmlFor={`weight-${priority}-urgency`} className="text-sm font-normal">
+                  Priority multiplier
+                </Label>
+                <Input
+                  id={`weight-${priority}-urgency`}
+                  type="number"
+                  min={0.1}
+                  max={3}
+                  step={0.1}
+                  className="w-20 h-8"
+                  value={form[priority].urgency}
+                  onChange={(e) => updateField(priority, "urgency", e.target.value)}
+                />
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex gap-2">
+        <Button onClick={handleSave} disabled={saving}>
+          {saving ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" aria-hidden="true" />
+          ) : (
+            <Save className="mr-2 h-4 w-4" aria-hidden="true" />
+          )}
+          Save Weights
+        </Button>
+        <Button variant="outline" onClick={() => setForm(toForm(DEFAULT_MATCHING_WEIGHTS))} disabled={saving}>
+          <RotateCcw className="mr-2 h-4 w-4" aria-hidden="true" />
+          Reset to Defaults
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default MatchingWeightsSettings;
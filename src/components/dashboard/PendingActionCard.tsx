@@ -0,0 +1,75 @@
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ShieldAlert, Loader2 } from "lucide-react";
+import type { PendingAction } from "@/api/chat/client";
+
+interface PendingActionCardProps {
+  action: PendingAction;
+  isResolving?: boolean;
+  onApprove: (actionId: string) => void;
+  onReject: (actionId: string) => void;
+}
+
+const STATUS_STYLES: Record<PendingAction["status"], { label: string; className: string }> = {
+  pending: { label: "Awaiting approval", className: "bg-yellow-100 text-yellow-800" },
+  approved: { label: "Running", className: "bg-blue-100 text-blue-800" },
+  executed: { label: "Approved", className: "bg-green-100 text-green-800" },
+  rejected: { label: "Rejected", className: "bg-gray-100 text-gray-800" },
+  failed: { label: "Failed", className: "bg-red-100 text-red-800" },
+};
+
+// delete_task -> "Delete task"
+const formatToolName = (toolName: string) =>
+  toolName.charAt(0).toUpperCase() + toolName.slice(1).replace(/_/g, " ");
+
+const PendingActionCard = ({ action, isResolving, onApprove, onReject }: PendingActionCardProps) => {
+  const status = STATUS_STYLES[action.status];
+
+  return (
+    <div className="mt-3 rounded-md border bg-background p-3 space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2 text-sm font-medium">
+          <ShieldAlert className="h-4 w-4 text-orange-500" />
+          {formatToolName(action.tool_name)}
+        </div>
+        <Badge variant="outline" className={status.className}>
+          {status.label}
+        </Badge>
+      </div>
+
+      <p className="text-sm whitespace-pre-line">{action.summary}</p>
+
+      {action.status === "executed" && action.result?.message && (
+        <p className="text-xs text-green-700">{action.result.message}</p>
+      )}
+      {action.status === "failed" && action.result?.error && (
+        <p className="text-xs text-red-600">{action.result.error}</p>
+      )}
+
+      {action.status === "pending" && (
+        <div className="flex gap-2">
+          <Button
+            size="sm"
+            onClick={() => onApprove(action.id)}
+            disabled={isResolving}
+            className="bg-green-600 hover:bg-green-700"
+          >
+            {isResolving && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+            Approve
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => onReject(action.id)}
+            disabled={isResolving}
+            className="border-red-300 text-red-600 hover:bg-red-50"
+          >
+            Reject
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PendingActionCard;
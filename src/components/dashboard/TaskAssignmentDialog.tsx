@@ -17,9 +17,14 @@ import { Badge } from "@/components/ui/badge";
 import { Card, CardContent } from "@/components/ui/card";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Separator } from "@/components/ui/separator";
+import { Switch } from "@/components/ui/switch";
 import { toast } from "sonner";
-import { Star, TrendingUp, Users, Zap, CheckCircle, AlertCircle } from "lucide-react";
+import { Star, TrendingUp, Users, Zap, CheckCircle, AlertCircle, X } from "lucide-react";
 import { taskAssignmentSchema, type TaskAssignmentFormData } from "@/lib/validation";
+import { DEFAULT_MATCHING_WEIGHTS, rankCandidates, weightsFromRows } from "@shared/matching";
+import { DEFAULT_REQUIRED_LEVEL, skillLevelLabel, type SkillLevel } from "@shared/skills";
+import SkillPicker from "@/components/skills/SkillPicker";
+import { useProjectStore } from "@/stores/projectStore";
 import {
   Form,
   FormControl,
@@ -38,7 +43,7 @@ interface TaskAssignmentDialogProps {
 
 interface Employee {
   user_id: string;
-  skills: string[];
+  skills: SkillLevel[];
   department: string | null;
   designation: string | null;
   performance_score: number;
@@ -49,16 +54,22 @@ interface Employee {
   } | null;
 }
 
-interface EmployeeWithScore extends Employee {
-  matchScore: number;
-  skillMatch: number;
-  workloadCapacity: number;
-}
+const RESPONSE_WINDOW_OPTIONS = [
+  { value: "24", label: "24 hours" },
+  { value: "48", label: "2 days" },
+  { value: "72", label: "3 days" },
+  { value: "168", label: "1 week" },
+];
+
+// Backup candidates queued behind the selected ones, invited in rank order
+const MAX_BACKUP_CANDIDATES = 3;
 
 const TaskAssignmentDialog = ({ open, onClose, adminId, onSuccess }: TaskAssignmentDialogProps) => {
   const [employees, setEmployees] = useState<Employee[]>([]);
   const [loading, setLoading] = useState(false);
   const [showRecommendations, setShowRecommendations] = useState(false);
+  const [matchingWeights, setMatchingWeights] = useState(DEFAULT_MATCHING_WEIGHTS);
+  const { projects, loadProjects } = useProjectStore();
 
   const form = useForm<TaskAssignmentFormData>({
     resolver: zodResolver(taskAssignmentSchema),
@@ -67,16 +78,33 @@ const TaskAssignmentDialog = ({ open, onClose, adminId, onSuccess }: TaskAssignm
       description: "",
       priority: "medium",
       deadline: "",
-      requiredSkills: "",
-      selectedEmployee: "",
+      requiredSkills: [],
+      candidates: [],
+      responseWindowHours: "48",
+      inviteBackups: true,
+      projectId: "none",
     },
   });
 
   useEffect(() => {
     if (open) {
       loadEmployees();
+      loadMatchingWeights();
+      loadProjects();
     }
-  }, [open]);
+  }, [open, loadProjects]);
+
+  const loadMatchingWeights = async () => {
+    const { data, error } = await supabase.from("matching_weights").select("*");
+
+    if (error) {
+      // Ranking still works with the default weights
+      console.error("Error loading matching weights:", error);
+      return;
+    }
+
+    setMatchingWeights(weightsFromRows(data));
+  };
 
   const loadEmployees = async () => {
     try {
@@ -99,7 +127,7 @@ const TaskAssignmentDialog = ({ open, onClose, adminId, onSuccess }: TaskAssignm
       // Fetch skills from employee_skills table
       const { data: skillsData, error: skillsError } = await supabase
         .from("employee_skills")
-        .select("employee_id, skill")
+        .select("employee_id, skill, level")
         .in("employee_id", employeeIds);
 
       if (skillsError) throw skillsError;
@@ -130,7 +158,9 @@ const TaskAssignmentDialog = ({ open, onClose, adminId, onSuccess }: TaskAssignm
 
       // Merge the data
       const employeesWithProfiles = employeeData.map(emp => {
-        const empSkills = skillsData?.filter(s => s.employee_id === emp.id).map(s => s.skill) || [];
+        const empSkills = skillsData
+          ?.filter(s => s.employee_id === emp.id)
+          .map(s => ({ name: s.skill, level: s.level })) || [];
         return {
           user_id: emp.user_id,
           department: emp.department,
@@ -151,134 +181,120 @@ const TaskAssignmentDialog = ({ open, onClose, adminId, onSuccess }: TaskAssignm
   };
 
   // Watch required skills and priority for AI recommendations
-  const requiredSkills = form.watch("requiredSkills") || "";
+  const requiredSkills = form.watch("requiredSkills");
   const taskPriority = form.watch("priority") || "medium";
 
-  // AI-powered employee scoring algorithm
-  const rankedEmployees = useMemo((): EmployeeWithScore[] => {
-    if (!requiredSkills.trim() || employees.length === 0) {
-      return employees.map(emp => ({
-        ...emp,
-        matchScore: 0,
-        skillMatch: 0,
-        workloadCapacity: 0
-      }));
-    }
-
-    const skillKeywords = requiredSkills.toLowerCase().split(',').map(s => s.trim());
-
-    // Priority urgency multiplier
-    const priorityUrgency = {
-      low: 0.8,
-      medium: 1.0,
-      high: 1.3
-    }[taskPriority] || 1.0;
+  // Rank everyone with the shared matching engine and the organisation's weights
+  const rankedEmployees = useMemo(
+    () =>
+      rankCandidates(
+        employees.map((emp) => ({
+          ...emp,
+          currentWorkload: emp.current_workload,
+          performanceScore: emp.performance_score,
+        })),
+        { requiredSkills: requiredSkills as SkillLevel[], priority: taskPriority },
+        matchingWeights
+      ),
+    [employees, requiredSkills, taskPriority, matchingWeights]
+  );
 
-    return employees.map(emp => {
-      // 1. SKILL MATCH SCORE (0-100) - Most important factor
-      const employeeSkills = emp.skills.map(s => s.toLowerCase());
-      const matchedSkills = skillKeywords.filter(keyword =>
-        employeeSkills.some(empSkill => empSkill.includes(keyword) || keyword.includes(empSkill))
-      );
-      const skillMatch = skillKeywords.length > 0
-        ? (matchedSkills.length / skillKeywords.length) * 100
-        : 0;
-
-      // 2. AVAILABILITY SCORE (0-100) - Critical blocker
-      // If employee is not available, drastically reduce their score
-      const availabilityScore = emp.availability ? 100 : 10;
-
-      // 3. WORKLOAD CAPACITY (0-100) - Lower workload = Higher score
-      // Adjusted based on task priority - high priority tasks need employees with lower workload
-      const maxWorkload = 10;
-      let workloadCapacity = Math.max(0, ((maxWorkload - emp.current_workload) / maxWorkload) * 100);
-
-      // For high priority tasks, penalize high workload more heavily
-      if (taskPriority === 'high') {
-        if (emp.current_workload >= 5) {
-          workloadCapacity = workloadCapacity * 0.5; // 50% penalty for busy employees
-        }
-      }
+  const topRecommendations = rankedEmployees.slice(0, 3);
 
-      // 4. PERFORMANCE SCORE (0-100) - Track record matters
-      const performanceScore = emp.performance_score || 50;
-
-      // 5. CALCULATED WEIGHTED SCORE
-      // Weights adjusted based on task priority
-      let weights;
-      if (taskPriority === 'high') {
-        // For high priority: prioritize availability, workload, then skills
-        weights = {
-          skillMatch: 0.35,
-          availability: 0.30,
-          workloadCapacity: 0.25,
-          performance: 0.10
-        };
-      } else if (taskPriority === 'low') {
-        // For low priority: skills matter most, less concern about workload
-        weights = {
-          skillMatch: 0.50,
-          availability: 0.20,
-          workloadCapacity: 0.15,
-          performance: 0.15
-        };
-      } else {
-        // Medium priority: balanced approach
-        weights = {
-          skillMatch: 0.40,
-          availability: 0.25,
-          workloadCapacity: 0.20,
-          performance: 0.15
-        };
-      }
+  const candidates = form.watch("candidates");
+  const inviteBackups = form.watch("inviteBackups");
 
-      const baseMatchScore =
-        (skillMatch * weights.skillMatch) +
-        (availabilityScore * weights.availability) +
-        (workloadCapacity * weights.workloadCapacity) +
-        (performanceScore * weights.performance);
-
-      // Apply priority urgency multiplier (but cap at 100)
-      const matchScore = Math.min(100, baseMatchScore * priorityUrgency);
-
-      return {
-        ...emp,
-        matchScore: Math.round(matchScore),
-        skillMatch: Math.round(skillMatch),
-        workloadCapacity: Math.round(workloadCapacity)
-      };
-    }).sort((a, b) => {
-      // Primary sort: match score
-      if (b.matchScore !== a.matchScore) {
-        return b.matchScore - a.matchScore;
-      }
-      // Secondary sort: availability (available employees first)
-      if (a.availability !== b.availability) {
-        return a.availability ? -1 : 1;
-      }
-      // Tertiary sort: lower workload
-      return a.current_workload - b.current_workload;
-    });
-  }, [employees, requiredSkills, taskPriority]);
+  const toggleCandidate = (userId: string) => {
+    form.setValue(
+      "candidates",
+      candidates.includes(userId) ? candidates.filter((id) => id !== userId) : [...candidates, userId],
+      { shouldValidate: true }
+    );
+  };
 
-  const topRecommendations = rankedEmployees.slice(0, 3);
+  // Next best available employees, invited automatically if the selected ones
+  // reject or let their invitations expire
+  const backupCandidates = useMemo(
+    () =>
+      inviteBackups
+        ? rankedEmployees
+            .filter((emp) => emp.availability && !candidates.includes(emp.user_id))
+            .slice(0, MAX_BACKUP_CANDIDATES)
+        : [],
+    [rankedEmployees, candidates, inviteBackups]
+  );
 
   const handleSubmit = async (data: TaskAssignmentFormData) => {
     setLoading(true);
     try {
-      const { error } = await supabase.from("tasks").insert({
-        title: data.title,
-        description: data.description,
-        priority: data.priority,
-        deadline: data.deadline || null,
-        assigned_to: data.selectedEmployee,
-        created_by: adminId,
-        status: "invited",
-      });
+      // The task stays unassigned until one of the candidates accepts it
+      const { data: task, error } = await supabase
+        .from("tasks")
+        .insert({
+          title: data.title,
+          description: data.description,
+          priority: data.priority,
+          deadline: data.deadline || null,
+          project_id: data.projectId === "none" ? null : data.projectId,
+          created_by: adminId,
+          status: "invited",
+        })
+        .select("id")
+        .single();
 
       if (error) throw error;
 
-      toast.success("Task assigned successfully!");
+      if (data.requiredSkills.length > 0) {
+        const { error: skillsError } = await supabase.from("task_required_skills").insert(
+          data.requiredSkills.map((skill) => ({
+            task_id: task.id,
+            skill: skill.name,
+            min_level: skill.level,
+          }))
+        );
+
+        if (skillsError) {
+          await supabase.from("tasks").delete().eq("id", task.id);
+          throw skillsError;
+        }
+      }
+
+      // Rank the selected candidates by match score, then queue the backups
+      const rankedIds = rankedEmployees.map((emp) => emp.user_id);
+      const selected = [...data.candidates].sort((a, b) => rankedIds.indexOf(a) - rankedIds.indexOf(b));
+      const responseWindowHours = Number(data.responseWindowHours);
+      const expiresAt = new Date(Date.now() + responseWindowHours * 60 * 60 * 1000).toISOString();
+
+      const invitations = [
+        ...selected.map((userId) => ({ userId, status: "pending", expires_at: expiresAt })),
+        ...(data.inviteBackups ? backupCandidates : []).map((emp) => ({
+          userId: emp.user_id,
+          status: "queued",
+          expires_at: null,
+        })),
+      ].map((invitation, index) => ({
+        task_id: task.id,
+        to_user_id: invitation.userId,
+        from_user_id: adminId,
+        status: invitation.status,
+        candidate_rank: index + 1,
+        response_window_hours: responseWindowHours,
+        expires_at: invitation.expires_at,
+      }));
+
+      const { error: invitationError } = await supabase.from("invitations").insert(invitations);
+
+      if (invitationError) {
+        // Don't leave a task behind that nobody was invited to
+        await supabase.from("tasks").delete().eq("id", task.id);
+        throw invitationError;
+      }
+
+      toast.success(
+        selected.length > 1
+          ? `Task offered to ${selected.length} candidates - the first to accept gets it`
+          : "Task assigned successfully!"
+      );
       form.reset();
       setShowRecommendations(false);
       onSuccess?.(); // Trigger refresh
@@ -348,22 +364,24 @@ const TaskAssignmentDialog = ({ open, onClose, adminId, onSuccess }: TaskAssignm
                         name="requiredSkills"
                         render={({ field }) => (
                           <FormItem>
-                            <FormLabel>Required Skills (comma-separated)</FormLabel>
+                            <FormLabel>Required Skills</FormLabel>
                             <FormControl>
-                              <Input
-                                placeholder="e.g., React, Node.js, PostgreSQL"
-                                {...field}
-                                onChange={(e) => {
-                                  field.onChange(e.target.value);
-                                  if (e.target.value.trim()) {
+                              <SkillPicker
+                                value={field.value as SkillLevel[]}
+                                onChange={(skills) => {
+                                  field.onChange(skills);
+                                  if (skills.length > 0) {
                                     setShowRecommendations(true);
                                   }
                                 }}
+                                levelLabel="Min level"
+                                defaultLevel={DEFAULT_REQUIRED_LEVEL}
+                                placeholder="Add a required skill, e.g. React"
                               />
                             </FormControl>
                             <FormMessage />
                             <p className="text-xs text-muted-foreground">
-                              Enter skills to get AI-powered employee recommendations
+                              Add skills and the minimum level needed to get AI-powered employee recommendations
                             </p>
                           </FormItem>
                         )}
@@ -412,25 +430,23 @@ const TaskAssignmentDialog = ({ open, onClose, adminId, onSuccess }: TaskAssignm
                         />
                       </div>
 
-                      <Separator />
-
                       <FormField
                         control={form.control}
-                        name="selectedEmployee"
+                        name="projectId"
                         render={({ field }) => (
                           <FormItem>
-                            <FormLabel>Assign To *</FormLabel>
+                            <FormLabel>Project</FormLabel>
                             <Select value={field.value} onValueChange={field.onChange}>
                               <FormControl>
                                 <SelectTrigger>
-                                  <SelectValue placeholder="Select an employee" />
+                                  <SelectValue />
                                 </SelectTrigger>
                               </FormControl>
                               <SelectContent>
-                                {employees.map((emp) => (
-                                  <SelectItem key={emp.user_id} value={emp.user_id}>
-                                    {emp.profiles?.full_name || "Unknown"}
-                                    {emp.current_workload > 0 && ` (${emp.current_workload} tasks)`}
+                                <SelectItem value="none">No project</SelectItem>
+                                {projects.map((project) => (
+                                  <SelectItem key={project.id} value={project.id}>
+                                    {project.name}
                                   </SelectItem>
                                 ))}
                               </SelectContent>
@@ -439,6 +455,108 @@ const TaskAssignmentDialog = ({ open, onClose, adminId, onSuccess }: TaskAssignm
                           </FormItem>
                         )}
                       />
+
+                      <Separator />
+
+                      <FormField
+                        control={form.control}
+                        name="candidates"
+                        render={() => (
+                          <FormItem>
+                            <FormLabel>Invite Candidates *</FormLabel>
+                            <Select value="" onValueChange={toggleCandidate}>
+                              <FormControl>
+                                <SelectTrigger>
+                                  <SelectValue placeholder="Add an employee" />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                {employees
+                                  .filter((emp) => !candidates.includes(emp.user_id))
+                                  .map((emp) => (
+                                    <SelectItem key={emp.user_id} value={emp.user_id}>
+                                      {emp.profiles?.full_name || "Unknown"}
+                                      {emp.current_workload > 0 && ` (${emp.current_workload} tasks)`}
+                                    </SelectItem>
+                                  ))}
+                              </SelectContent>
+                            </Select>
+                            {candidates.length > 0 && (
+                              <div className="flex flex-wrap gap-1" aria-label="Selected candidates">
+                                {candidates.map((userId) => (
+                                  <Badge key={userId} variant="secondary" className="gap-1">
+                                    {employees.find((emp) => emp.user_id === userId)?.profiles?.full_name || "Unknown"}
+                                    <button
+                                      type="button"
+                                      onClick={() => toggleCandidate(userId)}
+                                      aria-label="Remove candidate"
+                                    >
+                                      <X className="h-3 w-3" />
+                                    </button>
+                                  </Badge>
+                                ))}
+                              </div>
+                            )}
+                            <FormMessage />
+                            <p className="text-xs text-muted-foreground">
+                              Everyone selected is invited at once. The first to accept gets the task and the other
+                              invitations are withdrawn.
+                            </p>
+                          </FormItem>
+                        )}
+                      />
+
+                      <div className="grid grid-cols-2 gap-4">
+                        <FormField
+                          control={form.control}
+                          name="responseWindowHours"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Respond Within</FormLabel>
+                              <Select value={field.value} onValueChange={field.onChange}>
+                                <FormControl>
+                                  <SelectTrigger>
+                                    <SelectValue />
+                                  </SelectTrigger>
+                                </FormControl>
+                                <SelectContent>
+                                  {RESPONSE_WINDOW_OPTIONS.map((option) => (
+                                    <SelectItem key={option.value} value={option.value}>
+                                      {option.label}
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+
+                        <FormField
+                          control={form.control}
+                          name="inviteBackups"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Backup Candidates</FormLabel>
+                              <div className="flex items-center gap-2 h-10">
+                                <FormControl>
+                                  <Switch checked={field.value} onCheckedChange={field.onChange} />
+                                </FormControl>
+                                <span className="text-sm text-muted-foreground">
+                                  {field.value ? "Invite next best" : "Off"}
+                                </span>
+                              </div>
+                            </FormItem>
+                          )}
+                        />
+                      </div>
+
+                      {backupCandidates.length > 0 && candidates.length > 0 && (
+                        <p className="text-xs text-muted-foreground">
+                          If nobody accepts in time, these are invited in turn:{" "}
+                          {backupCandidates.map((emp) => emp.profiles?.full_name || "Unknown").join(", ")}
+                        </p>
+                      )}
                     </form>
                   </Form>
                 </CardContent>
@@ -454,7 +572,7 @@ const TaskAssignmentDialog = ({ open, onClose, adminId, onSuccess }: TaskAssignm
                     <h3 className="font-semibold text-lg">AI Recommendations</h3>
                   </div>
 
-                  {!showRecommendations || !form.watch("requiredSkills").trim() ? (
+                  {!showRecommendations || requiredSkills.length === 0 ? (
                     <div className="text-center py-8 text-muted-foreground">
                       <AlertCircle className="h-12 w-12 mx-auto mb-2 opacity-50" />
                       <p className="text-sm">Enter required skills to see employee recommendations</p>
@@ -465,11 +583,11 @@ const TaskAssignmentDialog = ({ open, onClose, adminId, onSuccess }: TaskAssignm
                         {topRecommendations.map((emp, index) => (
                           <Card
                             key={emp.user_id}
-                            className={`cursor-pointer transition-all ${form.watch("selectedEmployee") === emp.user_id
+                            className={`cursor-pointer transition-all ${candidates.includes(emp.user_id)
                               ? 'ring-2 ring-primary bg-primary/5'
                               : 'hover:shadow-md'
                               } ${index === 0 ? 'border-yellow-300' : ''}`}
-                            onClick={() => form.setValue("selectedEmployee", emp.user_id)}
+                            onClick={() => toggleCandidate(emp.user_id)}
                           >
                             <CardContent className="pt-4">
                               <div className="flex items-start justify-between mb-3">
@@ -492,21 +610,14 @@ const TaskAssignmentDialog = ({ open, onClose, adminId, onSuccess }: TaskAssignm
                                   )}
                                 </div>
                                 <Badge
-                                  variant={emp.matchScore >= 80 ? "default" : emp.matchScore >= 60 ? "secondary" : "outline"}
+                                  variant={emp.match.score >= 80 ? "default" : emp.match.score >= 60 ? "secondary" : "outline"}
                                   className="text-lg font-bold"
                                 >
-                                  {emp.matchScore}%
+                                  {emp.match.score}%
                                 </Badge>
                               </div>
 
                               <div className="space-y-2">
-                                <div className="flex items-center justify-between text-sm">
-                                  <span className="text-muted-foreground flex items-center gap-1">
-                                    <CheckCircle className="h-3 w-3" />
-                                    Skill Match
-                                  </span>
-                                  <span className="font-medium">{emp.skillMatch}%</span>
-                                </div>
                                 <div className="flex items-center justify-between text-sm">
                                   <span className="text-muted-foreground flex items-center gap-1">
                                     <Users className="h-3 w-3" />
@@ -516,13 +627,6 @@ const TaskAssignmentDialog = ({ open, onClose, adminId, onSuccess }: TaskAssignm
                                     {emp.availability ? "Available" : "Unavailable"}
                                   </Badge>
                                 </div>
-                                <div className="flex items-center justify-between text-sm">
-                                  <span className="text-muted-foreground flex items-center gap-1">
-                                    <TrendingUp className="h-3 w-3" />
-                                    Performance
-                                  </span>
-                                  <span className="font-medium">{emp.performance_score}%</span>
-                                </div>
                                 <div className="flex items-center justify-between text-sm">
                                   <span className="text-muted-foreground">Current Workload</span>
                                   <Badge variant={emp.current_workload < 3 ? "outline" : emp.current_workload < 5 ? "secondary" : "destructive"}>
@@ -531,13 +635,43 @@ const TaskAssignmentDialog = ({ open, onClose, adminId, onSuccess }: TaskAssignm
                                 </div>
                               </div>
 
+                              {/* Why this score: each factor's value, weight and contribution */}
+                              <div className="mt-3 rounded-md bg-muted/50 p-2 space-y-1" aria-label="Score breakdown">
+                                {emp.match.breakdown.map((item) => (
+                                  <div key={item.factor} className="flex items-center justify-between text-xs">
+                                    <span className="text-muted-foreground flex items-center gap-1">
+                                      {item.factor === "skillMatch" && <CheckCircle className="h-3 w-3" />}
+                                      {item.factor === "performance" && <TrendingUp className="h-3 w-3" />}
+                                      {item.label} {item.value}% × {item.weight}
+                                    </span>
+                                    <span className="font-medium">{item.points} pts</span>
+                                  </div>
+                                ))}
+                                {emp.match.urgency !== 1 && (
+                                  <div className="flex items-center justify-between text-xs">
+                                    <span className="text-muted-foreground">Priority multiplier</span>
+                                    <span className="font-medium">×{emp.match.urgency}</span>
+                                  </div>
+                                )}
+                                {emp.match.belowLevelSkills.length > 0 && (
+                                  <p className="text-xs text-muted-foreground">
+                                    Below required level: {emp.match.belowLevelSkills.join(", ")}
+                                  </p>
+                                )}
+                                {emp.match.missingSkills.length > 0 && (
+                                  <p className="text-xs text-muted-foreground">
+                                    Missing: {emp.match.missingSkills.join(", ")}
+                                  </p>
+                                )}
+                              </div>
+
                               {emp.skills && emp.skills.length > 0 && (
                                 <div className="mt-3">
                                   <p className="text-xs text-muted-foreground mb-1">Skills:</p>
                                   <div className="flex flex-wrap gap-1">
                                     {emp.skills.slice(0, 5).map((skill, i) => (
-                                      <Badge key={i} variant="outline" className="text-xs">
-                                        {skill}
+                                      <Badge key={i} variant="outline" className="text-xs" title={skillLevelLabel(skill.level)}>
+                                        {skill.name} · {skill.level}
                                       </Badge>
                                     ))}
                                     {emp.skills.length > 5 && (
@@ -570,10 +704,14 @@ const TaskAssignmentDialog = ({ open, onClose, adminId, onSuccess }: TaskAssignm
         <div className="flex gap-2 pt-4 border-t">
           <Button
             onClick={form.handleSubmit(handleSubmit)}
-            disabled={loading || !form.watch("selectedEmployee")}
+            disabled={loading || candidates.length === 0}
             className="flex-1"
           >
-            {loading ? "Assigning..." : "Assign Task"}
+            {loading
+              ? "Assigning..."
+              : candidates.length > 1
+              ? `Invite ${candidates.length} Candidates`
+              : "Assign Task"}
           </Button>
           <Button variant="outline" onClick={onClose} disabled={loading}>
             Cancel
@@ -0,0 +1,279 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import { Progress } from "@/components/ui/progress";
+import { Card, CardContent } from "@/components/ui/card";
+import { toast } from "sonner";
+import { ListChecks, Pencil, Plus, Trash2 } from "lucide-react";
+import {
+  MAX_CHECKLIST_TITLE_LENGTH,
+  checklistProgress,
+  nextChecklistPosition,
+  type ChecklistItem,
+} from "@shared/checklists";
+
+interface TaskChecklistProps {
+  task: {
+    id: string;
+    status: string;
+    progress_from_checklist?: boolean;
+  };
+  /** Admins, staff and the assignee can edit; everyone else only reads */
+  canEdit: boolean;
+  userId: string;
+  /** Called whenever the items or the progress mode change */
+  onChange?: (state: { progress: number | null; progressFromChecklist: boolean }) => void;
+}
+
+/**
+ * Checklist items (subtasks) of a task. With "derive progress" on, the task's
+ * progress is the share of ticked items, kept in sync by the database.
+ */
+const TaskChecklist = ({ task, canEdit, userId, onChange }: TaskChecklistProps) => {
+  const [items, setItems] = useState<ChecklistItem[]>([]);
+  const [progressFromChecklist, setProgressFromChecklist] = useState(!!task.progress_from_checklist);
+  const [newTitle, setNewTitle] = useState("");
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingTitle, setEditingTitle] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const isLocked = task.status === "completed" || task.status === "rejected";
+  const editable = canEdit && !isLocked;
+
+  const loadItems = useCallback(async () => {
+    const { data, error } = await supabase
+      .from("task_checklist_items")
+      .select("id, title, position, is_done")
+      .eq("task_id", task.id)
+      .order("position")
+      .order("created_at");
+
+    if (error) {
+      console.error("Error loading checklist:", error);
+      return;
+    }
+    setItems(data || []);
+  }, [task.id]);
+
+  useEffect(() => {
+    loadItems();
+  }, [loadItems]);
+
+  useEffect(() => {
+    setProgressFromChecklist(!!task.progress_from_checklist);
+  }, [task.progress_from_checklist]);
+
+  useEffect(() => {
+    onChange?.({ progress: checklistProgress(items), progressFromChecklist });
+  }, [items, progressFromChecklist, onChange]);
+
+  const runChange = async (change: () => PromiseLike<{ error: unknown }>, failure: string) => {
+    setSaving(true);
+    try {
+      const { error } = await change();
+      if (error) throw error;
+      await loadItems();
+    } catch (error) {
+      console.error(failure, error);
+      toast.error(failure);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAdd = async () => {
+    const title = newTitle.trim();
+    if (!title) return;
+
+    await runChange(
+      () =>
+        supabase.from("task_checklist_items").insert({
+          task_id: task.id,
+          title,
+          position: nextChecklistPosition(items),
+          created_by: userId,
+        }),
+      "Failed to add checklist item"
+    );
+    setNewTitle("");
+  };
+
+  const handleToggle = (item: ChecklistItem, isDone: boolean) => {
+    // Tick optimistically; the reload brings back the stored state
+    setItems((current) => current.map((i) => (i.id === item.id ? { ...i, is_done: isDone } : i)));
+    runChange(
+      () => supabase.from("task_checklist_items").update({ is_done: isDone }).eq("id", item.id),
+      "Failed to update checklist item"
+    );
+  };
+
+  const handleRename = async (item: ChecklistItem) => {
+    const title = editingTitle.trim();
+    setEditingId(null);
+    if (!title || title === item.title) return;
+
+    await runChange(
+      () => supabase.from("task_checklist_items").update({ title }).eq("id", item.id),
+      "Failed to rename checklist item"
+    );
+  };
+
+  const handleDelete = (item: ChecklistItem) =>
+    runChange(
+      () => supabase.from("task_checklist_items").delete().eq("id", item.id),
+      "Failed to delete checklist item"
+    );
+
+  const handleProgressModeChange = async (derive: boolean) => {
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from("tasks")
+        .update({ progress_from_checklist: derive })
+        .eq("id", task.id);
+
+      if (error) throw error;
+
+      setProgressFromChecklist(derive);
+      toast.success(derive ? "Progress now follows the checklist" : "Progress is set manually again");
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to change progress mode";
+      toast.error(errorMessage);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const doneCount = items.filter((item) => item.is_done).length;
+  const percent = checklistProgress(items);
+
+  // Nothing to show to read-only viewers of a task without a checklist
+  if (!editable && items.length === 0) return null;
+
+  return (
+    <Card role="region" aria-label="Task checklist">
+      <CardContent className="pt-6 space-y-4">
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex items-center gap-2">
+            <ListChecks className="h-4 w-4 text-muted-foreground" aria-hidden="true" />
+            <Label className="text-base font-semibold">Checklist</Label>
+            {items.length > 0 && (
+              <span className="text-sm text-muted-foreground">
+                {doneCount}/{items.length} done
+              </span>
+            )}
+          </div>
+          {editable && (
+            <div className="flex items-center gap-2">
+              <Switch
+                id={`derive-progress-${task.id}`}
+                checked={progressFromChecklist}
+                onCheckedChange={handleProgressModeChange}
+                disabled={saving}
+              />
+              <Label htmlFor={`derive-progress-${task.id}`} className="text-xs text-muted-foreground">
+                Derive progress
+              </Label>
+            </div>
+          )}
+        </div>
+
+        {percent !== null && (
+          <Progress value={percent} className="h-2" aria-label={`Checklist ${percent}% complete`} />
+        )}
+
+        {items.length > 0 && (
+          <ul className="space-y-1">
+            {items.map((item) => (
+              <li key={item.id} className="group flex items-center gap-2 text-sm min-h-8">
+                <Checkbox
+                  id={`checklist-item-${item.id}`}
+                  checked={item.is_done}
+                  onCheckedChange={(checked) => handleToggle(item, checked === true)}
+                  disabled={!editable}
+                  aria-label={`Mark "${item.title}" as ${item.is_done ? "not done" : "done"}`}
+                />
+                {editingId === item.id ? (
+                  <Input
+                    value={editingTitle}
+                    onChange={(e) => setEditingTitle(e.target.value)}
+                    onBlur={() => handleRename(item)}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter") handleRename(item);
+                      if (e.key === "Escape") setEditingId(null);
+                    }}
+                    maxLength={MAX_CHECKLIST_TITLE_LENGTH}
+                    className="h-8"
+                    autoFocus
+                    aria-label="Checklist item title"
+                  />
+                ) : (
+                  <label
+                    htmlFor={`checklist-item-${item.id}`}
+                    className={`flex-1 ${item.is_done ? "line-through text-muted-foreground" : ""}`}
+                  >
+                    {item.title}
+                  </label>
+                )}
+                {editable && editingId !== item.id && (
+                  <div className="flex opacity-0 group-hover:opacity-100 focus-within:opacity-100">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7"
+                      onClick={() => {
+                        setEditingId(item.id);
+                        setEditingTitle(item.title);
+                      }}
+                      aria-label={`Rename "${item.title}"`}
+                    >
+                      <Pencil className="h-3 w-3" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7"
+                      onClick={() => handleDelete(item)}
+                      disabled={saving}
+                      aria-label={`Delete "${item.title}"`}
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {editable && (
+          <div className="flex gap-2">
+            <Input
+              value={newTitle}
+              onChange={(e) => setNewTitle(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") {
+                  e.preventDefault();
+                  handleAdd();
+                }
+              }}
+              placeholder="Add a checklist item..."
+              maxLength={MAX_CHECKLIST_TITLE_LENGTH}
+              aria-label="New checklist item"
+            />
+            <Button type="button" variant="outline" onClick={handleAdd} disabled={!newTitle.trim() || saving}>
+              <Plus className="h-4 w-4 mr-1" aria-hidden="true" />
+              Add
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TaskChecklist;
@@ -0,0 +1,240 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "sonner";
+import { ArrowRight, CheckCircle, GitBranch, Lock, Plus, X } from "lucide-react";
+import { useTaskStore } from "@/stores/taskStore";
+import { wouldCreateCycle, type TaskBlocker, type TaskDependency } from "@shared/taskDependencies";
+
+interface LinkedTask {
+  dependencyId: string;
+  id: string;
+  title: string;
+  status: string;
+}
+
+interface TaskDependenciesProps {
+  task: {
+    id: string;
+    status: string;
+    blocked_by?: TaskBlocker[];
+  };
+  isAdmin: boolean;
+  userId: string;
+}
+
+/**
+ * Predecessors and successors of a task. Admins can add and remove
+ * predecessors; employees see what their task is waiting on.
+ */
+const TaskDependencies = ({ task, isAdmin, userId }: TaskDependenciesProps) => {
+  const allTasks = useTaskStore((state) => state.tasks);
+  const [predecessors, setPredecessors] = useState<LinkedTask[]>([]);
+  const [successors, setSuccessors] = useState<LinkedTask[]>([]);
+  const [edges, setEdges] = useState<TaskDependency[]>([]);
+  const [newPredecessorId, setNewPredecessorId] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const loadDependencies = useCallback(async () => {
+    const { data, error } = await supabase
+      .from("task_dependencies")
+      .select(`
+        id,
+        predecessor_id,
+        successor_id,
+        predecessor:tasks!task_dependencies_predecessor_id_fkey(id, title, status),
+        successor:tasks!task_dependencies_successor_id_fkey(id, title, status)
+      `);
+
+    if (error) {
+      console.error("Error loading task dependencies:", error);
+      return;
+    }
+
+    const rows = data || [];
+    setEdges(rows.map(({ predecessor_id, successor_id }) => ({ predecessor_id, successor_id })));
+    setPredecessors(
+      rows
+        .filter((row) => row.successor_id === task.id && row.predecessor)
+        .map((row) => ({ dependencyId: row.id, ...row.predecessor }))
+    );
+    setSuccessors(
+      rows
+        .filter((row) => row.predecessor_id === task.id && row.successor)
+        .map((row) => ({ dependencyId: row.id, ...row.successor }))
+    );
+  }, [task.id]);
+
+  useEffect(() => {
+    if (isAdmin) {
+      loadDependencies();
+    }
+  }, [isAdmin, loadDependencies]);
+
+  // Tasks that can become a predecessor without duplicating a link or closing a cycle
+  const candidateTasks = useMemo(
+    () =>
+      allTasks.filter(
+        (candidate) =>
+          candidate.id !== task.id &&
+          !predecessors.some((p) => p.id === candidate.id) &&
+          !wouldCreateCycle(edges, candidate.id, task.id)
+      ),
+    [allTasks, task.id, predecessors, edges]
+  );
+
+  const handleAddPredecessor = async () => {
+    if (!newPredecessorId) return;
+
+    setSaving(true);
+    try {
+      const { error } = await supabase.from("task_dependencies").insert({
+        predecessor_id: newPredecessorId,
+        successor_id: task.id,
+        created_by: userId,
+      });
+
+      if (error) throw error;
+
+      toast.success("Dependency added");
+      setNewPredecessorId("");
+      await loadDependencies();
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to add dependency";
+      toast.error(errorMessage);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemove = async (dependencyId: string) => {
+    setSaving(true);
+    try {
+      const { error } = await supabase.from("task_dependencies").delete().eq("id", dependencyId);
+
+      if (error) throw error;
+
+      toast.success("Dependency removed");
+      await loadDependencies();
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to remove dependency";
+      toast.error(errorMessage);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const blockers = isAdmin
+    ? predecessors.filter((p) => p.status !== "completed")
+    : task.blocked_by || [];
+  const isBlocked = task.status !== "completed" && blockers.length > 0;
+
+  // Employees only see this card when their task is waiting on something
+  if (!isAdmin && !isBlocked) return null;
+
+  const renderLinkedTask = (linked: LinkedTask | TaskBlocker, dependencyId?: string) => (
+    <li key={linked.id} className="flex items-center justify-between gap-2 text-sm">
+      <span className="flex items-center gap-2 min-w-0">
+        {linked.status === "completed" ? (
+          <CheckCircle className="h-4 w-4 text-green-600 shrink-0" aria-hidden="true" />
+        ) : (
+          <Lock className="h-4 w-4 text-orange-600 shrink-0" aria-hidden="true" />
+        )}
+        <span className="truncate">{linked.title}</span>
+        <Badge variant="secondary" className="text-xs">{linked.status}</Badge>
+      </span>
+      {isAdmin && dependencyId && (
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-7 w-7"
+          onClick={() => handleRemove(dependencyId)}
+          disabled={saving}
+          aria-label={`Remove dependency on ${linked.title}`}
+        >
+          <X className="h-3 w-3" />
+        </Button>
+      )}
+    </li>
+  );
+
+  return (
+    <Card className={isBlocked ? "border-orange-200 bg-orange-50" : undefined} role="region" aria-label="Task dependencies">
+      <CardContent className="pt-6 space-y-4">
+        <div className="flex items-center gap-2">
+          <GitBranch className="h-4 w-4 text-muted-foreground" aria-hidden="true" />
+          <Label className="text-base font-semibold">Dependencies</Label>
+          {isBlocked && (
+            <Badge variant="outline" className="gap-1 border-orange-300 text-orange-700">
+              <Lock className="h-3 w-3" aria-hidden="true" />
+              Blocked
+            </Badge>
+          )}
+        </div>
+
+        {isBlocked && (
+          <p className="text-sm text-orange-800">
+            This task can't start until {blockers.length === 1 ? "this task is" : "these tasks are"} completed.
+          </p>
+        )}
+
+        <div className="space-y-2">
+          <p className="text-xs font-medium text-muted-foreground">Waiting on</p>
+          {isAdmin ? (
+            predecessors.length > 0 ? (
+              <ul className="space-y-1">{predecessors.map((p) => renderLinkedTask(p, p.dependencyId))}</ul>
+            ) : (
+              <p className="text-sm text-muted-foreground">No predecessors</p>
+            )
+          ) : (
+            <ul className="space-y-1">{blockers.map((blocker) => renderLinkedTask(blocker))}</ul>
+          )}
+        </div>
+
+        {isAdmin && (
+          <>
+            <div className="flex gap-2">
+              <Select value={newPredecessorId} onValueChange={setNewPredecessorId}>
+                <SelectTrigger className="flex-1" aria-label="Task that must finish first">
+                  <SelectValue placeholder="Add a task that must finish first" />
+                </SelectTrigger>
+                <SelectContent>
+                  {candidateTasks.map((candidate) => (
+                    <SelectItem key={candidate.id} value={candidate.id}>
+                      {candidate.title}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={handleAddPredecessor}
+                disabled={!newPredecessorId || saving}
+              >
+                <Plus className="h-4 w-4 mr-1" aria-hidden="true" />
+                Add
+              </Button>
+            </div>
+
+            {successors.length > 0 && (
+              <div className="space-y-2">
+                <p className="text-xs font-medium text-muted-foreground flex items-center gap-1">
+                  <ArrowRight className="h-3 w-3" aria-hidden="true" />
+                  Blocks
+                </p>
+                <ul className="space-y-1">{successors.map((s) => renderLinkedTask(s, s.dependencyId))}</ul>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TaskDependencies;
@@ -20,7 +20,7 @@ import { ScrollArea } from "@/components/ui/scroll-area";
 import { Separator } from "@/components/ui/separator";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { toast } from "sonner";
-import { Send, Clock, User, Calendar, AlertCircle, CheckCircle, XCircle, TrendingUp, Edit2, X as XIcon, Save, Upload, File, Download } from "lucide-react";
+import { Send, Clock, User, Calendar, AlertCircle, CheckCircle, XCircle, TrendingUp, Edit2, X as XIcon, Save, Upload, File, Download, FolderKanban } from "lucide-react";
 // import ChatInterface from "./ChatInterface"; // TODO: Component not yet implemented
 import { taskProgressSchema, type TaskProgressFormData } from "@/lib/validation";
 import {
@@ -32,7 +32,14 @@ import {
   FormMessage,
 } from "@/components/ui/form";
 import ErrorBoundary from "@/components/ui/error-boundary";
-import AIPaymentService from "@/lib/ai-payment-service";
+import { describeInvalidTransition, getAllowedTransitions } from "@shared/taskStatus";
+import { describeBlockedTransition, type TaskBlocker } from "@shared/taskDependencies";
+import TaskDependencies from "./TaskDependencies";
+import TaskChecklist from "./TaskChecklist";
+import TaskTimeTracker from "@/components/time/TaskTimeTracker";
+import TaskComments from "@/components/comments/TaskComments";
+import TaskReviewPanel from "@/components/reviews/TaskReviewPanel";
+import { useProjectStore } from "@/stores/projectStore";
 
 // Schema for task editing
 const taskEditSchema = z.object({
@@ -40,6 +47,8 @@ const taskEditSchema = z.object({
   description: z.string().min(10, "Description must be at least 10 characters"),
   priority: z.enum(["low", "medium", "high"]),
   deadline: z.string().optional(),
+  // "none" takes the task out of its project
+  projectId: z.string(),
 });
 
 type TaskEditFormData = z.infer<typeof taskEditSchema>;
@@ -54,9 +63,13 @@ interface Task {
   deadline: string | null;
   assigned_to: string | null;
   created_at: string;
+  project_id?: string | null;
+  progress_from_checklist?: boolean;
   profiles?: {
     full_name: string;
   };
+  blocked_by?: TaskBlocker[];
+  review_status?: string | null;
 }
 
 interface TaskAttachment {
@@ -96,6 +109,19 @@ const TaskDialog = ({ task, open, onClose, userId, isAdmin }: TaskDialogProps) =
   const [isEditing, setIsEditing] = useState(false);
   const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
   const [uploadingFiles, setUploadingFiles] = useState(false);
+  const projects = useProjectStore((state) => state.projects);
+  const projectName = projects.find((project) => project.id === task.project_id)?.name;
+  const [checklist, setChecklist] = useState<{ progress: number | null; progressFromChecklist: boolean }>({
+    progress: null,
+    progressFromChecklist: !!task.progress_from_checklist,
+  });
+  // Progress set by the checklist instead of the slider, if the task uses it
+  const derivedProgress = checklist.progressFromChecklist ? checklist.progress ?? 0 : null;
+
+  // Only offer the status changes this user may make from the current status
+  const allowedNextStatuses = getAllowedTransitions(task.status, isAdmin ? "admin" : "employee").map(
+    (transition) => transition.to
+  );
 
   const form = useForm<TaskProgressFormData>({
     resolver: zodResolver(taskProgressSchema),
@@ -113,6 +139,7 @@ const TaskDialog = ({ task, open, onClose, userId, isAdmin }: TaskDialogProps) =
       description: task.description,
       priority: task.priority as "low" | "medium" | "high",
       deadline: task.deadline || "",
+      projectId: task.project_id || "none",
     },
   });
 
@@ -123,6 +150,7 @@ const TaskDialog = ({ task, open, onClose, userId, isAdmin }: TaskDialogProps) =
       description: task.description,
       priority: task.priority as "low" | "medium" | "high",
       deadline: task.deadline || "",
+      projectId: task.project_id || "none",
     });
     setIsEditing(false);
   }, [task, editForm]);
@@ -310,6 +338,12 @@ const TaskDialog = ({ task, open, onClose, userId, isAdmin }: TaskDialogProps) =
     }
   };
 
+  useEffect(() => {
+    if (derivedProgress !== null) {
+      form.setValue("progress", derivedProgress);
+    }
+  }, [derivedProgress, form]);
+
   useEffect(() => {
     if (open) {
       loadTaskUpdates();
@@ -321,13 +355,21 @@ const TaskDialog = ({ task, open, onClose, userId, isAdmin }: TaskDialogProps) =
     setLoading(true);
     try {
       const isCompleting = data.progress === 100 && task.status !== "completed";
+      const nextStatus = data.progress === 100 ? "completed" : "ongoing";
+
+      const transitionError =
+        describeInvalidTransition(task.status, nextStatus, "employee") ??
+        describeBlockedTransition(nextStatus, task.blocked_by);
+      if (transitionError) {
+        throw new Error(transitionError);
+      }
 
       // Update task progress
       const { error: taskError } = await supabase
         .from("tasks")
         .update({
           progress: data.progress,
-          status: data.progress === 100 ? "completed" : "ongoing",
+          status: nextStatus,
           completed_at: data.progress === 100 ? new Date().toISOString() : null
         })
         .eq("id", task.id);
@@ -366,20 +408,9 @@ const TaskDialog = ({ task, open, onClose, userId, isAdmin }: TaskDialogProps) =
         await uploadAttachments(insertedUpdate.id);
       }
 
-      // Trigger AI payment calculation for completed tasks
-      if (isCompleting) {
-        try {
-          console.log("Task completed, triggering AI payment calculation...");
-          await AIPaymentService.processTaskCompletion(task.id);
-          toast.success("🎉 Task completed! AI payment calculation initiated.");
-        } catch (aiError) {
-          console.error("AI payment calculation failed:", aiError);
-          // Don't fail the task completion, just log the error
-          toast.success("Task completed successfully (payment calculation will be processed manually)");
-        }
-      } else {
-        toast.success("Task updated successfully");
-      }
+      // Completed work goes to an admin for review; the payment is suggested
+      // once it is approved and rated
+      toast.success(isCompleting ? "🎉 Task completed and submitted for review" : "Task updated successfully");
 
       form.reset();
 
@@ -445,6 +476,7 @@ const TaskDialog = ({ task, open, onClose, userId, isAdmin }: TaskDialogProps) =
           description: data.description,
           priority: data.priority,
           deadline: data.deadline || null,
+          project_id: data.projectId === "none" ? null : data.projectId,
           updated_at: new Date().toISOString(),
         })
         .eq("id", task.id);
@@ -511,6 +543,10 @@ const TaskDialog = ({ task, open, onClose, userId, isAdmin }: TaskDialogProps) =
                 <DialogTitle className="text-2xl" id="task-dialog-title">{task.title}</DialogTitle>
                 <div className="flex items-center gap-2 mt-2" aria-label={`Status: ${task.status}, Priority: ${task.priority}`}>
                   {getStatusBadge(task.status)}
+                  {task.review_status === "pending" && <Badge variant="outline">awaiting review</Badge>}
+                  {task.review_status === "changes_requested" && task.status === "ongoing" && (
+                    <Badge variant="outline" className="border-orange-500 text-orange-600">changes requested</Badge>
+                  )}
                   {getPriorityBadge(task.priority)}
                 </div>
               </div>
@@ -628,6 +664,32 @@ const TaskDialog = ({ task, open, onClose, userId, isAdmin }: TaskDialogProps) =
                           )}
                         />
                       </div>
+
+                      <FormField
+                        control={editForm.control}
+                        name="projectId"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Project</FormLabel>
+                            <Select value={field.value} onValueChange={field.onChange}>
+                              <FormControl>
+                                <SelectTrigger>
+                                  <SelectValue placeholder="Select project" />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                <SelectItem value="none">No project</SelectItem>
+                                {projects.map((project) => (
+                                  <SelectItem key={project.id} value={project.id}>
+                                    {project.name}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
                     </form>
                   </Form>
                 </CardContent>
@@ -657,6 +719,16 @@ const TaskDialog = ({ task, open, onClose, userId, isAdmin }: TaskDialogProps) =
                       </div>
                     )}
 
+                    {projectName && (
+                      <div className="flex items-center gap-2">
+                        <FolderKanban className="h-4 w-4 text-muted-foreground" aria-hidden="true" />
+                        <div>
+                          <Label className="text-xs text-muted-foreground">Project</Label>
+                          <p className="text-sm font-medium">{projectName}</p>
+                        </div>
+                      </div>
+                    )}
+
                     {task.deadline && (
                       <div className="flex items-center gap-2">
                         <Calendar className="h-4 w-4 text-muted-foreground" aria-hidden="true" />
@@ -714,8 +786,22 @@ const TaskDialog = ({ task, open, onClose, userId, isAdmin }: TaskDialogProps) =
               </Card>
             )}
 
+            <TaskReviewPanel task={task} userId={userId} isAdmin={isAdmin} onReviewed={onClose} />
+
+            {/* Predecessors that must finish before this task can start */}
+            <TaskDependencies task={task} isAdmin={isAdmin} userId={userId} />
+
+            <TaskChecklist
+              task={task}
+              canEdit={isAdmin || task.assigned_to === userId}
+              userId={userId}
+              onChange={setChecklist}
+            />
+
+            <TaskTimeTracker task={task} userId={userId} isAdmin={isAdmin} />
+
             {/* Accept/Reject for invited tasks */}
-            {!isAdmin && task.assigned_to === userId && task.status === "invited" && (
+            {!isAdmin && task.assigned_to === userId && allowedNextStatuses.includes("accepted") && (
               <Card className="border-yellow-200 bg-yellow-50" role="region" aria-label="Task invitation">
                 <CardContent className="pt-6">
                   <p className="text-sm mb-4">You have been invited to work on this task. Do you want to accept?</p>
@@ -745,7 +831,7 @@ const TaskDialog = ({ task, open, onClose, userId, isAdmin }: TaskDialogProps) =
             )}
 
             {/* Update Progress (for assigned employees) */}
-            {!isAdmin && task.assigned_to === userId && (task.status === "accepted" || task.status === "ongoing") && (
+            {!isAdmin && task.assigned_to === userId && allowedNextStatuses.includes("completed") && (
               <Card>
                 <CardContent className="pt-6 space-y-4">
                   <div>
@@ -775,9 +861,15 @@ const TaskDialog = ({ task, open, onClose, userId, isAdmin }: TaskDialogProps) =
                                   max={100}
                                   step={5}
                                   className="w-full"
+                                  disabled={derivedProgress !== null}
                                   aria-label="Update task progress"
                                 />
                               </FormControl>
+                              {derivedProgress !== null && (
+                                <p className="text-xs text-muted-foreground">
+                                  Progress follows the checklist; tick items to move it.
+                                </p>
+                              )}
                               <FormMessage />
                             </FormItem>
                           )}
@@ -980,6 +1072,8 @@ const TaskDialog = ({ task, open, onClose, userId, isAdmin }: TaskDialogProps) =
                 </ScrollArea>
               </CardContent>
             </Card>
+
+            <TaskComments task={task} userId={userId} isAdmin={isAdmin} />
           </div>
         </DialogContent>
       </Dialog>
@@ -5,7 +5,7 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { toast } from "sonner";
-import { CheckCircle, XCircle, Clock, Filter, ArrowUpDown, AlertCircle, Plus } from "lucide-react";
+import { CheckCircle, XCircle, Clock, Filter, ArrowUpDown, AlertCircle, Plus, Lock, FolderKanban } from "lucide-react";
 import {
   Select,
   SelectContent,
@@ -19,6 +19,7 @@ import ErrorBoundary from "@/components/ui/error-boundary";
 import { useAuthStore } from "@/stores/authStore";
 import { useTaskStore } from "@/stores/taskStore";
 import { useUIStore } from "@/stores/uiStore";
+import { useProjectStore } from "@/stores/projectStore";
 
 interface Task {
   id: string;
@@ -30,9 +31,15 @@ interface Task {
   deadline: string | null;
   assigned_to: string | null;
   created_at: string;
+  project_id: string | null;
   profiles: {
     full_name: string;
   } | null;
+  blocked_by?: {
+    id: string;
+    title: string;
+    status: string;
+  }[];
 }
 
 interface TaskListProps {
@@ -54,13 +61,24 @@ const TaskList = ({ isAdmin, searchQuery = "" }: TaskListProps) => {
   const parentRef = useRef<HTMLDivElement>(null);
   const [showTaskAssignment, setShowTaskAssignment] = useState(false);
 
-  const { statusFilter, priorityFilter, sortBy, setStatusFilter, setPriorityFilter, setSortBy } = useUIStore();
+  const {
+    statusFilter,
+    priorityFilter,
+    projectFilter,
+    sortBy,
+    setStatusFilter,
+    setPriorityFilter,
+    setProjectFilter,
+    setSortBy
+  } = useUIStore();
+  const { projects, loadProjects } = useProjectStore();
 
   // Get filtered tasks from store
   const filteredTasks = getFilteredTasks({
     searchQuery,
     statusFilter,
     priorityFilter,
+    projectFilter,
     sortBy
   });
 
@@ -79,6 +97,13 @@ const TaskList = ({ isAdmin, searchQuery = "" }: TaskListProps) => {
     }
   }, [user?.id, isAdmin, loadTasks, subscribeToTaskUpdates]);
 
+  useEffect(() => {
+    loadProjects();
+  }, [loadProjects]);
+
+  const getProjectName = (projectId: string | null) =>
+    projectId ? projects.find((project) => project.id === projectId)?.name : undefined;
+
 
   const { acceptTask, rejectTask } = useTaskStore();
 
@@ -129,7 +154,7 @@ const TaskList = ({ isAdmin, searchQuery = "" }: TaskListProps) => {
         {/* Header with Add Button and Compact Filters */}
         <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-3">
           <div className="flex items-center gap-3">
-            <h2 className="text-2xl font-bold">Projects & Tasks</h2>
+            <h2 className="text-2xl font-bold">Tasks</h2>
             <Badge variant="secondary" className="text-sm">
               {filteredTasks.length} / {tasks.length}
             </Badge>
@@ -171,6 +196,21 @@ const TaskList = ({ isAdmin, searchQuery = "" }: TaskListProps) => {
             </SelectContent>
           </Select>
 
+          <Select value={projectFilter} onValueChange={setProjectFilter}>
+            <SelectTrigger className="w-[160px] h-8 text-xs" aria-label="Filter by project">
+              <SelectValue placeholder="Project" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Projects</SelectItem>
+              <SelectItem value="none">No Project</SelectItem>
+              {projects.map((project) => (
+                <SelectItem key={project.id} value={project.id}>
+                  {project.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
           <div className="flex items-center gap-1">
             <ArrowUpDown className="h-3 w-3 text-muted-foreground" />
             <Select value={sortBy} onValueChange={setSortBy}>
@@ -218,8 +258,26 @@ const TaskList = ({ isAdmin, searchQuery = "" }: TaskListProps) => {
                       <div className="flex-1">
                         <CardTitle className="text-base line-clamp-2">{task.title}</CardTitle>
                       </div>
-                      {getStatusBadge(task.status)}
+                      <div className="flex flex-col items-end gap-1">
+                        {getStatusBadge(task.status)}
+                        {task.status !== "completed" && task.blocked_by && task.blocked_by.length > 0 && (
+                          <Badge
+                            variant="outline"
+                            className="gap-1 border-orange-300 text-orange-700"
+                            title={`Waiting on: ${task.blocked_by.map((blocker) => blocker.title).join(", ")}`}
+                          >
+                            <Lock className="h-3 w-3" aria-hidden="true" />
+                            Blocked
+                          </Badge>
+                        )}
+                      </div>
                     </div>
+                    {getProjectName(task.project_id) && (
+                      <p className="text-xs text-muted-foreground flex items-center gap-1 mt-1">
+                        <FolderKanban className="h-3 w-3" aria-hidden="true" />
+                        {getProjectName(task.project_id)}
+                      </p>
+                    )}
                     <p className="text-xs text-muted-foreground line-clamp-2 mt-1.5">
                       {task.description}
                     </p>
@@ -0,0 +1,150 @@
+import { useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Bell, CheckCheck, Settings, Trash2 } from "lucide-react";
+import { useNotificationStore, type Notification } from "@/stores/notificationStore";
+import { NOTIFICATION_TYPE_INFO } from "@/lib/notifications";
+import NotificationPreferences from "./NotificationPreferences";
+
+interface NotificationInboxProps {
+  /** Called after a notification is opened, e.g. to switch to the matching view */
+  onOpenNotification?: (notification: Notification) => void;
+}
+
+/**
+ * Bell with the unread count that opens the persisted notification inbox
+ */
+const NotificationInbox = ({ onOpenNotification }: NotificationInboxProps) => {
+  const notifications = useNotificationStore((state) => state.notifications);
+  const unreadCount = useNotificationStore((state) => state.unreadCount);
+  const markAsRead = useNotificationStore((state) => state.markAsRead);
+  const markAllAsRead = useNotificationStore((state) => state.markAllAsRead);
+  const clearNotifications = useNotificationStore((state) => state.clearNotifications);
+  const [open, setOpen] = useState(false);
+  const [showPreferences, setShowPreferences] = useState(false);
+
+  const handleOpen = (notification: Notification) => {
+    markAsRead(notification.id);
+    if (onOpenNotification) {
+      setOpen(false);
+      onOpenNotification(notification);
+    }
+  };
+
+  return (
+    <>
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="relative"
+            aria-label={`Notifications${unreadCount > 0 ? `, ${unreadCount} unread` : ""}`}
+          >
+            <Bell className="h-5 w-5" aria-hidden="true" />
+            {unreadCount > 0 && (
+              <span
+                className="absolute -top-0.5 -right-0.5 bg-destructive text-destructive-foreground text-[10px] rounded-full min-w-4 h-4 px-1 flex items-center justify-center"
+                aria-hidden="true"
+              >
+                {unreadCount > 9 ? "9+" : unreadCount}
+              </span>
+            )}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-80 p-0" align="end">
+          <div className="flex items-center justify-between border-b px-3 py-2">
+            <h3 className="text-sm font-semibold">Notifications</h3>
+            <div className="flex items-center">
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                onClick={() => markAllAsRead()}
+                disabled={unreadCount === 0}
+                aria-label="Mark all as read"
+                title="Mark all as read"
+              >
+                <CheckCheck className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                onClick={() => clearNotifications()}
+                disabled={notifications.length === 0}
+                aria-label="Clear notifications"
+                title="Clear notifications"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                onClick={() => {
+                  setOpen(false);
+                  setShowPreferences(true);
+                }}
+                aria-label="Notification preferences"
+                title="Notification preferences"
+              >
+                <Settings className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+
+          {notifications.length === 0 ? (
+            <p className="px-3 py-8 text-center text-sm text-muted-foreground">You're all caught up</p>
+          ) : (
+            <ul className="max-h-96 overflow-y-auto divide-y" aria-label="Notifications">
+              {notifications.map((notification) => (
+                <li key={notification.id}>
+                  <button
+                    type="button"
+                    className={`w-full text-left px-3 py-2 hover:bg-accent focus:outline-none focus-visible:bg-accent ${
+                      notification.read ? "" : "bg-primary/5"
+                    }`}
+                    onClick={() => handleOpen(notification)}
+                  >
+                    <div className="flex items-start gap-2">
+                      <span
+                        className={`mt-1.5 h-2 w-2 shrink-0 rounded-full ${notification.read ? "bg-transparent" : "bg-primary"}`}
+                        aria-hidden="true"
+                      />
+                      <div className="min-w-0 space-y-0.5">
+                        <p className={`text-sm ${notification.read ? "" : "font-medium"}`}>
+                          {notification.title}
+                          {!notification.read && <span className="sr-only"> (unread)</span>}
+                        </p>
+                        <p className="text-xs text-muted-foreground line-clamp-2">{notification.message}</p>
+                        <p className="text-[11px] text-muted-foreground">
+                          {NOTIFICATION_TYPE_INFO[notification.type]?.label} ·{" "}
+                          {formatDistanceToNow(notification.timestamp, { addSuffix: true })}
+                        </p>
+                      </div>
+                    </div>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </PopoverContent>
+      </Popover>
+
+      <Dialog open={showPreferences} onOpenChange={setShowPreferences}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Notification preferences</DialogTitle>
+            <DialogDescription>Choose which notifications reach you in the app and by email.</DialogDescription>
+          </DialogHeader>
+          <NotificationPreferences />
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default NotificationInbox;
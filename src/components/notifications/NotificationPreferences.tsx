@@ -0,0 +1,111 @@
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "sonner";
+import { useNotificationStore, type DeliverySettings } from "@/stores/notificationStore";
+import {
+  NOTIFICATION_TYPES,
+  NOTIFICATION_TYPE_INFO,
+  type NotificationChannel,
+  type NotificationType,
+} from "@/lib/notifications";
+
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+
+/**
+ * Per-type switches for in-app and email notifications, plus the email
+ * digest. Preferences are loaded by the notification store when it subscribes.
+ */
+const NotificationPreferences = () => {
+  const preferences = useNotificationStore((state) => state.preferences);
+  const deliverySettings = useNotificationStore((state) => state.deliverySettings);
+  const setPreference = useNotificationStore((state) => state.setPreference);
+  const setDeliverySettings = useNotificationStore((state) => state.setDeliverySettings);
+
+  const handleToggle = async (type: NotificationType, channel: NotificationChannel, enabled: boolean) => {
+    try {
+      await setPreference(type, channel, enabled);
+    } catch (error) {
+      console.error("Error saving notification preference:", error);
+      toast.error("Failed to save notification preference");
+    }
+  };
+
+  const handleDeliveryChange = async (changes: Partial<DeliverySettings>) => {
+    try {
+      await setDeliverySettings(changes);
+    } catch (error) {
+      console.error("Error saving email digest settings:", error);
+      toast.error("Failed to save email digest settings");
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-xs text-muted-foreground">
+            <th className="text-left font-normal pb-2">Notify me about</th>
+            <th className="font-normal pb-2 w-16">In app</th>
+            <th className="font-normal pb-2 w-16">Email</th>
+          </tr>
+        </thead>
+        <tbody>
+          {NOTIFICATION_TYPES.map((type) => {
+            const info = NOTIFICATION_TYPE_INFO[type];
+            return (
+              <tr key={type}>
+                <td className="py-1.5 pr-4">
+                  <p>{info.label}</p>
+                  <p className="text-xs text-muted-foreground">{info.description}</p>
+                </td>
+                {(["in_app", "email"] as const).map((channel) => (
+                  <td key={channel} className="py-1.5 text-center">
+                    <Switch
+                      checked={preferences[type]?.[channel] ?? true}
+                      onCheckedChange={(checked) => handleToggle(type, channel, checked)}
+                      aria-label={`${info.label} ${channel === "email" ? "by email" : "in app"}`}
+                    />
+                  </td>
+                ))}
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+
+      <div className="flex flex-wrap items-center justify-between gap-3 border-t pt-4">
+        <div className="space-y-0.5">
+          <Label htmlFor="notification-email-digest">Daily email digest</Label>
+          <p className="text-xs text-muted-foreground">Bundle notification emails into one email a day</p>
+        </div>
+        <div className="flex items-center gap-2">
+          {deliverySettings.email_digest && (
+            <Select
+              value={String(deliverySettings.digest_hour)}
+              onValueChange={(value) => handleDeliveryChange({ digest_hour: Number(value) })}
+            >
+              <SelectTrigger className="w-28 h-8" aria-label="Digest time (UTC)">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {HOURS.map((hour) => (
+                  <SelectItem key={hour} value={String(hour)}>
+                    {`${String(hour).padStart(2, "0")}:00 UTC`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          <Switch
+            id="notification-email-digest"
+            checked={deliverySettings.email_digest}
+            onCheckedChange={(checked) => handleDeliveryChange({ email_digest: checked })}
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default NotificationPreferences;
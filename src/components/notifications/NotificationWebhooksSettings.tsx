@@ -0,0 +1,214 @@
+import { useCallback, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import { Copy, Loader2, Plus, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuthStore } from "@/stores/authStore";
+import { NOTIFICATION_TYPES, NOTIFICATION_TYPE_INFO, type NotificationType } from "@/lib/notifications";
+
+interface Webhook {
+  id: string;
+  name: string;
+  url: string;
+  secret: string;
+  types: string[];
+  is_active: boolean;
+}
+
+/**
+ * Admin list of webhook endpoints that receive notifications as signed JSON
+ * POSTs (see server/delivery/webhook.js for the signature headers)
+ */
+const NotificationWebhooksSettings = () => {
+  const { user } = useAuthStore();
+  const [webhooks, setWebhooks] = useState<Webhook[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [name, setName] = useState("");
+  const [url, setUrl] = useState("");
+  const [types, setTypes] = useState<NotificationType[]>([]);
+
+  const loadWebhooks = useCallback(async () => {
+    setLoading(true);
+    const { data, error } = await supabase
+      .from("notification_webhooks")
+      .select("id, name, url, secret, types, is_active")
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      console.error("Error loading webhooks:", error);
+      toast.error("Failed to load webhooks");
+    } else {
+      setWebhooks(data || []);
+    }
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    loadWebhooks();
+  }, [loadWebhooks]);
+
+  const handleAdd = async () => {
+    if (!/^https?:\/\//.test(url.trim())) {
+      toast.error("Webhook URL must start with http:// or https://");
+      return;
+    }
+
+    setSaving(true);
+    const { error } = await supabase.from("notification_webhooks").insert({
+      name: name.trim(),
+      url: url.trim(),
+      types,
+      created_by: user?.id,
+    });
+    setSaving(false);
+
+    if (error) {
+      toast.error(error.message || "Failed to add webhook");
+      return;
+    }
+
+    setName("");
+    setUrl("");
+    setTypes([]);
+    toast.success("Webhook added");
+    loadWebhooks();
+  };
+
+  const handleToggle = async (webhook: Webhook, isActive: boolean) => {
+    setWebhooks((current) => current.map((w) => (w.id === webhook.id ? { ...w, is_active: isActive } : w)));
+    const { error } = await supabase
+      .from("notification_webhooks")
+      .update({ is_active: isActive })
+      .eq("id", webhook.id);
+
+    if (error) {
+      toast.error("Failed to update webhook");
+      loadWebhooks();
+    }
+  };
+
+  const handleDelete = async (webhook: Webhook) => {
+    const { error } = await supabase.from("notification_webhooks").delete().eq("id", webhook.id);
+    if (error) {
+      toast.error("Failed to delete webhook");
+      return;
+    }
+    setWebhooks((current) => current.filter((w) => w.id !== webhook.id));
+  };
+
+  const copySecret = async (webhook: Webhook) => {
+    try {
+      await navigator.clipboard.writeText(webhook.secret);
+      toast.success("Signing secret copied");
+    } catch {
+      toast.error("Couldn't copy the signing secret");
+    }
+  };
+
+  const toggleType = (type: NotificationType, checked: boolean) =>
+    setTypes((current) => (checked ? [...current, type] : current.filter((t) => t !== type)));
+
+  return (
+    <div className="space-y-4">
+      {loading ? (
+        <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" aria-label="Loading webhooks" />
+      ) : webhooks.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No webhooks yet.</p>
+      ) : (
+        <ul className="space-y-2">
+          {webhooks.map((webhook) => (
+            <li key={webhook.id} className="flex items-start justify-between gap-3 rounded-md border p-3">
+              <div className="min-w-0 space-y-1">
+                <p className="text-sm font-medium">{webhook.name}</p>
+                <p className="text-xs text-muted-foreground break-all">{webhook.url}</p>
+                <div className="flex flex-wrap gap-1">
+                  {webhook.types.length === 0 ? (
+                    <Badge variant="secondary">All notifications</Badge>
+                  ) : (
+                    webhook.types.map((type) => (
+                      <Badge key={type} variant="secondary">
+                        {NOTIFICATION_TYPE_INFO[type as NotificationType]?.label || type}
+                      </Badge>
+                    ))
+                  )}
+                </div>
+              </div>
+              <div className="flex items-center gap-1 shrink-0">
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  onClick={() => copySecret(webhook)}
+                  aria-label={`Copy signing secret for ${webhook.name}`}
+                  title="Copy signing secret"
+                >
+                  <Copy className="h-4 w-4" />
+                </Button>
+                <Switch
+                  checked={webhook.is_active}
+                  onCheckedChange={(checked) => handleToggle(webhook, checked)}
+                  aria-label={`${webhook.is_active ? "Disable" : "Enable"} ${webhook.name}`}
+                />
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  onClick={() => handleDelete(webhook)}
+                  aria-label={`Delete ${webhook.name}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="space-y-3 rounded-md border border-dashed p-3">
+        <div className="grid gap-3 sm:grid-cols-2">
+          <div className="space-y-1">
+            <Label htmlFor="webhook-name">Name</Label>
+            <Input id="webhook-name" value={name} onChange={(e) => setName(e.target.value)} maxLength={100} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="webhook-url">URL</Label>
+            <Input
+              id="webhook-url"
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+              placeholder="https://example.com/hooks/chatflow"
+            />
+          </div>
+        </div>
+        <fieldset className="space-y-1">
+          <legend className="text-sm">Notification types (none selected sends all)</legend>
+          <div className="flex flex-wrap gap-x-4 gap-y-2">
+            {NOTIFICATION_TYPES.map((type) => (
+              <label key={type} className="flex items-center gap-2 text-sm">
+                <Checkbox
+                  checked={types.includes(type)}
+                  onCheckedChange={(checked) => toggleType(type, checked === true)}
+                />
+                {NOTIFICATION_TYPE_INFO[type].label}
+              </label>
+            ))}
+          </div>
+        </fieldset>
+        <div className="flex justify-end">
+          <Button size="sm" onClick={handleAdd} disabled={saving || !name.trim() || !url.trim()}>
+            {saving ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Plus className="h-4 w-4 mr-1" />}
+            Add webhook
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default NotificationWebhooksSettings;
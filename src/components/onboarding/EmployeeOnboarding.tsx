@@ -12,6 +12,8 @@ import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
 import { toast } from "sonner";
+import SkillPicker from "@/components/skills/SkillPicker";
+import type { SkillLevel } from "@shared/skills";
 import {
     ChevronRight,
     ChevronLeft,
@@ -19,8 +21,7 @@ import {
     Briefcase,
     Award,
     FileText,
-    CheckCircle2,
-    X
+    CheckCircle2
 } from "lucide-react";
 
 const personalInfoSchema = z.object({
@@ -52,8 +53,7 @@ interface EmployeeOnboardingProps {
 const EmployeeOnboarding = ({ userId, onComplete }: EmployeeOnboardingProps) => {
     const [currentStep, setCurrentStep] = useState(1);
     const [loading, setLoading] = useState(false);
-    const [skillsList, setSkillsList] = useState<string[]>([]);
-    const [currentSkill, setCurrentSkill] = useState("");
+    const [skillsList, setSkillsList] = useState<SkillLevel[]>([]);
 
     const personalForm = useForm<PersonalInfoForm>({
         resolver: zodResolver(personalInfoSchema),
@@ -110,19 +110,9 @@ const EmployeeOnboarding = ({ userId, onComplete }: EmployeeOnboardingProps) =>
         loadUserData();
     }, [userId, personalForm]);
 
-    const addSkill = () => {
-        if (currentSkill.trim() && !skillsList.includes(currentSkill.trim())) {
-            const newSkills = [...skillsList, currentSkill.trim()];
-            setSkillsList(newSkills);
-            skillsForm.setValue("skills", newSkills.join(", "));
-            setCurrentSkill("");
-        }
-    };
-
-    const removeSkill = (skillToRemove: string) => {
-        const newSkills = skillsList.filter(s => s !== skillToRemove);
+    const handleSkillsChange = (newSkills: SkillLevel[]) => {
         setSkillsList(newSkills);
-        skillsForm.setValue("skills", newSkills.join(", "));
+        skillsForm.setValue("skills", newSkills.map(s => s.name).join(", "), { shouldValidate: true });
     };
 
     const handlePersonalInfoSubmit = async (data: PersonalInfoForm) => {
@@ -190,8 +180,6 @@ const EmployeeOnboarding = ({ userId, onComplete }: EmployeeOnboardingProps) =>
                         hourly_rate: parseFloat(data.hourly_rate),
                         availability: true,
                         current_workload: 0,
-                        performance_score: 0,
-                        tasks_completed: 0,
                     });
 
                 if (insertError) throw insertError;
@@ -230,7 +218,8 @@ const EmployeeOnboarding = ({ userId, onComplete }: EmployeeOnboardingProps) =>
             if (skillsList.length > 0) {
                 const skillsToInsert = skillsList.map(skill => ({
                     employee_id: empProfile.id,
-                    skill: skill,
+                    skill: skill.name,
+                    level: skill.level,
                 }));
 
                 const { error: skillsError } = await supabase
@@ -477,25 +466,14 @@ const EmployeeOnboarding = ({ userId, onComplete }: EmployeeOnboardingProps) =>
                                 <div className="grid gap-4">
                                     <div>
                                         <Label htmlFor="skills">Add Your Skills *</Label>
-                                        <div className="flex gap-2">
-                                            <Input
-                                                id="skills"
-                                                placeholder="e.g., React, TypeScript, Node.js"
-                                                value={currentSkill}
-                                                onChange={(e) => setCurrentSkill(e.target.value)}
-                                                onKeyDown={(e) => {
-                                                    if (e.key === "Enter") {
-                                                        e.preventDefault();
-                                                        addSkill();
-                                                    }
-                                                }}
-                                            />
-                                            <Button type="button" onClick={addSkill} variant="outline">
-                                                Add
-                                            </Button>
-                                        </div>
+                                        <SkillPicker
+                                            id="skills"
+                                            value={skillsList}
+                                            onChange={handleSkillsChange}
+                                            placeholder="Search skills, e.g. React, TypeScript, Node.js"
+                                        />
                                         <p className="text-sm text-muted-foreground mt-1">
-                                            Press Enter or click Add to add each skill
+                                            Pick each skill and how proficient you are, from 1 (beginner) to 5 (expert)
                                         </p>
                                         {skillsForm.formState.errors.skills && (
                                             <p className="text-sm text-destructive mt-1">
@@ -504,23 +482,6 @@ const EmployeeOnboarding = ({ userId, onComplete }: EmployeeOnboardingProps) =>
                                         )}
                                     </div>
 
-                                    {skillsList.length > 0 && (
-                                        <div className="flex flex-wrap gap-2 p-4 border rounded-lg bg-muted/30">
-                                            {skillsList.map((skill, index) => (
-                                                <Badge key={index} variant="secondary" className="text-sm py-1 px-3">
-                                                    {skill}
-                                                    <button
-                                                        type="button"
-                                                        onClick={() => removeSkill(skill)}
-                                                        className="ml-2 hover:text-destructive"
-                                                    >
-                                                        <X className="h-3 w-3" />
-                                                    </button>
-                                                </Badge>
-                                            ))}
-                                        </div>
-                                    )}
-
                                     <div>
                                         <Label htmlFor="bio">Professional Bio (Optional)</Label>
                                         <Textarea
@@ -14,6 +14,8 @@ import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Separator } from "@/components/ui/separator";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { toast } from "sonner";
+import SkillPicker from "@/components/skills/SkillPicker";
+import type { SkillLevel } from "@shared/skills";
 import {
     User,
     Briefcase,
@@ -22,7 +24,6 @@ import {
     Phone,
     Building,
     DollarSign,
-    X,
     Save,
     Edit,
     TrendingUp
@@ -72,8 +73,7 @@ const Profile = ({ userId, userRole }: ProfileProps) => {
     const [editing, setEditing] = useState(false);
     const [profileData, setProfileData] = useState<ProfileData | null>(null);
     const [employeeProfile, setEmployeeProfile] = useState<EmployeeProfileData | null>(null);
-    const [skillsList, setSkillsList] = useState<string[]>([]);
-    const [currentSkill, setCurrentSkill] = useState("");
+    const [skillsList, setSkillsList] = useState<SkillLevel[]>([]);
     const [activeTasks, setActiveTasks] = useState<number>(0);
 
     const profileForm = useForm<ProfileForm>({
@@ -125,12 +125,13 @@ const Profile = ({ userId, userRole }: ProfileProps) => {
                     // Load skills
                     const { data: skills, error: skillsError } = await supabase
                         .from("employee_skills")
-                        .select("skill")
-                        .eq("employee_id", empProfile.id);
+                        .select("skill, level")
+                        .eq("employee_id", empProfile.id)
+                        .order("skill");
 
                     if (skillsError) throw skillsError;
 
-                    setSkillsList(skills?.map(s => s.skill) || []);
+                    setSkillsList(skills?.map(s => ({ name: s.skill, level: s.level })) || []);
 
                     // Load active tasks count
                     const { data: tasks, error: tasksError } = await supabase
@@ -208,8 +209,6 @@ const Profile = ({ userId, userRole }: ProfileProps) => {
                         hourly_rate: parseFloat(data.hourly_rate),
                         availability: true,
                         current_workload: 0,
-                        performance_score: 0,
-                        tasks_completed: 0,
                     });
 
                 if (error) throw error;
@@ -226,49 +225,60 @@ const Profile = ({ userId, userRole }: ProfileProps) => {
         }
     };
 
-    const addSkill = async () => {
-        if (!currentSkill.trim() || skillsList.includes(currentSkill.trim())) return;
+    // The picker reports the whole list; save whichever skill was added,
+    // removed or had its level changed
+    const handleSkillsChange = async (newSkills: SkillLevel[]) => {
         if (!employeeProfile) {
             toast.error("Employee profile not found");
             return;
         }
 
+        const added = newSkills.filter(skill => !skillsList.some(s => s.name === skill.name));
+        const removed = skillsList.filter(skill => !newSkills.some(s => s.name === skill.name));
+        const changed = newSkills.filter(skill =>
+            skillsList.some(s => s.name === skill.name && s.level !== skill.level)
+        );
+
         try {
-            const { error } = await supabase
-                .from("employee_skills")
-                .insert({
-                    employee_id: employeeProfile.id,
-                    skill: currentSkill.trim(),
-                });
+            if (added.length > 0) {
+                const { error } = await supabase
+                    .from("employee_skills")
+                    .insert(added.map(skill => ({
+                        employee_id: employeeProfile.id,
+                        skill: skill.name,
+                        level: skill.level,
+                    })));
 
-            if (error) throw error;
+                if (error) throw error;
+            }
 
-            setSkillsList([...skillsList, currentSkill.trim()]);
-            setCurrentSkill("");
-            toast.success("Skill added!");
-        } catch (error) {
-            console.error("Error adding skill:", error);
-            toast.error("Failed to add skill");
-        }
-    };
+            if (removed.length > 0) {
+                const { error } = await supabase
+                    .from("employee_skills")
+                    .delete()
+                    .eq("employee_id", employeeProfile.id)
+                    .in("skill", removed.map(skill => skill.name));
 
-    const removeSkill = async (skillToRemove: string) => {
-        if (!employeeProfile) return;
+                if (error) throw error;
+            }
 
-        try {
-            const { error } = await supabase
-                .from("employee_skills")
-                .delete()
-                .eq("employee_id", employeeProfile.id)
-                .eq("skill", skillToRemove);
+            for (const skill of changed) {
+                const { error } = await supabase
+                    .from("employee_skills")
+                    .update({ level: skill.level })
+                    .eq("employee_id", employeeProfile.id)
+                    .eq("skill", skill.name);
 
-            if (error) throw error;
+                if (error) throw error;
+            }
 
-            setSkillsList(skillsList.filter(s => s !== skillToRemove));
-            toast.success("Skill removed!");
+            setSkillsList(newSkills);
+            if (added.length > 0) toast.success("Skill added!");
+            else if (removed.length > 0) toast.success("Skill removed!");
+            else if (changed.length > 0) toast.success("Skill level updated!");
         } catch (error) {
-            console.error("Error removing skill:", error);
-            toast.error("Failed to remove skill");
+            console.error("Error updating skills:", error);
+            toast.error("Failed to update skills");
         }
     };
 
@@ -548,39 +558,13 @@ const Profile = ({ userId, userRole }: ProfileProps) => {
                                 </CardDescription>
                             </CardHeader>
                             <CardContent className="space-y-4">
-                                <div className="flex gap-2">
-                                    <Input
-                                        placeholder="Add a skill (e.g., React, TypeScript)"
-                                        value={currentSkill}
-                                        onChange={(e) => setCurrentSkill(e.target.value)}
-                                        onKeyDown={(e) => {
-                                            if (e.key === "Enter") {
-                                                e.preventDefault();
-                                                addSkill();
-                                            }
-                                        }}
-                                    />
-                                    <Button type="button" onClick={addSkill} variant="outline">
-                                        Add
-                                    </Button>
-                                </div>
+                                <SkillPicker
+                                    value={skillsList}
+                                    onChange={handleSkillsChange}
+                                    placeholder="Add a skill (e.g., React, TypeScript)"
+                                />
 
-                                {skillsList.length > 0 ? (
-                                    <div className="flex flex-wrap gap-2 p-4 border rounded-lg bg-muted/30">
-                                        {skillsList.map((skill, index) => (
-                                            <Badge key={index} variant="secondary" className="text-sm py-1 px-3">
-                                                {skill}
-                                                <button
-                                                    type="button"
-                                                    onClick={() => removeSkill(skill)}
-                                                    className="ml-2 hover:text-destructive"
-                                                >
-                                                    <X className="h-3 w-3" />
-                                                </button>
-                                            </Badge>
-                                        ))}
-                                    </div>
-                                ) : (
+                                {skillsList.length === 0 && (
                                     <div className="text-center py-8 text-muted-foreground">
                                         <Award className="h-12 w-12 mx-auto mb-4 opacity-50" />
                                         <p>No skills added yet</p>
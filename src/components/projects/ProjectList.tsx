@@ -0,0 +1,148 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { AlertTriangle, FolderKanban, Plus, User } from "lucide-react";
+import ErrorBoundary from "@/components/ui/error-boundary";
+import { useAuthStore } from "@/stores/authStore";
+import { useProjectStore } from "@/stores/projectStore";
+import ProjectDialog from "./ProjectDialog";
+import ProjectPage from "./ProjectPage";
+
+interface ProjectListProps {
+  searchQuery?: string;
+}
+
+const ProjectList = ({ searchQuery = "" }: ProjectListProps) => {
+  const { user } = useAuthStore();
+  const {
+    projects,
+    loading,
+    selectedProjectId,
+    loadProjects,
+    setSelectedProjectId,
+    subscribeToProjectUpdates,
+    getProjectSummary,
+  } = useProjectStore();
+  const [showCreate, setShowCreate] = useState(false);
+
+  useEffect(() => {
+    loadProjects(true);
+    const unsubscribe = subscribeToProjectUpdates();
+    return unsubscribe;
+  }, [loadProjects, subscribeToProjectUpdates]);
+
+  if (selectedProjectId) {
+    return (
+      <ProjectPage
+        projectId={selectedProjectId}
+        userId={user?.id || ""}
+        onBack={() => setSelectedProjectId(null)}
+      />
+    );
+  }
+
+  const query = searchQuery.toLowerCase();
+  const filteredProjects = projects.filter(
+    (project) =>
+      !query ||
+      project.name.toLowerCase().includes(query) ||
+      project.description?.toLowerCase().includes(query) ||
+      project.owner?.full_name.toLowerCase().includes(query)
+  );
+
+  return (
+    <ErrorBoundary componentName="ProjectList">
+      <div className="space-y-4">
+        <div className="flex items-center justify-between gap-3">
+          <div className="flex items-center gap-3">
+            <h2 className="text-2xl font-bold">Projects</h2>
+            <Badge variant="secondary" className="text-sm">
+              {filteredProjects.length} / {projects.length}
+            </Badge>
+          </div>
+          <Button onClick={() => setShowCreate(true)} size="sm">
+            <Plus className="h-4 w-4 mr-2" />
+            New Project
+          </Button>
+        </div>
+
+        {!loading && filteredProjects.length === 0 ? (
+          <Card className="border-dashed">
+            <CardContent className="py-16 text-center">
+              <FolderKanban className="h-8 w-8 mx-auto mb-3 text-muted-foreground" aria-hidden="true" />
+              <p className="text-muted-foreground mb-4">
+                {projects.length === 0 ? "No projects yet" : "No projects match your search"}
+              </p>
+              {projects.length === 0 && (
+                <Button onClick={() => setShowCreate(true)} variant="outline" size="sm">
+                  <Plus className="h-4 w-4 mr-2" />
+                  Create Your First Project
+                </Button>
+              )}
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-2 xl:grid-cols-3 gap-4">
+            {filteredProjects.map((project) => {
+              const summary = getProjectSummary(project.id);
+              if (!summary) return null;
+
+              return (
+                <Card
+                  key={project.id}
+                  className="cursor-pointer hover:shadow-md transition-all hover:border-primary/50"
+                  onClick={() => setSelectedProjectId(project.id)}
+                >
+                  <CardHeader className="p-4 pb-3">
+                    <div className="flex items-start justify-between gap-2">
+                      <CardTitle className="text-base line-clamp-2">{project.name}</CardTitle>
+                      {summary.overdueTasks.length > 0 && (
+                        <Badge variant="outline" className="gap-1 border-orange-300 text-orange-700">
+                          <AlertTriangle className="h-3 w-3" aria-hidden="true" />
+                          {summary.overdueTasks.length} overdue
+                        </Badge>
+                      )}
+                    </div>
+                    <p className="text-xs text-muted-foreground flex items-center gap-1">
+                      <User className="h-3 w-3" aria-hidden="true" />
+                      {project.owner?.full_name || "No owner"}
+                    </p>
+                  </CardHeader>
+                  <CardContent className="p-4 pt-0 space-y-3">
+                    <div>
+                      <div className="flex items-center justify-between text-xs mb-1.5">
+                        <span className="text-muted-foreground">
+                          Progress • {summary.completedCount}/{summary.taskCount} tasks
+                        </span>
+                        <span className="font-semibold">{summary.progress}%</span>
+                      </div>
+                      <Progress value={summary.progress} className="h-1.5" />
+                    </div>
+                    <div>
+                      <div className="flex items-center justify-between text-xs mb-1.5">
+                        <span className="text-muted-foreground">Budget burned</span>
+                        <span className={`font-semibold ${summary.overBudget ? "text-red-600" : ""}`}>
+                          ${summary.burned.toFixed(2)}
+                          {summary.budget !== null && ` / $${summary.budget.toFixed(2)}`}
+                        </span>
+                      </div>
+                      {summary.burnedPercent !== null && (
+                        <Progress value={Math.min(summary.burnedPercent, 100)} className="h-1.5" />
+                      )}
+                    </div>
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+
+        <ProjectDialog open={showCreate} onClose={() => setShowCreate(false)} userId={user?.id || ""} />
+      </div>
+    </ErrorBoundary>
+  );
+};
+
+export default ProjectList;
@@ -0,0 +1,240 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { AlertTriangle, ArrowLeft, CalendarDays, DollarSign, ListTodo, Pencil, Target, Trash2, User } from "lucide-react";
+import { isTaskOverdue } from "@/lib/projects";
+import { useProjectStore } from "@/stores/projectStore";
+import { useUIStore } from "@/stores/uiStore";
+import ProjectDialog from "./ProjectDialog";
+
+interface ProjectPageProps {
+  projectId: string;
+  userId: string;
+  onBack: () => void;
+}
+
+const formatDate = (date: string | null) => (date ? new Date(date).toLocaleDateString() : null);
+
+/**
+ * One project: progress, budget burned from approved and paid payments, and
+ * the tasks that are past their deadline
+ */
+const ProjectPage = ({ projectId, userId, onBack }: ProjectPageProps) => {
+  const { projects, getProjectTasks, getProjectSummary, deleteProject } = useProjectStore();
+  const { setProjectFilter, setActiveView } = useUIStore();
+  const [showEdit, setShowEdit] = useState(false);
+  const [showDelete, setShowDelete] = useState(false);
+
+  const project = projects.find((p) => p.id === projectId);
+  const summary = getProjectSummary(projectId);
+
+  if (!project || !summary) {
+    return (
+      <div className="space-y-4">
+        <Button variant="ghost" size="sm" onClick={onBack}>
+          <ArrowLeft className="h-4 w-4 mr-2" aria-hidden="true" />
+          All projects
+        </Button>
+        <p className="text-muted-foreground">This project no longer exists.</p>
+      </div>
+    );
+  }
+
+  const tasks = getProjectTasks(projectId);
+  const startDate = formatDate(project.start_date);
+  const endDate = formatDate(project.end_date);
+
+  const handleViewTasks = () => {
+    setProjectFilter(projectId);
+    setActiveView("tasks");
+  };
+
+  const handleDelete = async () => {
+    const deleted = await deleteProject(projectId);
+    if (deleted) onBack();
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-3">
+        <div className="space-y-1">
+          <Button variant="ghost" size="sm" className="-ml-3" onClick={onBack}>
+            <ArrowLeft className="h-4 w-4 mr-2" aria-hidden="true" />
+            All projects
+          </Button>
+          <h2 className="text-2xl font-bold">{project.name}</h2>
+          {project.description && <p className="text-sm text-muted-foreground">{project.description}</p>}
+          <div className="flex flex-wrap items-center gap-4 text-sm text-muted-foreground">
+            <span className="flex items-center gap-1">
+              <User className="h-4 w-4" aria-hidden="true" />
+              {project.owner?.full_name || "No owner"}
+            </span>
+            {(startDate || endDate) && (
+              <span className="flex items-center gap-1">
+                <CalendarDays className="h-4 w-4" aria-hidden="true" />
+                {startDate || "…"} – {endDate || "…"}
+              </span>
+            )}
+          </div>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={handleViewTasks}>
+            <ListTodo className="h-4 w-4 mr-2" aria-hidden="true" />
+            View tasks
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => setShowEdit(true)}>
+            <Pencil className="h-4 w-4 mr-2" aria-hidden="true" />
+            Edit
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => setShowDelete(true)} aria-label="Delete project">
+            <Trash2 className="h-4 w-4" aria-hidden="true" />
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-3" aria-label="Project summary">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Progress</CardTitle>
+            <Target className="h-4 w-4 text-muted-foreground" aria-hidden="true" />
+          </CardHeader>
+          <CardContent className="space-y-2">
+            <div className="text-2xl font-bold">{summary.progress}%</div>
+            <Progress value={summary.progress} className="h-2" />
+            <p className="text-xs text-muted-foreground">
+              {summary.completedCount} of {summary.taskCount} tasks completed
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card className={summary.overBudget ? "border-red-300" : undefined}>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Budget Burned</CardTitle>
+            <DollarSign className="h-4 w-4 text-muted-foreground" aria-hidden="true" />
+          </CardHeader>
+          <CardContent className="space-y-2">
+            <div className="text-2xl font-bold">
+              ${summary.burned.toFixed(2)}
+              {summary.budget !== null && (
+                <span className="text-sm font-normal text-muted-foreground"> / ${summary.budget.toFixed(2)}</span>
+              )}
+            </div>
+            {summary.burnedPercent !== null && (
+              <Progress
+                value={Math.min(summary.burnedPercent, 100)}
+                className="h-2"
+                aria-label={`${summary.burnedPercent}% of budget burned`}
+              />
+            )}
+            <p className={`text-xs ${summary.overBudget ? "text-red-600 font-medium" : "text-muted-foreground"}`}>
+              {summary.remaining === null
+                ? "No budget set"
+                : summary.overBudget
+                  ? `Over budget by $${Math.abs(summary.remaining).toFixed(2)}`
+                  : `$${summary.remaining.toFixed(2)} remaining • $${summary.paid.toFixed(2)} paid`}
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card className={summary.overdueTasks.length > 0 ? "border-orange-300" : undefined}>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Overdue Tasks</CardTitle>
+            <AlertTriangle className="h-4 w-4 text-muted-foreground" aria-hidden="true" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{summary.overdueTasks.length}</div>
+            <p className="text-xs text-muted-foreground">Open tasks past their deadline</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      {summary.overdueTasks.length > 0 && (
+        <Card className="border-orange-200 bg-orange-50 dark:bg-orange-950/20">
+          <CardHeader>
+            <CardTitle className="text-base flex items-center gap-2">
+              <AlertTriangle className="h-4 w-4 text-orange-600" aria-hidden="true" />
+              Overdue
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ul className="space-y-2">
+              {summary.overdueTasks.map((task) => (
+                <li key={task.id} className="flex items-center justify-between gap-2 text-sm">
+                  <span className="truncate">{task.title}</span>
+                  <span className="text-red-600 text-xs whitespace-nowrap">
+                    Due {formatDate(task.deadline)}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Tasks</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {tasks.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              No tasks in this project yet. Pick this project when creating a task.
+            </p>
+          ) : (
+            <ul className="space-y-3">
+              {tasks.map((task) => (
+                <li key={task.id} className="space-y-1">
+                  <div className="flex items-center justify-between gap-2 text-sm">
+                    <span className="truncate font-medium">{task.title}</span>
+                    <div className="flex items-center gap-2">
+                      {isTaskOverdue(task) && (
+                        <Badge variant="destructive" className="text-xs">Overdue</Badge>
+                      )}
+                      <Badge variant="secondary" className="text-xs">{task.status}</Badge>
+                    </div>
+                  </div>
+                  <Progress
+                    value={task.status === "completed" ? 100 : task.progress ?? 0}
+                    className="h-1.5"
+                    aria-label={`${task.title} progress`}
+                  />
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+
+      <ProjectDialog open={showEdit} onClose={() => setShowEdit(false)} userId={userId} project={project} />
+
+      <AlertDialog open={showDelete} onOpenChange={setShowDelete}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete "{project.name}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Its {tasks.length} task(s) are kept but will no longer belong to a project.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default ProjectPage;
@@ -0,0 +1,138 @@
+import { useCallback, useEffect, useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { toast } from "sonner";
+import { ClipboardCheck } from "lucide-react";
+import ErrorBoundary from "@/components/ui/error-boundary";
+import { useAuthStore } from "@/stores/authStore";
+import TaskReviewPanel from "./TaskReviewPanel";
+
+interface ReviewQueueProps {
+  searchQuery?: string;
+}
+
+interface QueuedTask {
+  id: string;
+  title: string;
+  status: string;
+  review_status: string | null;
+  assigned_to: string | null;
+  deadline: string | null;
+  completed_at: string | null;
+}
+
+/**
+ * Completed tasks waiting for an admin or staff review, oldest first
+ */
+const ReviewQueue = ({ searchQuery = "" }: ReviewQueueProps) => {
+  const { user } = useAuthStore();
+  const [tasks, setTasks] = useState<QueuedTask[]>([]);
+  const [assignees, setAssignees] = useState<Map<string, string>>(new Map());
+  const [loading, setLoading] = useState(true);
+
+  const loadQueue = useCallback(async () => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from("tasks")
+        .select("id, title, status, review_status, assigned_to, deadline, completed_at")
+        .eq("status", "completed")
+        .eq("review_status", "pending")
+        .order("completed_at", { ascending: true });
+
+      if (error) throw error;
+      setTasks(data || []);
+
+      const assigneeIds = [...new Set((data || []).map((task) => task.assigned_to).filter(Boolean))];
+      if (assigneeIds.length > 0) {
+        const { data: profiles } = await supabase.from("profiles").select("id, full_name").in("id", assigneeIds);
+        setAssignees(new Map((profiles || []).map((profile) => [profile.id, profile.full_name])));
+      }
+    } catch (error) {
+      console.error("Error loading review queue:", error);
+      toast.error("Failed to load tasks awaiting review");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadQueue();
+
+    const channel = supabase
+      .channel("review-queue")
+      .on("postgres_changes", { event: "UPDATE", schema: "public", table: "tasks" }, (payload) => {
+        // Realtime only sends the new row, so reload whenever a task is (or leaves) completed
+        if (payload.new.status === "completed" || payload.new.review_status === "changes_requested") {
+          loadQueue();
+        }
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [loadQueue]);
+
+  const query = searchQuery.toLowerCase();
+  const filtered = tasks.filter(
+    (task) =>
+      !query ||
+      task.title.toLowerCase().includes(query) ||
+      (task.assigned_to && assignees.get(task.assigned_to)?.toLowerCase().includes(query))
+  );
+
+  return (
+    <ErrorBoundary componentName="ReviewQueue">
+      <div className="space-y-4">
+        <div className="flex items-center gap-3">
+          <h2 className="text-2xl font-bold">Reviews</h2>
+          <Badge variant="secondary" className="text-sm">
+            {filtered.length}
+          </Badge>
+        </div>
+
+        {!loading && filtered.length === 0 ? (
+          <Card className="border-dashed">
+            <CardContent className="py-16 text-center">
+              <ClipboardCheck className="h-8 w-8 mx-auto mb-3 text-muted-foreground" aria-hidden="true" />
+              <p className="text-muted-foreground">No completed tasks waiting for review</p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="grid grid-cols-1 xl:grid-cols-2 gap-4">
+            {filtered.map((task) => {
+              const late =
+                task.deadline && task.completed_at && new Date(task.completed_at) > new Date(task.deadline);
+
+              return (
+                <div key={task.id} className="space-y-2">
+                  <Card>
+                    <CardHeader className="p-4">
+                      <div className="flex items-start justify-between gap-2">
+                        <div>
+                          <CardTitle className="text-base">{task.title}</CardTitle>
+                          <p className="text-xs text-muted-foreground">
+                            {(task.assigned_to && assignees.get(task.assigned_to)) || "Unassigned"}
+                            {task.completed_at &&
+                              ` · completed ${formatDistanceToNow(new Date(task.completed_at), { addSuffix: true })}`}
+                          </p>
+                        </div>
+                        {late && <Badge variant="destructive">Late</Badge>}
+                      </div>
+                    </CardHeader>
+                  </Card>
+                  {user && <TaskReviewPanel task={task} userId={user.id} isAdmin onReviewed={loadQueue} />}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </ErrorBoundary>
+  );
+};
+
+export default ReviewQueue;
@@ -0,0 +1,203 @@
+import { useCallback, useEffect, useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { toast } from "sonner";
+import { CheckCircle, ClipboardCheck, RotateCcw, Star } from "lucide-react";
+import AIPaymentService from "@/lib/ai-payment-service";
+import {
+  MAX_QUALITY_RATING,
+  QUALITY_RATING_LABELS,
+  isAwaitingReview,
+} from "@shared/taskReview";
+
+interface TaskReviewPanelProps {
+  task: { id: string; status: string; review_status?: string | null };
+  userId: string;
+  /** Admins and staff review; everyone else sees the decisions */
+  isAdmin: boolean;
+  onReviewed?: () => void;
+}
+
+interface ReviewRow {
+  id: string;
+  decision: string;
+  rating: number | null;
+  comments: string | null;
+  created_at: string | null;
+  reviewer: { full_name: string } | null;
+}
+
+const RATINGS = Array.from({ length: MAX_QUALITY_RATING }, (_, index) => index + 1);
+
+const Stars = ({ rating }: { rating: number }) => (
+  <span className="inline-flex" aria-label={`${rating} out of ${MAX_QUALITY_RATING}`}>
+    {RATINGS.map((value) => (
+      <Star
+        key={value}
+        className={`h-3 w-3 ${value <= rating ? "fill-yellow-400 text-yellow-400" : "text-muted-foreground"}`}
+        aria-hidden="true"
+      />
+    ))}
+  </span>
+);
+
+/**
+ * Review of a completed task: approve it with a quality rating or send it
+ * back with comments. Also lists earlier review decisions.
+ */
+const TaskReviewPanel = ({ task, userId, isAdmin, onReviewed }: TaskReviewPanelProps) => {
+  const [reviews, setReviews] = useState<ReviewRow[]>([]);
+  const [rating, setRating] = useState(0);
+  const [comments, setComments] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+
+  const loadReviews = useCallback(async () => {
+    const { data, error } = await supabase
+      .from("task_reviews")
+      .select("id, decision, rating, comments, created_at, reviewer:profiles!task_reviews_reviewer_id_fkey(full_name)")
+      .eq("task_id", task.id)
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      console.error("Error loading task reviews:", error);
+      return;
+    }
+    setReviews((data || []) as ReviewRow[]);
+  }, [task.id]);
+
+  useEffect(() => {
+    loadReviews();
+  }, [loadReviews]);
+
+  const submitReview = async (decision: "approved" | "changes_requested") => {
+    setSubmitting(true);
+    try {
+      const { error } = await supabase.from("task_reviews").insert({
+        task_id: task.id,
+        reviewer_id: userId,
+        decision,
+        rating: decision === "approved" ? rating : null,
+        comments: comments.trim() || null,
+      });
+
+      if (error) throw error;
+
+      if (decision === "approved") {
+        // Suggest the payment now that the work is rated
+        await AIPaymentService.processTaskCompletion(task.id);
+        toast.success("Task approved. Payment suggestion updated.");
+      } else {
+        toast.success("Changes requested; the task is back in progress");
+      }
+
+      setRating(0);
+      setComments("");
+      await loadReviews();
+      onReviewed?.();
+    } catch (error) {
+      const message = (error as { message?: string })?.message;
+      toast.error(message || "Failed to review task");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const canReview = isAdmin && isAwaitingReview(task);
+  if (!canReview && reviews.length === 0 && task.review_status !== "pending") {
+    return null;
+  }
+
+  return (
+    <Card role="region" aria-label="Task review">
+      <CardContent className="pt-6 space-y-4">
+        <div className="flex items-center gap-2">
+          <ClipboardCheck className="h-4 w-4 text-muted-foreground" aria-hidden="true" />
+          <Label className="text-base font-semibold">Review</Label>
+          {task.review_status === "pending" && (
+            <span className="text-sm text-muted-foreground">Awaiting review</span>
+          )}
+        </div>
+
+        {canReview && (
+          <div className="space-y-3">
+            <div className="space-y-1">
+              <p className="text-sm">Quality rating</p>
+              <div className="flex items-center gap-1" role="radiogroup" aria-label="Quality rating">
+                {RATINGS.map((value) => (
+                  <button
+                    key={value}
+                    type="button"
+                    role="radio"
+                    aria-checked={rating === value}
+                    aria-label={`${value} – ${QUALITY_RATING_LABELS[value]}`}
+                    className="rounded p-0.5 focus:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+                    onClick={() => setRating(value)}
+                  >
+                    <Star
+                      className={`h-6 w-6 ${value <= rating ? "fill-yellow-400 text-yellow-400" : "text-muted-foreground"}`}
+                    />
+                  </button>
+                ))}
+                {rating > 0 && (
+                  <span className="ml-2 text-sm text-muted-foreground">{QUALITY_RATING_LABELS[rating]}</span>
+                )}
+              </div>
+            </div>
+
+            <Textarea
+              value={comments}
+              onChange={(e) => setComments(e.target.value)}
+              placeholder="Comments for the employee (required when requesting changes)"
+              rows={3}
+              maxLength={2000}
+              aria-label="Review comments"
+            />
+
+            <div className="flex justify-end gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => submitReview("changes_requested")}
+                disabled={submitting || !comments.trim()}
+              >
+                <RotateCcw className="h-4 w-4 mr-1" aria-hidden="true" />
+                Request changes
+              </Button>
+              <Button size="sm" onClick={() => submitReview("approved")} disabled={submitting || rating === 0}>
+                <CheckCircle className="h-4 w-4 mr-1" aria-hidden="true" />
+                Approve
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {reviews.length > 0 && (
+          <ul className="space-y-3">
+            {reviews.map((review) => (
+              <li key={review.id} className="border-t pt-3 first:border-t-0 first:pt-0 space-y-1">
+                <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                  <span className="font-medium text-foreground">
+                    {review.decision === "approved" ? "Approved" : "Changes requested"}
+                  </span>
+                  {review.rating && <Stars rating={review.rating} />}
+                  <span>
+                    by {review.reviewer?.full_name || "Unknown"}
+                    {review.created_at &&
+                      ` ${formatDistanceToNow(new Date(review.created_at), { addSuffix: true })}`}
+                  </span>
+                </div>
+                {review.comments && <p className="text-sm whitespace-pre-wrap">{review.comments}</p>}
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TaskReviewPanel;
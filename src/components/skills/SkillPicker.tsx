@@ -0,0 +1,174 @@
+import { useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, X } from "lucide-react";
+import { useSkillCatalog } from "@/hooks/use-skill-catalog";
+import {
+  DEFAULT_SKILL_LEVEL,
+  SKILL_LEVELS,
+  createSkillResolver,
+  searchSkills,
+  skillKey,
+  type SkillLevel,
+} from "@shared/skills";
+
+interface SkillPickerProps {
+  value: SkillLevel[];
+  onChange: (skills: SkillLevel[]) => void;
+  /** Shown next to each level selector, e.g. "Proficiency" or "Minimum level" */
+  levelLabel?: string;
+  /** Level given to newly added skills */
+  defaultLevel?: number;
+  placeholder?: string;
+  disabled?: boolean;
+  id?: string;
+}
+
+/**
+ * Autocomplete picker over the skills catalog. Typed names are resolved to
+ * their canonical skill (aliases and close misspellings included); names the
+ * catalog doesn't know are added as new skills when saved.
+ */
+const SkillPicker = ({
+  value,
+  onChange,
+  levelLabel = "Proficiency",
+  defaultLevel = DEFAULT_SKILL_LEVEL,
+  placeholder = "Add a skill...",
+  disabled = false,
+  id,
+}: SkillPickerProps) => {
+  const { catalog, loading } = useSkillCatalog();
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState("");
+
+  const resolveSkill = useMemo(() => createSkillResolver(catalog), [catalog]);
+  const selectedKeys = useMemo(() => new Set(value.map((skill) => skillKey(skill.name))), [value]);
+
+  const suggestions = useMemo(
+    () => searchSkills(catalog.filter((skill) => !selectedKeys.has(skillKey(skill.name))), query),
+    [catalog, selectedKeys, query]
+  );
+
+  const resolvedQuery = query.trim() ? resolveSkill(query) : "";
+  const canAddQuery =
+    resolvedQuery !== "" &&
+    !selectedKeys.has(skillKey(resolvedQuery)) &&
+    !suggestions.some((skill) => skillKey(skill.name) === skillKey(resolvedQuery));
+
+  const addSkill = (name: string) => {
+    const canonical = resolveSkill(name);
+    if (!canonical || selectedKeys.has(skillKey(canonical))) return;
+    onChange([...value, { name: canonical, level: defaultLevel }]);
+    setQuery("");
+  };
+
+  const setLevel = (name: string, level: number) => {
+    onChange(value.map((skill) => (skill.name === name ? { ...skill, level } : skill)));
+  };
+
+  const removeSkill = (name: string) => {
+    onChange(value.filter((skill) => skill.name !== name));
+  };
+
+  return (
+    <div className="space-y-2">
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button
+            id={id}
+            type="button"
+            variant="outline"
+            className="w-full justify-start font-normal text-muted-foreground"
+            disabled={disabled}
+          >
+            <Plus className="mr-2 h-4 w-4" aria-hidden="true" />
+            {placeholder}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="p-0 w-[--radix-popover-trigger-width]" align="start">
+          <Command shouldFilter={false}>
+            <CommandInput placeholder="Search skills..." value={query} onValueChange={setQuery} />
+            <CommandList>
+              <CommandEmpty>{loading ? "Loading skills..." : "No matching skills"}</CommandEmpty>
+              {canAddQuery && (
+                <CommandGroup>
+                  <CommandItem value={`add-${resolvedQuery}`} onSelect={() => addSkill(resolvedQuery)}>
+                    <Plus className="mr-2 h-4 w-4" aria-hidden="true" />
+                    Add "{resolvedQuery}"
+                  </CommandItem>
+                </CommandGroup>
+              )}
+              {suggestions.length > 0 && (
+                <CommandGroup heading="Skills">
+                  {suggestions.map((skill) => (
+                    <CommandItem key={skill.name} value={skill.name} onSelect={() => addSkill(skill.name)}>
+                      <span>{skill.name}</span>
+                      {skill.category && (
+                        <span className="ml-auto text-xs text-muted-foreground">{skill.category}</span>
+                      )}
+                    </CommandItem>
+                  ))}
+                </CommandGroup>
+              )}
+            </CommandList>
+          </Command>
+        </PopoverContent>
+      </Popover>
+
+      {value.length > 0 && (
+        <ul className="space-y-1" aria-label="Selected skills">
+          {value.map((skill) => (
+            <li key={skill.name} className="flex items-center gap-2">
+              <Badge variant="secondary" className="min-w-0 truncate">
+                {skill.name}
+              </Badge>
+              <div className="ml-auto flex items-center gap-1">
+                <span className="text-xs text-muted-foreground">{levelLabel}</span>
+                <Select
+                  value={String(skill.level)}
+                  onValueChange={(level) => setLevel(skill.name, Number(level))}
+                  disabled={disabled}
+                >
+                  <SelectTrigger className="h-7 w-[130px] text-xs" aria-label={`${levelLabel} for ${skill.name}`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {SKILL_LEVELS.map((level) => (
+                      <SelectItem key={level.value} value={String(level.value)}>
+                        {level.value} - {level.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  onClick={() => removeSkill(skill.name)}
+                  disabled={disabled}
+                  aria-label={`Remove ${skill.name}`}
+                >
+                  <X className="h-3 w-3" />
+                </Button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default SkillPicker;
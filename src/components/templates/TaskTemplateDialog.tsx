@@ -0,0 +1,542 @@
+import { useEffect, useMemo, useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { supabase } from "@/integrations/supabase/client";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { toast } from "sonner";
+import { CalendarClock } from "lucide-react";
+import SkillPicker from "@/components/skills/SkillPicker";
+import { DEFAULT_REQUIRED_LEVEL, type SkillLevel } from "@shared/skills";
+import {
+  WEEKDAYS,
+  describeRecurrence,
+  formatRecurrence,
+  nextOccurrence,
+  parseRecurrence,
+  upcomingOccurrences,
+} from "@shared/recurrence";
+import { taskTemplateSchema, type TaskTemplateFormData } from "@/lib/validation";
+import { useProjectStore } from "@/stores/projectStore";
+import type { Tables } from "@/integrations/supabase/types";
+
+export type TaskTemplate = Tables<"task_templates">;
+
+interface TaskTemplateDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onSaved: () => void;
+  userId: string;
+  /** Template to edit; a new template is created when omitted */
+  template?: TaskTemplate | null;
+}
+
+const PREVIEW_COUNT = 3;
+
+// <input type="datetime-local"> works in local time without a zone
+const toLocalInput = (iso: string | null | undefined) => {
+  if (!iso) return "";
+  const date = new Date(iso);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+const ruleFromForm = (data: Pick<TaskTemplateFormData, "frequency" | "interval" | "byDay" | "byMonthDay">) =>
+  formatRecurrence({
+    freq: data.frequency,
+    interval: Number(data.interval) || 1,
+    byDay: data.frequency === "WEEKLY" ? data.byDay : [],
+    byMonthDay: data.frequency === "MONTHLY" && data.byMonthDay !== "start" ? Number(data.byMonthDay) : null,
+  });
+
+const formFromTemplate = (template?: TaskTemplate | null): TaskTemplateFormData => {
+  const recurrence = template ? parseRecurrence(template.recurrence) : null;
+
+  return {
+    title: template?.title || "",
+    description: template?.description || "",
+    priority: (template?.priority as TaskTemplateFormData["priority"]) || "medium",
+    requiredSkills: Array.isArray(template?.required_skills)
+      ? (template.required_skills as unknown as SkillLevel[])
+      : [],
+    estimatedHours: template?.estimated_hours ? String(template.estimated_hours) : "",
+    complexityMultiplier: String(template?.complexity_multiplier ?? 1),
+    defaultAssignee: template?.default_assignee || "none",
+    projectId: template?.project_id || "none",
+    deadlineOffsetDays: String(template?.deadline_offset_days ?? 7),
+    frequency: recurrence?.freq || "WEEKLY",
+    interval: String(recurrence?.interval ?? 1),
+    byDay: recurrence?.byDay || [],
+    byMonthDay: recurrence?.byMonthDay ? String(recurrence.byMonthDay) : "start",
+    startsAt: toLocalInput(template?.starts_at),
+    endsAt: toLocalInput(template?.ends_at),
+  };
+};
+
+const TaskTemplateDialog = ({ open, onClose, onSaved, userId, template }: TaskTemplateDialogProps) => {
+  const { projects, loadProjects } = useProjectStore();
+  const [employees, setEmployees] = useState<{ id: string; full_name: string }[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  const form = useForm<TaskTemplateFormData>({
+    resolver: zodResolver(taskTemplateSchema),
+    defaultValues: formFromTemplate(null),
+  });
+
+  useEffect(() => {
+    if (!open) return;
+
+    form.reset(formFromTemplate(template));
+    loadProjects();
+
+    const loadEmployees = async () => {
+      const { data: employeeData, error: empError } = await supabase
+        .from("employee_profiles")
+        .select("user_id");
+
+      if (empError) {
+        console.error("Error loading employees:", empError);
+        return;
+      }
+
+      const { data, error } = await supabase
+        .from("profiles")
+        .select("id, full_name")
+        .in("id", (employeeData || []).map((employee) => employee.user_id))
+        .order("full_name");
+
+      if (error) {
+        console.error("Error loading employees:", error);
+        return;
+      }
+      setEmployees(data || []);
+    };
+    loadEmployees();
+  }, [open, template, form, loadProjects]);
+
+  const frequency = form.watch("frequency");
+  const interval = form.watch("interval");
+  const byDay = form.watch("byDay");
+  const byMonthDay = form.watch("byMonthDay");
+  const startsAt = form.watch("startsAt");
+  const endsAt = form.watch("endsAt");
+
+  // Live summary and the next few occurrences of the rule being edited
+  const preview = useMemo(() => {
+    if (!startsAt) return null;
+    try {
+      const rule = ruleFromForm({ frequency, interval, byDay, byMonthDay });
+      const until = endsAt ? new Date(endsAt) : null;
+      return {
+        description: describeRecurrence(rule),
+        occurrences: upcomingOccurrences(rule, new Date(startsAt), PREVIEW_COUNT, new Date(), until),
+      };
+    } catch {
+      return null;
+    }
+  }, [frequency, interval, byDay, byMonthDay, startsAt, endsAt]);
+
+  const handleSubmit = async (data: TaskTemplateFormData) => {
+    setSaving(true);
+    try {
+      const recurrence = ruleFromForm(data);
+      const start = new Date(data.startsAt);
+      const until = data.endsAt ? new Date(data.endsAt) : null;
+      // Occurrences before now are never back-filled
+      const nextRun = nextOccurrence(recurrence, start, new Date(), until);
+
+      if (!nextRun) {
+        toast.error("This schedule has no upcoming occurrences");
+        return;
+      }
+
+      const values = {
+        title: data.title.trim(),
+        description: data.description,
+        priority: data.priority,
+        required_skills: data.requiredSkills,
+        estimated_hours: data.estimatedHours ? Number(data.estimatedHours) : null,
+        complexity_multiplier: Number(data.complexityMultiplier),
+        default_assignee: data.defaultAssignee === "none" ? null : data.defaultAssignee,
+        project_id: data.projectId === "none" ? null : data.projectId,
+        deadline_offset_days: Number(data.deadlineOffsetDays),
+        recurrence,
+        starts_at: start.toISOString(),
+        ends_at: until ? until.toISOString() : null,
+        next_run_at: nextRun.toISOString(),
+        is_active: template ? template.is_active : true,
+        // Tasks created from the template are created on behalf of whoever saved it last
+        created_by: userId,
+      };
+
+      const { error } = template
+        ? await supabase.from("task_templates").update(values).eq("id", template.id)
+        : await supabase.from("task_templates").insert(values);
+
+      if (error) throw error;
+
+      toast.success(template ? "Template updated" : "Template created");
+      onSaved();
+      onClose();
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to save template";
+      toast.error(errorMessage);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{template ? "Edit Task Template" : "New Task Template"}</DialogTitle>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="title"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Title *</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Weekly dependency updates" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="description"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Description *</FormLabel>
+                  <FormControl>
+                    <Textarea rows={3} placeholder="What each task involves" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="requiredSkills"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Required Skills</FormLabel>
+                  <FormControl>
+                    <SkillPicker
+                      value={field.value as SkillLevel[]}
+                      onChange={field.onChange}
+                      levelLabel="Min level"
+                      defaultLevel={DEFAULT_REQUIRED_LEVEL}
+                      placeholder="Add a required skill, e.g. React"
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-3 gap-4">
+              <FormField
+                control={form.control}
+                name="priority"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Priority</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="low">Low</SelectItem>
+                        <SelectItem value="medium">Medium</SelectItem>
+                        <SelectItem value="high">High</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="estimatedHours"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Estimated hours</FormLabel>
+                    <FormControl>
+                      <Input type="number" min="0" step="0.5" placeholder="Not set" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="complexityMultiplier"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Complexity</FormLabel>
+                    <FormControl>
+                      <Input type="number" min="0.5" max="3" step="0.1" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="grid grid-cols-3 gap-4">
+              <FormField
+                control={form.control}
+                name="defaultAssignee"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Default assignee</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="none">Assign manually</SelectItem>
+                        {employees.map((employee) => (
+                          <SelectItem key={employee.id} value={employee.id}>
+                            {employee.full_name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="projectId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Project</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="none">No project</SelectItem>
+                        {projects.map((project) => (
+                          <SelectItem key={project.id} value={project.id}>
+                            {project.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="deadlineOffsetDays"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Due after (days)</FormLabel>
+                    <FormControl>
+                      <Input type="number" min="0" max="365" step="1" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="rounded-lg border p-4 space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="frequency"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Repeats</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="DAILY">Daily</SelectItem>
+                          <SelectItem value="WEEKLY">Weekly</SelectItem>
+                          <SelectItem value="MONTHLY">Monthly</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="interval"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>
+                        Every ({frequency === "DAILY" ? "days" : frequency === "WEEKLY" ? "weeks" : "months"})
+                      </FormLabel>
+                      <FormControl>
+                        <Input type="number" min="1" max="365" step="1" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              {frequency === "WEEKLY" && (
+                <FormField
+                  control={form.control}
+                  name="byDay"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>On</FormLabel>
+                      <FormControl>
+                        <ToggleGroup
+                          type="multiple"
+                          variant="outline"
+                          value={field.value}
+                          onValueChange={field.onChange}
+                          className="justify-start flex-wrap"
+                        >
+                          {WEEKDAYS.map((day) => (
+                            <ToggleGroupItem key={day.code} value={day.code} aria-label={day.label}>
+                              {day.label.slice(0, 3)}
+                            </ToggleGroupItem>
+                          ))}
+                        </ToggleGroup>
+                      </FormControl>
+                      <FormDescription>Leave empty to repeat on the start date's weekday</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+
+              {frequency === "MONTHLY" && (
+                <FormField
+                  control={form.control}
+                  name="byMonthDay"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>On day</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="start">Same day as the start</SelectItem>
+                          {Array.from({ length: 31 }, (_, i) => (
+                            <SelectItem key={i + 1} value={String(i + 1)}>
+                              Day {i + 1}
+                            </SelectItem>
+                          ))}
+                          <SelectItem value="-1">Last day of the month</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <FormDescription>Months without that day are skipped</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="startsAt"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Starts *</FormLabel>
+                      <FormControl>
+                        <Input type="datetime-local" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="endsAt"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Ends</FormLabel>
+                      <FormControl>
+                        <Input type="datetime-local" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              {preview && (
+                <div className="text-sm space-y-1" aria-live="polite">
+                  <p className="font-medium flex items-center gap-2">
+                    <CalendarClock className="h-4 w-4 text-muted-foreground" aria-hidden="true" />
+                    {preview.description}
+                  </p>
+                  {preview.occurrences.length > 0 ? (
+                    <p className="text-muted-foreground">
+                      Next: {preview.occurrences.map((date) => date.toLocaleString()).join(" • ")}
+                    </p>
+                  ) : (
+                    <p className="text-muted-foreground">No upcoming occurrences</p>
+                  )}
+                </div>
+              )}
+            </div>
+
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" onClick={onClose} disabled={saving}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saving}>
+                {saving ? "Saving..." : template ? "Save Changes" : "Create Template"}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default TaskTemplateDialog;
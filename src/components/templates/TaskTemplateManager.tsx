@@ -0,0 +1,252 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { toast } from "sonner";
+import { CalendarClock, Pencil, Plus, Repeat, Trash2, User } from "lucide-react";
+import ErrorBoundary from "@/components/ui/error-boundary";
+import { useAuthStore } from "@/stores/authStore";
+import { describeRecurrence, nextOccurrence } from "@shared/recurrence";
+import TaskTemplateDialog, { type TaskTemplate } from "./TaskTemplateDialog";
+
+interface TaskTemplateManagerProps {
+  searchQuery?: string;
+}
+
+type TemplateRow = TaskTemplate & {
+  assignee: { full_name: string } | null;
+  project: { name: string } | null;
+};
+
+const safeDescribe = (rule: string) => {
+  try {
+    return describeRecurrence(rule);
+  } catch {
+    return rule;
+  }
+};
+
+/**
+ * Admin list of recurring task templates. The API server's task-templates job
+ * turns each due occurrence into a task.
+ */
+const TaskTemplateManager = ({ searchQuery = "" }: TaskTemplateManagerProps) => {
+  const { user } = useAuthStore();
+  const [templates, setTemplates] = useState<TemplateRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editing, setEditing] = useState<TaskTemplate | null>(null);
+  const [showDialog, setShowDialog] = useState(false);
+  const [deleting, setDeleting] = useState<TaskTemplate | null>(null);
+
+  const loadTemplates = useCallback(async () => {
+    const { data, error } = await supabase
+      .from("task_templates")
+      .select("*, assignee:profiles!task_templates_default_assignee_fkey(full_name), project:projects(name)")
+      .order("title");
+
+    if (error) {
+      console.error("Error loading task templates:", error);
+      toast.error("Failed to load task templates");
+    } else {
+      setTemplates((data || []) as TemplateRow[]);
+    }
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    loadTemplates();
+  }, [loadTemplates]);
+
+  const handleToggleActive = async (template: TaskTemplate, isActive: boolean) => {
+    const updates: { is_active: boolean; next_run_at?: string; created_by?: string } = { is_active: isActive };
+
+    if (isActive) {
+      // Resume from now; occurrences missed while paused are not back-filled
+      const nextRun = nextOccurrence(
+        template.recurrence,
+        new Date(template.starts_at),
+        new Date(),
+        template.ends_at ? new Date(template.ends_at) : null
+      );
+      if (!nextRun) {
+        toast.error("This schedule has no upcoming occurrences");
+        return;
+      }
+      updates.next_run_at = nextRun.toISOString();
+      updates.created_by = user?.id;
+    }
+
+    const { error } = await supabase.from("task_templates").update(updates).eq("id", template.id);
+
+    if (error) {
+      toast.error(error.message);
+      return;
+    }
+    toast.success(isActive ? "Template resumed" : "Template paused");
+    loadTemplates();
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) return;
+
+    const { error } = await supabase.from("task_templates").delete().eq("id", deleting.id);
+
+    if (error) {
+      toast.error(error.message);
+    } else {
+      toast.success("Template deleted");
+      loadTemplates();
+    }
+    setDeleting(null);
+  };
+
+  const query = searchQuery.toLowerCase();
+  const filteredTemplates = templates.filter(
+    (template) =>
+      !query ||
+      template.title.toLowerCase().includes(query) ||
+      template.description.toLowerCase().includes(query) ||
+      template.assignee?.full_name.toLowerCase().includes(query)
+  );
+
+  const openDialog = (template: TaskTemplate | null) => {
+    setEditing(template);
+    setShowDialog(true);
+  };
+
+  return (
+    <ErrorBoundary componentName="TaskTemplateManager">
+      <div className="space-y-4">
+        <div className="flex items-center justify-between gap-3">
+          <div className="flex items-center gap-3">
+            <h2 className="text-2xl font-bold">Task Templates</h2>
+            <Badge variant="secondary" className="text-sm">
+              {filteredTemplates.length} / {templates.length}
+            </Badge>
+          </div>
+          <Button onClick={() => openDialog(null)} size="sm">
+            <Plus className="h-4 w-4 mr-2" />
+            New Template
+          </Button>
+        </div>
+
+        {!loading && filteredTemplates.length === 0 ? (
+          <Card className="border-dashed">
+            <CardContent className="py-16 text-center">
+              <Repeat className="h-8 w-8 mx-auto mb-3 text-muted-foreground" aria-hidden="true" />
+              <p className="text-muted-foreground mb-4">
+                {templates.length === 0 ? "No recurring tasks yet" : "No templates match your search"}
+              </p>
+              {templates.length === 0 && (
+                <Button onClick={() => openDialog(null)} variant="outline" size="sm">
+                  <Plus className="h-4 w-4 mr-2" />
+                  Create Your First Template
+                </Button>
+              )}
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-2 xl:grid-cols-3 gap-4">
+            {filteredTemplates.map((template) => (
+              <Card key={template.id} className={template.is_active ? "" : "opacity-70"}>
+                <CardHeader className="p-4 pb-3">
+                  <div className="flex items-start justify-between gap-2">
+                    <CardTitle className="text-base line-clamp-2">{template.title}</CardTitle>
+                    <Switch
+                      checked={template.is_active}
+                      onCheckedChange={(checked) => handleToggleActive(template, checked)}
+                      aria-label={`${template.is_active ? "Pause" : "Resume"} "${template.title}"`}
+                    />
+                  </div>
+                  <p className="text-xs text-muted-foreground flex items-center gap-1">
+                    <Repeat className="h-3 w-3" aria-hidden="true" />
+                    {safeDescribe(template.recurrence)}
+                  </p>
+                </CardHeader>
+                <CardContent className="p-4 pt-0 space-y-3">
+                  <div className="space-y-1 text-xs text-muted-foreground">
+                    <p className="flex items-center gap-1">
+                      <CalendarClock className="h-3 w-3" aria-hidden="true" />
+                      {template.is_active && template.next_run_at
+                        ? `Next: ${new Date(template.next_run_at).toLocaleString()}`
+                        : template.next_run_at
+                          ? "Paused"
+                          : "Schedule ended"}
+                    </p>
+                    <p className="flex items-center gap-1">
+                      <User className="h-3 w-3" aria-hidden="true" />
+                      {template.assignee?.full_name || "Assigned manually"}
+                      {template.project && ` • ${template.project.name}`}
+                    </p>
+                  </div>
+                  <div className="flex flex-wrap gap-1">
+                    <Badge variant="outline" className="capitalize">{template.priority}</Badge>
+                    <Badge variant="outline">Due after {template.deadline_offset_days}d</Badge>
+                    {template.estimated_hours !== null && (
+                      <Badge variant="outline">{template.estimated_hours}h</Badge>
+                    )}
+                  </div>
+                  <div className="flex justify-end gap-1">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => openDialog(template)}
+                      aria-label={`Edit "${template.title}"`}
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setDeleting(template)}
+                      aria-label={`Delete "${template.title}"`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+
+        <TaskTemplateDialog
+          open={showDialog}
+          onClose={() => setShowDialog(false)}
+          onSaved={loadTemplates}
+          userId={user?.id || ""}
+          template={editing}
+        />
+
+        <AlertDialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Delete "{deleting?.title}"?</AlertDialogTitle>
+              <AlertDialogDescription>
+                No further tasks will be created from it. Tasks it already created are kept.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </div>
+    </ErrorBoundary>
+  );
+};
+
+export default TaskTemplateManager;
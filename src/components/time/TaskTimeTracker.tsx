@@ -0,0 +1,345 @@
+import { useCallback, useEffect, useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { toast } from "sonner";
+import { Clock, Pencil, Play, Plus, Square, Timer, Trash2 } from "lucide-react";
+import {
+  LOCKED_TIMESHEET_STATUSES,
+  entryMinutes,
+  formatMinutes,
+  isRunning,
+  toDateKey,
+  weekStart,
+  type TimeEntry,
+} from "@/lib/timesheets";
+import { timeEntrySchema, type TimeEntryFormData } from "@/lib/validation";
+
+interface TaskTimeTrackerProps {
+  task: {
+    id: string;
+    status: string;
+    assigned_to: string | null;
+  };
+  userId: string;
+  isAdmin: boolean;
+}
+
+type Entry = TimeEntry & { user_id: string; profile?: { full_name: string } | null };
+
+const TIMER_STATUSES = ["accepted", "ongoing"];
+const LOGGABLE_STATUSES = ["accepted", "ongoing", "completed"];
+
+const formatElapsed = (seconds: number) => {
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = seconds % 60;
+  return `${h}:${String(m).padStart(2, "0")}:${String(s).padStart(2, "0")}`;
+};
+
+/**
+ * Timer and manual time entries for a task. Assignees track their own time;
+ * admins and staff see everyone's entries and the approved total.
+ */
+const TaskTimeTracker = ({ task, userId, isAdmin }: TaskTimeTrackerProps) => {
+  const [entries, setEntries] = useState<Entry[]>([]);
+  const [lockedWeeks, setLockedWeeks] = useState<Set<string>>(new Set());
+  const [approvedHours, setApprovedHours] = useState(0);
+  const [otherTimer, setOtherTimer] = useState<{ id: string; task_id: string } | null>(null);
+  const [now, setNow] = useState(() => new Date());
+  const [showManual, setShowManual] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const isAssignee = task.assigned_to === userId;
+  const canLog = isAssignee && LOGGABLE_STATUSES.includes(task.status);
+  const canTime = isAssignee && TIMER_STATUSES.includes(task.status);
+
+  const form = useForm<TimeEntryFormData>({
+    resolver: zodResolver(timeEntrySchema),
+    defaultValues: { workDate: toDateKey(new Date()), hours: 1, note: "" },
+  });
+
+  const loadEntries = useCallback(async () => {
+    const { data, error } = await supabase
+      .from("time_entries")
+      .select("id, task_id, user_id, source, work_date, started_at, ended_at, minutes, note, profile:profiles(full_name)")
+      .eq("task_id", task.id)
+      .order("work_date", { ascending: false })
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      console.error("Error loading time entries:", error);
+      return;
+    }
+    setEntries((data || []) as Entry[]);
+
+    // Weeks already submitted or approved can't be edited
+    const { data: sheets } = await supabase
+      .from("timesheets")
+      .select("user_id, week_start, status")
+      .in("status", LOCKED_TIMESHEET_STATUSES)
+      .in("user_id", [...new Set((data || []).map((entry) => entry.user_id).concat(userId))]);
+    setLockedWeeks(new Set((sheets || []).map((sheet) => `${sheet.user_id}:${sheet.week_start}`)));
+
+    const { data: approved } = await supabase.rpc("approved_task_hours", { _task_id: task.id });
+    setApprovedHours(Number(approved) || 0);
+
+    // Only one timer runs at a time; starting here stops the other one
+    const { data: running } = await supabase
+      .from("time_entries")
+      .select("id, task_id")
+      .eq("user_id", userId)
+      .eq("source", "timer")
+      .is("ended_at", null)
+      .neq("task_id", task.id)
+      .maybeSingle();
+    setOtherTimer(running);
+  }, [task.id, userId]);
+
+  useEffect(() => {
+    loadEntries();
+  }, [loadEntries]);
+
+  const runningEntry = entries.find((entry) => entry.user_id === userId && isRunning(entry));
+
+  // Tick the running timer
+  useEffect(() => {
+    if (!runningEntry) return;
+    const timer = setInterval(() => setNow(new Date()), 1000);
+    return () => clearInterval(timer);
+  }, [runningEntry]);
+
+  const isLocked = (entry: Entry) => lockedWeeks.has(`${entry.user_id}:${weekStart(entry.work_date)}`);
+
+  const runChange = async (change: () => PromiseLike<{ error: { message: string } | null }>, success?: string) => {
+    setSaving(true);
+    try {
+      const { error } = await change();
+      if (error) throw new Error(error.message);
+      if (success) toast.success(success);
+      await loadEntries();
+      return true;
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to update time entries");
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleStart = async () => {
+    if (otherTimer) {
+      const { error } = await supabase
+        .from("time_entries")
+        .update({ ended_at: new Date().toISOString() })
+        .eq("id", otherTimer.id);
+      if (error) {
+        toast.error(error.message);
+        return;
+      }
+    }
+
+    const startedAt = new Date();
+    await runChange(
+      () =>
+        supabase.from("time_entries").insert({
+          task_id: task.id,
+          user_id: userId,
+          source: "timer",
+          started_at: startedAt.toISOString(),
+          work_date: toDateKey(startedAt),
+        }),
+      otherTimer ? "Timer moved to this task" : "Timer started"
+    );
+  };
+
+  const handleStop = async () => {
+    if (!runningEntry) return;
+    await runChange(
+      () =>
+        supabase
+          .from("time_entries")
+          .update({ ended_at: new Date().toISOString() })
+          .eq("id", runningEntry.id),
+      "Time logged"
+    );
+  };
+
+  const handleLogManual = async (data: TimeEntryFormData) => {
+    const saved = await runChange(
+      () =>
+        supabase.from("time_entries").insert({
+          task_id: task.id,
+          user_id: userId,
+          source: "manual",
+          work_date: data.workDate,
+          minutes: Math.round(data.hours * 60),
+          note: data.note?.trim() || null,
+        }),
+      "Time logged"
+    );
+
+    if (saved) {
+      form.reset({ workDate: toDateKey(new Date()), hours: 1, note: "" });
+      setShowManual(false);
+    }
+  };
+
+  const handleDelete = (entry: Entry) =>
+    runChange(() => supabase.from("time_entries").delete().eq("id", entry.id), "Time entry deleted");
+
+  const totalMinutes = entries.reduce((sum, entry) => sum + entryMinutes(entry, now), 0);
+
+  // Nothing to show to viewers of a task nobody has tracked time on
+  if (!canLog && !isAdmin && entries.length === 0) return null;
+
+  return (
+    <Card role="region" aria-label="Time tracking">
+      <CardContent className="pt-6 space-y-4">
+        <div className="flex items-center justify-between gap-2 flex-wrap">
+          <div className="flex items-center gap-2">
+            <Clock className="h-4 w-4 text-muted-foreground" aria-hidden="true" />
+            <Label className="text-base font-semibold">Time</Label>
+            <span className="text-sm text-muted-foreground">{formatMinutes(totalMinutes)} logged</span>
+            {approvedHours > 0 && (
+              <Badge variant="outline" className="text-xs">
+                {approvedHours}h approved
+              </Badge>
+            )}
+          </div>
+
+          {canLog && (
+            <div className="flex items-center gap-2">
+              {runningEntry ? (
+                <Button size="sm" variant="destructive" onClick={handleStop} disabled={saving}>
+                  <Square className="h-4 w-4 mr-1" aria-hidden="true" />
+                  Stop {formatElapsed(Math.max(0, Math.floor((now.getTime() - new Date(runningEntry.started_at!).getTime()) / 1000)))}
+                </Button>
+              ) : (
+                canTime && (
+                  <Button size="sm" onClick={handleStart} disabled={saving}>
+                    <Play className="h-4 w-4 mr-1" aria-hidden="true" />
+                    Start timer
+                  </Button>
+                )
+              )}
+              <Button size="sm" variant="outline" onClick={() => setShowManual((show) => !show)}>
+                <Plus className="h-4 w-4 mr-1" aria-hidden="true" />
+                Log time
+              </Button>
+            </div>
+          )}
+        </div>
+
+        {otherTimer && canTime && !runningEntry && (
+          <p className="text-xs text-muted-foreground">
+            A timer is running on another task; starting one here stops it.
+          </p>
+        )}
+
+        {showManual && canLog && (
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(handleLogManual)} className="grid grid-cols-1 sm:grid-cols-4 gap-3 items-end">
+              <FormField
+                control={form.control}
+                name="workDate"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Date</FormLabel>
+                    <FormControl>
+                      <Input type="date" max={toDateKey(new Date())} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="hours"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Hours</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min="0.25"
+                        max="24"
+                        step="0.25"
+                        value={field.value || ""}
+                        onChange={(e) => field.onChange(e.target.value ? parseFloat(e.target.value) : 0)}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="note"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Note</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Optional" maxLength={500} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <Button type="submit" disabled={saving}>
+                Save entry
+              </Button>
+            </form>
+          </Form>
+        )}
+
+        {entries.length > 0 && (
+          <ul className="space-y-1 text-sm max-h-56 overflow-y-auto">
+            {entries.map((entry) => (
+              <li key={entry.id} className="group flex items-center gap-2 min-h-8">
+                {entry.source === "timer" ? (
+                  <Timer className="h-3 w-3 text-muted-foreground" aria-label="Timer" />
+                ) : (
+                  <Pencil className="h-3 w-3 text-muted-foreground" aria-label="Manual entry" />
+                )}
+                <span className="w-24 text-muted-foreground">{new Date(`${entry.work_date}T00:00`).toLocaleDateString()}</span>
+                <span className="w-20 font-medium">
+                  {isRunning(entry) ? "Running" : formatMinutes(entryMinutes(entry, now))}
+                </span>
+                {isAdmin && entry.user_id !== userId && (
+                  <span className="text-muted-foreground">{entry.profile?.full_name}</span>
+                )}
+                <span className="flex-1 truncate text-muted-foreground">{entry.note}</span>
+                {isLocked(entry) ? (
+                  <Badge variant="secondary" className="text-xs">Submitted</Badge>
+                ) : (
+                  entry.user_id === userId &&
+                  !isRunning(entry) && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7 opacity-0 group-hover:opacity-100 focus-visible:opacity-100"
+                      onClick={() => handleDelete(entry)}
+                      disabled={saving}
+                      aria-label="Delete time entry"
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  )
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TaskTimeTracker;
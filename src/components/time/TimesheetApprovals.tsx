@@ -0,0 +1,265 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { toast } from "sonner";
+import { CheckCircle, Clock, XCircle } from "lucide-react";
+import ErrorBoundary from "@/components/ui/error-boundary";
+import { addDays, formatMinutes, summarizeWeek, type TimeEntry } from "@/lib/timesheets";
+
+interface TimesheetApprovalsProps {
+  searchQuery?: string;
+}
+
+interface TimesheetRow {
+  id: string;
+  user_id: string;
+  week_start: string;
+  status: string;
+  submitted_at: string | null;
+  reviewed_at: string | null;
+  review_note: string | null;
+  employee: { full_name: string } | null;
+}
+
+type EntryRow = TimeEntry & { user_id: string };
+
+const weekLabel = (week: string) =>
+  `${new Date(`${week}T00:00`).toLocaleDateString()} – ${new Date(`${addDays(week, 6)}T00:00`).toLocaleDateString()}`;
+
+/**
+ * Admin and staff review of submitted weekly timesheets. Approved hours are
+ * what payments are calculated from.
+ */
+const TimesheetApprovals = ({ searchQuery = "" }: TimesheetApprovalsProps) => {
+  const [statusFilter, setStatusFilter] = useState("submitted");
+  const [timesheets, setTimesheets] = useState<TimesheetRow[]>([]);
+  const [entries, setEntries] = useState<EntryRow[]>([]);
+  const [taskTitles, setTaskTitles] = useState<Map<string, string>>(new Map());
+  const [loading, setLoading] = useState(true);
+  const [reviewing, setReviewing] = useState<string | null>(null);
+  const [rejecting, setRejecting] = useState<TimesheetRow | null>(null);
+  const [rejectNote, setRejectNote] = useState("");
+
+  const loadTimesheets = useCallback(async () => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from("timesheets")
+        .select("id, user_id, week_start, status, submitted_at, reviewed_at, review_note, employee:profiles!timesheets_user_id_fkey(full_name)")
+        .eq("status", statusFilter)
+        .order("week_start", { ascending: false })
+        .limit(100);
+
+      if (error) throw error;
+      const rows = (data || []) as TimesheetRow[];
+      setTimesheets(rows);
+
+      if (rows.length === 0) {
+        setEntries([]);
+        return;
+      }
+
+      const weeks = rows.map((row) => row.week_start).sort();
+      const { data: entryData, error: entriesError } = await supabase
+        .from("time_entries")
+        .select("id, task_id, user_id, work_date, started_at, ended_at, minutes")
+        .in("user_id", [...new Set(rows.map((row) => row.user_id))])
+        .gte("work_date", weeks[0])
+        .lte("work_date", addDays(weeks[weeks.length - 1], 6));
+
+      if (entriesError) throw entriesError;
+      setEntries(entryData || []);
+
+      const taskIds = [...new Set((entryData || []).map((entry) => entry.task_id))];
+      if (taskIds.length > 0) {
+        const { data: tasks } = await supabase.from("tasks").select("id, title").in("id", taskIds);
+        setTaskTitles(new Map((tasks || []).map((task) => [task.id, task.title])));
+      }
+    } catch (error) {
+      console.error("Error loading timesheets:", error);
+      toast.error("Failed to load timesheets");
+    } finally {
+      setLoading(false);
+    }
+  }, [statusFilter]);
+
+  useEffect(() => {
+    loadTimesheets();
+
+    const channel = supabase
+      .channel("timesheet-approvals")
+      .on("postgres_changes", { event: "*", schema: "public", table: "timesheets" }, () => loadTimesheets())
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [loadTimesheets]);
+
+  const review = async (timesheet: TimesheetRow, status: "approved" | "rejected", note?: string) => {
+    setReviewing(timesheet.id);
+    try {
+      const { error } = await supabase
+        .from("timesheets")
+        .update({ status, review_note: note?.trim() || null })
+        .eq("id", timesheet.id);
+
+      if (error) throw error;
+      toast.success(status === "approved" ? "Timesheet approved" : "Changes requested");
+      await loadTimesheets();
+    } catch (error) {
+      const message = (error as { message?: string })?.message;
+      toast.error(message || "Failed to review timesheet");
+    } finally {
+      setReviewing(null);
+    }
+  };
+
+  const handleReject = async () => {
+    if (!rejecting) return;
+    await review(rejecting, "rejected", rejectNote);
+    setRejecting(null);
+    setRejectNote("");
+  };
+
+  const query = searchQuery.toLowerCase();
+  const filtered = timesheets.filter(
+    (timesheet) => !query || timesheet.employee?.full_name.toLowerCase().includes(query)
+  );
+
+  return (
+    <ErrorBoundary componentName="TimesheetApprovals">
+      <div className="space-y-4">
+        <div className="flex items-center justify-between gap-3">
+          <div className="flex items-center gap-3">
+            <h2 className="text-2xl font-bold">Timesheets</h2>
+            <Badge variant="secondary" className="text-sm">
+              {filtered.length}
+            </Badge>
+          </div>
+          <Select value={statusFilter} onValueChange={setStatusFilter}>
+            <SelectTrigger className="w-44" aria-label="Filter timesheets by status">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="submitted">Awaiting approval</SelectItem>
+              <SelectItem value="approved">Approved</SelectItem>
+              <SelectItem value="rejected">Changes requested</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {!loading && filtered.length === 0 ? (
+          <Card className="border-dashed">
+            <CardContent className="py-16 text-center">
+              <Clock className="h-8 w-8 mx-auto mb-3 text-muted-foreground" aria-hidden="true" />
+              <p className="text-muted-foreground">
+                {statusFilter === "submitted" ? "No timesheets waiting for approval" : "No timesheets found"}
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="grid grid-cols-1 xl:grid-cols-2 gap-4">
+            {filtered.map((timesheet) => {
+              const summary = summarizeWeek(
+                entries.filter((entry) => entry.user_id === timesheet.user_id),
+                timesheet.week_start
+              );
+
+              return (
+                <Card key={timesheet.id}>
+                  <CardHeader className="p-4 pb-3">
+                    <div className="flex items-start justify-between gap-2">
+                      <div>
+                        <CardTitle className="text-base">{timesheet.employee?.full_name || "Unknown"}</CardTitle>
+                        <p className="text-xs text-muted-foreground">Week of {weekLabel(timesheet.week_start)}</p>
+                      </div>
+                      <span className="text-lg font-semibold">{formatMinutes(summary.totalMinutes)}</span>
+                    </div>
+                  </CardHeader>
+                  <CardContent className="p-4 pt-0 space-y-3">
+                    <ul className="text-sm space-y-1">
+                      {summary.tasks.map((row) => (
+                        <li key={row.taskId} className="flex justify-between gap-2">
+                          <span className="truncate">{taskTitles.get(row.taskId) || "Unknown task"}</span>
+                          <span className="text-muted-foreground whitespace-nowrap">{formatMinutes(row.minutes)}</span>
+                        </li>
+                      ))}
+                    </ul>
+
+                    {timesheet.review_note && (
+                      <p className="text-xs text-muted-foreground">Note: {timesheet.review_note}</p>
+                    )}
+
+                    {timesheet.status === "submitted" && (
+                      <div className="flex justify-end gap-2">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => setRejecting(timesheet)}
+                          disabled={reviewing === timesheet.id}
+                        >
+                          <XCircle className="h-4 w-4 mr-1" aria-hidden="true" />
+                          Request changes
+                        </Button>
+                        <Button
+                          size="sm"
+                          onClick={() => review(timesheet, "approved")}
+                          disabled={reviewing === timesheet.id}
+                        >
+                          <CheckCircle className="h-4 w-4 mr-1" aria-hidden="true" />
+                          Approve
+                        </Button>
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+
+        <Dialog open={!!rejecting} onOpenChange={(open) => !open && setRejecting(null)}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Request changes</DialogTitle>
+              <DialogDescription>
+                {rejecting?.employee?.full_name}'s week is reopened for editing and can be resubmitted.
+              </DialogDescription>
+            </DialogHeader>
+            <Textarea
+              value={rejectNote}
+              onChange={(e) => setRejectNote(e.target.value)}
+              placeholder="What needs to change?"
+              rows={3}
+              maxLength={500}
+              aria-label="Reason for requesting changes"
+            />
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setRejecting(null)}>
+                Cancel
+              </Button>
+              <Button onClick={handleReject} disabled={!rejectNote.trim() || !!reviewing}>
+                Request changes
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      </div>
+    </ErrorBoundary>
+  );
+};
+
+export default TimesheetApprovals;
@@ -0,0 +1,222 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { toast } from "sonner";
+import { ChevronLeft, ChevronRight, Send } from "lucide-react";
+import {
+  LOCKED_TIMESHEET_STATUSES,
+  addDays,
+  formatMinutes,
+  isRunning,
+  summarizeWeek,
+  toDateKey,
+  weekStart,
+  type TimeEntry,
+} from "@/lib/timesheets";
+
+interface WeeklyTimesheetProps {
+  userId: string;
+}
+
+interface Timesheet {
+  id: string;
+  status: string;
+  submitted_at: string | null;
+  reviewed_at: string | null;
+  review_note: string | null;
+}
+
+const TIMESHEET_STATUS_STYLES: Record<string, string> = {
+  draft: "bg-gray-100 text-gray-800",
+  submitted: "bg-blue-100 text-blue-800",
+  approved: "bg-green-100 text-green-800",
+  rejected: "bg-red-100 text-red-800",
+};
+
+const dayLabel = (dateKey: string) =>
+  new Date(`${dateKey}T00:00`).toLocaleDateString(undefined, { weekday: "short", day: "numeric" });
+
+/**
+ * An employee's week of logged time by task and day, submitted for approval
+ */
+const WeeklyTimesheet = ({ userId }: WeeklyTimesheetProps) => {
+  const [week, setWeek] = useState(() => weekStart(toDateKey(new Date())));
+  const [entries, setEntries] = useState<TimeEntry[]>([]);
+  const [taskTitles, setTaskTitles] = useState<Map<string, string>>(new Map());
+  const [timesheet, setTimesheet] = useState<Timesheet | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+
+  const loadWeek = useCallback(async () => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from("time_entries")
+        .select("id, task_id, work_date, started_at, ended_at, minutes, source, note")
+        .eq("user_id", userId)
+        .gte("work_date", week)
+        .lte("work_date", addDays(week, 6));
+
+      if (error) throw error;
+      setEntries(data || []);
+
+      const taskIds = [...new Set((data || []).map((entry) => entry.task_id))];
+      if (taskIds.length > 0) {
+        const { data: tasks } = await supabase.from("tasks").select("id, title").in("id", taskIds);
+        setTaskTitles(new Map((tasks || []).map((task) => [task.id, task.title])));
+      }
+
+      const { data: sheet, error: sheetError } = await supabase
+        .from("timesheets")
+        .select("id, status, submitted_at, reviewed_at, review_note")
+        .eq("user_id", userId)
+        .eq("week_start", week)
+        .maybeSingle();
+
+      if (sheetError) throw sheetError;
+      setTimesheet(sheet);
+    } catch (error) {
+      console.error("Error loading timesheet:", error);
+      toast.error("Failed to load timesheet");
+    } finally {
+      setLoading(false);
+    }
+  }, [userId, week]);
+
+  useEffect(() => {
+    loadWeek();
+  }, [loadWeek]);
+
+  const handleSubmit = async () => {
+    setSubmitting(true);
+    try {
+      const { error } = await supabase
+        .from("timesheets")
+        .upsert({ user_id: userId, week_start: week, status: "submitted" }, { onConflict: "user_id,week_start" });
+
+      if (error) throw error;
+      toast.success("Timesheet submitted for approval");
+      await loadWeek();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : (error as { message?: string })?.message;
+      toast.error(message || "Failed to submit timesheet");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const summary = summarizeWeek(entries, week);
+  const status = timesheet?.status || "draft";
+  const locked = LOCKED_TIMESHEET_STATUSES.includes(status);
+  const hasRunningTimer = entries.some(isRunning);
+  const isCurrentWeek = week === weekStart(toDateKey(new Date()));
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between gap-2 space-y-0 flex-wrap">
+        <div className="flex items-center gap-3">
+          <CardTitle>Timesheet</CardTitle>
+          <Badge className={TIMESHEET_STATUS_STYLES[status]}>{status}</Badge>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="icon" onClick={() => setWeek(addDays(week, -7))} aria-label="Previous week">
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <span className="text-sm font-medium min-w-40 text-center">
+            {new Date(`${week}T00:00`).toLocaleDateString()} – {new Date(`${addDays(week, 6)}T00:00`).toLocaleDateString()}
+          </span>
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => setWeek(addDays(week, 7))}
+            disabled={isCurrentWeek}
+            aria-label="Next week"
+          >
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {status === "rejected" && timesheet?.review_note && (
+          <p className="text-sm rounded-md border border-red-200 bg-red-50 p-3">
+            Changes requested: {timesheet.review_note}
+          </p>
+        )}
+
+        {!loading && summary.tasks.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-8 text-center">
+            No time logged this week. Start a timer or log time from a task.
+          </p>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Task</TableHead>
+                  {summary.days.map((day) => (
+                    <TableHead key={day} className="text-right whitespace-nowrap">
+                      {dayLabel(day)}
+                    </TableHead>
+                  ))}
+                  <TableHead className="text-right">Total</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {summary.tasks.map((row) => (
+                  <TableRow key={row.taskId}>
+                    <TableCell className="font-medium max-w-56 truncate">
+                      {taskTitles.get(row.taskId) || "Unknown task"}
+                    </TableCell>
+                    {summary.days.map((day) => (
+                      <TableCell key={day} className="text-right text-muted-foreground">
+                        {row.byDay[day] ? formatMinutes(row.byDay[day]) : "–"}
+                      </TableCell>
+                    ))}
+                    <TableCell className="text-right font-medium">{formatMinutes(row.minutes)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+              <TableFooter>
+                <TableRow>
+                  <TableCell>Total</TableCell>
+                  {summary.days.map((day) => (
+                    <TableCell key={day} className="text-right">
+                      {summary.dayTotals[day] ? formatMinutes(summary.dayTotals[day]) : "–"}
+                    </TableCell>
+                  ))}
+                  <TableCell className="text-right">{formatMinutes(summary.totalMinutes)}</TableCell>
+                </TableRow>
+              </TableFooter>
+            </Table>
+          </div>
+        )}
+
+        <div className="flex items-center justify-between gap-2">
+          <p className="text-xs text-muted-foreground">
+            {locked
+              ? status === "approved"
+                ? "Approved hours count towards your payments."
+                : "Waiting for approval. Entries in this week are locked."
+              : hasRunningTimer
+                ? "Stop the running timer before submitting."
+                : "Submit the week once all your time is logged."}
+          </p>
+          {!locked && (
+            <Button
+              onClick={handleSubmit}
+              disabled={submitting || hasRunningTimer || summary.tasks.length === 0}
+            >
+              <Send className="h-4 w-4 mr-2" aria-hidden="true" />
+              {status === "rejected" ? "Resubmit" : "Submit week"}
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default WeeklyTimesheet;
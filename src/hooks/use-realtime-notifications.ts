@@ -6,13 +6,11 @@ import { Database } from "@/integrations/supabase/types";
 
 type Task = Database["public"]["Tables"]["tasks"]["Row"];
 type TaskUpdate = Database["public"]["Tables"]["task_updates"]["Row"];
-type ChatMessage = Database["public"]["Tables"]["chat_messages"]["Row"];
 
 interface UseRealtimeNotificationsProps {
   userId: string;
   userRole: "admin" | "employee";
   onTaskUpdate?: () => void;
-  onNewMessage?: () => void;
 }
 
 /**
@@ -21,18 +19,15 @@ interface UseRealtimeNotificationsProps {
  * Subscribes to:
  * - Tasks: New invitations, status changes
  * - Task Updates: Progress updates, comments
- * - Chat Messages: New chat messages
  * 
  * @param userId - Current user's ID
  * @param userRole - User's role (admin or employee)
  * @param onTaskUpdate - Callback when tasks are updated
- * @param onNewMessage - Callback when new messages arrive
  */
 export function useRealtimeNotifications({
   userId,
   userRole,
   onTaskUpdate,
-  onNewMessage,
 }: UseRealtimeNotificationsProps) {
   const { toast } = useToast();
   const channelsRef = useRef<RealtimeChannel[]>([]);
@@ -162,44 +157,7 @@ export function useRealtimeNotifications({
 
     channelsRef.current.push(taskUpdatesChannel);
 
-    // Channel 4: Chat Messages (for both roles)
-    const chatMessagesChannel = supabase
-      .channel("chat-messages")
-      .on<ChatMessage>(
-        "postgres_changes",
-        {
-          event: "INSERT",
-          schema: "public",
-          table: "chat_messages",
-        },
-        async (payload) => {
-          const message = payload.new;
-
-          // Don't notify for own messages
-          if (message.user_id === userId) return;
-
-          // Fetch sender name
-          const { data: profile } = await supabase
-            .from("profiles")
-            .select("full_name")
-            .eq("id", message.user_id)
-            .single();
-
-          const senderName = profile?.full_name || "Someone";
-
-          toast({
-            title: `💬 ${senderName}`,
-            description: message.message.substring(0, 50) + "...",
-            duration: 3000,
-          });
-          onNewMessage?.();
-        }
-      )
-      .subscribe();
-
-    channelsRef.current.push(chatMessagesChannel);
-
-    // Channel 5: Admin - Task completion notifications
+    // Channel 4: Admin - Task completion notifications
     if (userRole === "admin") {
       const adminTaskChannel = supabase
         .channel("admin-task-notifications")
@@ -249,7 +207,7 @@ export function useRealtimeNotifications({
 
     // Cleanup on unmount
     return cleanup;
-  }, [userId, userRole, toast, onTaskUpdate, onNewMessage]);
+  }, [userId, userRole, toast, onTaskUpdate]);
 
   return {
     // Return channel count for debugging
@@ -0,0 +1,53 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { CatalogSkill } from "@shared/skills";
+
+// The catalog rarely changes, so one request is shared by every picker on the page
+let catalogRequest: Promise<CatalogSkill[]> | null = null;
+
+const fetchSkillCatalog = async (): Promise<CatalogSkill[]> => {
+  const { data, error } = await supabase
+    .from("skills")
+    .select("name, category, skill_aliases(alias)")
+    .order("name");
+
+  if (error) throw error;
+
+  return (data || []).map((skill) => ({
+    name: skill.name,
+    category: skill.category,
+    aliases: (skill.skill_aliases || []).map((alias) => alias.alias),
+  }));
+};
+
+/**
+ * Skills catalog (canonical names with their aliases) for pickers and matching
+ */
+export function useSkillCatalog() {
+  const [catalog, setCatalog] = useState<CatalogSkill[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    catalogRequest = catalogRequest || fetchSkillCatalog();
+    catalogRequest
+      .then((skills) => {
+        if (!cancelled) setCatalog(skills);
+      })
+      .catch((error) => {
+        // Allow the next picker to retry
+        catalogRequest = null;
+        console.error("Error loading skills catalog:", error);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return { catalog, loading };
+}
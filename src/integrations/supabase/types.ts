@@ -39,6 +39,222 @@ export type Database = {
   }
   public: {
     Tables: {
+      agent_audit_log: {
+        Row: {
+          action_id: string | null
+          args: Json
+          created_at: string | null
+          id: string
+          latency_ms: number
+          result_summary: string | null
+          source: string
+          success: boolean
+          thread_id: string | null
+          tool_name: string
+          user_email: string | null
+          user_id: string | null
+          user_role: string
+        }
+        Insert: {
+          action_id?: string | null
+          args?: Json
+          created_at?: string | null
+          id?: string
+          latency_ms?: number
+          result_summary?: string | null
+          source?: string
+          success: boolean
+          thread_id?: string | null
+          tool_name: string
+          user_email?: string | null
+          user_id?: string | null
+          user_role: string
+        }
+        Update: {
+          action_id?: string | null
+          args?: Json
+          created_at?: string | null
+          id?: string
+          latency_ms?: number
+          result_summary?: string | null
+          source?: string
+          success?: boolean
+          thread_id?: string | null
+          tool_name?: string
+          user_email?: string | null
+          user_id?: string | null
+          user_role?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "agent_audit_log_action_id_fkey"
+            columns: ["action_id"]
+            isOneToOne: false
+            referencedRelation: "agent_pending_actions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "agent_audit_log_thread_id_fkey"
+            columns: ["thread_id"]
+            isOneToOne: false
+            referencedRelation: "chat_threads"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      agent_pending_actions: {
+        Row: {
+          args: Json
+          created_at: string | null
+          id: string
+          resolved_at: string | null
+          result: Json | null
+          status: string
+          summary: string
+          thread_id: string | null
+          tool_name: string
+          user_id: string
+        }
+        Insert: {
+          args?: Json
+          created_at?: string | null
+          id?: string
+          resolved_at?: string | null
+          result?: Json | null
+          status?: string
+          summary: string
+          thread_id?: string | null
+          tool_name: string
+          user_id: string
+        }
+        Update: {
+          args?: Json
+          created_at?: string | null
+          id?: string
+          resolved_at?: string | null
+          result?: Json | null
+          status?: string
+          summary?: string
+          thread_id?: string | null
+          tool_name?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "agent_pending_actions_thread_id_fkey"
+            columns: ["thread_id"]
+            isOneToOne: false
+            referencedRelation: "chat_threads"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      chat_messages: {
+        Row: {
+          action_ids: string[]
+          content: string
+          created_at: string | null
+          id: string
+          role: string
+          thread_id: string
+        }
+        Insert: {
+          action_ids?: string[]
+          content: string
+          created_at?: string | null
+          id?: string
+          role: string
+          thread_id: string
+        }
+        Update: {
+          action_ids?: string[]
+          content?: string
+          created_at?: string | null
+          id?: string
+          role?: string
+          thread_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "chat_messages_thread_id_fkey"
+            columns: ["thread_id"]
+            isOneToOne: false
+            referencedRelation: "chat_threads"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      chat_threads: {
+        Row: {
+          created_at: string | null
+          id: string
+          title: string
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          title?: string
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          title?: string
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      employee_metric_snapshots: {
+        Row: {
+          avg_completion_time: unknown
+          computed_at: string | null
+          estimate_accuracy: number | null
+          id: string
+          on_time_rate: number | null
+          performance_score: number | null
+          quality_score: number | null
+          source: string
+          tasks_completed: number
+          user_id: string
+        }
+        Insert: {
+          avg_completion_time?: unknown
+          computed_at?: string | null
+          estimate_accuracy?: number | null
+          id?: string
+          on_time_rate?: number | null
+          performance_score?: number | null
+          quality_score?: number | null
+          source?: string
+          tasks_completed?: number
+          user_id: string
+        }
+        Update: {
+          avg_completion_time?: unknown
+          computed_at?: string | null
+          estimate_accuracy?: number | null
+          id?: string
+          on_time_rate?: number | null
+          performance_score?: number | null
+          quality_score?: number | null
+          source?: string
+          tasks_completed?: number
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "employee_metric_snapshots_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       employee_profiles: {
         Row: {
           availability: boolean | null
@@ -98,21 +314,27 @@ export type Database = {
           created_at: string | null
           employee_id: string
           id: string
+          level: number
           skill: string
+          skill_id: string
           updated_at: string | null
         }
         Insert: {
           created_at?: string | null
           employee_id: string
           id?: string
+          level?: number
           skill: string
+          skill_id?: string
           updated_at?: string | null
         }
         Update: {
           created_at?: string | null
           employee_id?: string
           id?: string
+          level?: number
           skill?: string
+          skill_id?: string
           updated_at?: string | null
         }
         Relationships: [
@@ -123,42 +345,750 @@ export type Database = {
             referencedRelation: "employee_profiles"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "employee_skills_skill_id_fkey"
+            columns: ["skill_id"]
+            isOneToOne: false
+            referencedRelation: "skills"
+            referencedColumns: ["id"]
+          },
         ]
       }
       invitations: {
         Row: {
+          candidate_rank: number
           created_at: string | null
+          expires_at: string | null
           from_user_id: string
           id: string
           rejection_reason: string | null
           responded_at: string | null
+          response_window_hours: number
           status: string
           task_id: string
           to_user_id: string
         }
         Insert: {
+          candidate_rank?: number
           created_at?: string | null
+          expires_at?: string | null
           from_user_id: string
           id?: string
-          rejection_reason?: string | null
-          responded_at?: string | null
-          status?: string
+          rejection_reason?: string | null
+          responded_at?: string | null
+          response_window_hours?: number
+          status?: string
+          task_id: string
+          to_user_id: string
+        }
+        Update: {
+          candidate_rank?: number
+          created_at?: string | null
+          expires_at?: string | null
+          from_user_id?: string
+          id?: string
+          rejection_reason?: string | null
+          responded_at?: string | null
+          response_window_hours?: number
+          status?: string
+          task_id?: string
+          to_user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invitations_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      matching_weights: {
+        Row: {
+          availability: number
+          performance: number
+          priority: string
+          skill_match: number
+          updated_at: string | null
+          updated_by: string | null
+          urgency_multiplier: number
+          workload_capacity: number
+        }
+        Insert: {
+          availability: number
+          performance: number
+          priority: string
+          skill_match: number
+          updated_at?: string | null
+          updated_by?: string | null
+          urgency_multiplier?: number
+          workload_capacity: number
+        }
+        Update: {
+          availability?: number
+          performance?: number
+          priority?: string
+          skill_match?: number
+          updated_at?: string | null
+          updated_by?: string | null
+          urgency_multiplier?: number
+          workload_capacity?: number
+        }
+        Relationships: []
+      }
+      notification_delivery_settings: {
+        Row: {
+          digest_hour: number
+          email_digest: boolean
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          digest_hour?: number
+          email_digest?: boolean
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          digest_hour?: number
+          email_digest?: boolean
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notification_delivery_settings_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notification_outbox: {
+        Row: {
+          attempts: number
+          channel: string
+          created_at: string | null
+          digest: boolean
+          event: string
+          id: string
+          last_error: string | null
+          locked_at: string | null
+          next_attempt_at: string
+          notification_id: string | null
+          payload: Json
+          sent_at: string | null
+          status: string
+          user_id: string
+          webhook_id: string | null
+        }
+        Insert: {
+          attempts?: number
+          channel: string
+          created_at?: string | null
+          digest?: boolean
+          event: string
+          id?: string
+          last_error?: string | null
+          locked_at?: string | null
+          next_attempt_at?: string
+          notification_id?: string | null
+          payload: Json
+          sent_at?: string | null
+          status?: string
+          user_id: string
+          webhook_id?: string | null
+        }
+        Update: {
+          attempts?: number
+          channel?: string
+          created_at?: string | null
+          digest?: boolean
+          event?: string
+          id?: string
+          last_error?: string | null
+          locked_at?: string | null
+          next_attempt_at?: string
+          notification_id?: string | null
+          payload?: Json
+          sent_at?: string | null
+          status?: string
+          user_id?: string
+          webhook_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notification_outbox_notification_id_fkey"
+            columns: ["notification_id"]
+            isOneToOne: false
+            referencedRelation: "notifications"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notification_outbox_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notification_outbox_webhook_id_fkey"
+            columns: ["webhook_id"]
+            isOneToOne: false
+            referencedRelation: "notification_webhooks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notification_preferences: {
+        Row: {
+          email: boolean
+          in_app: boolean
+          type: string
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          email?: boolean
+          in_app?: boolean
+          type: string
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          email?: boolean
+          in_app?: boolean
+          type?: string
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notification_preferences_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notification_webhooks: {
+        Row: {
+          created_at: string | null
+          created_by: string | null
+          id: string
+          is_active: boolean
+          name: string
+          secret: string
+          types: string[]
+          url: string
+        }
+        Insert: {
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          is_active?: boolean
+          name: string
+          secret?: string
+          types?: string[]
+          url: string
+        }
+        Update: {
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          is_active?: boolean
+          name?: string
+          secret?: string
+          types?: string[]
+          url?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notification_webhooks_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notifications: {
+        Row: {
+          created_at: string | null
+          id: string
+          message: string
+          metadata: Json
+          read_at: string | null
+          task_id: string | null
+          title: string
+          type: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          message: string
+          metadata?: Json
+          read_at?: string | null
+          task_id?: string | null
+          title: string
+          type: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          message?: string
+          metadata?: Json
+          read_at?: string | null
+          task_id?: string | null
+          title?: string
+          type?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notifications_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notifications_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      payments: {
+        Row: {
+          amount_ai_suggested: number | null
+          amount_manual: number | null
+          created_at: string | null
+          id: string
+          paid_at: string | null
+          status: string
+          task_id: string
+          user_id: string
+        }
+        Insert: {
+          amount_ai_suggested?: number | null
+          amount_manual?: number | null
+          created_at?: string | null
+          id?: string
+          paid_at?: string | null
+          status?: string
+          task_id: string
+          user_id: string
+        }
+        Update: {
+          amount_ai_suggested?: number | null
+          amount_manual?: number | null
+          created_at?: string | null
+          id?: string
+          paid_at?: string | null
+          status?: string
+          task_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payments_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      profiles: {
+        Row: {
+          avatar_url: string | null
+          contact: string | null
+          created_at: string | null
+          email: string
+          full_name: string
+          id: string
+          updated_at: string | null
+        }
+        Insert: {
+          avatar_url?: string | null
+          contact?: string | null
+          created_at?: string | null
+          email: string
+          full_name: string
+          id: string
+          updated_at?: string | null
+        }
+        Update: {
+          avatar_url?: string | null
+          contact?: string | null
+          created_at?: string | null
+          email?: string
+          full_name?: string
+          id?: string
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      projects: {
+        Row: {
+          budget: number | null
+          created_at: string | null
+          created_by: string | null
+          description: string | null
+          end_date: string | null
+          id: string
+          name: string
+          owner_id: string | null
+          start_date: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          budget?: number | null
+          created_at?: string | null
+          created_by?: string | null
+          description?: string | null
+          end_date?: string | null
+          id?: string
+          name: string
+          owner_id?: string | null
+          start_date?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          budget?: number | null
+          created_at?: string | null
+          created_by?: string | null
+          description?: string | null
+          end_date?: string | null
+          id?: string
+          name?: string
+          owner_id?: string | null
+          start_date?: string | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "projects_owner_id_fkey"
+            columns: ["owner_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      skill_aliases: {
+        Row: {
+          alias: string
+          created_at: string | null
+          id: string
+          key: string | null
+          skill_id: string
+        }
+        Insert: {
+          alias: string
+          created_at?: string | null
+          id?: string
+          key?: never
+          skill_id: string
+        }
+        Update: {
+          alias?: string
+          created_at?: string | null
+          id?: string
+          key?: never
+          skill_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "skill_aliases_skill_id_fkey"
+            columns: ["skill_id"]
+            isOneToOne: false
+            referencedRelation: "skills"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      skills: {
+        Row: {
+          category: string | null
+          created_at: string | null
+          id: string
+          key: string | null
+          name: string
+          updated_at: string | null
+        }
+        Insert: {
+          category?: string | null
+          created_at?: string | null
+          id?: string
+          key?: never
+          name: string
+          updated_at?: string | null
+        }
+        Update: {
+          category?: string | null
+          created_at?: string | null
+          id?: string
+          key?: never
+          name?: string
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      task_attachments: {
+        Row: {
+          file_name: string
+          file_path: string
+          file_size: number
+          id: string
+          mime_type: string
+          task_id: string
+          task_update_id: string
+          uploaded_at: string | null
+          user_id: string
+        }
+        Insert: {
+          file_name: string
+          file_path: string
+          file_size: number
+          id?: string
+          mime_type: string
+          task_id: string
+          task_update_id: string
+          uploaded_at?: string | null
+          user_id: string
+        }
+        Update: {
+          file_name?: string
+          file_path?: string
+          file_size?: number
+          id?: string
+          mime_type?: string
+          task_id?: string
+          task_update_id?: string
+          uploaded_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "task_attachments_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "task_attachments_task_update_id_fkey"
+            columns: ["task_update_id"]
+            isOneToOne: false
+            referencedRelation: "task_updates"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      task_checklist_items: {
+        Row: {
+          created_at: string | null
+          created_by: string | null
+          done_at: string | null
+          done_by: string | null
+          id: string
+          is_done: boolean
+          position: number
+          task_id: string
+          title: string
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          created_by?: string | null
+          done_at?: string | null
+          done_by?: string | null
+          id?: string
+          is_done?: boolean
+          position?: number
+          task_id: string
+          title: string
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          created_by?: string | null
+          done_at?: string | null
+          done_by?: string | null
+          id?: string
+          is_done?: boolean
+          position?: number
+          task_id?: string
+          title?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "task_checklist_items_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      task_comment_revisions: {
+        Row: {
+          action: string
+          body: string
+          changed_by: string | null
+          comment_id: string
+          created_at: string | null
+          id: string
+        }
+        Insert: {
+          action: string
+          body: string
+          changed_by?: string | null
+          comment_id: string
+          created_at?: string | null
+          id?: string
+        }
+        Update: {
+          action?: string
+          body?: string
+          changed_by?: string | null
+          comment_id?: string
+          created_at?: string | null
+          id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "task_comment_revisions_changed_by_fkey"
+            columns: ["changed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "task_comment_revisions_comment_id_fkey"
+            columns: ["comment_id"]
+            isOneToOne: false
+            referencedRelation: "task_comments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      task_comments: {
+        Row: {
+          author_id: string
+          body: string
+          created_at: string | null
+          deleted_at: string | null
+          edited_at: string | null
+          id: string
+          mentions: string[]
+          parent_id: string | null
+          task_id: string
+          updated_at: string | null
+        }
+        Insert: {
+          author_id: string
+          body: string
+          created_at?: string | null
+          deleted_at?: string | null
+          edited_at?: string | null
+          id?: string
+          mentions?: string[]
+          parent_id?: string | null
+          task_id: string
+          updated_at?: string | null
+        }
+        Update: {
+          author_id?: string
+          body?: string
+          created_at?: string | null
+          deleted_at?: string | null
+          edited_at?: string | null
+          id?: string
+          mentions?: string[]
+          parent_id?: string | null
+          task_id?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "task_comments_author_id_fkey"
+            columns: ["author_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "task_comments_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "task_comments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "task_comments_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      task_deadline_reminders: {
+        Row: {
+          deadline: string
+          id: string
+          kind: string
+          notification_id: string | null
+          recipient_id: string | null
+          sent_at: string | null
+          task_id: string
+        }
+        Insert: {
+          deadline: string
+          id?: string
+          kind: string
+          notification_id?: string | null
+          recipient_id?: string | null
+          sent_at?: string | null
           task_id: string
-          to_user_id: string
         }
         Update: {
-          created_at?: string | null
-          from_user_id?: string
+          deadline?: string
           id?: string
-          rejection_reason?: string | null
-          responded_at?: string | null
-          status?: string
+          kind?: string
+          notification_id?: string | null
+          recipient_id?: string | null
+          sent_at?: string | null
           task_id?: string
-          to_user_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "invitations_task_id_fkey"
+            foreignKeyName: "task_deadline_reminders_notification_id_fkey"
+            columns: ["notification_id"]
+            isOneToOne: false
+            referencedRelation: "notifications"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "task_deadline_reminders_recipient_id_fkey"
+            columns: ["recipient_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "task_deadline_reminders_task_id_fkey"
             columns: ["task_id"]
             isOneToOne: false
             referencedRelation: "tasks"
@@ -166,156 +1096,230 @@ export type Database = {
           },
         ]
       }
-      payments: {
+      task_dependencies: {
         Row: {
-          amount_ai_suggested: number | null
-          amount_manual: number | null
           created_at: string | null
+          created_by: string | null
           id: string
-          paid_at: string | null
-          status: string
-          task_id: string
-          user_id: string
+          predecessor_id: string
+          successor_id: string
         }
         Insert: {
-          amount_ai_suggested?: number | null
-          amount_manual?: number | null
           created_at?: string | null
+          created_by?: string | null
           id?: string
-          paid_at?: string | null
-          status?: string
-          task_id: string
-          user_id: string
+          predecessor_id: string
+          successor_id: string
         }
         Update: {
-          amount_ai_suggested?: number | null
-          amount_manual?: number | null
           created_at?: string | null
+          created_by?: string | null
           id?: string
-          paid_at?: string | null
-          status?: string
-          task_id?: string
-          user_id?: string
+          predecessor_id?: string
+          successor_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "payments_task_id_fkey"
-            columns: ["task_id"]
+            foreignKeyName: "task_dependencies_predecessor_id_fkey"
+            columns: ["predecessor_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "task_dependencies_successor_id_fkey"
+            columns: ["successor_id"]
             isOneToOne: false
             referencedRelation: "tasks"
             referencedColumns: ["id"]
           },
         ]
       }
-      profiles: {
+      task_required_skills: {
         Row: {
-          avatar_url: string | null
-          contact: string | null
           created_at: string | null
-          email: string
-          full_name: string
           id: string
+          min_level: number
+          skill: string
+          skill_id: string
+          task_id: string
           updated_at: string | null
         }
         Insert: {
-          avatar_url?: string | null
-          contact?: string | null
           created_at?: string | null
-          email: string
-          full_name: string
-          id: string
+          id?: string
+          min_level?: number
+          skill: string
+          skill_id?: string
+          task_id: string
           updated_at?: string | null
         }
         Update: {
-          avatar_url?: string | null
-          contact?: string | null
           created_at?: string | null
-          email?: string
-          full_name?: string
           id?: string
+          min_level?: number
+          skill?: string
+          skill_id?: string
+          task_id?: string
           updated_at?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "task_required_skills_skill_id_fkey"
+            columns: ["skill_id"]
+            isOneToOne: false
+            referencedRelation: "skills"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "task_required_skills_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      task_attachments: {
+      task_reviews: {
         Row: {
-          file_name: string
-          file_path: string
-          file_size: number
+          comments: string | null
+          created_at: string | null
+          decision: string
           id: string
-          mime_type: string
+          rating: number | null
+          reviewer_id: string
           task_id: string
-          task_update_id: string
-          uploaded_at: string | null
-          user_id: string
         }
         Insert: {
-          file_name: string
-          file_path: string
-          file_size: number
+          comments?: string | null
+          created_at?: string | null
+          decision: string
           id?: string
-          mime_type: string
+          rating?: number | null
+          reviewer_id: string
           task_id: string
-          task_update_id: string
-          uploaded_at?: string | null
-          user_id: string
         }
         Update: {
-          file_name?: string
-          file_path?: string
-          file_size?: number
+          comments?: string | null
+          created_at?: string | null
+          decision?: string
           id?: string
-          mime_type?: string
+          rating?: number | null
+          reviewer_id?: string
           task_id?: string
-          task_update_id?: string
-          uploaded_at?: string | null
-          user_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "task_attachments_task_id_fkey"
-            columns: ["task_id"]
+            foreignKeyName: "task_reviews_reviewer_id_fkey"
+            columns: ["reviewer_id"]
             isOneToOne: false
-            referencedRelation: "tasks"
+            referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "task_attachments_task_update_id_fkey"
-            columns: ["task_update_id"]
+            foreignKeyName: "task_reviews_task_id_fkey"
+            columns: ["task_id"]
             isOneToOne: false
-            referencedRelation: "task_updates"
+            referencedRelation: "tasks"
             referencedColumns: ["id"]
           },
         ]
       }
-      task_required_skills: {
+      task_status_transitions: {
+        Row: {
+          allowed_roles: Database["public"]["Enums"]["app_role"][]
+          from_status: Database["public"]["Enums"]["task_status"]
+          to_status: Database["public"]["Enums"]["task_status"]
+        }
+        Insert: {
+          allowed_roles: Database["public"]["Enums"]["app_role"][]
+          from_status: Database["public"]["Enums"]["task_status"]
+          to_status: Database["public"]["Enums"]["task_status"]
+        }
+        Update: {
+          allowed_roles?: Database["public"]["Enums"]["app_role"][]
+          from_status?: Database["public"]["Enums"]["task_status"]
+          to_status?: Database["public"]["Enums"]["task_status"]
+        }
+        Relationships: []
+      }
+      task_templates: {
         Row: {
+          complexity_multiplier: number
           created_at: string | null
+          created_by: string | null
+          deadline_offset_days: number
+          default_assignee: string | null
+          description: string
+          ends_at: string | null
+          estimated_hours: number | null
           id: string
-          skill: string
-          task_id: string
+          is_active: boolean
+          last_run_at: string | null
+          next_run_at: string | null
+          priority: string
+          project_id: string | null
+          recurrence: string
+          required_skills: Json
+          starts_at: string
+          title: string
           updated_at: string | null
         }
         Insert: {
+          complexity_multiplier?: number
           created_at?: string | null
+          created_by?: string | null
+          deadline_offset_days?: number
+          default_assignee?: string | null
+          description: string
+          ends_at?: string | null
+          estimated_hours?: number | null
           id?: string
-          skill: string
-          task_id: string
+          is_active?: boolean
+          last_run_at?: string | null
+          next_run_at?: string | null
+          priority?: string
+          project_id?: string | null
+          recurrence: string
+          required_skills?: Json
+          starts_at: string
+          title: string
           updated_at?: string | null
         }
         Update: {
+          complexity_multiplier?: number
           created_at?: string | null
+          created_by?: string | null
+          deadline_offset_days?: number
+          default_assignee?: string | null
+          description?: string
+          ends_at?: string | null
+          estimated_hours?: number | null
           id?: string
-          skill?: string
-          task_id?: string
+          is_active?: boolean
+          last_run_at?: string | null
+          next_run_at?: string | null
+          priority?: string
+          project_id?: string | null
+          recurrence?: string
+          required_skills?: Json
+          starts_at?: string
+          title?: string
           updated_at?: string | null
         }
         Relationships: [
           {
-            foreignKeyName: "task_required_skills_task_id_fkey"
-            columns: ["task_id"]
+            foreignKeyName: "task_templates_default_assignee_fkey"
+            columns: ["default_assignee"]
             isOneToOne: false
-            referencedRelation: "tasks"
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "task_templates_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
             referencedColumns: ["id"]
           },
         ]
@@ -370,10 +1374,16 @@ export type Database = {
           description: string
           estimated_hours: number | null
           id: string
+          occurrence_at: string | null
           priority: string | null
+          project_id: string | null
           progress: number | null
+          progress_from_checklist: boolean
+          quality_rating: number | null
+          review_status: string | null
           started_at: string | null
           status: Database["public"]["Enums"]["task_status"] | null
+          template_id: string | null
           title: string
           updated_at: string | null
         }
@@ -388,10 +1398,16 @@ export type Database = {
           description: string
           estimated_hours?: number | null
           id?: string
+          occurrence_at?: string | null
           priority?: string | null
+          project_id?: string | null
           progress?: number | null
+          progress_from_checklist?: boolean
+          quality_rating?: number | null
+          review_status?: string | null
           started_at?: string | null
           status?: Database["public"]["Enums"]["task_status"] | null
+          template_id?: string | null
           title: string
           updated_at?: string | null
         }
@@ -406,14 +1422,146 @@ export type Database = {
           description?: string
           estimated_hours?: number | null
           id?: string
+          occurrence_at?: string | null
           priority?: string | null
+          project_id?: string | null
           progress?: number | null
+          progress_from_checklist?: boolean
+          quality_rating?: number | null
+          review_status?: string | null
           started_at?: string | null
           status?: Database["public"]["Enums"]["task_status"] | null
+          template_id?: string | null
           title?: string
           updated_at?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "tasks_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tasks_template_id_fkey"
+            columns: ["template_id"]
+            isOneToOne: false
+            referencedRelation: "task_templates"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      time_entries: {
+        Row: {
+          created_at: string | null
+          ended_at: string | null
+          id: string
+          minutes: number | null
+          note: string | null
+          source: string
+          started_at: string | null
+          task_id: string
+          updated_at: string | null
+          user_id: string
+          work_date: string
+        }
+        Insert: {
+          created_at?: string | null
+          ended_at?: string | null
+          id?: string
+          minutes?: number | null
+          note?: string | null
+          source?: string
+          started_at?: string | null
+          task_id: string
+          updated_at?: string | null
+          user_id: string
+          work_date: string
+        }
+        Update: {
+          created_at?: string | null
+          ended_at?: string | null
+          id?: string
+          minutes?: number | null
+          note?: string | null
+          source?: string
+          started_at?: string | null
+          task_id?: string
+          updated_at?: string | null
+          user_id?: string
+          work_date?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "time_entries_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "time_entries_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      timesheets: {
+        Row: {
+          created_at: string | null
+          id: string
+          review_note: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: string
+          submitted_at: string | null
+          updated_at: string | null
+          user_id: string
+          week_start: string
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          review_note?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          submitted_at?: string | null
+          updated_at?: string | null
+          user_id: string
+          week_start: string
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          review_note?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          submitted_at?: string | null
+          updated_at?: string | null
+          user_id?: string
+          week_start?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "timesheets_reviewed_by_fkey"
+            columns: ["reviewed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "timesheets_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       user_roles: {
         Row: {
@@ -441,14 +1589,76 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      approved_task_hours: { Args: { _task_id: string }; Returns: number }
+      can_access_task_comments: {
+        Args: { _task_id: string; _user_id: string }
+        Returns: boolean
+      }
+      checklist_progress: { Args: { _task_id: string }; Returns: number }
       cleanup_orphaned_attachment_files: {
         Args: never
         Returns: {
           deleted_path: string
         }[]
       }
+      claim_notification_outbox: {
+        Args: {
+          _channels?: string[]
+          _limit?: number
+          _lock_timeout?: unknown
+        }
+        Returns: {
+          attempts: number
+          channel: string
+          created_at: string | null
+          digest: boolean
+          event: string
+          id: string
+          last_error: string | null
+          locked_at: string | null
+          next_attempt_at: string
+          notification_id: string | null
+          payload: Json
+          sent_at: string | null
+          status: string
+          user_id: string
+          webhook_id: string | null
+        }[]
+      }
       clear_consolidated_sample_data: { Args: never; Returns: string }
+      compute_employee_metrics: {
+        Args: { _user_id: string }
+        Returns: {
+          avg_completion_time: unknown
+          estimate_accuracy: number
+          on_time_rate: number
+          performance_score: number
+          quality_score: number
+          tasks_completed: number
+        }[]
+      }
+      create_notification: {
+        Args: {
+          _message: string
+          _metadata?: Json
+          _task_id?: string
+          _title: string
+          _type: string
+          _user_id: string
+        }
+        Returns: string
+      }
+      expire_invitations: { Args: never; Returns: number }
       get_employee_skills: { Args: { _employee_id: string }; Returns: string[] }
+      get_task_blockers: {
+        Args: { _task_ids: string[] }
+        Returns: {
+          predecessor_id: string
+          predecessor_status: Database["public"]["Enums"]["task_status"]
+          predecessor_title: string
+          task_id: string
+        }[]
+      }
       get_task_required_skills: {
         Args: { _task_id: string }
         Returns: string[]
@@ -468,6 +1678,7 @@ export type Database = {
         }
         Returns: boolean
       }
+      is_task_blocked: { Args: { _task_id: string }; Returns: boolean }
       make_user_admin: { Args: { user_email: string }; Returns: string }
       make_user_employee: {
         Args: {
@@ -478,7 +1689,30 @@ export type Database = {
         }
         Returns: string
       }
+      next_digest_at: { Args: { _hour: number }; Returns: string }
+      promote_next_invitation: { Args: { _task_id: string }; Returns: string }
+      refresh_all_employee_metrics: {
+        Args: { _source?: string }
+        Returns: number
+      }
+      refresh_employee_metrics: {
+        Args: { _source?: string; _user_id: string }
+        Returns: boolean
+      }
+      refresh_employee_workload: { Args: { _user_id: string }; Returns: number }
+      resolve_skill: { Args: { _name: string }; Returns: string }
       seed_consolidated_sample_data: { Args: never; Returns: string }
+      send_deadline_reminders: {
+        Args: { _escalate_after?: unknown; _remind_before?: unknown }
+        Returns: {
+          due_soon: number
+          escalated: number
+          overdue: number
+        }[]
+      }
+      skill_key: { Args: { _name: string }; Returns: string }
+      task_comment_mentions: { Args: { _body: string }; Returns: string[] }
+      timesheet_week_start: { Args: { _date: string }; Returns: string }
     }
     Enums: {
       app_role: "admin" | "staff" | "employee"
@@ -1,5 +1,6 @@
 import { chatApiClient } from '@/api/chat/client';
 import { supabase } from '@/integrations/supabase/client';
+import { MAX_QUALITY_RATING, describeUnpayableTask, qualityRatingMultiplier } from '@shared/taskReview';
 
 export interface EmployeePerformanceData {
   user_id: string;
@@ -21,6 +22,7 @@ export interface TaskData {
   actual_hours_logged: number;
   priority: string;
   required_skills: string[];
+  quality_rating?: number | null;
 }
 
 export interface PaymentCalculationResult {
@@ -193,9 +195,10 @@ TASK DETAILS:
 - Title: ${task.title}
 - Estimated Hours: ${task.estimated_hours}
 - Complexity Multiplier: ${task.complexity_multiplier}
-- Actual Hours Logged: ${task.actual_hours_logged}
+- Actual Hours Worked: ${task.actual_hours_logged}
 - Priority: ${task.priority}
 - Required Skills: ${task.required_skills.join(', ') || 'None specified'}
+- Reviewer Quality Rating: ${task.quality_rating ? `${task.quality_rating}/${MAX_QUALITY_RATING}` : 'Not rated'}
 - Time to Complete: ${this.calculateCompletionTime(task)} hours
 
 HISTORICAL PAYMENT CONTEXT:
@@ -208,7 +211,7 @@ ${historical_payments && historical_payments.length > 0
 
 CALCULATION REQUIREMENTS:
 1. Base payment = actual hours worked × employee's hourly rate
-2. Apply performance multiplier based on employee's metrics (0.8-1.3 range)
+2. Apply performance multiplier based on employee's metrics and the reviewer's quality rating for this task (0.8-1.3 range)
 3. Apply task complexity multiplier
 4. Consider historical payment patterns for similar tasks
 5. Ensure payment is reasonable and fair
@@ -279,21 +282,25 @@ Provide the estimated amount, detailed reasoning, confidence score, and calculat
       employee.quality_score * 0.3
     );
 
+    // Reviewer's rating of this task's work
+    const qualityMultiplier = qualityRatingMultiplier(task.quality_rating);
+
     // Complexity adjustment
     const complexityMultiplier = task.complexity_multiplier;
 
     // Priority bonus
     const priorityBonus = task.priority === 'high' ? 1.1 : task.priority === 'medium' ? 1.05 : 1.0;
 
-    const estimated_amount = baseAmount * performanceMultiplier * complexityMultiplier * priorityBonus;
+    const estimated_amount =
+      baseAmount * performanceMultiplier * qualityMultiplier * complexityMultiplier * priorityBonus;
 
     return {
       estimated_amount: Math.round(estimated_amount * 100) / 100,
-      reasoning: `Fallback calculation: Base amount ($${baseAmount.toFixed(2)}) × Performance multiplier (${performanceMultiplier.toFixed(2)}) × Complexity (${complexityMultiplier}) × Priority bonus (${priorityBonus})`,
+      reasoning: `Fallback calculation: Base amount ($${baseAmount.toFixed(2)}) × Performance multiplier (${performanceMultiplier.toFixed(2)}) × Quality rating (${qualityMultiplier}) × Complexity (${complexityMultiplier}) × Priority bonus (${priorityBonus})`,
       confidence_score: 0.6,
       calculation_factors: {
         base_hours: baseHours,
-        performance_multiplier: performanceMultiplier,
+        performance_multiplier: Math.round(performanceMultiplier * qualityMultiplier * 100) / 100,
         complexity_multiplier: complexityMultiplier,
         final_rate: employee.hourly_rate * priorityBonus
       }
@@ -345,6 +352,9 @@ Provide the estimated amount, detailed reasoning, confidence score, and calculat
           started_at,
           completed_at,
           priority,
+          quality_rating,
+          status,
+          review_status,
           assigned_to
         `)
         .eq('id', taskId)
@@ -356,6 +366,13 @@ Provide the estimated amount, detailed reasoning, confidence score, and calculat
         return null;
       }
 
+      // Only reviewed and approved work is paid
+      const unpayableReason = describeUnpayableTask(taskData);
+      if (unpayableReason) {
+        console.warn(`Task ${taskId} can't be paid yet: ${unpayableReason}`);
+        return null;
+      }
+
       // Get employee profile data
       const { data: employeeData, error: employeeError } = await supabase
         .from('employee_profiles')
@@ -376,14 +393,20 @@ Provide the estimated amount, detailed reasoning, confidence score, and calculat
         return null;
       }
 
-      // Get actual hours logged from task updates
-      const { data: updates } = await supabase
-        .from('task_updates')
-        .select('hours_logged')
-        .eq('task_id', taskId)
-        .not('hours_logged', 'is', null);
+      // Pay for approved timesheet hours; tasks without any fall back to the
+      // hours logged in progress updates
+      const { data: approvedHours } = await supabase.rpc('approved_task_hours', { _task_id: taskId });
+
+      let actualHoursLogged = Number(approvedHours) || 0;
+      if (actualHoursLogged === 0) {
+        const { data: updates } = await supabase
+          .from('task_updates')
+          .select('hours_logged')
+          .eq('task_id', taskId)
+          .not('hours_logged', 'is', null);
 
-      const actualHoursLogged = updates?.reduce((sum, update) => sum + (update.hours_logged || 0), 0) || 0;
+        actualHoursLogged = updates?.reduce((sum, update) => sum + (update.hours_logged || 0), 0) || 0;
+      }
 
       // Get required skills
       const { data: skills } = await supabase
@@ -403,7 +426,8 @@ Provide the estimated amount, detailed reasoning, confidence score, and calculat
         completed_at: taskData.completed_at,
         actual_hours_logged: actualHoursLogged,
         priority: taskData.priority || 'medium',
-        required_skills: requiredSkills
+        required_skills: requiredSkills,
+        quality_rating: taskData.quality_rating
       };
 
       return { employee, task };
@@ -0,0 +1,84 @@
+// @ts-check
+// Task comment threads and @mentions. Mentions are stored in the markdown body
+// as @[Full Name](profile-id) so a renamed profile still resolves; the database
+// copies the ids to task_comments.mentions for notifications.
+
+export const MAX_COMMENT_LENGTH = 5000;
+
+const MENTION_PATTERN = /@\[([^\]\n]+)\]\(([0-9a-f-]{36})\)/gi;
+
+// "@" followed by a partial name at the caret, e.g. "thanks @sar"
+const MENTION_QUERY_PATTERN = /(?:^|\s)@([^\s@[\]()]{0,40})$/;
+
+/** Link fragment the renderer turns back into a mention chip */
+export const MENTION_HREF_PREFIX = "#mention-";
+
+/**
+ * @typedef {Object} Comment
+ * @property {string} id
+ * @property {string | null} parent_id
+ * @property {string | null} created_at
+ */
+
+/**
+ * Markdown token for a mention
+ * @param {{ id: string, full_name: string }} profile
+ */
+export function mentionToken(profile) {
+  return `@[${profile.full_name.replace(/[[\]]/g, "")}](${profile.id})`;
+}
+
+/**
+ * Body with mentions as plain "@Name", e.g. for notification previews
+ * @param {string} body
+ */
+export function mentionsToText(body) {
+  return body.replace(MENTION_PATTERN, (_, name) => `@${name}`);
+}
+
+/**
+ * Body with mentions as markdown links the comment renderer shows as chips
+ * @param {string} body
+ */
+export function mentionsToMarkdown(body) {
+  return body.replace(MENTION_PATTERN, (_, name, id) => `[@${name}](${MENTION_HREF_PREFIX}${id})`);
+}
+
+/**
+ * The partial name being typed after "@" at the caret, for mention suggestions
+ * @param {string} text
+ * @param {number} caret
+ * @returns {{ query: string, start: number } | null} start is the index of the "@"
+ */
+export function mentionQueryAt(text, caret) {
+  const match = text.slice(0, caret).match(MENTION_QUERY_PATTERN);
+  if (!match) return null;
+  return { query: match[1], start: caret - match[1].length - 1 };
+}
+
+/**
+ * Group comments into threads: top-level comments oldest first, each with its
+ * replies oldest first
+ * @template {Comment} T
+ * @param {T[]} comments
+ * @returns {(T & { replies: T[] })[]}
+ */
+export function buildThreads(comments) {
+  const byCreated = [...comments].sort((a, b) => (a.created_at || "").localeCompare(b.created_at || ""));
+  /** @type {Map<string, T & { replies: T[] }>} */
+  const roots = new Map();
+
+  for (const comment of byCreated) {
+    if (!comment.parent_id) {
+      roots.set(comment.id, { ...comment, replies: [] });
+    }
+  }
+
+  for (const comment of byCreated) {
+    if (comment.parent_id) {
+      roots.get(comment.parent_id)?.replies.push(comment);
+    }
+  }
+
+  return [...roots.values()];
+}
@@ -0,0 +1,35 @@
+// @ts-check
+// Notification types written by the notification triggers (see the
+// notifications migration), with the labels the inbox and the preferences
+// use. A type without a preference row is enabled in the app and by email.
+
+export const NOTIFICATION_TYPES = /** @type {const} */ ([
+  "invitation",
+  "task_status",
+  "review",
+  "payment",
+  "comment",
+  "mention",
+  "deadline",
+]);
+
+/** @typedef {typeof NOTIFICATION_TYPES[number]} NotificationType */
+
+/** @type {Record<NotificationType, { label: string, description: string }>} */
+export const NOTIFICATION_TYPE_INFO = {
+  invitation: { label: "Invitations", description: "New task invitations and answers to ones you sent" },
+  task_status: { label: "Task status", description: "Status changes on tasks you work on or created" },
+  review: { label: "Reviews", description: "Approvals and change requests on your completed work" },
+  payment: { label: "Payments", description: "Payments approved or paid out to you" },
+  comment: { label: "Comments", description: "New comments and replies on your tasks" },
+  mention: { label: "Mentions", description: "Someone @mentioned you in a comment" },
+  deadline: { label: "Deadlines", description: "Deadlines coming up and overdue tasks" },
+};
+
+/** @typedef {"in_app" | "email"} NotificationChannel */
+
+/** UTC hour digest emails go out at unless the user picks another */
+export const DEFAULT_DIGEST_HOUR = 8;
+
+/** How many notifications the inbox keeps loaded */
+export const NOTIFICATION_PAGE_SIZE = 50;
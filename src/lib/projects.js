@@ -0,0 +1,109 @@
+// @ts-check
+// Project roll-ups (progress, budget burned, overdue tasks), shared by the
+// project page and the agent tools. Burned budget counts payments an admin has
+// approved or paid; pending AI suggestions are not spent yet.
+
+// Payment statuses that count against a project's budget
+export const BURNED_PAYMENT_STATUSES = /** @type {const} */ (["approved", "paid"]);
+
+// Tasks in these statuses no longer count towards progress or overdue lists
+const CLOSED_TASK_STATUSES = ["completed", "rejected"];
+
+/**
+ * @typedef {Object} ProjectTask
+ * @property {string} id
+ * @property {string} title
+ * @property {string | null} status
+ * @property {number | null} progress
+ * @property {string | null} deadline
+ */
+
+/**
+ * @typedef {Object} ProjectPayment
+ * @property {string} status
+ * @property {number | null} amount_manual
+ * @property {number | null} amount_ai_suggested
+ */
+
+/**
+ * @typedef {Object} ProjectSummary
+ * @property {number} taskCount - Tasks in the project, rejected ones excluded
+ * @property {number} completedCount
+ * @property {number} progress - Average progress of those tasks, 0 to 100
+ * @property {number | null} budget
+ * @property {number} burned - Approved and paid payments
+ * @property {number} paid - Paid payments only
+ * @property {number | null} remaining - Budget left, negative when over budget
+ * @property {number | null} burnedPercent - Burned as a share of the budget, 0 to 100+
+ * @property {boolean} overBudget
+ * @property {ProjectTask[]} overdueTasks - Earliest deadline first
+ */
+
+/**
+ * The amount a payment is worth: the admin's figure if set, else the suggestion
+ * @param {ProjectPayment} payment
+ */
+export function paymentAmount(payment) {
+  return Number(payment.amount_manual ?? payment.amount_ai_suggested ?? 0);
+}
+
+/**
+ * Whether a task is past its deadline and still open
+ * @param {ProjectTask} task
+ * @param {Date} [now]
+ */
+export function isTaskOverdue(task, now = new Date()) {
+  if (!task.deadline || CLOSED_TASK_STATUSES.includes(task.status ?? "")) return false;
+  return new Date(task.deadline).getTime() < now.getTime();
+}
+
+/**
+ * Roll a project's tasks and their payments up into progress and budget figures
+ * @param {{ budget: number | null }} project
+ * @param {ProjectTask[]} tasks
+ * @param {ProjectPayment[]} payments - Payments for the project's tasks
+ * @param {Date} [now]
+ * @returns {ProjectSummary}
+ */
+export function summarizeProject(project, tasks, payments, now = new Date()) {
+  const activeTasks = tasks.filter((task) => task.status !== "rejected");
+  const completedCount = activeTasks.filter((task) => task.status === "completed").length;
+  const progress =
+    activeTasks.length > 0
+      ? Math.round(
+          activeTasks.reduce(
+            (sum, task) => sum + (task.status === "completed" ? 100 : task.progress ?? 0),
+            0
+          ) / activeTasks.length
+        )
+      : 0;
+
+  let burned = 0;
+  let paid = 0;
+  for (const payment of payments) {
+    if (!BURNED_PAYMENT_STATUSES.includes(/** @type {any} */ (payment.status))) continue;
+    burned += paymentAmount(payment);
+    if (payment.status === "paid") paid += paymentAmount(payment);
+  }
+
+  const budget = project.budget === null || project.budget === undefined ? null : Number(project.budget);
+  const remaining = budget === null ? null : budget - burned;
+  const burnedPercent = budget ? Math.round((burned / budget) * 100) : null;
+
+  const overdueTasks = activeTasks
+    .filter((task) => isTaskOverdue(task, now))
+    .sort((a, b) => new Date(a.deadline ?? 0).getTime() - new Date(b.deadline ?? 0).getTime());
+
+  return {
+    taskCount: activeTasks.length,
+    completedCount,
+    progress,
+    budget,
+    burned,
+    paid,
+    remaining,
+    burnedPercent,
+    overBudget: remaining !== null && remaining < 0,
+    overdueTasks,
+  };
+}
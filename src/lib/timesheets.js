@@ -0,0 +1,137 @@
+// @ts-check
+// Time tracking and weekly timesheets, shared by the timer, the timesheet views
+// and payments. Weeks run Monday to Sunday like public.timesheet_week_start in
+// the time tracking migration - keep in sync. Days are "YYYY-MM-DD" keys in the
+// employee's local time.
+
+export const TIMESHEET_STATUSES = /** @type {const} */ (["draft", "submitted", "approved", "rejected"]);
+
+// Entries in a week with one of these timesheet statuses can't be changed
+export const LOCKED_TIMESHEET_STATUSES = ["submitted", "approved"];
+
+export const MAX_ENTRY_MINUTES = 24 * 60;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * @typedef {Object} TimeEntry
+ * @property {string} id
+ * @property {string} task_id
+ * @property {string} work_date
+ * @property {string | null} started_at
+ * @property {string | null} ended_at
+ * @property {number | null} minutes
+ * @property {string} [source]
+ * @property {string | null} [note]
+ */
+
+/**
+ * Local calendar day of a date
+ * @param {Date} date
+ */
+export function toDateKey(date) {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Day `days` after (or before) a day key
+ * @param {string} dateKey
+ * @param {number} days
+ */
+export function addDays(dateKey, days) {
+  // Day keys are calendar days, so do the arithmetic in UTC to dodge DST
+  return new Date(Date.parse(`${dateKey}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+/**
+ * Monday of the week a day falls in
+ * @param {string} dateKey
+ */
+export function weekStart(dateKey) {
+  const weekday = (new Date(`${dateKey}T00:00:00Z`).getUTCDay() + 6) % 7;
+  return addDays(dateKey, -weekday);
+}
+
+/**
+ * The seven days of a week, Monday first
+ * @param {string} weekStartKey
+ */
+export function weekDays(weekStartKey) {
+  return Array.from({ length: 7 }, (_, i) => addDays(weekStartKey, i));
+}
+
+/**
+ * Minutes an entry counts for; a running timer counts the time so far
+ * @param {Pick<TimeEntry, "minutes" | "started_at" | "ended_at">} entry
+ * @param {Date} [now]
+ */
+export function entryMinutes(entry, now = new Date()) {
+  if (entry.minutes !== null && entry.minutes !== undefined) return entry.minutes;
+  if (entry.started_at && !entry.ended_at) {
+    const elapsed = Math.floor((now.getTime() - new Date(entry.started_at).getTime()) / 60000);
+    return Math.min(MAX_ENTRY_MINUTES, Math.max(0, elapsed));
+  }
+  return 0;
+}
+
+/**
+ * Whether an entry is a timer that is still running
+ * @param {Pick<TimeEntry, "started_at" | "ended_at" | "minutes">} entry
+ */
+export function isRunning(entry) {
+  return !!entry.started_at && !entry.ended_at && (entry.minutes === null || entry.minutes === undefined);
+}
+
+/**
+ * Totals for a timesheet week: per day, per task (and task per day) and overall
+ * @param {TimeEntry[]} entries
+ * @param {string} weekStartKey
+ * @param {Date} [now]
+ */
+export function summarizeWeek(entries, weekStartKey, now = new Date()) {
+  const days = weekDays(weekStartKey);
+  /** @type {Record<string, number>} */
+  const dayTotals = Object.fromEntries(days.map((day) => [day, 0]));
+  /** @type {Map<string, { taskId: string, minutes: number, byDay: Record<string, number> }>} */
+  const tasks = new Map();
+  let totalMinutes = 0;
+
+  for (const entry of entries) {
+    if (!(entry.work_date in dayTotals)) continue;
+    const minutes = entryMinutes(entry, now);
+
+    let task = tasks.get(entry.task_id);
+    if (!task) {
+      task = { taskId: entry.task_id, minutes: 0, byDay: Object.fromEntries(days.map((day) => [day, 0])) };
+      tasks.set(entry.task_id, task);
+    }
+
+    task.minutes += minutes;
+    task.byDay[entry.work_date] += minutes;
+    dayTotals[entry.work_date] += minutes;
+    totalMinutes += minutes;
+  }
+
+  return { days, dayTotals, tasks: [...tasks.values()], totalMinutes };
+}
+
+/**
+ * Duration for display, e.g. "2h 05m" or "45m"
+ * @param {number} minutes
+ */
+export function formatMinutes(minutes) {
+  const hours = Math.floor(minutes / 60);
+  const rest = Math.round(minutes % 60);
+  if (hours === 0) return `${rest}m`;
+  return `${hours}h ${String(rest).padStart(2, "0")}m`;
+}
+
+/**
+ * Minutes as decimal hours rounded to the cent, as paid
+ * @param {number} minutes
+ */
+export function minutesToHours(minutes) {
+  return Math.round((minutes / 60) * 100) / 100;
+}
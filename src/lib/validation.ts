@@ -1,4 +1,5 @@
 import { z } from "zod";
+import { toDateKey } from "@/lib/timesheets";
 
 // Auth
 export const loginSchema = z.object({
@@ -27,8 +28,19 @@ export const taskAssignmentSchema = z.object({
     const date = new Date(val);
     return date > new Date();
   }, "Deadline must be a future date"),
-  requiredSkills: z.string().optional(),
-  selectedEmployee: z.string().uuid("Please select an employee"),
+  // Catalog skill names with the minimum proficiency (1-5) the task needs
+  requiredSkills: z.array(
+    z.object({
+      name: z.string().min(1),
+      level: z.number().int().min(1).max(5),
+    })
+  ),
+  // Everyone selected is invited at once; the first to accept gets the task
+  candidates: z.array(z.string().uuid()).min(1, "Please select at least one employee"),
+  responseWindowHours: z.enum(["24", "48", "72", "168"]),
+  inviteBackups: z.boolean(),
+  // "none" leaves the task outside any project
+  projectId: z.string(),
 });
 
 // Task Progress Update
@@ -38,6 +50,13 @@ export const taskProgressSchema = z.object({
   updateText: z.string().max(500, "Update text must be less than 500 characters").optional(),
 });
 
+// Manual time entries
+export const timeEntrySchema = z.object({
+  workDate: z.string().min(1, "Date is required").refine((val) => val <= toDateKey(new Date()), "Time can't be logged for future days"),
+  hours: z.number().min(0.25, "Log at least 15 minutes").max(24, "An entry cannot exceed 24 hours"),
+  note: z.string().max(500, "Note must be less than 500 characters").optional(),
+});
+
 // Payment Management
 export const paymentAmountSchema = z.object({
   amount: z.number().min(0.01, "Amount must be greater than 0").max(10000, "Amount cannot exceed $10,000"),
@@ -56,6 +75,67 @@ export const employeeProfileSchema = z.object({
   skills: z.array(z.string()).min(1, "At least one skill is required"),
 });
 
+// Projects
+export const projectSchema = z.object({
+  name: z.string().trim().min(1, "Project name is required").max(120, "Project name must be less than 120 characters"),
+  description: z.string().max(1000, "Description must be less than 1000 characters").optional(),
+  // "none" leaves the project without an owner
+  ownerId: z.string(),
+  budget: z.string().optional().refine((val) => {
+    if (!val) return true;
+    const amount = Number(val);
+    return !Number.isNaN(amount) && amount >= 0;
+  }, "Budget must be a positive amount"),
+  startDate: z.string().optional(),
+  endDate: z.string().optional(),
+}).refine((data) => !data.startDate || !data.endDate || data.endDate >= data.startDate, {
+  message: "End date must be on or after the start date",
+  path: ["endDate"],
+});
+
+// Recurring task templates
+export const taskTemplateSchema = z.object({
+  title: z.string().trim().min(1, "Template title is required").max(200, "Template title must be less than 200 characters"),
+  description: z.string().min(10, "Description must be at least 10 characters").max(1000, "Description must be less than 1000 characters"),
+  priority: z.enum(["low", "medium", "high"]),
+  requiredSkills: z.array(
+    z.object({
+      name: z.string().min(1),
+      level: z.number().int().min(1).max(5),
+    })
+  ),
+  estimatedHours: z.string().optional().refine((val) => {
+    if (!val) return true;
+    const hours = Number(val);
+    return !Number.isNaN(hours) && hours > 0;
+  }, "Estimated hours must be greater than 0"),
+  complexityMultiplier: z.string().refine((val) => {
+    const multiplier = Number(val);
+    return val !== "" && multiplier >= 0.5 && multiplier <= 3;
+  }, "Complexity multiplier must be between 0.5 and 3"),
+  // "none" leaves new tasks pending for manual assignment
+  defaultAssignee: z.string(),
+  // "none" leaves new tasks outside any project
+  projectId: z.string(),
+  deadlineOffsetDays: z.string().refine((val) => {
+    const days = Number(val);
+    return val !== "" && Number.isInteger(days) && days >= 0 && days <= 365;
+  }, "Deadline offset must be 0-365 days"),
+  frequency: z.enum(["DAILY", "WEEKLY", "MONTHLY"]),
+  interval: z.string().refine((val) => {
+    const interval = Number(val);
+    return Number.isInteger(interval) && interval >= 1 && interval <= 365;
+  }, "Interval must be a whole number from 1 to 365"),
+  byDay: z.array(z.string()),
+  // "start" repeats on the start date's day of the month, "-1" on the last day
+  byMonthDay: z.string(),
+  startsAt: z.string().min(1, "Start is required"),
+  endsAt: z.string().optional(),
+}).refine((data) => !data.endsAt || data.endsAt >= data.startsAt, {
+  message: "End must be on or after the start",
+  path: ["endsAt"],
+});
+
 // Utility functions
 export const validateEmail = (email: string) => {
   return z.string().email().safeParse(email).success;
@@ -73,6 +153,9 @@ export type LoginFormData = z.infer<typeof loginSchema>;
 export type SignupFormData = z.infer<typeof signupSchema>;
 export type TaskAssignmentFormData = z.infer<typeof taskAssignmentSchema>;
 export type TaskProgressFormData = z.infer<typeof taskProgressSchema>;
+export type TimeEntryFormData = z.infer<typeof timeEntrySchema>;
 export type PaymentAmountFormData = z.infer<typeof paymentAmountSchema>;
 export type RejectionReasonFormData = z.infer<typeof rejectionReasonSchema>;
+export type ProjectFormData = z.infer<typeof projectSchema>;
+export type TaskTemplateFormData = z.infer<typeof taskTemplateSchema>;
 export type EmployeeProfileFormData = z.infer<typeof employeeProfileSchema>;
\ No newline at end of file
@@ -1,125 +1,245 @@
 import { create } from 'zustand';
 import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import {
+  DEFAULT_DIGEST_HOUR,
+  NOTIFICATION_PAGE_SIZE,
+  type NotificationChannel,
+  type NotificationType
+} from '@/lib/notifications';
 
 export interface Notification {
   id: string;
-  type: 'task_update' | 'new_message' | 'payment_update' | 'system';
+  type: NotificationType;
   title: string;
   message: string;
+  taskId: string | null;
   timestamp: Date;
   read: boolean;
-  metadata?: Record<string, any>;
+  metadata: Record<string, unknown>;
 }
 
+export interface DeliverySettings {
+  email_digest: boolean;
+  /** UTC hour the daily digest goes out */
+  digest_hour: number;
+}
+
+type ChannelPreferences = Record<NotificationChannel, boolean>;
+
 interface NotificationState {
+  userId: string | null;
   notifications: Notification[];
   unreadCount: number;
-  addNotification: (notification: Omit<Notification, 'id' | 'timestamp' | 'read'>) => void;
-  markAsRead: (id: string) => void;
-  markAllAsRead: () => void;
-  clearNotifications: () => void;
-  subscribeToRealtimeUpdates: (userId: string, userRole: string) => () => void;
+  /** Per-type channel switches; missing types are enabled on every channel */
+  preferences: Partial<Record<NotificationType, ChannelPreferences>>;
+  deliverySettings: DeliverySettings;
+  loadNotifications: (userId: string) => Promise<void>;
+  markAsRead: (id: string) => Promise<void>;
+  /** Marks everything read, or only the given type */
+  markAllAsRead: (type?: NotificationType) => Promise<void>;
+  clearNotifications: () => Promise<void>;
+  loadPreferences: (userId: string) => Promise<void>;
+  setPreference: (type: NotificationType, channel: NotificationChannel, enabled: boolean) => Promise<void>;
+  setDeliverySettings: (changes: Partial<DeliverySettings>) => Promise<void>;
+  subscribeToRealtimeUpdates: (userId: string) => () => void;
 }
 
+const toNotification = (row: Tables<'notifications'>): Notification => ({
+  id: row.id,
+  type: row.type as NotificationType,
+  title: row.title,
+  message: row.message,
+  taskId: row.task_id,
+  timestamp: new Date(row.created_at ?? Date.now()),
+  read: row.read_at !== null,
+  metadata: (row.metadata as Record<string, unknown>) ?? {}
+});
+
 export const useNotificationStore = create<NotificationState>((set, get) => ({
+  userId: null,
   notifications: [],
   unreadCount: 0,
-  
-  addNotification: (notification) => {
-    const newNotification: Notification = {
-      ...notification,
-      id: Math.random().toString(36).substr(2, 9),
-      timestamp: new Date(),
-      read: false
-    };
-    
+  preferences: {},
+  deliverySettings: { email_digest: false, digest_hour: DEFAULT_DIGEST_HOUR },
+
+  loadNotifications: async (userId) => {
+    const [{ data, error }, { count, error: countError }] = await Promise.all([
+      supabase
+        .from('notifications')
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false })
+        .limit(NOTIFICATION_PAGE_SIZE),
+      supabase
+        .from('notifications')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', userId)
+        .is('read_at', null)
+    ]);
+
+    if (error || countError) {
+      console.error('Error loading notifications:', error || countError);
+      return;
+    }
+
+    set({ userId, notifications: (data || []).map(toNotification), unreadCount: count ?? 0 });
+  },
+
+  markAsRead: async (id) => {
+    const notification = get().notifications.find((n) => n.id === id);
+    if (!notification || notification.read) return;
+
     set((state) => ({
-      notifications: [newNotification, ...state.notifications],
-      unreadCount: state.unreadCount + 1
+      notifications: state.notifications.map((n) => (n.id === id ? { ...n, read: true } : n)),
+      unreadCount: Math.max(0, state.unreadCount - 1)
     }));
+
+    const { error } = await supabase
+      .from('notifications')
+      .update({ read_at: new Date().toISOString() })
+      .eq('id', id)
+      .is('read_at', null);
+
+    if (error) console.error('Error marking notification read:', error);
   },
-  
-  markAsRead: (id) => {
-    set((state) => {
-      const updatedNotifications = state.notifications.map(notif =>
-        notif.id === id ? { ...notif, read: true } : notif
-      );
-      
-      return {
-        notifications: updatedNotifications,
-        unreadCount: updatedNotifications.filter(n => !n.read).length
-      };
-    });
-  },
-  
-  markAllAsRead: () => {
+
+  markAllAsRead: async (type) => {
+    const { userId, notifications } = get();
+    if (!userId) return;
+
+    const matches = (n: Notification) => !type || n.type === type;
+    const markedHere = notifications.filter((n) => matches(n) && !n.read).length;
+    if (type && markedHere === 0) return;
+
     set((state) => ({
-      notifications: state.notifications.map(notif => ({ ...notif, read: true })),
-      unreadCount: 0
+      notifications: state.notifications.map((n) => (matches(n) ? { ...n, read: true } : n)),
+      unreadCount: type ? Math.max(0, state.unreadCount - markedHere) : 0
     }));
+
+    let query = supabase
+      .from('notifications')
+      .update({ read_at: new Date().toISOString() })
+      .eq('user_id', userId)
+      .is('read_at', null);
+    if (type) query = query.eq('type', type);
+
+    const { error } = await query;
+    if (error) console.error('Error marking notifications read:', error);
   },
-  
-  clearNotifications: () => {
+
+  clearNotifications: async () => {
+    const { userId } = get();
+    if (!userId) return;
+
     set({ notifications: [], unreadCount: 0 });
+
+    const { error } = await supabase.from('notifications').delete().eq('user_id', userId);
+    if (error) console.error('Error clearing notifications:', error);
   },
-  
-  subscribeToRealtimeUpdates: (userId: string, userRole: string) => {
+
+  loadPreferences: async (userId) => {
+    const [{ data, error }, { data: settings, error: settingsError }] = await Promise.all([
+      supabase
+        .from('notification_preferences')
+        .select('type, in_app, email')
+        .eq('user_id', userId),
+      supabase
+        .from('notification_delivery_settings')
+        .select('email_digest, digest_hour')
+        .eq('user_id', userId)
+        .maybeSingle()
+    ]);
+
+    if (error || settingsError) {
+      console.error('Error loading notification preferences:', error || settingsError);
+      return;
+    }
+
+    set({
+      preferences: Object.fromEntries(
+        (data || []).map((pref) => [pref.type, { in_app: pref.in_app, email: pref.email }])
+      ),
+      deliverySettings: settings ?? { email_digest: false, digest_hour: DEFAULT_DIGEST_HOUR }
+    });
+  },
+
+  setPreference: async (type, channel, enabled) => {
+    const { userId, preferences } = get();
+    if (!userId) return;
+
+    const updated = { in_app: true, email: true, ...preferences[type], [channel]: enabled };
+    set({ preferences: { ...preferences, [type]: updated } });
+
+    const { error } = await supabase
+      .from('notification_preferences')
+      .upsert({ user_id: userId, type, ...updated, updated_at: new Date().toISOString() });
+
+    if (error) {
+      set({ preferences });
+      throw error;
+    }
+  },
+
+  setDeliverySettings: async (changes) => {
+    const { userId, deliverySettings } = get();
+    if (!userId) return;
+
+    const updated = { ...deliverySettings, ...changes };
+    set({ deliverySettings: updated });
+
+    const { error } = await supabase
+      .from('notification_delivery_settings')
+      .upsert({ user_id: userId, ...updated, updated_at: new Date().toISOString() });
+
+    if (error) {
+      set({ deliverySettings });
+      throw error;
+    }
+  },
+
+  subscribeToRealtimeUpdates: (userId: string) => {
+    set({ userId });
+    get().loadNotifications(userId);
+    get().loadPreferences(userId);
+
+    // Inserts come from the notification triggers; updates are reads made on
+    // another device
     const channel = supabase
-      .channel('notifications')
+      .channel(`notifications-${userId}`)
       .on(
         'postgres_changes',
         {
-          event: '*',
+          event: 'INSERT',
           schema: 'public',
-          table: 'tasks',
-          filter: userRole === 'employee' ? `assigned_to=eq.${userId}` : undefined
+          table: 'notifications',
+          filter: `user_id=eq.${userId}`
         },
         (payload) => {
-          const { addNotification } = get();
-          
-          if (payload.eventType === 'INSERT') {
-            addNotification({
-              type: 'task_update',
-              title: 'New Task Assigned',
-              message: `You have been assigned a new task: ${payload.new.title}`,
-              metadata: { taskId: payload.new.id }
-            });
-          } else if (payload.eventType === 'UPDATE') {
-            addNotification({
-              type: 'task_update',
-              title: 'Task Updated',
-              message: `Task "${payload.new.title}" has been updated`,
-              metadata: { taskId: payload.new.id }
-            });
-          }
+          const notification = toNotification(payload.new as Tables<'notifications'>);
+          set((state) => ({
+            notifications: [notification, ...state.notifications].slice(0, NOTIFICATION_PAGE_SIZE),
+            unreadCount: state.unreadCount + (notification.read ? 0 : 1)
+          }));
         }
       )
       .on(
         'postgres_changes',
         {
-          event: '*',
+          event: 'UPDATE',
           schema: 'public',
-          table: 'payments',
-          filter: userRole === 'employee' ? `user_id=eq.${userId}` : undefined
+          table: 'notifications',
+          filter: `user_id=eq.${userId}`
         },
         (payload) => {
-          const { addNotification } = get();
-          
-          if (payload.eventType === 'UPDATE' && payload.new.status === 'approved') {
-            addNotification({
-              type: 'payment_update',
-              title: 'Payment Approved',
-              message: `Your payment for task has been approved`,
-              metadata: { paymentId: payload.new.id }
-            });
-          } else if (payload.eventType === 'UPDATE' && payload.new.status === 'paid') {
-            addNotification({
-              type: 'payment_update',
-              title: 'Payment Processed',
-              message: `Your payment has been processed successfully`,
-              metadata: { paymentId: payload.new.id }
-            });
-          }
+          const updated = toNotification(payload.new as Tables<'notifications'>);
+          const current = get().notifications.find((n) => n.id === updated.id);
+          if (!updated.read || (current && current.read)) return;
+
+          set((state) => ({
+            notifications: state.notifications.map((n) => (n.id === updated.id ? updated : n)),
+            unreadCount: Math.max(0, state.unreadCount - 1)
+          }));
         }
       )
       .subscribe();
@@ -134,9 +254,10 @@ export const useNotificationStore = create<NotificationState>((set, get) => ({
 export const useNotifications = () => useNotificationStore((state) => state.notifications);
 export const useUnreadCount = () => useNotificationStore((state) => state.unreadCount);
 export const useNotificationActions = () => useNotificationStore((state) => ({
-  addNotification: state.addNotification,
   markAsRead: state.markAsRead,
   markAllAsRead: state.markAllAsRead,
   clearNotifications: state.clearNotifications,
+  setPreference: state.setPreference,
+  setDeliverySettings: state.setDeliverySettings,
   subscribeToRealtimeUpdates: state.subscribeToRealtimeUpdates
-}));
\ No newline at end of file
+}));
@@ -0,0 +1,214 @@
+import { create } from 'zustand';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { summarizeProject, type ProjectPayment, type ProjectSummary, type ProjectTask } from '@/lib/projects';
+import { type ProjectFormData } from '@/lib/validation';
+
+export interface Project {
+  id: string;
+  name: string;
+  description: string | null;
+  owner_id: string | null;
+  budget: number | null;
+  start_date: string | null;
+  end_date: string | null;
+  created_at: string | null;
+  owner: {
+    full_name: string;
+  } | null;
+}
+
+export interface ProjectTaskRow extends ProjectTask {
+  project_id: string;
+  assigned_to: string | null;
+  priority: string | null;
+}
+
+interface ProjectState {
+  projects: Project[];
+  projectTasks: ProjectTaskRow[];
+  projectPayments: (ProjectPayment & { task_id: string })[];
+  selectedProjectId: string | null;
+  loading: boolean;
+
+  // Actions
+  loadProjects: (withRollups?: boolean) => Promise<void>;
+  setSelectedProjectId: (projectId: string | null) => void;
+  saveProject: (data: ProjectFormData, userId: string, projectId?: string) => Promise<boolean>;
+  deleteProject: (projectId: string) => Promise<boolean>;
+  subscribeToProjectUpdates: () => () => void;
+
+  // Computed values
+  getProjectTasks: (projectId: string) => ProjectTaskRow[];
+  getProjectSummary: (projectId: string) => ProjectSummary | null;
+}
+
+export const useProjectStore = create<ProjectState>((set, get) => ({
+  projects: [],
+  projectTasks: [],
+  projectPayments: [],
+  selectedProjectId: null,
+  loading: false,
+
+  // Roll-ups need the project tasks and their payments, which only admins and
+  // staff can read in full; employees only need the names for filtering
+  loadProjects: async (withRollups = false) => {
+    set({ loading: true });
+
+    try {
+      const { data: projects, error } = await supabase
+        .from("projects")
+        .select("*, owner:profiles!projects_owner_id_fkey(full_name)")
+        .order("name");
+
+      if (error) throw error;
+
+      if (!withRollups) {
+        set({ projects: projects || [], loading: false });
+        return;
+      }
+
+      const { data: tasks, error: tasksError } = await supabase
+        .from("tasks")
+        .select("id, title, status, progress, deadline, priority, assigned_to, project_id")
+        .not("project_id", "is", null);
+
+      if (tasksError) throw tasksError;
+
+      const taskIds = tasks?.map((t) => t.id) || [];
+      const { data: payments, error: paymentsError } = taskIds.length > 0
+        ? await supabase
+          .from("payments")
+          .select("task_id, status, amount_manual, amount_ai_suggested")
+          .in("task_id", taskIds)
+        : { data: [], error: null };
+
+      if (paymentsError) throw paymentsError;
+
+      set({
+        projects: projects || [],
+        projectTasks: tasks || [],
+        projectPayments: payments || [],
+        loading: false,
+      });
+    } catch (error) {
+      console.error("Error loading projects:", error);
+      set({ loading: false });
+      toast.error("Failed to load projects");
+    }
+  },
+
+  setSelectedProjectId: (projectId) => set({ selectedProjectId: projectId }),
+
+  saveProject: async (data, userId, projectId) => {
+    const values = {
+      name: data.name.trim(),
+      description: data.description?.trim() || null,
+      owner_id: data.ownerId === "none" ? null : data.ownerId,
+      budget: data.budget ? Number(data.budget) : null,
+      start_date: data.startDate || null,
+      end_date: data.endDate || null,
+    };
+
+    try {
+      const { error } = projectId
+        ? await supabase.from("projects").update(values).eq("id", projectId)
+        : await supabase.from("projects").insert({ ...values, created_by: userId });
+
+      if (error) {
+        throw new Error(
+          error.code === "23505" ? `A project named "${values.name}" already exists` : error.message
+        );
+      }
+
+      toast.success(projectId ? "Project updated" : "Project created");
+      await get().loadProjects(true);
+      return true;
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to save project");
+      return false;
+    }
+  },
+
+  deleteProject: async (projectId) => {
+    try {
+      // Tasks keep existing; their project_id is cleared by the foreign key
+      const { error } = await supabase.from("projects").delete().eq("id", projectId);
+
+      if (error) throw error;
+
+      toast.success("Project deleted");
+      set((state) => ({
+        selectedProjectId: state.selectedProjectId === projectId ? null : state.selectedProjectId,
+      }));
+      await get().loadProjects(true);
+      return true;
+    } catch (error) {
+      toast.error("Failed to delete project");
+      return false;
+    }
+  },
+
+  subscribeToProjectUpdates: () => {
+    const channel = supabase
+      .channel("project-updates")
+      .on(
+        "postgres_changes",
+        {
+          event: "*",
+          schema: "public",
+          table: "projects"
+        },
+        () => {
+          get().loadProjects(true);
+        }
+      )
+      .on(
+        "postgres_changes",
+        {
+          event: "*",
+          schema: "public",
+          table: "payments"
+        },
+        () => {
+          get().loadProjects(true);
+        }
+      )
+      .on(
+        "postgres_changes",
+        {
+          event: "*",
+          schema: "public",
+          table: "tasks"
+        },
+        () => {
+          get().loadProjects(true);
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  },
+
+  getProjectTasks: (projectId) => get().projectTasks.filter((task) => task.project_id === projectId),
+
+  getProjectSummary: (projectId) => {
+    const { projects, projectPayments, getProjectTasks } = get();
+    const project = projects.find((p) => p.id === projectId);
+    if (!project) return null;
+
+    const tasks = getProjectTasks(projectId);
+    const taskIds = new Set(tasks.map((task) => task.id));
+    return summarizeProject(
+      project,
+      tasks,
+      projectPayments.filter((payment) => taskIds.has(payment.task_id))
+    );
+  },
+}));
+
+// Selectors for optimized re-renders
+export const useProjects = () => useProjectStore((state) => state.projects);
+export const useSelectedProjectId = () => useProjectStore((state) => state.selectedProjectId);
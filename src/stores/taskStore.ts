@@ -1,6 +1,7 @@
 import { create } from 'zustand';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
+import { groupBlockers, type TaskBlocker } from '@shared/taskDependencies';
 
 export interface Task {
   id: string;
@@ -12,9 +13,13 @@ export interface Task {
   deadline: string | null;
   assigned_to: string | null;
   created_at: string;
+  project_id: string | null;
+  progress_from_checklist?: boolean;
   profiles: {
     full_name: string;
   } | null;
+  // Incomplete predecessors; the task can't start until they are done
+  blocked_by?: TaskBlocker[];
 }
 
 interface TaskState {
@@ -36,6 +41,7 @@ interface TaskState {
     searchQuery?: string;
     statusFilter?: string;
     priorityFilter?: string;
+    projectFilter?: string;
     sortBy?: string;
   }) => Task[];
 }
@@ -64,6 +70,15 @@ export const useTaskStore = create<TaskState>((set, get) => ({
         throw new Error("Failed to load tasks");
       }
 
+      // Predecessors still holding tasks up
+      const { data: blockerRows, error: blockersError } = await supabase
+        .rpc("get_task_blockers", { _task_ids: tasksData?.map(t => t.id) || [] });
+
+      if (blockersError) {
+        console.error("Error loading task blockers:", blockersError);
+      }
+      const blockers = groupBlockers(blockerRows);
+
       // Get assigned user profiles
       const assignedIds = tasksData?.filter(t => t.assigned_to).map(t => t.assigned_to) || [];
 
@@ -75,12 +90,13 @@ export const useTaskStore = create<TaskState>((set, get) => ({
 
         const merged = tasksData?.map(task => ({
           ...task,
-          profiles: task.assigned_to ? profileData?.find(p => p.id === task.assigned_to) || null : null
+          profiles: task.assigned_to ? profileData?.find(p => p.id === task.assigned_to) || null : null,
+          blocked_by: blockers.get(task.id) || []
         })) || [];
 
         set({ tasks: merged, loading: false });
       } else {
-        const merged = tasksData?.map(task => ({ ...task, profiles: null })) || [];
+        const merged = tasksData?.map(task => ({ ...task, profiles: null, blocked_by: blockers.get(task.id) || [] })) || [];
         set({ tasks: merged, loading: false });
       }
     } catch (error) {
@@ -180,6 +196,17 @@ export const useTaskStore = create<TaskState>((set, get) => ({
           get().loadTasks(userId, isAdmin);
         }
       )
+      .on(
+        "postgres_changes",
+        {
+          event: "*",
+          schema: "public",
+          table: "task_dependencies"
+        },
+        () => {
+          get().loadTasks(userId, isAdmin);
+        }
+      )
       .subscribe();
 
     return () => {
@@ -189,7 +216,7 @@ export const useTaskStore = create<TaskState>((set, get) => ({
   
   getFilteredTasks: (filters) => {
     const { tasks } = get();
-    const { searchQuery = '', statusFilter = 'all', priorityFilter = 'all', sortBy = 'created_at' } = filters;
+    const { searchQuery = '', statusFilter = 'all', priorityFilter = 'all', projectFilter = 'all', sortBy = 'created_at' } = filters;
     
     let filtered = tasks.filter((task) => {
       // Search filter
@@ -204,7 +231,11 @@ export const useTaskStore = create<TaskState>((set, get) => ({
       // Priority filter
       const matchesPriority = priorityFilter === "all" || task.priority === priorityFilter;
 
-      return matchesSearch && matchesStatus && matchesPriority;
+      // Project filter ("none" keeps tasks outside any project)
+      const matchesProject = projectFilter === "all" ||
+        (projectFilter === "none" ? !task.project_id : task.project_id === projectFilter);
+
+      return matchesSearch && matchesStatus && matchesPriority && matchesProject;
     });
 
     // Apply sorting
@@ -15,6 +15,7 @@ interface UIState {
   // Filters and sorting
   statusFilter: string;
   priorityFilter: string;
+  projectFilter: string;
   sortBy: string;
   
   // Actions
@@ -27,6 +28,7 @@ interface UIState {
   triggerRefresh: () => void;
   setStatusFilter: (filter: string) => void;
   setPriorityFilter: (filter: string) => void;
+  setProjectFilter: (filter: string) => void;
   setSortBy: (sort: string) => void;
   
   // Computed values
@@ -44,6 +46,7 @@ export const useUIStore = create<UIState>()(
       refreshTrigger: 0,
       statusFilter: 'all',
       priorityFilter: 'all',
+      projectFilter: 'all',
       sortBy: 'created_at',
       
       setTheme: (theme) => set({ theme }),
@@ -64,6 +67,8 @@ export const useUIStore = create<UIState>()(
       
       setPriorityFilter: (filter) => set({ priorityFilter: filter }),
       
+      setProjectFilter: (filter) => set({ projectFilter: filter }),
+      
       setSortBy: (sort) => set({ sortBy: sort }),
       
       isDarkMode: () => {
@@ -83,6 +88,7 @@ export const useUIStore = create<UIState>()(
         activeView: state.activeView,
         statusFilter: state.statusFilter,
         priorityFilter: state.priorityFilter,
+        projectFilter: state.projectFilter,
         sortBy: state.sortBy,
       }),
     }
@@ -101,6 +107,7 @@ export const useRefreshTrigger = () => useUIStore((state) => state.refreshTrigge
 export const useFilters = () => useUIStore((state) => ({
   statusFilter: state.statusFilter,
   priorityFilter: state.priorityFilter,
+  projectFilter: state.projectFilter,
   sortBy: state.sortBy
 }));
 export const useUIActions = () => useUIStore((state) => ({
@@ -113,5 +120,6 @@ export const useUIActions = () => useUIStore((state) => ({
   triggerRefresh: state.triggerRefresh,
   setStatusFilter: state.setStatusFilter,
   setPriorityFilter: state.setPriorityFilter,
+  setProjectFilter: state.setProjectFilter,
   setSortBy: state.setSortBy
 }));
\ No newline at end of file
@@ -0,0 +1,117 @@
+-- ============================================================================
+-- CHAT THREADS MIGRATION
+-- Persists AI assistant conversations server-side so they survive across devices
+-- Each user can keep multiple named threads; messages belong to one thread
+-- ============================================================================
+
+-- ============================================================================
+-- CREATE TABLES
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.chat_threads (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  title TEXT NOT NULL DEFAULT 'New conversation',
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CONSTRAINT chat_thread_title_length CHECK (char_length(title) BETWEEN 1 AND 200)
+);
+
+CREATE TABLE IF NOT EXISTS public.chat_messages (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  thread_id UUID NOT NULL REFERENCES public.chat_threads(id) ON DELETE CASCADE,
+  role TEXT NOT NULL CHECK (role IN ('user', 'assistant')),
+  content TEXT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- ============================================================================
+-- CREATE INDEXES
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_chat_threads_user_id
+  ON public.chat_threads(user_id, updated_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_chat_messages_thread_id
+  ON public.chat_messages(thread_id, created_at);
+
+-- ============================================================================
+-- TRIGGERS
+-- ============================================================================
+
+CREATE TRIGGER update_chat_threads_updated_at BEFORE UPDATE ON public.chat_threads
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Bump the thread when a message is added so the most recent thread sorts first
+CREATE OR REPLACE FUNCTION public.touch_chat_thread()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.chat_threads
+  SET updated_at = NOW()
+  WHERE id = NEW.thread_id;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_chat_message_created ON public.chat_messages;
+CREATE TRIGGER on_chat_message_created
+  AFTER INSERT ON public.chat_messages
+  FOR EACH ROW
+  EXECUTE FUNCTION public.touch_chat_thread();
+
+-- ============================================================================
+-- ROW LEVEL SECURITY (RLS) POLICIES
+-- ============================================================================
+
+ALTER TABLE public.chat_threads ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.chat_messages ENABLE ROW LEVEL SECURITY;
+
+-- Threads are private to their owner
+CREATE POLICY "Users can view own chat threads" ON public.chat_threads FOR SELECT TO authenticated
+  USING (auth.uid() = user_id);
+CREATE POLICY "Users can create own chat threads" ON public.chat_threads FOR INSERT TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update own chat threads" ON public.chat_threads FOR UPDATE TO authenticated
+  USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete own chat threads" ON public.chat_threads FOR DELETE TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Messages inherit access from their thread
+CREATE POLICY "Users can view messages in own threads" ON public.chat_messages FOR SELECT TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.chat_threads
+      WHERE chat_threads.id = chat_messages.thread_id
+      AND chat_threads.user_id = auth.uid()
+    )
+  );
+CREATE POLICY "Users can add messages to own threads" ON public.chat_messages FOR INSERT TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.chat_threads
+      WHERE chat_threads.id = chat_messages.thread_id
+      AND chat_threads.user_id = auth.uid()
+    )
+  );
+
+-- ============================================================================
+-- COMMENTS FOR DOCUMENTATION
+-- ============================================================================
+
+COMMENT ON TABLE public.chat_threads IS 'AI assistant conversations, one row per thread owned by a user';
+COMMENT ON TABLE public.chat_messages IS 'User and assistant messages belonging to a chat thread';
+
+-- ============================================================================
+-- MIGRATION COMPLETION
+-- ============================================================================
+
+DO $$
+BEGIN
+  RAISE NOTICE 'Chat threads migration completed successfully!';
+  RAISE NOTICE 'Created: chat_threads, chat_messages with owner-only RLS';
+END $$;
@@ -0,0 +1,69 @@
+-- ============================================================================
+-- AGENT PENDING ACTIONS MIGRATION
+-- Human-in-the-loop approvals for destructive or financial agent tool calls
+-- The agent records a pending action instead of executing the tool; the server
+-- runs it only when the user approves that specific action ID
+-- ============================================================================
+
+-- ============================================================================
+-- CREATE TABLES
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.agent_pending_actions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  thread_id UUID REFERENCES public.chat_threads(id) ON DELETE SET NULL,
+  tool_name TEXT NOT NULL,
+  args JSONB NOT NULL DEFAULT '{}'::jsonb,
+  summary TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'approved', 'rejected', 'executed', 'failed')),
+  result JSONB,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  resolved_at TIMESTAMPTZ
+);
+
+-- Assistant messages remember which pending actions they proposed
+ALTER TABLE public.chat_messages
+ADD COLUMN IF NOT EXISTS action_ids UUID[] NOT NULL DEFAULT '{}';
+
+-- ============================================================================
+-- CREATE INDEXES
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_agent_pending_actions_user_status
+  ON public.agent_pending_actions(user_id, status);
+
+CREATE INDEX IF NOT EXISTS idx_agent_pending_actions_thread_id
+  ON public.agent_pending_actions(thread_id);
+
+-- ============================================================================
+-- ROW LEVEL SECURITY (RLS) POLICIES
+-- ============================================================================
+
+-- Actions are created and resolved by the API server (service role) only
+ALTER TABLE public.agent_pending_actions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own pending actions" ON public.agent_pending_actions FOR SELECT TO authenticated
+  USING (auth.uid() = user_id);
+CREATE POLICY "Admins can view all pending actions" ON public.agent_pending_actions FOR SELECT TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- ============================================================================
+-- COMMENTS FOR DOCUMENTATION
+-- ============================================================================
+
+COMMENT ON TABLE public.agent_pending_actions IS 'Agent tool calls awaiting explicit user approval before they are executed';
+COMMENT ON COLUMN public.agent_pending_actions.summary IS 'Human-readable description of what the action will do, shown on the approval card';
+COMMENT ON COLUMN public.agent_pending_actions.result IS 'Tool output (or error) once the approved action has been executed';
+COMMENT ON COLUMN public.chat_messages.action_ids IS 'Pending actions proposed by this assistant message';
+
+-- ============================================================================
+-- MIGRATION COMPLETION
+-- ============================================================================
+
+DO $$
+BEGIN
+  RAISE NOTICE 'Agent pending actions migration completed successfully!';
+  RAISE NOTICE 'Created: agent_pending_actions; added chat_messages.action_ids';
+END $$;
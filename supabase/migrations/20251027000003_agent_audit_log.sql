@@ -0,0 +1,69 @@
+-- ============================================================================
+-- AGENT AUDIT LOG MIGRATION
+-- Persistent record of every tool the chat agent invokes (and of approved
+-- actions the server executes on the agent's behalf), so admins can answer
+-- "who changed this, and was it the AI?"
+-- ============================================================================
+
+-- ============================================================================
+-- CREATE TABLES
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.agent_audit_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  user_email TEXT,
+  user_role TEXT NOT NULL,
+  tool_name TEXT NOT NULL,
+  args JSONB NOT NULL DEFAULT '{}'::jsonb,
+  result_summary TEXT,
+  success BOOLEAN NOT NULL,
+  latency_ms INTEGER NOT NULL DEFAULT 0,
+  source TEXT NOT NULL DEFAULT 'agent' CHECK (source IN ('agent', 'approval')),
+  thread_id UUID REFERENCES public.chat_threads(id) ON DELETE SET NULL,
+  action_id UUID REFERENCES public.agent_pending_actions(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- ============================================================================
+-- CREATE INDEXES
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_agent_audit_log_created_at
+  ON public.agent_audit_log(created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_agent_audit_log_user_id
+  ON public.agent_audit_log(user_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_agent_audit_log_tool_name
+  ON public.agent_audit_log(tool_name, created_at DESC);
+
+-- ============================================================================
+-- ROW LEVEL SECURITY (RLS) POLICIES
+-- ============================================================================
+
+-- Entries are written by the API server (service role) only and never edited
+ALTER TABLE public.agent_audit_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view agent audit log" ON public.agent_audit_log FOR SELECT TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- ============================================================================
+-- COMMENTS FOR DOCUMENTATION
+-- ============================================================================
+
+COMMENT ON TABLE public.agent_audit_log IS 'One row per agent tool invocation, including denied and failed calls';
+COMMENT ON COLUMN public.agent_audit_log.user_email IS 'Email at the time of the call, kept if the user is later deleted';
+COMMENT ON COLUMN public.agent_audit_log.result_summary IS 'Tool result message or error, truncated';
+COMMENT ON COLUMN public.agent_audit_log.source IS 'agent: called by the model during a chat; approval: executed by the server after the user approved a pending action';
+COMMENT ON COLUMN public.agent_audit_log.action_id IS 'Pending action created or executed by this call, for approval-required tools';
+
+-- ============================================================================
+-- MIGRATION COMPLETION
+-- ============================================================================
+
+DO $$
+BEGIN
+  RAISE NOTICE 'Agent audit log migration completed successfully!';
+  RAISE NOTICE 'Created: agent_audit_log';
+END $$;
@@ -0,0 +1,177 @@
+-- ============================================================================
+-- TASK STATUS STATE MACHINE MIGRATION
+-- A single table of legal task status transitions (and the roles allowed to
+-- make each one), enforced by a trigger on public.tasks
+-- Mirrored in server/shared/taskStatus.js for the UI and agent tools - keep in sync
+-- ============================================================================
+
+-- ============================================================================
+-- CREATE TABLES
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.task_status_transitions (
+  from_status task_status NOT NULL,
+  to_status task_status NOT NULL,
+  allowed_roles app_role[] NOT NULL,
+  PRIMARY KEY (from_status, to_status),
+  CONSTRAINT task_status_transitions_distinct CHECK (from_status <> to_status)
+);
+
+INSERT INTO public.task_status_transitions (from_status, to_status, allowed_roles) VALUES
+  ('pending', 'invited', ARRAY['admin', 'staff']::app_role[]),
+  ('invited', 'accepted', ARRAY['employee']::app_role[]),
+  ('invited', 'rejected', ARRAY['employee']::app_role[]),
+  ('accepted', 'ongoing', ARRAY['employee']::app_role[]),
+  ('accepted', 'completed', ARRAY['employee', 'admin', 'staff']::app_role[]),
+  ('ongoing', 'completed', ARRAY['employee', 'admin', 'staff']::app_role[]),
+  -- Reassignment sends the task back out as a fresh invitation
+  ('accepted', 'invited', ARRAY['admin', 'staff']::app_role[]),
+  ('ongoing', 'invited', ARRAY['admin', 'staff']::app_role[]),
+  ('rejected', 'invited', ARRAY['admin', 'staff']::app_role[])
+ON CONFLICT (from_status, to_status) DO UPDATE SET allowed_roles = EXCLUDED.allowed_roles;
+
+-- ============================================================================
+-- FIX EXISTING DATA
+-- ============================================================================
+
+-- Completed tasks are always fully done
+UPDATE public.tasks
+SET progress = 100, completed_at = COALESCE(completed_at, updated_at, NOW())
+WHERE status = 'completed' AND (progress IS DISTINCT FROM 100 OR completed_at IS NULL);
+
+ALTER TABLE public.tasks
+DROP CONSTRAINT IF EXISTS tasks_completed_progress_check;
+
+ALTER TABLE public.tasks
+ADD CONSTRAINT tasks_completed_progress_check CHECK (status <> 'completed' OR progress = 100);
+
+-- ============================================================================
+-- FUNCTIONS
+-- ============================================================================
+
+-- Validate status changes against task_status_transitions. Requests made with a
+-- user's JWT must hold one of the allowed roles; the API server (service role,
+-- no auth.uid()) checks the role itself with server/shared/taskStatus.js, so only the
+-- transition is validated for it.
+CREATE OR REPLACE FUNCTION public.enforce_task_status_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  transition_roles app_role[];
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status NOT IN ('pending', 'invited') THEN
+      RAISE EXCEPTION 'New tasks must start as pending or invited, not %', NEW.status
+        USING ERRCODE = 'check_violation';
+    END IF;
+  ELSIF NEW.status IS DISTINCT FROM OLD.status THEN
+    SELECT allowed_roles INTO transition_roles
+    FROM public.task_status_transitions
+    WHERE from_status = OLD.status AND to_status = NEW.status;
+
+    IF transition_roles IS NULL THEN
+      RAISE EXCEPTION 'A task cannot move from % to %', OLD.status, NEW.status
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF auth.uid() IS NOT NULL AND NOT EXISTS (
+      SELECT 1 FROM public.user_roles
+      WHERE user_id = auth.uid() AND role = ANY (transition_roles)
+    ) THEN
+      RAISE EXCEPTION 'Your role cannot move a task from % to %', OLD.status, NEW.status
+        USING ERRCODE = 'insufficient_privilege';
+    END IF;
+  END IF;
+
+  -- Stamp the lifecycle timestamps when a task enters each status
+  IF TG_OP = 'INSERT' OR NEW.status IS DISTINCT FROM OLD.status THEN
+    CASE NEW.status
+      WHEN 'invited' THEN
+        NEW.accepted_at := NULL;
+        NEW.started_at := NULL;
+      WHEN 'accepted' THEN
+        NEW.accepted_at := COALESCE(NEW.accepted_at, NOW());
+      WHEN 'ongoing' THEN
+        NEW.started_at := COALESCE(NEW.started_at, NOW());
+      WHEN 'completed' THEN
+        NEW.progress := 100;
+        NEW.completed_at := COALESCE(NEW.completed_at, NOW());
+      ELSE
+        NULL;
+    END CASE;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Accepting an invitation accepts and starts the task; rejecting it rejects
+-- the task if it is still waiting on that employee. Each step goes through the
+-- transition trigger above.
+CREATE OR REPLACE FUNCTION public.handle_invitation_response()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'accepted' AND OLD.status = 'pending' THEN
+    UPDATE public.tasks
+    SET status = 'accepted'
+    WHERE id = NEW.task_id AND status = 'invited' AND assigned_to = NEW.to_user_id;
+
+    UPDATE public.tasks
+    SET status = 'ongoing'
+    WHERE id = NEW.task_id AND status = 'accepted' AND assigned_to = NEW.to_user_id;
+  ELSIF NEW.status = 'rejected' AND OLD.status = 'pending' THEN
+    UPDATE public.tasks
+    SET status = 'rejected'
+    WHERE id = NEW.task_id AND status = 'invited' AND assigned_to = NEW.to_user_id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- ============================================================================
+-- TRIGGERS
+-- ============================================================================
+
+DROP TRIGGER IF EXISTS enforce_task_status_transition ON public.tasks;
+CREATE TRIGGER enforce_task_status_transition
+  BEFORE INSERT OR UPDATE OF status ON public.tasks
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_task_status_transition();
+
+-- ============================================================================
+-- ROW LEVEL SECURITY (RLS) POLICIES
+-- ============================================================================
+
+-- The transition table is reference data: readable by everyone, changed by migrations
+ALTER TABLE public.task_status_transitions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view task status transitions" ON public.task_status_transitions FOR SELECT TO authenticated
+  USING (true);
+
+-- ============================================================================
+-- COMMENTS FOR DOCUMENTATION
+-- ============================================================================
+
+COMMENT ON TABLE public.task_status_transitions IS 'Legal task status transitions and the roles allowed to make each one; mirrored in server/shared/taskStatus.js';
+COMMENT ON COLUMN public.task_status_transitions.allowed_roles IS 'Roles that may make the transition with their own credentials; the API server checks roles itself';
+COMMENT ON FUNCTION public.enforce_task_status_transition() IS 'Rejects task status changes not listed in task_status_transitions and stamps accepted_at/started_at/completed_at';
+COMMENT ON CONSTRAINT tasks_completed_progress_check ON public.tasks IS 'A completed task always has progress 100';
+COMMENT ON TYPE public.task_status IS 'Task status flow: pending -> invited -> accepted -> ongoing -> completed, or invited -> rejected; see task_status_transitions';
+
+-- ============================================================================
+-- MIGRATION COMPLETION
+-- ============================================================================
+
+DO $$
+BEGIN
+  RAISE NOTICE 'Task status state machine migration completed successfully!';
+  RAISE NOTICE 'Created: task_status_transitions, enforce_task_status_transition trigger';
+  RAISE NOTICE 'Updated: handle_invitation_response, tasks_completed_progress_check';
+END $$;
@@ -0,0 +1,196 @@
+-- ============================================================================
+-- MULTI-CANDIDATE INVITATIONS MIGRATION
+-- A task can be offered to several candidates at once: the first to accept
+-- gets it and the other invitations are withdrawn. Unanswered invitations
+-- expire, and the next ranked backup candidate is invited automatically.
+-- ============================================================================
+
+-- ============================================================================
+-- ALTER TABLES
+-- ============================================================================
+
+-- queued: backup candidate, invited when the open invitations run out
+-- withdrawn: closed because someone else accepted or the task was reassigned
+-- expired: not answered before expires_at
+ALTER TABLE public.invitations
+DROP CONSTRAINT IF EXISTS invitations_status_check;
+
+ALTER TABLE public.invitations
+ADD CONSTRAINT invitations_status_check
+  CHECK (status IN ('queued', 'pending', 'accepted', 'rejected', 'withdrawn', 'expired'));
+
+ALTER TABLE public.invitations
+ADD COLUMN IF NOT EXISTS candidate_rank INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN IF NOT EXISTS response_window_hours INTEGER NOT NULL DEFAULT 48
+  CHECK (response_window_hours > 0),
+ADD COLUMN IF NOT EXISTS expires_at TIMESTAMPTZ;
+
+-- ============================================================================
+-- CREATE INDEXES
+-- ============================================================================
+
+-- A candidate has at most one open invitation per task
+CREATE UNIQUE INDEX IF NOT EXISTS idx_invitations_open_candidate
+  ON public.invitations(task_id, to_user_id)
+  WHERE status IN ('queued', 'pending');
+
+CREATE INDEX IF NOT EXISTS idx_invitations_pending_expiry
+  ON public.invitations(expires_at)
+  WHERE status = 'pending';
+
+CREATE INDEX IF NOT EXISTS idx_invitations_task_status
+  ON public.invitations(task_id, status);
+
+-- ============================================================================
+-- FUNCTIONS
+-- ============================================================================
+
+-- Invite the best-ranked queued backup once a task has no open invitation
+-- left. With no backups either, nobody took the task and it is rejected.
+CREATE OR REPLACE FUNCTION public.promote_next_invitation(_task_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  next_invitation_id UUID;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.tasks WHERE id = _task_id AND status = 'invited') THEN
+    RETURN NULL;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.invitations WHERE task_id = _task_id AND status = 'pending') THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT id INTO next_invitation_id
+  FROM public.invitations
+  WHERE task_id = _task_id AND status = 'queued'
+  ORDER BY candidate_rank, created_at
+  LIMIT 1
+  FOR UPDATE SKIP LOCKED;
+
+  IF next_invitation_id IS NULL THEN
+    UPDATE public.tasks
+    SET status = 'rejected'
+    WHERE id = _task_id AND status = 'invited';
+    RETURN NULL;
+  END IF;
+
+  UPDATE public.invitations
+  SET status = 'pending',
+      expires_at = NOW() + make_interval(hours => response_window_hours)
+  WHERE id = next_invitation_id;
+
+  RETURN next_invitation_id;
+END;
+$$;
+
+-- Accepting an invitation claims the task for that candidate (first accept
+-- wins), starts it and withdraws the other invitations. A rejected or expired
+-- invitation hands the task to the next ranked candidate. Task status changes
+-- go through the enforce_task_status_transition trigger.
+CREATE OR REPLACE FUNCTION public.handle_invitation_response()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.status <> 'pending' THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status = 'accepted' THEN
+    UPDATE public.tasks
+    SET status = 'accepted', assigned_to = NEW.to_user_id
+    WHERE id = NEW.task_id
+      AND status = 'invited'
+      AND (assigned_to IS NULL OR assigned_to = NEW.to_user_id);
+
+    -- Either claimed just now or already accepted by this candidate directly
+    IF NOT EXISTS (
+      SELECT 1 FROM public.tasks
+      WHERE id = NEW.task_id
+        AND assigned_to = NEW.to_user_id
+        AND status IN ('accepted', 'ongoing')
+    ) THEN
+      RAISE EXCEPTION 'This task is no longer available: another candidate accepted it first'
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    UPDATE public.tasks
+    SET status = 'ongoing'
+    WHERE id = NEW.task_id AND status = 'accepted' AND assigned_to = NEW.to_user_id;
+
+    UPDATE public.invitations
+    SET status = 'withdrawn', responded_at = NOW()
+    WHERE task_id = NEW.task_id AND id <> NEW.id AND status IN ('queued', 'pending');
+  ELSIF NEW.status IN ('rejected', 'expired') THEN
+    PERFORM public.promote_next_invitation(NEW.task_id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Expire every pending invitation past its deadline; the response trigger
+-- then invites the next candidate. Run periodically by the API server.
+-- Without it (e.g. serverless hosting), schedule it with pg_cron:
+--   SELECT cron.schedule('expire-invitations', '*/5 * * * *', 'SELECT public.expire_invitations()');
+CREATE OR REPLACE FUNCTION public.expire_invitations()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  expired_count INTEGER;
+BEGIN
+  UPDATE public.invitations
+  SET status = 'expired'
+  WHERE status = 'pending' AND expires_at IS NOT NULL AND expires_at <= NOW();
+
+  GET DIAGNOSTICS expired_count = ROW_COUNT;
+  RETURN expired_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.expire_invitations() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.promote_next_invitation(UUID) FROM PUBLIC, anon, authenticated;
+
+-- ============================================================================
+-- ROW LEVEL SECURITY (RLS) POLICIES
+-- ============================================================================
+
+-- Candidates need to read a task before it is assigned to them
+CREATE POLICY "Invited candidates can view tasks" ON public.tasks FOR SELECT TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.invitations
+      WHERE invitations.task_id = tasks.id AND invitations.to_user_id = auth.uid()
+    )
+  );
+
+-- ============================================================================
+-- COMMENTS FOR DOCUMENTATION
+-- ============================================================================
+
+COMMENT ON COLUMN public.invitations.candidate_rank IS 'Position in the ranked candidate list; queued backups are invited in this order';
+COMMENT ON COLUMN public.invitations.response_window_hours IS 'How long the candidate has to respond once the invitation is pending';
+COMMENT ON COLUMN public.invitations.expires_at IS 'When a pending invitation expires; set when it becomes pending';
+COMMENT ON FUNCTION public.promote_next_invitation(UUID) IS 'Invites the next queued candidate for a task with no pending invitation, or rejects the task when none are left';
+COMMENT ON FUNCTION public.expire_invitations() IS 'Marks overdue pending invitations as expired and returns how many were expired';
+
+-- ============================================================================
+-- MIGRATION COMPLETION
+-- ============================================================================
+
+DO $$
+BEGIN
+  RAISE NOTICE 'Multi-candidate invitations migration completed successfully!';
+  RAISE NOTICE 'Added: invitations.candidate_rank, response_window_hours, expires_at';
+  RAISE NOTICE 'Created: promote_next_invitation, expire_invitations';
+  RAISE NOTICE 'Updated: handle_invitation_response';
+END $$;
@@ -0,0 +1,67 @@
+-- ============================================================================
+-- MATCHING WEIGHTS MIGRATION
+-- Organisation-wide weights for the employee matching engine
+-- (server/shared/matching.js), one row per task priority. Each deployment serves a
+-- single organisation, so these rows are that organisation's settings.
+-- ============================================================================
+
+-- ============================================================================
+-- CREATE TABLES
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.matching_weights (
+  priority TEXT PRIMARY KEY CHECK (priority IN ('low', 'medium', 'high')),
+  skill_match NUMERIC(4,3) NOT NULL CHECK (skill_match BETWEEN 0 AND 1),
+  availability NUMERIC(4,3) NOT NULL CHECK (availability BETWEEN 0 AND 1),
+  workload_capacity NUMERIC(4,3) NOT NULL CHECK (workload_capacity BETWEEN 0 AND 1),
+  performance NUMERIC(4,3) NOT NULL CHECK (performance BETWEEN 0 AND 1),
+  urgency_multiplier NUMERIC(4,2) NOT NULL DEFAULT 1.0 CHECK (urgency_multiplier BETWEEN 0.1 AND 3),
+  updated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CONSTRAINT matching_weights_sum CHECK (
+    ABS(skill_match + availability + workload_capacity + performance - 1) < 0.001
+  )
+);
+
+-- Same values as DEFAULT_MATCHING_WEIGHTS in server/shared/matching.js
+INSERT INTO public.matching_weights (priority, skill_match, availability, workload_capacity, performance, urgency_multiplier) VALUES
+  ('low', 0.50, 0.20, 0.15, 0.15, 0.8),
+  ('medium', 0.40, 0.25, 0.20, 0.15, 1.0),
+  ('high', 0.35, 0.30, 0.25, 0.10, 1.3)
+ON CONFLICT (priority) DO NOTHING;
+
+-- ============================================================================
+-- TRIGGERS
+-- ============================================================================
+
+CREATE TRIGGER update_matching_weights_updated_at BEFORE UPDATE ON public.matching_weights
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- ============================================================================
+-- ROW LEVEL SECURITY (RLS) POLICIES
+-- ============================================================================
+
+ALTER TABLE public.matching_weights ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view matching weights" ON public.matching_weights FOR SELECT TO authenticated
+  USING (true);
+CREATE POLICY "Admins can update matching weights" ON public.matching_weights FOR UPDATE TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- ============================================================================
+-- COMMENTS FOR DOCUMENTATION
+-- ============================================================================
+
+COMMENT ON TABLE public.matching_weights IS 'Organisation-wide weights for ranking employees against a task, per task priority';
+COMMENT ON COLUMN public.matching_weights.urgency_multiplier IS 'Applied to the weighted sum; the final score is capped at 100';
+COMMENT ON CONSTRAINT matching_weights_sum ON public.matching_weights IS 'The four factor weights add up to 1';
+
+-- ============================================================================
+-- MIGRATION COMPLETION
+-- ============================================================================
+
+DO $$
+BEGIN
+  RAISE NOTICE 'Matching weights migration completed successfully!';
+  RAISE NOTICE 'Created: matching_weights (seeded with the default weights)';
+END $$;
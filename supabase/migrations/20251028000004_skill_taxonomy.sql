@@ -0,0 +1,295 @@
+-- ============================================================================
+-- SKILL TAXONOMY MIGRATION
+-- A canonical skills catalog with aliases, so "React.js", "ReactJS" and
+-- "react" are one skill, plus proficiency levels (1-5) on employee skills and
+-- minimum levels on task requirements. Existing free-text rows are mapped onto
+-- the catalog. Name normalization is mirrored in server/shared/skills.js.
+-- ============================================================================
+
+-- ============================================================================
+-- FUNCTIONS
+-- ============================================================================
+
+-- Comparison key for a skill name: lower case, letters and digits only, but
+-- keeping + and # so C, C++ and C# stay apart ("React.js" -> "reactjs")
+CREATE OR REPLACE FUNCTION public.skill_key(_name TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT lower(regexp_replace(COALESCE(_name, ''), '[^[:alnum:]+#]', '', 'g'));
+$$;
+
+-- ============================================================================
+-- CREATE TABLES
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.skills (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL CHECK (length(btrim(name)) > 0),
+  key TEXT GENERATED ALWAYS AS (public.skill_key(name)) STORED,
+  category TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CONSTRAINT skills_key_unique UNIQUE (key)
+);
+
+CREATE TABLE IF NOT EXISTS public.skill_aliases (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  skill_id UUID NOT NULL REFERENCES public.skills(id) ON DELETE CASCADE,
+  alias TEXT NOT NULL CHECK (length(btrim(alias)) > 0),
+  key TEXT GENERATED ALWAYS AS (public.skill_key(alias)) STORED,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  CONSTRAINT skill_aliases_key_unique UNIQUE (key)
+);
+
+-- ============================================================================
+-- SEED CATALOG
+-- ============================================================================
+
+INSERT INTO public.skills (name, category) VALUES
+  ('JavaScript', 'Engineering'),
+  ('TypeScript', 'Engineering'),
+  ('React', 'Engineering'),
+  ('React Native', 'Engineering'),
+  ('Vue.js', 'Engineering'),
+  ('Angular', 'Engineering'),
+  ('Next.js', 'Engineering'),
+  ('Node.js', 'Engineering'),
+  ('Python', 'Engineering'),
+  ('Java', 'Engineering'),
+  ('Go', 'Engineering'),
+  ('C#', 'Engineering'),
+  ('PostgreSQL', 'Engineering'),
+  ('SQL', 'Engineering'),
+  ('GraphQL', 'Engineering'),
+  ('AWS', 'Engineering'),
+  ('Docker', 'Engineering'),
+  ('Kubernetes', 'Engineering'),
+  ('Machine Learning', 'Data'),
+  ('Data Analysis', 'Data'),
+  ('Figma', 'Design'),
+  ('Adobe XD', 'Design'),
+  ('Sketch', 'Design'),
+  ('UI Design', 'Design'),
+  ('UX Research', 'Design'),
+  ('Prototyping', 'Design'),
+  ('Digital Marketing', 'Marketing'),
+  ('SEO', 'Marketing'),
+  ('Content Strategy', 'Marketing'),
+  ('Google Analytics', 'Marketing'),
+  ('Social Media', 'Marketing'),
+  ('Documentation', 'Communication'),
+  ('Project Management', 'Management')
+ON CONFLICT (key) DO NOTHING;
+
+INSERT INTO public.skill_aliases (skill_id, alias)
+SELECT s.id, a.alias
+FROM (VALUES
+  ('JavaScript', 'JS'),
+  ('JavaScript', 'ECMAScript'),
+  ('TypeScript', 'TS'),
+  ('React', 'React.js'),
+  ('React', 'ReactJS'),
+  ('Vue.js', 'Vue'),
+  ('Vue.js', 'VueJS'),
+  ('Angular', 'AngularJS'),
+  ('Next.js', 'Next'),
+  ('Node.js', 'Node'),
+  ('Python', 'Python3'),
+  ('Go', 'Golang'),
+  ('C#', 'CSharp'),
+  ('PostgreSQL', 'Postgres'),
+  ('PostgreSQL', 'psql'),
+  ('AWS', 'Amazon Web Services'),
+  ('Kubernetes', 'K8s'),
+  ('Machine Learning', 'ML'),
+  ('UI Design', 'User Interface Design'),
+  ('UX Research', 'User Research'),
+  ('SEO', 'Search Engine Optimization'),
+  ('Google Analytics', 'GA4'),
+  ('Social Media', 'Social Media Marketing')
+) AS a(skill_name, alias)
+JOIN public.skills s ON s.key = public.skill_key(a.skill_name)
+ON CONFLICT (key) DO NOTHING;
+
+-- ============================================================================
+-- SKILL RESOLUTION
+-- ============================================================================
+
+-- Find the catalog skill for a name (by canonical name, then alias). Unknown
+-- names are added to the catalog so free-text skills keep working.
+CREATE OR REPLACE FUNCTION public.resolve_skill(_name TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  lookup_key TEXT := public.skill_key(_name);
+  found_id UUID;
+BEGIN
+  IF lookup_key = '' THEN
+    RAISE EXCEPTION 'Skill name cannot be empty'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  SELECT id INTO found_id FROM public.skills WHERE key = lookup_key;
+
+  IF found_id IS NULL THEN
+    SELECT skill_id INTO found_id FROM public.skill_aliases WHERE key = lookup_key;
+  END IF;
+
+  IF found_id IS NULL THEN
+    INSERT INTO public.skills (name)
+    VALUES (btrim(_name))
+    ON CONFLICT (key) DO UPDATE SET name = public.skills.name
+    RETURNING id INTO found_id;
+  END IF;
+
+  RETURN found_id;
+END;
+$$;
+
+-- Point employee and task skill rows at the catalog and store the canonical
+-- name, whatever spelling the writer used
+CREATE OR REPLACE FUNCTION public.assign_skill_reference()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.skill_id := public.resolve_skill(NEW.skill);
+  SELECT name INTO NEW.skill FROM public.skills WHERE id = NEW.skill_id;
+  RETURN NEW;
+END;
+$$;
+
+-- ============================================================================
+-- ALTER TABLES
+-- ============================================================================
+
+ALTER TABLE public.employee_skills
+ADD COLUMN IF NOT EXISTS skill_id UUID REFERENCES public.skills(id) ON DELETE RESTRICT,
+ADD COLUMN IF NOT EXISTS level SMALLINT NOT NULL DEFAULT 3 CHECK (level BETWEEN 1 AND 5);
+
+ALTER TABLE public.task_required_skills
+ADD COLUMN IF NOT EXISTS skill_id UUID REFERENCES public.skills(id) ON DELETE RESTRICT,
+ADD COLUMN IF NOT EXISTS min_level SMALLINT NOT NULL DEFAULT 1 CHECK (min_level BETWEEN 1 AND 5);
+
+-- ============================================================================
+-- NORMALIZE EXISTING DATA
+-- ============================================================================
+
+UPDATE public.employee_skills SET skill_id = public.resolve_skill(skill) WHERE skill_id IS NULL;
+UPDATE public.task_required_skills SET skill_id = public.resolve_skill(skill) WHERE skill_id IS NULL;
+
+-- Spellings of the same skill collapse into one row (the earliest is kept)
+DELETE FROM public.employee_skills a
+USING public.employee_skills b
+WHERE a.employee_id = b.employee_id
+  AND a.skill_id = b.skill_id
+  AND (a.created_at, a.id) > (b.created_at, b.id);
+
+DELETE FROM public.task_required_skills a
+USING public.task_required_skills b
+WHERE a.task_id = b.task_id
+  AND a.skill_id = b.skill_id
+  AND (a.created_at, a.id) > (b.created_at, b.id);
+
+UPDATE public.employee_skills es
+SET skill = s.name
+FROM public.skills s
+WHERE s.id = es.skill_id AND es.skill <> s.name;
+
+UPDATE public.task_required_skills trs
+SET skill = s.name
+FROM public.skills s
+WHERE s.id = trs.skill_id AND trs.skill <> s.name;
+
+ALTER TABLE public.employee_skills ALTER COLUMN skill_id SET NOT NULL;
+ALTER TABLE public.task_required_skills ALTER COLUMN skill_id SET NOT NULL;
+
+ALTER TABLE public.employee_skills
+DROP CONSTRAINT IF EXISTS employee_skills_employee_skill_id_key;
+ALTER TABLE public.employee_skills
+ADD CONSTRAINT employee_skills_employee_skill_id_key UNIQUE (employee_id, skill_id);
+
+ALTER TABLE public.task_required_skills
+DROP CONSTRAINT IF EXISTS task_required_skills_task_skill_id_key;
+ALTER TABLE public.task_required_skills
+ADD CONSTRAINT task_required_skills_task_skill_id_key UNIQUE (task_id, skill_id);
+
+-- ============================================================================
+-- CREATE INDEXES
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_skill_aliases_skill_id ON public.skill_aliases(skill_id);
+CREATE INDEX IF NOT EXISTS idx_employee_skills_skill_id ON public.employee_skills(skill_id, level);
+CREATE INDEX IF NOT EXISTS idx_task_required_skills_skill_id ON public.task_required_skills(skill_id);
+
+-- ============================================================================
+-- TRIGGERS
+-- ============================================================================
+
+CREATE TRIGGER update_skills_updated_at BEFORE UPDATE ON public.skills
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+DROP TRIGGER IF EXISTS assign_employee_skill_reference ON public.employee_skills;
+CREATE TRIGGER assign_employee_skill_reference
+  BEFORE INSERT OR UPDATE OF skill ON public.employee_skills
+  FOR EACH ROW
+  EXECUTE FUNCTION public.assign_skill_reference();
+
+DROP TRIGGER IF EXISTS assign_task_skill_reference ON public.task_required_skills;
+CREATE TRIGGER assign_task_skill_reference
+  BEFORE INSERT OR UPDATE OF skill ON public.task_required_skills
+  FOR EACH ROW
+  EXECUTE FUNCTION public.assign_skill_reference();
+
+-- ============================================================================
+-- ROW LEVEL SECURITY (RLS) POLICIES
+-- ============================================================================
+
+-- Everyone picks from the catalog; admins curate it. New skills typed by
+-- users are added through resolve_skill.
+ALTER TABLE public.skills ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.skill_aliases ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view skills" ON public.skills FOR SELECT TO authenticated
+  USING (true);
+CREATE POLICY "Admins can manage skills" ON public.skills FOR ALL TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Authenticated users can view skill aliases" ON public.skill_aliases FOR SELECT TO authenticated
+  USING (true);
+CREATE POLICY "Admins can manage skill aliases" ON public.skill_aliases FOR ALL TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+-- ============================================================================
+-- COMMENTS FOR DOCUMENTATION
+-- ============================================================================
+
+COMMENT ON TABLE public.skills IS 'Canonical skills catalog; employee and task skills reference it';
+COMMENT ON TABLE public.skill_aliases IS 'Alternative spellings that resolve to a catalog skill (e.g. ReactJS -> React)';
+COMMENT ON COLUMN public.skills.key IS 'Normalized name used for lookups; see public.skill_key';
+COMMENT ON COLUMN public.employee_skills.level IS 'Proficiency from 1 (beginner) to 5 (expert)';
+COMMENT ON COLUMN public.task_required_skills.min_level IS 'Minimum proficiency the task needs, from 1 to 5';
+COMMENT ON FUNCTION public.skill_key(TEXT) IS 'Normalizes a skill name for comparison; mirrored by skillKey in server/shared/skills.js';
+COMMENT ON FUNCTION public.resolve_skill(TEXT) IS 'Returns the catalog skill for a name or alias, adding unknown names to the catalog';
+
+-- ============================================================================
+-- MIGRATION COMPLETION
+-- ============================================================================
+
+DO $$
+BEGIN
+  RAISE NOTICE 'Skill taxonomy migration completed successfully!';
+  RAISE NOTICE 'Created: skills (% entries), skill_aliases (% entries)',
+    (SELECT COUNT(*) FROM public.skills), (SELECT COUNT(*) FROM public.skill_aliases);
+  RAISE NOTICE 'Added: employee_skills.skill_id, level; task_required_skills.skill_id, min_level';
+  RAISE NOTICE 'Created: skill_key, resolve_skill, assign_skill_reference trigger';
+END $$;
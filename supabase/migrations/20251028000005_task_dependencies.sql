@@ -0,0 +1,243 @@
+-- ============================================================================
+-- TASK DEPENDENCIES MIGRATION
+-- Finish-to-start dependencies between tasks: a task is blocked while any of
+-- its predecessors is incomplete, and a blocked task cannot start (or be
+-- completed). Dependency cycles are rejected.
+-- Mirrored in server/shared/taskDependencies.js for the UI and agent tools.
+-- ============================================================================
+
+-- ============================================================================
+-- CREATE TABLES
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.task_dependencies (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  predecessor_id UUID NOT NULL REFERENCES public.tasks(id) ON DELETE CASCADE,
+  successor_id UUID NOT NULL REFERENCES public.tasks(id) ON DELETE CASCADE,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  CONSTRAINT task_dependencies_unique UNIQUE (predecessor_id, successor_id),
+  CONSTRAINT task_dependencies_not_self CHECK (predecessor_id <> successor_id)
+);
+
+-- ============================================================================
+-- CREATE INDEXES
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_task_dependencies_successor ON public.task_dependencies(successor_id);
+CREATE INDEX IF NOT EXISTS idx_task_dependencies_predecessor ON public.task_dependencies(predecessor_id);
+
+-- ============================================================================
+-- FUNCTIONS
+-- ============================================================================
+
+-- True if the task has a predecessor that is not completed yet
+CREATE OR REPLACE FUNCTION public.is_task_blocked(_task_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.task_dependencies d
+    JOIN public.tasks p ON p.id = d.predecessor_id
+    WHERE d.successor_id = _task_id AND p.status <> 'completed'
+  );
+$$;
+
+-- Incomplete predecessors of the given tasks. Employees can't read tasks
+-- assigned to others, so this is how they see what they are waiting on; only
+-- tasks the caller may view are reported.
+CREATE OR REPLACE FUNCTION public.get_task_blockers(_task_ids UUID[])
+RETURNS TABLE (
+  task_id UUID,
+  predecessor_id UUID,
+  predecessor_title TEXT,
+  predecessor_status task_status
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT d.successor_id, p.id, p.title, p.status
+  FROM public.task_dependencies d
+  JOIN public.tasks s ON s.id = d.successor_id
+  JOIN public.tasks p ON p.id = d.predecessor_id
+  WHERE d.successor_id = ANY (_task_ids)
+    AND p.status <> 'completed'
+    AND (
+      public.has_role(auth.uid(), 'admin')
+      OR public.has_role(auth.uid(), 'staff')
+      OR s.assigned_to = auth.uid()
+      OR EXISTS (
+        SELECT 1 FROM public.invitations i
+        WHERE i.task_id = s.id AND i.to_user_id = auth.uid()
+      )
+    )
+  ORDER BY p.deadline NULLS LAST, p.title;
+$$;
+
+-- Reject a dependency that would close a loop: the new predecessor must not
+-- already (transitively) depend on the successor
+CREATE OR REPLACE FUNCTION public.prevent_task_dependency_cycle()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Serialize dependency changes so two concurrent inserts can't form a cycle
+  PERFORM pg_advisory_xact_lock(hashtext('public.task_dependencies'));
+
+  IF EXISTS (
+    WITH RECURSIVE downstream(task_id) AS (
+      SELECT successor_id FROM public.task_dependencies WHERE predecessor_id = NEW.successor_id
+      UNION
+      SELECT d.successor_id
+      FROM public.task_dependencies d
+      JOIN downstream ON d.predecessor_id = downstream.task_id
+    )
+    SELECT 1 FROM downstream WHERE task_id = NEW.predecessor_id
+  ) THEN
+    RAISE EXCEPTION 'This dependency would create a cycle: the predecessor already depends on this task'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- A task can't start or be completed while a predecessor is incomplete
+CREATE OR REPLACE FUNCTION public.enforce_task_dependencies()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  blocker_titles TEXT;
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status AND NEW.status IN ('ongoing', 'completed') THEN
+    SELECT string_agg(p.title, ', ' ORDER BY p.title) INTO blocker_titles
+    FROM public.task_dependencies d
+    JOIN public.tasks p ON p.id = d.predecessor_id
+    WHERE d.successor_id = NEW.id AND p.status <> 'completed';
+
+    IF blocker_titles IS NOT NULL THEN
+      RAISE EXCEPTION 'This task is blocked until its predecessors are completed: %', blocker_titles
+        USING ERRCODE = 'check_violation';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Same as the multi-candidate invitations version, except that accepting a
+-- blocked task leaves it accepted instead of starting it
+CREATE OR REPLACE FUNCTION public.handle_invitation_response()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.status <> 'pending' THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status = 'accepted' THEN
+    UPDATE public.tasks
+    SET status = 'accepted', assigned_to = NEW.to_user_id
+    WHERE id = NEW.task_id
+      AND status = 'invited'
+      AND (assigned_to IS NULL OR assigned_to = NEW.to_user_id);
+
+    -- Either claimed just now or already accepted by this candidate directly
+    IF NOT EXISTS (
+      SELECT 1 FROM public.tasks
+      WHERE id = NEW.task_id
+        AND assigned_to = NEW.to_user_id
+        AND status IN ('accepted', 'ongoing')
+    ) THEN
+      RAISE EXCEPTION 'This task is no longer available: another candidate accepted it first'
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    UPDATE public.tasks
+    SET status = 'ongoing'
+    WHERE id = NEW.task_id
+      AND status = 'accepted'
+      AND assigned_to = NEW.to_user_id
+      AND NOT public.is_task_blocked(NEW.task_id);
+
+    UPDATE public.invitations
+    SET status = 'withdrawn', responded_at = NOW()
+    WHERE task_id = NEW.task_id AND id <> NEW.id AND status IN ('queued', 'pending');
+  ELSIF NEW.status IN ('rejected', 'expired') THEN
+    PERFORM public.promote_next_invitation(NEW.task_id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- ============================================================================
+-- TRIGGERS
+-- ============================================================================
+
+DROP TRIGGER IF EXISTS prevent_task_dependency_cycle ON public.task_dependencies;
+CREATE TRIGGER prevent_task_dependency_cycle
+  BEFORE INSERT OR UPDATE OF predecessor_id, successor_id ON public.task_dependencies
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_task_dependency_cycle();
+
+DROP TRIGGER IF EXISTS enforce_task_dependencies ON public.tasks;
+CREATE TRIGGER enforce_task_dependencies
+  BEFORE UPDATE OF status ON public.tasks
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_task_dependencies();
+
+-- ============================================================================
+-- ROW LEVEL SECURITY (RLS) POLICIES
+-- ============================================================================
+
+ALTER TABLE public.task_dependencies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins and staff can view task dependencies" ON public.task_dependencies FOR SELECT TO authenticated
+  USING (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'staff'));
+CREATE POLICY "Assignees can view their task dependencies" ON public.task_dependencies FOR SELECT TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.tasks
+      WHERE tasks.id = task_dependencies.successor_id AND tasks.assigned_to = auth.uid()
+    )
+  );
+CREATE POLICY "Admins and staff can add task dependencies" ON public.task_dependencies FOR INSERT TO authenticated
+  WITH CHECK (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'staff'));
+CREATE POLICY "Admins and staff can remove task dependencies" ON public.task_dependencies FOR DELETE TO authenticated
+  USING (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'staff'));
+
+-- ============================================================================
+-- COMMENTS FOR DOCUMENTATION
+-- ============================================================================
+
+COMMENT ON TABLE public.task_dependencies IS 'Finish-to-start dependencies: the successor cannot start until the predecessor is completed';
+COMMENT ON FUNCTION public.is_task_blocked(UUID) IS 'True while any predecessor of the task is incomplete';
+COMMENT ON FUNCTION public.get_task_blockers(UUID[]) IS 'Incomplete predecessors of the given tasks, limited to tasks the caller can view';
+COMMENT ON FUNCTION public.enforce_task_dependencies() IS 'Rejects moving a blocked task to ongoing or completed';
+
+-- ============================================================================
+-- MIGRATION COMPLETION
+-- ============================================================================
+
+DO $$
+BEGIN
+  RAISE NOTICE 'Task dependencies migration completed successfully!';
+  RAISE NOTICE 'Created: task_dependencies, is_task_blocked, get_task_blockers';
+  RAISE NOTICE 'Created: prevent_task_dependency_cycle and enforce_task_dependencies triggers';
+  RAISE NOTICE 'Updated: handle_invitation_response (blocked tasks stay accepted)';
+END $$;
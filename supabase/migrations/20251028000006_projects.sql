@@ -0,0 +1,81 @@
+-- ============================================================================
+-- PROJECTS MIGRATION
+-- Groups tasks into projects with an owner, a budget and a date range. Budget
+-- burned is the approved and paid payments of the project's tasks; the
+-- project page and agent tools summarise it with src/lib/projects.js.
+-- ============================================================================
+
+-- ============================================================================
+-- CREATE TABLES
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.projects (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL CHECK (char_length(btrim(name)) > 0),
+  description TEXT,
+  owner_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  budget DECIMAL(12,2) CHECK (budget IS NULL OR budget >= 0),
+  start_date DATE,
+  end_date DATE,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CONSTRAINT projects_name_unique UNIQUE (name),
+  CONSTRAINT projects_date_range CHECK (start_date IS NULL OR end_date IS NULL OR end_date >= start_date)
+);
+
+ALTER TABLE public.tasks
+  ADD COLUMN IF NOT EXISTS project_id UUID REFERENCES public.projects(id) ON DELETE SET NULL;
+
+-- ============================================================================
+-- CREATE INDEXES
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_tasks_project ON public.tasks(project_id);
+CREATE INDEX IF NOT EXISTS idx_projects_owner ON public.projects(owner_id);
+
+-- ============================================================================
+-- TRIGGERS
+-- ============================================================================
+
+CREATE TRIGGER update_projects_updated_at BEFORE UPDATE ON public.projects
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- ============================================================================
+-- ROW LEVEL SECURITY (RLS) POLICIES
+-- ============================================================================
+
+ALTER TABLE public.projects ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins and staff can view projects" ON public.projects FOR SELECT TO authenticated
+  USING (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'staff'));
+CREATE POLICY "Employees can view projects they work on" ON public.projects FOR SELECT TO authenticated
+  USING (
+    owner_id = auth.uid()
+    OR EXISTS (
+      SELECT 1 FROM public.tasks
+      WHERE tasks.project_id = projects.id AND tasks.assigned_to = auth.uid()
+    )
+  );
+CREATE POLICY "Admins and staff can manage projects" ON public.projects FOR ALL TO authenticated
+  USING (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'staff'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'staff'));
+
+-- ============================================================================
+-- COMMENTS FOR DOCUMENTATION
+-- ============================================================================
+
+COMMENT ON TABLE public.projects IS 'Groups of tasks with an owner, a budget and a date range';
+COMMENT ON COLUMN public.projects.budget IS 'Spending limit; burned budget is the approved and paid payments of the project tasks';
+COMMENT ON COLUMN public.tasks.project_id IS 'Project the task belongs to, if any';
+
+-- ============================================================================
+-- MIGRATION COMPLETION
+-- ============================================================================
+
+DO $$
+BEGIN
+  RAISE NOTICE 'Projects migration completed successfully!';
+  RAISE NOTICE 'Created: projects';
+  RAISE NOTICE 'Updated: tasks (project_id)';
+END $$;
@@ -0,0 +1,182 @@
+-- ============================================================================
+-- TASK CHECKLISTS MIGRATION
+-- Checklist items (subtasks) inside a task. When a task's
+-- progress_from_checklist flag is on, its progress is the share of ticked
+-- items and is kept in sync by triggers instead of being set by hand.
+-- Mirrored in server/shared/checklists.js for the UI and agent tools.
+-- ============================================================================
+
+-- ============================================================================
+-- CREATE TABLES
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.task_checklist_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  task_id UUID NOT NULL REFERENCES public.tasks(id) ON DELETE CASCADE,
+  title TEXT NOT NULL CHECK (char_length(btrim(title)) BETWEEN 1 AND 200),
+  position INTEGER NOT NULL DEFAULT 0,
+  is_done BOOLEAN NOT NULL DEFAULT false,
+  done_at TIMESTAMPTZ,
+  done_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE public.tasks
+  ADD COLUMN IF NOT EXISTS progress_from_checklist BOOLEAN NOT NULL DEFAULT false;
+
+-- ============================================================================
+-- CREATE INDEXES
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_task_checklist_items_task ON public.task_checklist_items(task_id, position);
+
+-- ============================================================================
+-- FUNCTIONS
+-- ============================================================================
+
+-- Percentage of ticked items, or NULL when the task has no checklist
+CREATE OR REPLACE FUNCTION public.checklist_progress(_task_id UUID)
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN COUNT(*) = 0 THEN NULL
+    ELSE ROUND(100.0 * COUNT(*) FILTER (WHERE is_done) / COUNT(*))::INTEGER
+  END
+  FROM public.task_checklist_items
+  WHERE task_id = _task_id;
+$$;
+
+-- Stamp who ticked an item and when
+CREATE OR REPLACE FUNCTION public.stamp_checklist_item()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.is_done AND (TG_OP = 'INSERT' OR NOT OLD.is_done) THEN
+    NEW.done_at := NOW();
+    NEW.done_by := COALESCE(auth.uid(), NEW.done_by);
+  ELSIF NOT NEW.is_done THEN
+    NEW.done_at := NULL;
+    NEW.done_by := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Recompute progress of the affected task after its checklist changes
+CREATE OR REPLACE FUNCTION public.sync_task_progress_from_checklist()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _task_id UUID := COALESCE(NEW.task_id, OLD.task_id);
+BEGIN
+  UPDATE public.tasks
+  SET progress = COALESCE(public.checklist_progress(_task_id), 0)
+  WHERE id = _task_id
+    AND progress_from_checklist
+    AND status <> 'completed';
+
+  RETURN NULL;
+END;
+$$;
+
+-- While progress comes from the checklist, manual progress changes are replaced
+-- by the checklist figure (completed tasks keep 100)
+CREATE OR REPLACE FUNCTION public.apply_checklist_progress()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.progress_from_checklist AND NEW.status IS DISTINCT FROM 'completed' THEN
+    NEW.progress := COALESCE(public.checklist_progress(NEW.id), 0);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- ============================================================================
+-- TRIGGERS
+-- ============================================================================
+
+CREATE TRIGGER update_task_checklist_items_updated_at BEFORE UPDATE ON public.task_checklist_items
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+DROP TRIGGER IF EXISTS stamp_checklist_item ON public.task_checklist_items;
+CREATE TRIGGER stamp_checklist_item
+  BEFORE INSERT OR UPDATE OF is_done ON public.task_checklist_items
+  FOR EACH ROW
+  EXECUTE FUNCTION public.stamp_checklist_item();
+
+DROP TRIGGER IF EXISTS sync_task_progress_from_checklist ON public.task_checklist_items;
+CREATE TRIGGER sync_task_progress_from_checklist
+  AFTER INSERT OR UPDATE OF is_done, task_id OR DELETE ON public.task_checklist_items
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_task_progress_from_checklist();
+
+DROP TRIGGER IF EXISTS apply_checklist_progress ON public.tasks;
+CREATE TRIGGER apply_checklist_progress
+  BEFORE UPDATE OF progress, progress_from_checklist ON public.tasks
+  FOR EACH ROW
+  EXECUTE FUNCTION public.apply_checklist_progress();
+
+-- ============================================================================
+-- ROW LEVEL SECURITY (RLS) POLICIES
+-- ============================================================================
+
+ALTER TABLE public.task_checklist_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins and staff can manage checklist items" ON public.task_checklist_items FOR ALL TO authenticated
+  USING (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'staff'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'staff'));
+CREATE POLICY "Assignees can manage their task checklist" ON public.task_checklist_items FOR ALL TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.tasks
+      WHERE tasks.id = task_checklist_items.task_id AND tasks.assigned_to = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.tasks
+      WHERE tasks.id = task_checklist_items.task_id AND tasks.assigned_to = auth.uid()
+    )
+  );
+
+-- ============================================================================
+-- REALTIME CONFIGURATION
+-- ============================================================================
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.task_checklist_items;
+
+-- ============================================================================
+-- COMMENTS FOR DOCUMENTATION
+-- ============================================================================
+
+COMMENT ON TABLE public.task_checklist_items IS 'Checklist items (subtasks) of a task, in display order';
+COMMENT ON COLUMN public.tasks.progress_from_checklist IS 'When true, progress is the percentage of ticked checklist items';
+COMMENT ON FUNCTION public.checklist_progress(UUID) IS 'Percentage of ticked checklist items, NULL without a checklist';
+
+-- ============================================================================
+-- MIGRATION COMPLETION
+-- ============================================================================
+
+DO $$
+BEGIN
+  RAISE NOTICE 'Task checklists migration completed successfully!';
+  RAISE NOTICE 'Created: task_checklist_items, checklist_progress';
+  RAISE NOTICE 'Created: stamp_checklist_item, sync_task_progress_from_checklist and apply_checklist_progress triggers';
+  RAISE NOTICE 'Updated: tasks (progress_from_checklist)';
+END $$;
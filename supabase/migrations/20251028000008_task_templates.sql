@@ -0,0 +1,87 @@
+-- ============================================================================
+-- TASK TEMPLATES MIGRATION
+-- Recurring task templates. Each template carries an RRULE-style recurrence
+-- (see server/shared/recurrence.js); the API server's task-templates job creates a
+-- task for every occurrence that falls due and advances next_run_at.
+-- ============================================================================
+
+-- ============================================================================
+-- CREATE TABLES
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.task_templates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  title TEXT NOT NULL CHECK (char_length(btrim(title)) BETWEEN 1 AND 200),
+  description TEXT NOT NULL,
+  priority TEXT NOT NULL DEFAULT 'medium' CHECK (priority IN ('low', 'medium', 'high')),
+  -- [{ "name": "React", "level": 3 }, ...], copied to task_required_skills
+  required_skills JSONB NOT NULL DEFAULT '[]'::jsonb CHECK (jsonb_typeof(required_skills) = 'array'),
+  estimated_hours DECIMAL(10,2) CHECK (estimated_hours IS NULL OR estimated_hours > 0),
+  complexity_multiplier DECIMAL(5,2) NOT NULL DEFAULT 1.0 CHECK (complexity_multiplier BETWEEN 0.5 AND 3),
+  default_assignee UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  project_id UUID REFERENCES public.projects(id) ON DELETE SET NULL,
+  recurrence TEXT NOT NULL,
+  starts_at TIMESTAMPTZ NOT NULL,
+  ends_at TIMESTAMPTZ,
+  deadline_offset_days INTEGER NOT NULL DEFAULT 7 CHECK (deadline_offset_days BETWEEN 0 AND 365),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  next_run_at TIMESTAMPTZ,
+  last_run_at TIMESTAMPTZ,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CONSTRAINT task_templates_date_range CHECK (ends_at IS NULL OR ends_at >= starts_at)
+);
+
+-- Tasks remember the template occurrence they were created for, so an
+-- occurrence is never materialized twice
+ALTER TABLE public.tasks
+  ADD COLUMN IF NOT EXISTS template_id UUID REFERENCES public.task_templates(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS occurrence_at TIMESTAMPTZ;
+
+-- ============================================================================
+-- CREATE INDEXES
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_task_templates_due ON public.task_templates(next_run_at) WHERE is_active;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_tasks_template_occurrence
+  ON public.tasks(template_id, occurrence_at) WHERE template_id IS NOT NULL;
+
+-- ============================================================================
+-- TRIGGERS
+-- ============================================================================
+
+CREATE TRIGGER update_task_templates_updated_at BEFORE UPDATE ON public.task_templates
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- ============================================================================
+-- ROW LEVEL SECURITY (RLS) POLICIES
+-- ============================================================================
+
+ALTER TABLE public.task_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins and staff can manage task templates" ON public.task_templates FOR ALL TO authenticated
+  USING (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'staff'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'staff'));
+
+-- ============================================================================
+-- COMMENTS FOR DOCUMENTATION
+-- ============================================================================
+
+COMMENT ON TABLE public.task_templates IS 'Recurring task templates materialized into tasks by the task-templates job';
+COMMENT ON COLUMN public.task_templates.recurrence IS 'RRULE subset, e.g. FREQ=WEEKLY;BYDAY=MO (evaluated in UTC from starts_at)';
+COMMENT ON COLUMN public.task_templates.next_run_at IS 'Next occurrence to materialize; NULL once the recurrence has ended';
+COMMENT ON COLUMN public.task_templates.deadline_offset_days IS 'Days from an occurrence to the deadline of its task';
+COMMENT ON COLUMN public.tasks.template_id IS 'Template this task was created from, if any';
+COMMENT ON COLUMN public.tasks.occurrence_at IS 'Template occurrence this task was created for';
+
+-- ============================================================================
+-- MIGRATION COMPLETION
+-- ============================================================================
+
+DO $$
+BEGIN
+  RAISE NOTICE 'Task templates migration completed successfully!';
+  RAISE NOTICE 'Created: task_templates';
+  RAISE NOTICE 'Updated: tasks (template_id, occurrence_at)';
+END $$;
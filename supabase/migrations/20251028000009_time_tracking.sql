@@ -0,0 +1,284 @@
+-- ============================================================================
+-- TIME TRACKING MIGRATION
+-- Timer sessions and manual time entries per task, grouped into weekly
+-- timesheets (Monday to Sunday) that employees submit and admins or staff
+-- approve. Payments use the approved hours (public.approved_task_hours).
+-- Week math is mirrored in src/lib/timesheets.js - keep in sync.
+-- ============================================================================
+
+-- ============================================================================
+-- CREATE TABLES
+-- ============================================================================
+
+-- A running timer has started_at set and ended_at NULL; minutes is filled in
+-- when it stops. Manual entries carry minutes directly.
+CREATE TABLE IF NOT EXISTS public.time_entries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  task_id UUID NOT NULL REFERENCES public.tasks(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  source TEXT NOT NULL DEFAULT 'manual' CHECK (source IN ('timer', 'manual')),
+  work_date DATE NOT NULL,
+  started_at TIMESTAMPTZ,
+  ended_at TIMESTAMPTZ,
+  minutes INTEGER CHECK (minutes IS NULL OR minutes BETWEEN 1 AND 1440),
+  note TEXT CHECK (note IS NULL OR char_length(note) <= 500),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CONSTRAINT time_entries_timer_range CHECK (ended_at IS NULL OR ended_at >= started_at),
+  CONSTRAINT time_entries_timer_started CHECK (source = 'manual' OR started_at IS NOT NULL),
+  CONSTRAINT time_entries_manual_minutes CHECK (source = 'timer' OR minutes IS NOT NULL)
+);
+
+CREATE TABLE IF NOT EXISTS public.timesheets (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  week_start DATE NOT NULL CHECK (EXTRACT(ISODOW FROM week_start) = 1),
+  status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'submitted', 'approved', 'rejected')),
+  submitted_at TIMESTAMPTZ,
+  reviewed_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMPTZ,
+  review_note TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (user_id, week_start)
+);
+
+-- ============================================================================
+-- CREATE INDEXES
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_time_entries_task ON public.time_entries(task_id);
+CREATE INDEX IF NOT EXISTS idx_time_entries_user_date ON public.time_entries(user_id, work_date);
+-- One running timer per user
+CREATE UNIQUE INDEX IF NOT EXISTS idx_time_entries_running
+  ON public.time_entries(user_id) WHERE source = 'timer' AND ended_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_timesheets_status ON public.timesheets(status, week_start);
+
+-- ============================================================================
+-- FUNCTIONS
+-- ============================================================================
+
+-- Monday of the week a date falls in
+CREATE OR REPLACE FUNCTION public.timesheet_week_start(_date DATE)
+RETURNS DATE
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT date_trunc('week', _date)::DATE;
+$$;
+
+-- Hours on a task from approved timesheets only
+CREATE OR REPLACE FUNCTION public.approved_task_hours(_task_id UUID)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT ROUND(COALESCE(SUM(e.minutes), 0) / 60.0, 2)
+  FROM public.time_entries e
+  JOIN public.timesheets t
+    ON t.user_id = e.user_id
+   AND t.week_start = public.timesheet_week_start(e.work_date)
+   AND t.status = 'approved'
+  WHERE e.task_id = _task_id
+    AND e.minutes IS NOT NULL;
+$$;
+
+-- Stopped timers get their duration; entries in a submitted or approved week
+-- are locked until the timesheet is rejected
+CREATE OR REPLACE FUNCTION public.enforce_time_entry()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _entry public.time_entries := CASE WHEN TG_OP = 'DELETE' THEN OLD ELSE NEW END;
+  _weeks DATE[] := ARRAY[public.timesheet_week_start(_entry.work_date)];
+  _locked public.timesheets;
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    _weeks := _weeks || public.timesheet_week_start(OLD.work_date);
+  END IF;
+
+  SELECT * INTO _locked
+  FROM public.timesheets
+  WHERE user_id = _entry.user_id
+    AND week_start = ANY(_weeks)
+    AND status IN ('submitted', 'approved')
+  LIMIT 1;
+
+  IF FOUND THEN
+    RAISE EXCEPTION 'The timesheet for the week of % is % and can no longer be changed',
+      _locked.week_start, _locked.status;
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+
+  IF NEW.source = 'timer' AND NEW.ended_at IS NOT NULL THEN
+    NEW.minutes := LEAST(1440, GREATEST(1, ROUND(EXTRACT(EPOCH FROM NEW.ended_at - NEW.started_at) / 60)));
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Employees may only submit their own draft or rejected week; approving,
+-- rejecting and reopening is for admins and staff. Review fields are stamped
+-- here rather than trusted from the client.
+CREATE OR REPLACE FUNCTION public.enforce_timesheet_review()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _old_status TEXT := CASE WHEN TG_OP = 'INSERT' THEN 'draft' ELSE OLD.status END;
+  _is_reviewer BOOLEAN := auth.uid() IS NULL
+    OR public.has_role(auth.uid(), 'admin')
+    OR public.has_role(auth.uid(), 'staff');
+BEGIN
+  IF NOT _is_reviewer THEN
+    IF TG_OP = 'UPDATE' THEN
+      NEW.reviewed_by := OLD.reviewed_by;
+      NEW.reviewed_at := OLD.reviewed_at;
+      NEW.review_note := OLD.review_note;
+    ELSE
+      NEW.reviewed_by := NULL;
+      NEW.reviewed_at := NULL;
+      NEW.review_note := NULL;
+    END IF;
+  END IF;
+
+  IF NEW.status = _old_status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status = 'submitted' THEN
+    IF _old_status NOT IN ('draft', 'rejected') THEN
+      RAISE EXCEPTION 'Only draft or rejected timesheets can be submitted';
+    END IF;
+
+    IF EXISTS (
+      SELECT 1 FROM public.time_entries
+      WHERE user_id = NEW.user_id
+        AND public.timesheet_week_start(work_date) = NEW.week_start
+        AND source = 'timer' AND ended_at IS NULL
+    ) THEN
+      RAISE EXCEPTION 'Stop the running timer before submitting this week';
+    END IF;
+
+    IF NOT EXISTS (
+      SELECT 1 FROM public.time_entries
+      WHERE user_id = NEW.user_id
+        AND public.timesheet_week_start(work_date) = NEW.week_start
+    ) THEN
+      RAISE EXCEPTION 'There is no time logged in the week of %', NEW.week_start;
+    END IF;
+
+    NEW.submitted_at := NOW();
+    NEW.reviewed_by := NULL;
+    NEW.reviewed_at := NULL;
+  ELSIF NOT _is_reviewer THEN
+    RAISE EXCEPTION 'Only admins and staff can review timesheets';
+  ELSIF NEW.status IN ('approved', 'rejected') THEN
+    IF _old_status <> 'submitted' THEN
+      RAISE EXCEPTION 'Only submitted timesheets can be approved or rejected';
+    END IF;
+
+    NEW.reviewed_by := auth.uid();
+    NEW.reviewed_at := NOW();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- ============================================================================
+-- TRIGGERS
+-- ============================================================================
+
+CREATE TRIGGER update_time_entries_updated_at BEFORE UPDATE ON public.time_entries
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_timesheets_updated_at BEFORE UPDATE ON public.timesheets
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+DROP TRIGGER IF EXISTS enforce_time_entry ON public.time_entries;
+CREATE TRIGGER enforce_time_entry
+  BEFORE INSERT OR UPDATE OR DELETE ON public.time_entries
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_time_entry();
+
+DROP TRIGGER IF EXISTS enforce_timesheet_review ON public.timesheets;
+CREATE TRIGGER enforce_timesheet_review
+  BEFORE INSERT OR UPDATE ON public.timesheets
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_timesheet_review();
+
+-- ============================================================================
+-- ROW LEVEL SECURITY (RLS) POLICIES
+-- ============================================================================
+
+ALTER TABLE public.time_entries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.timesheets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins and staff can view time entries" ON public.time_entries FOR SELECT TO authenticated
+  USING (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'staff'));
+CREATE POLICY "Users can view their own time entries" ON public.time_entries FOR SELECT TO authenticated
+  USING (user_id = auth.uid());
+CREATE POLICY "Assignees can log time on their tasks" ON public.time_entries FOR INSERT TO authenticated
+  WITH CHECK (
+    user_id = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM public.tasks
+      WHERE tasks.id = time_entries.task_id AND tasks.assigned_to = auth.uid()
+    )
+  );
+CREATE POLICY "Users can update their own time entries" ON public.time_entries FOR UPDATE TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+CREATE POLICY "Users can delete their own time entries" ON public.time_entries FOR DELETE TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Admins and staff can manage timesheets" ON public.timesheets FOR ALL TO authenticated
+  USING (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'staff'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'staff'));
+CREATE POLICY "Users can view their own timesheets" ON public.timesheets FOR SELECT TO authenticated
+  USING (user_id = auth.uid());
+CREATE POLICY "Users can create their own timesheets" ON public.timesheets FOR INSERT TO authenticated
+  WITH CHECK (user_id = auth.uid());
+CREATE POLICY "Users can submit their own timesheets" ON public.timesheets FOR UPDATE TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+-- ============================================================================
+-- REALTIME CONFIGURATION
+-- ============================================================================
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.timesheets;
+
+-- ============================================================================
+-- COMMENTS FOR DOCUMENTATION
+-- ============================================================================
+
+COMMENT ON TABLE public.time_entries IS 'Timer sessions and manual time entries per task';
+COMMENT ON COLUMN public.time_entries.minutes IS 'Duration; NULL while a timer is running';
+COMMENT ON COLUMN public.time_entries.work_date IS 'Day the work counts towards (the timer start in the user''s time zone)';
+COMMENT ON TABLE public.timesheets IS 'Weekly (Monday-Sunday) timesheets submitted by employees and reviewed by admins or staff';
+COMMENT ON FUNCTION public.approved_task_hours(UUID) IS 'Hours logged on a task in approved timesheets';
+
+-- ============================================================================
+-- MIGRATION COMPLETION
+-- ============================================================================
+
+DO $$
+BEGIN
+  RAISE NOTICE 'Time tracking migration completed successfully!';
+  RAISE NOTICE 'Created: time_entries, timesheets';
+  RAISE NOTICE 'Created: timesheet_week_start, approved_task_hours';
+  RAISE NOTICE 'Created: enforce_time_entry and enforce_timesheet_review triggers';
+END $$;
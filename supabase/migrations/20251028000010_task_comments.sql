@@ -0,0 +1,196 @@
+-- ============================================================================
+-- TASK COMMENTS MIGRATION
+-- Threaded comments on tasks with @mentions. Replies hang off a top-level
+-- comment (one level deep). Edits and deletions keep the previous text in
+-- task_comment_revisions; deleted comments stay as placeholders so threads
+-- keep their shape. Mention syntax is handled in src/lib/comments.js.
+-- ============================================================================
+
+-- ============================================================================
+-- CREATE TABLES
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.task_comments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  task_id UUID NOT NULL REFERENCES public.tasks(id) ON DELETE CASCADE,
+  parent_id UUID REFERENCES public.task_comments(id) ON DELETE CASCADE,
+  author_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  body TEXT NOT NULL CHECK (char_length(body) <= 5000),
+  -- Profiles mentioned in the body, kept in sync by the client
+  mentions UUID[] NOT NULL DEFAULT '{}',
+  edited_at TIMESTAMPTZ,
+  deleted_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CONSTRAINT task_comments_body_present CHECK (deleted_at IS NOT NULL OR char_length(btrim(body)) > 0)
+);
+
+CREATE TABLE IF NOT EXISTS public.task_comment_revisions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  comment_id UUID NOT NULL REFERENCES public.task_comments(id) ON DELETE CASCADE,
+  body TEXT NOT NULL,
+  -- 'edit' keeps the text before an edit, 'delete' the text that was deleted
+  action TEXT NOT NULL CHECK (action IN ('edit', 'delete')),
+  changed_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- ============================================================================
+-- CREATE INDEXES
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_task_comments_task ON public.task_comments(task_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_task_comments_parent ON public.task_comments(parent_id);
+CREATE INDEX IF NOT EXISTS idx_task_comments_mentions ON public.task_comments USING GIN (mentions);
+CREATE INDEX IF NOT EXISTS idx_task_comment_revisions_comment ON public.task_comment_revisions(comment_id, created_at);
+
+-- ============================================================================
+-- FUNCTIONS
+-- ============================================================================
+
+-- Who may read and write a task's comments: admins, staff and the assignee
+CREATE OR REPLACE FUNCTION public.can_access_task_comments(_task_id UUID, _user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.has_role(_user_id, 'admin')
+    OR public.has_role(_user_id, 'staff')
+    OR EXISTS (SELECT 1 FROM public.tasks WHERE id = _task_id AND assigned_to = _user_id);
+$$;
+
+-- Replies to a reply join the top-level thread; replies stay on their task
+CREATE OR REPLACE FUNCTION public.normalize_task_comment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _parent public.task_comments;
+BEGIN
+  IF NEW.parent_id IS NOT NULL THEN
+    SELECT * INTO _parent FROM public.task_comments WHERE id = NEW.parent_id;
+
+    IF NOT FOUND OR _parent.task_id <> NEW.task_id THEN
+      RAISE EXCEPTION 'Replies must belong to a comment on the same task';
+    END IF;
+
+    NEW.parent_id := COALESCE(_parent.parent_id, _parent.id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Keep the previous text of edited and deleted comments. Only the body and
+-- the deletion can change; the thread, task and author are fixed.
+CREATE OR REPLACE FUNCTION public.track_task_comment_revision()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.task_id <> OLD.task_id OR NEW.author_id <> OLD.author_id
+     OR NEW.parent_id IS DISTINCT FROM OLD.parent_id THEN
+    RAISE EXCEPTION 'Only the text of a comment can be changed';
+  END IF;
+
+  IF OLD.deleted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Deleted comments cannot be changed';
+  END IF;
+
+  IF NEW.deleted_at IS NOT NULL THEN
+    INSERT INTO public.task_comment_revisions (comment_id, body, action, changed_by)
+    VALUES (OLD.id, OLD.body, 'delete', auth.uid());
+
+    NEW.body := '';
+    NEW.mentions := '{}';
+    NEW.deleted_at := NOW();
+  ELSIF NEW.body IS DISTINCT FROM OLD.body THEN
+    INSERT INTO public.task_comment_revisions (comment_id, body, action, changed_by)
+    VALUES (OLD.id, OLD.body, 'edit', auth.uid());
+
+    NEW.edited_at := NOW();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- ============================================================================
+-- TRIGGERS
+-- ============================================================================
+
+CREATE TRIGGER update_task_comments_updated_at BEFORE UPDATE ON public.task_comments
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+DROP TRIGGER IF EXISTS normalize_task_comment ON public.task_comments;
+CREATE TRIGGER normalize_task_comment
+  BEFORE INSERT ON public.task_comments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.normalize_task_comment();
+
+DROP TRIGGER IF EXISTS track_task_comment_revision ON public.task_comments;
+CREATE TRIGGER track_task_comment_revision
+  BEFORE UPDATE ON public.task_comments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.track_task_comment_revision();
+
+-- ============================================================================
+-- ROW LEVEL SECURITY (RLS) POLICIES
+-- ============================================================================
+
+ALTER TABLE public.task_comments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.task_comment_revisions ENABLE ROW LEVEL SECURITY;
+
+-- Mentioned people can read the comment that mentions them even if they
+-- can't see the rest of the task
+CREATE POLICY "Task participants can view comments" ON public.task_comments FOR SELECT TO authenticated
+  USING (public.can_access_task_comments(task_id, auth.uid()) OR auth.uid() = ANY(mentions));
+CREATE POLICY "Task participants can comment" ON public.task_comments FOR INSERT TO authenticated
+  WITH CHECK (author_id = auth.uid() AND public.can_access_task_comments(task_id, auth.uid()));
+-- Authors edit and delete their own comments; admins and staff can moderate
+CREATE POLICY "Authors and moderators can change comments" ON public.task_comments FOR UPDATE TO authenticated
+  USING (
+    author_id = auth.uid()
+    OR public.has_role(auth.uid(), 'admin')
+    OR public.has_role(auth.uid(), 'staff')
+  );
+
+CREATE POLICY "Task participants can view comment history" ON public.task_comment_revisions FOR SELECT TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.task_comments c
+      WHERE c.id = task_comment_revisions.comment_id
+        AND public.can_access_task_comments(c.task_id, auth.uid())
+    )
+  );
+
+-- ============================================================================
+-- REALTIME CONFIGURATION
+-- ============================================================================
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.task_comments;
+
+-- ============================================================================
+-- COMMENTS FOR DOCUMENTATION
+-- ============================================================================
+
+COMMENT ON TABLE public.task_comments IS 'Threaded comments on tasks; replies point at a top-level comment';
+COMMENT ON COLUMN public.task_comments.body IS 'Markdown; mentions are written as @[Full Name](profile-id). Empty once deleted';
+COMMENT ON COLUMN public.task_comments.mentions IS 'Profiles mentioned in the body';
+COMMENT ON TABLE public.task_comment_revisions IS 'Previous text of edited or deleted task comments';
+
+-- ============================================================================
+-- MIGRATION COMPLETION
+-- ============================================================================
+
+DO $$
+BEGIN
+  RAISE NOTICE 'Task comments migration completed successfully!';
+  RAISE NOTICE 'Created: task_comments, task_comment_revisions, can_access_task_comments';
+  RAISE NOTICE 'Created: normalize_task_comment and track_task_comment_revision triggers';
+END $$;
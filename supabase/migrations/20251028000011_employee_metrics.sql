@@ -0,0 +1,299 @@
+-- ============================================================================
+-- EMPLOYEE PERFORMANCE METRICS MIGRATION
+-- Derives the employee_profiles metrics (performance_score, on_time_rate,
+-- quality_score, tasks_completed, avg_completion_time) from task history
+-- instead of trusting whatever was last written. A trigger on tasks keeps an
+-- employee's metrics current; the API server also recomputes everyone
+-- periodically (overdue work counts against the on-time rate as time passes)
+-- and on demand. Every change is kept in employee_metric_snapshots for trends.
+-- All rates and scores are fractions from 0 to 1.
+-- ============================================================================
+
+-- ============================================================================
+-- CREATE TABLES
+-- ============================================================================
+
+-- Admin rating of the delivered work, the input for quality_score
+ALTER TABLE public.tasks
+ADD COLUMN IF NOT EXISTS quality_rating SMALLINT CHECK (quality_rating IS NULL OR quality_rating BETWEEN 1 AND 5);
+
+-- A metric is NULL when there was nothing to derive it from yet
+CREATE TABLE IF NOT EXISTS public.employee_metric_snapshots (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  performance_score DECIMAL(3,2),
+  on_time_rate DECIMAL(5,2),
+  quality_score DECIMAL(5,2),
+  estimate_accuracy DECIMAL(5,2),
+  tasks_completed INTEGER NOT NULL DEFAULT 0,
+  avg_completion_time INTERVAL,
+  source TEXT NOT NULL DEFAULT 'trigger' CHECK (source IN ('trigger', 'job', 'manual')),
+  computed_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- ============================================================================
+-- CREATE INDEXES
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_employee_metric_snapshots_user ON public.employee_metric_snapshots(user_id, computed_at DESC);
+
+-- ============================================================================
+-- FUNCTIONS
+-- ============================================================================
+
+-- Metrics from an employee's task history:
+--   on_time_rate      completed by the deadline, out of completed tasks with a
+--                     deadline plus open tasks already past theirs
+--   quality_score     average quality_rating of completed tasks, out of 5
+--   estimate_accuracy estimated / actual hours of completed tasks, capped at 1;
+--                     actual hours are approved timesheet hours, else the
+--                     hours logged in progress updates
+--   performance_score weighted average of the three above (0.4 / 0.4 / 0.2)
+--                     over whichever of them are known
+CREATE OR REPLACE FUNCTION public.compute_employee_metrics(_user_id UUID)
+RETURNS TABLE (
+  performance_score DECIMAL(3,2),
+  on_time_rate DECIMAL(5,2),
+  quality_score DECIMAL(5,2),
+  estimate_accuracy DECIMAL(5,2),
+  tasks_completed INTEGER,
+  avg_completion_time INTERVAL
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH completed AS (
+    SELECT
+      t.id,
+      t.deadline,
+      t.completed_at,
+      COALESCE(t.accepted_at, t.started_at) AS began_at,
+      t.quality_rating,
+      t.estimated_hours,
+      COALESCE(
+        NULLIF(public.approved_task_hours(t.id), 0),
+        (SELECT SUM(u.hours_logged) FROM public.task_updates u WHERE u.task_id = t.id)
+      ) AS actual_hours
+    FROM public.tasks t
+    WHERE t.assigned_to = _user_id AND t.status = 'completed'
+  ),
+  overdue AS (
+    SELECT COUNT(*) AS open_late
+    FROM public.tasks t
+    WHERE t.assigned_to = _user_id
+      AND t.status IN ('accepted', 'ongoing')
+      AND t.deadline < NOW()
+  ),
+  rates AS (
+    SELECT
+      COUNT(*) FILTER (WHERE c.completed_at <= c.deadline)::NUMERIC
+        / NULLIF(COUNT(*) FILTER (WHERE c.deadline IS NOT NULL) + (SELECT open_late FROM overdue), 0) AS on_time,
+      AVG(c.quality_rating) / 5.0 AS quality,
+      AVG(LEAST(1, c.estimated_hours / c.actual_hours))
+        FILTER (WHERE c.estimated_hours > 0 AND c.actual_hours > 0) AS accuracy,
+      COUNT(*)::INTEGER AS completed_count,
+      AVG(c.completed_at - c.began_at) FILTER (WHERE c.began_at IS NOT NULL) AS avg_duration
+    FROM completed c
+  )
+  SELECT
+    ROUND(
+      (COALESCE(r.on_time * 0.4, 0) + COALESCE(r.quality * 0.4, 0) + COALESCE(r.accuracy * 0.2, 0))
+        / NULLIF(
+          CASE WHEN r.on_time IS NULL THEN 0 ELSE 0.4 END
+            + CASE WHEN r.quality IS NULL THEN 0 ELSE 0.4 END
+            + CASE WHEN r.accuracy IS NULL THEN 0 ELSE 0.2 END,
+          0
+        ),
+      2
+    )::DECIMAL(3,2),
+    ROUND(r.on_time, 2)::DECIMAL(5,2),
+    ROUND(r.quality, 2)::DECIMAL(5,2),
+    ROUND(r.accuracy, 2)::DECIMAL(5,2),
+    r.completed_count,
+    date_trunc('minute', r.avg_duration)
+  FROM rates r;
+$$;
+
+-- Store an employee's current metrics on employee_profiles and record a
+-- snapshot when they changed since the last one. Returns whether they changed.
+CREATE OR REPLACE FUNCTION public.refresh_employee_metrics(_user_id UUID, _source TEXT DEFAULT 'trigger')
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _metrics RECORD;
+  _latest public.employee_metric_snapshots;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.employee_profiles WHERE user_id = _user_id) THEN
+    RETURN FALSE;
+  END IF;
+
+  SELECT * INTO _metrics FROM public.compute_employee_metrics(_user_id);
+
+  UPDATE public.employee_profiles
+  SET performance_score = COALESCE(_metrics.performance_score, 0),
+      on_time_rate = COALESCE(_metrics.on_time_rate, 0),
+      quality_score = COALESCE(_metrics.quality_score, 0),
+      tasks_completed = _metrics.tasks_completed,
+      avg_completion_time = _metrics.avg_completion_time
+  WHERE user_id = _user_id;
+
+  SELECT * INTO _latest
+  FROM public.employee_metric_snapshots
+  WHERE user_id = _user_id
+  ORDER BY computed_at DESC
+  LIMIT 1;
+
+  IF FOUND AND (
+    _latest.performance_score, _latest.on_time_rate, _latest.quality_score,
+    _latest.estimate_accuracy, _latest.tasks_completed, _latest.avg_completion_time
+  ) IS NOT DISTINCT FROM (
+    _metrics.performance_score, _metrics.on_time_rate, _metrics.quality_score,
+    _metrics.estimate_accuracy, _metrics.tasks_completed, _metrics.avg_completion_time
+  ) THEN
+    RETURN FALSE;
+  END IF;
+
+  INSERT INTO public.employee_metric_snapshots (
+    user_id, performance_score, on_time_rate, quality_score,
+    estimate_accuracy, tasks_completed, avg_completion_time, source
+  ) VALUES (
+    _user_id, _metrics.performance_score, _metrics.on_time_rate, _metrics.quality_score,
+    _metrics.estimate_accuracy, _metrics.tasks_completed, _metrics.avg_completion_time, _source
+  );
+
+  RETURN TRUE;
+END;
+$$;
+
+-- Recompute every employee; returns how many employees' metrics changed.
+-- Run periodically by the API server. Without it (e.g. serverless hosting),
+-- schedule it with pg_cron:
+--   SELECT cron.schedule('refresh-employee-metrics', '0 * * * *', $$SELECT public.refresh_all_employee_metrics('job')$$);
+CREATE OR REPLACE FUNCTION public.refresh_all_employee_metrics(_source TEXT DEFAULT 'job')
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID;
+  changed_count INTEGER := 0;
+BEGIN
+  FOR _user_id IN SELECT user_id FROM public.employee_profiles LOOP
+    IF public.refresh_employee_metrics(_user_id, _source) THEN
+      changed_count := changed_count + 1;
+    END IF;
+  END LOOP;
+
+  RETURN changed_count;
+END;
+$$;
+
+-- Only admins and staff rate work; the API server checks roles itself
+CREATE OR REPLACE FUNCTION public.protect_task_quality_rating()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.quality_rating IS DISTINCT FROM OLD.quality_rating
+     AND auth.uid() IS NOT NULL
+     AND NOT public.has_role(auth.uid(), 'admin')
+     AND NOT public.has_role(auth.uid(), 'staff') THEN
+    RAISE EXCEPTION 'Only admins and staff can rate a task'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Recompute the metrics of the employees a task change affects
+CREATE OR REPLACE FUNCTION public.refresh_task_assignee_metrics()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.assigned_to IS NOT NULL THEN
+    PERFORM public.refresh_employee_metrics(NEW.assigned_to);
+  END IF;
+
+  IF OLD.assigned_to IS NOT NULL
+     AND (TG_OP = 'DELETE' OR OLD.assigned_to IS DISTINCT FROM NEW.assigned_to) THEN
+    PERFORM public.refresh_employee_metrics(OLD.assigned_to);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.compute_employee_metrics(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.refresh_employee_metrics(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.refresh_all_employee_metrics(TEXT) FROM PUBLIC, anon, authenticated;
+
+-- ============================================================================
+-- TRIGGERS
+-- ============================================================================
+
+DROP TRIGGER IF EXISTS protect_task_quality_rating ON public.tasks;
+CREATE TRIGGER protect_task_quality_rating
+  BEFORE UPDATE OF quality_rating ON public.tasks
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_task_quality_rating();
+
+DROP TRIGGER IF EXISTS refresh_task_assignee_metrics ON public.tasks;
+CREATE TRIGGER refresh_task_assignee_metrics
+  AFTER UPDATE OF status, assigned_to, deadline, accepted_at, completed_at, estimated_hours, quality_rating OR DELETE
+  ON public.tasks
+  FOR EACH ROW
+  EXECUTE FUNCTION public.refresh_task_assignee_metrics();
+
+-- ============================================================================
+-- ROW LEVEL SECURITY (RLS) POLICIES
+-- ============================================================================
+
+-- Snapshots are written only by the functions above
+ALTER TABLE public.employee_metric_snapshots ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own metric history" ON public.employee_metric_snapshots FOR SELECT TO authenticated
+  USING (auth.uid() = user_id);
+CREATE POLICY "Admins and staff can view all metric history" ON public.employee_metric_snapshots FOR SELECT TO authenticated
+  USING (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'staff'));
+
+-- ============================================================================
+-- BACKFILL
+-- ============================================================================
+
+SELECT public.refresh_all_employee_metrics('job');
+
+-- ============================================================================
+-- COMMENTS FOR DOCUMENTATION
+-- ============================================================================
+
+COMMENT ON COLUMN public.tasks.quality_rating IS 'Admin rating of the delivered work, 1 to 5';
+COMMENT ON TABLE public.employee_metric_snapshots IS 'History of computed employee metrics; a row is added whenever they change';
+COMMENT ON COLUMN public.employee_metric_snapshots.estimate_accuracy IS 'Estimated / actual hours of completed tasks, capped at 1';
+COMMENT ON COLUMN public.employee_metric_snapshots.source IS 'What recomputed the metrics: a task change (trigger), the periodic job, or a manual recompute';
+COMMENT ON FUNCTION public.compute_employee_metrics(UUID) IS 'Derives an employee''s performance metrics from their task history';
+COMMENT ON FUNCTION public.refresh_employee_metrics(UUID, TEXT) IS 'Stores an employee''s computed metrics and snapshots them when they changed';
+COMMENT ON FUNCTION public.refresh_all_employee_metrics(TEXT) IS 'Recomputes every employee''s metrics and returns how many changed';
+
+-- ============================================================================
+-- MIGRATION COMPLETION
+-- ============================================================================
+
+DO $$
+BEGIN
+  RAISE NOTICE 'Employee metrics migration completed successfully!';
+  RAISE NOTICE 'Created: employee_metric_snapshots, tasks.quality_rating';
+  RAISE NOTICE 'Created: compute_employee_metrics, refresh_employee_metrics, refresh_all_employee_metrics';
+  RAISE NOTICE 'Created: protect_task_quality_rating and refresh_task_assignee_metrics triggers';
+END $$;
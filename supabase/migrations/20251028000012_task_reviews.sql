@@ -0,0 +1,166 @@
+-- ============================================================================
+-- TASK REVIEWS MIGRATION
+-- Completing a task puts it in review. An admin or staff member approves it
+-- with a 1-5 quality rating (stored on tasks.quality_rating, which feeds the
+-- employee metrics and the payment suggestion) or requests changes, which
+-- reopens the task. Every decision is kept in task_reviews.
+-- Review rules are mirrored in server/shared/taskReview.js - keep in sync.
+-- ============================================================================
+
+-- ============================================================================
+-- CREATE TABLES
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.task_reviews (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  task_id UUID NOT NULL REFERENCES public.tasks(id) ON DELETE CASCADE,
+  reviewer_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  decision TEXT NOT NULL CHECK (decision IN ('approved', 'changes_requested')),
+  rating SMALLINT CHECK (rating IS NULL OR rating BETWEEN 1 AND 5),
+  comments TEXT CHECK (comments IS NULL OR char_length(comments) <= 2000),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  -- Approvals are rated; change requests say what to change
+  CONSTRAINT task_reviews_decision_details CHECK (
+    (decision = 'approved' AND rating IS NOT NULL)
+    OR (decision = 'changes_requested' AND char_length(btrim(COALESCE(comments, ''))) > 0)
+  )
+);
+
+-- NULL for tasks that are not completed and for tasks completed before reviews
+ALTER TABLE public.tasks
+ADD COLUMN IF NOT EXISTS review_status TEXT CHECK (review_status IN ('pending', 'approved', 'changes_requested'));
+
+-- Reviewers send completed work back
+INSERT INTO public.task_status_transitions (from_status, to_status, allowed_roles) VALUES
+  ('completed', 'ongoing', ARRAY['admin', 'staff']::app_role[])
+ON CONFLICT (from_status, to_status) DO UPDATE SET allowed_roles = EXCLUDED.allowed_roles;
+
+-- ============================================================================
+-- CREATE INDEXES
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_task_reviews_task ON public.task_reviews(task_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_tasks_review_pending ON public.tasks(completed_at) WHERE review_status = 'pending';
+
+-- ============================================================================
+-- FUNCTIONS
+-- ============================================================================
+
+-- Completing a task starts a review; reopening it means changes were
+-- requested and clears the completion and its rating. Only reviewers (or the
+-- API server, which checks roles itself) can set the review status directly.
+CREATE OR REPLACE FUNCTION public.track_task_review_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    IF NEW.status = 'completed' THEN
+      NEW.review_status := 'pending';
+      NEW.quality_rating := NULL;
+    ELSIF OLD.status = 'completed' THEN
+      NEW.review_status := CASE WHEN NEW.status = 'ongoing' THEN 'changes_requested' END;
+      NEW.completed_at := NULL;
+      NEW.quality_rating := NULL;
+    END IF;
+  ELSIF NEW.review_status IS DISTINCT FROM OLD.review_status
+     AND auth.uid() IS NOT NULL
+     AND NOT public.has_role(auth.uid(), 'admin')
+     AND NOT public.has_role(auth.uid(), 'staff') THEN
+    RAISE EXCEPTION 'Only admins and staff can review a task'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Apply a review decision to its task. Runs as the reviewer, so reopening
+-- the task still goes through the status transition rules.
+CREATE OR REPLACE FUNCTION public.apply_task_review()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _task public.tasks;
+BEGIN
+  SELECT * INTO _task FROM public.tasks WHERE id = NEW.task_id FOR UPDATE;
+
+  IF _task.status IS DISTINCT FROM 'completed' OR _task.review_status = 'approved' THEN
+    RAISE EXCEPTION 'Only completed tasks awaiting review can be reviewed'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NEW.decision = 'approved' THEN
+    UPDATE public.tasks
+    SET review_status = 'approved', quality_rating = NEW.rating
+    WHERE id = NEW.task_id;
+  ELSE
+    UPDATE public.tasks
+    SET status = 'ongoing'
+    WHERE id = NEW.task_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- ============================================================================
+-- TRIGGERS
+-- ============================================================================
+
+DROP TRIGGER IF EXISTS track_task_review_status ON public.tasks;
+CREATE TRIGGER track_task_review_status
+  BEFORE UPDATE OF status, review_status ON public.tasks
+  FOR EACH ROW
+  EXECUTE FUNCTION public.track_task_review_status();
+
+DROP TRIGGER IF EXISTS apply_task_review ON public.task_reviews;
+CREATE TRIGGER apply_task_review
+  AFTER INSERT ON public.task_reviews
+  FOR EACH ROW
+  EXECUTE FUNCTION public.apply_task_review();
+
+-- ============================================================================
+-- ROW LEVEL SECURITY (RLS) POLICIES
+-- ============================================================================
+
+-- Reviews are a record of decisions: added, never edited or deleted
+ALTER TABLE public.task_reviews ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Reviewers and assignees can view task reviews" ON public.task_reviews FOR SELECT TO authenticated
+  USING (
+    public.has_role(auth.uid(), 'admin')
+    OR public.has_role(auth.uid(), 'staff')
+    OR EXISTS (
+      SELECT 1 FROM public.tasks t
+      WHERE t.id = task_reviews.task_id AND t.assigned_to = auth.uid()
+    )
+  );
+CREATE POLICY "Admins and staff can review tasks" ON public.task_reviews FOR INSERT TO authenticated
+  WITH CHECK (
+    reviewer_id = auth.uid()
+    AND (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'staff'))
+  );
+
+-- ============================================================================
+-- COMMENTS FOR DOCUMENTATION
+-- ============================================================================
+
+COMMENT ON TABLE public.task_reviews IS 'Admin review decisions on completed tasks: approvals with a 1-5 rating, or change requests';
+COMMENT ON COLUMN public.tasks.review_status IS 'pending while completed work awaits review, approved once reviewed, changes_requested after it was reopened';
+COMMENT ON FUNCTION public.apply_task_review() IS 'Approves (and rates) or reopens the reviewed task';
+
+-- ============================================================================
+-- MIGRATION COMPLETION
+-- ============================================================================
+
+DO $$
+BEGIN
+  RAISE NOTICE 'Task reviews migration completed successfully!';
+  RAISE NOTICE 'Created: task_reviews, tasks.review_status, completed -> ongoing transition';
+  RAISE NOTICE 'Created: track_task_review_status and apply_task_review triggers';
+END $$;
@@ -0,0 +1,331 @@
+-- ============================================================================
+-- NOTIFICATIONS MIGRATION
+-- Persistent notification inbox. Triggers on invitations, task status and
+-- review changes, payments and comments write a row per recipient, so
+-- notifications survive reloads and show up on every device; read state lives
+-- in notifications.read_at. Each user can switch off in-app notifications per
+-- type in notification_preferences (no row means enabled).
+-- Notification types are mirrored in src/lib/notifications.js - keep in sync.
+-- ============================================================================
+
+-- ============================================================================
+-- CREATE TABLES
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.notifications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  type TEXT NOT NULL CHECK (type IN ('invitation', 'task_status', 'review', 'payment', 'comment', 'mention')),
+  title TEXT NOT NULL,
+  message TEXT NOT NULL,
+  task_id UUID REFERENCES public.tasks(id) ON DELETE CASCADE,
+  -- Ids of the invitation, payment or comment behind the notification
+  metadata JSONB NOT NULL DEFAULT '{}',
+  read_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS public.notification_preferences (
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  type TEXT NOT NULL CHECK (type IN ('invitation', 'task_status', 'review', 'payment', 'comment', 'mention')),
+  in_app BOOLEAN NOT NULL DEFAULT TRUE,
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (user_id, type)
+);
+
+-- ============================================================================
+-- CREATE INDEXES
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user ON public.notifications(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_notifications_unread ON public.notifications(user_id) WHERE read_at IS NULL;
+
+-- ============================================================================
+-- FUNCTIONS
+-- ============================================================================
+
+-- Notify one user unless they caused the event themselves or switched the
+-- type off. Returns the new notification id, or NULL when skipped.
+CREATE OR REPLACE FUNCTION public.create_notification(
+  _user_id UUID,
+  _type TEXT,
+  _title TEXT,
+  _message TEXT,
+  _task_id UUID DEFAULT NULL,
+  _metadata JSONB DEFAULT '{}'
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _id UUID;
+BEGIN
+  IF _user_id IS NULL OR _user_id = auth.uid() THEN
+    RETURN NULL;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.notification_preferences
+    WHERE user_id = _user_id AND type = _type AND NOT in_app
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.notifications (user_id, type, title, message, task_id, metadata)
+  VALUES (_user_id, _type, _title, _message, _task_id, COALESCE(_metadata, '{}'))
+  RETURNING id INTO _id;
+
+  RETURN _id;
+END;
+$$;
+
+-- Pending invitations go to the invitee (queued ones once they are promoted);
+-- answers go back to whoever sent the invitation
+CREATE OR REPLACE FUNCTION public.notify_invitation_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _task_title TEXT;
+  _invitee TEXT;
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT title INTO _task_title FROM public.tasks WHERE id = NEW.task_id;
+
+  IF NEW.status = 'pending' THEN
+    PERFORM public.create_notification(
+      NEW.to_user_id, 'invitation', 'New task invitation',
+      format('You have been invited to work on "%s"', _task_title),
+      NEW.task_id, jsonb_build_object('invitation_id', NEW.id)
+    );
+  ELSIF TG_OP = 'UPDATE' AND NEW.status IN ('accepted', 'rejected') THEN
+    SELECT full_name INTO _invitee FROM public.profiles WHERE id = NEW.to_user_id;
+    PERFORM public.create_notification(
+      NEW.from_user_id, 'invitation',
+      CASE WHEN NEW.status = 'accepted' THEN 'Invitation accepted' ELSE 'Invitation declined' END,
+      format('%s %s the invitation to "%s"', COALESCE(_invitee, 'An employee'), NEW.status, _task_title),
+      NEW.task_id, jsonb_build_object('invitation_id', NEW.id)
+    );
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+-- Status changes go to the assignee and the creator, review decisions to the
+-- assignee. Invitation steps are covered by the invitation notifications.
+CREATE OR REPLACE FUNCTION public.notify_task_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.review_status = 'approved' AND OLD.review_status IS DISTINCT FROM 'approved' THEN
+    PERFORM public.create_notification(
+      NEW.assigned_to, 'review', 'Task approved',
+      format('"%s" was approved', NEW.title)
+        || CASE WHEN NEW.quality_rating IS NOT NULL THEN format(' with a %s/5 rating', NEW.quality_rating) ELSE '' END,
+      NEW.id
+    );
+  END IF;
+
+  IF NEW.status IS NOT DISTINCT FROM OLD.status OR NEW.status IN ('pending', 'invited') THEN
+    RETURN NULL;
+  END IF;
+
+  IF OLD.status = 'completed' AND NEW.review_status = 'changes_requested' THEN
+    PERFORM public.create_notification(
+      NEW.assigned_to, 'review', 'Changes requested',
+      format('"%s" was sent back for changes', NEW.title),
+      NEW.id
+    );
+    RETURN NULL;
+  END IF;
+
+  PERFORM public.create_notification(
+    NEW.assigned_to, 'task_status', 'Task status changed',
+    format('"%s" is now %s', NEW.title, NEW.status),
+    NEW.id, jsonb_build_object('from', OLD.status, 'to', NEW.status)
+  );
+
+  IF NEW.created_by IS DISTINCT FROM NEW.assigned_to THEN
+    PERFORM public.create_notification(
+      NEW.created_by, 'task_status',
+      CASE WHEN NEW.status = 'completed' THEN 'Task ready for review' ELSE 'Task status changed' END,
+      format('"%s" is now %s', NEW.title, NEW.status),
+      NEW.id, jsonb_build_object('from', OLD.status, 'to', NEW.status)
+    );
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.notify_payment_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _task_title TEXT;
+  _amount DECIMAL(10,2);
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status OR NEW.status NOT IN ('approved', 'paid') THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT title INTO _task_title FROM public.tasks WHERE id = NEW.task_id;
+  _amount := COALESCE(NEW.amount_manual, NEW.amount_ai_suggested);
+
+  PERFORM public.create_notification(
+    NEW.user_id, 'payment',
+    CASE WHEN NEW.status = 'approved' THEN 'Payment approved' ELSE 'Payment sent' END,
+    format('Your payment%s for "%s" was %s',
+      CASE WHEN _amount IS NOT NULL THEN format(' of $%s', _amount) ELSE '' END,
+      _task_title,
+      CASE WHEN NEW.status = 'approved' THEN 'approved' ELSE 'paid out' END),
+    NEW.task_id, jsonb_build_object('payment_id', NEW.id)
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+-- Mentioned people get a mention; the assignee, the creator and the author of
+-- the comment being replied to get a comment notification
+CREATE OR REPLACE FUNCTION public.notify_task_comment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _task public.tasks;
+  _author TEXT;
+  _preview TEXT;
+  _recipient UUID;
+BEGIN
+  SELECT * INTO _task FROM public.tasks WHERE id = NEW.task_id;
+  SELECT full_name INTO _author FROM public.profiles WHERE id = NEW.author_id;
+  -- Show mentions as @Name rather than their markdown link
+  _preview := regexp_replace(NEW.body, '@\[([^\]]+)\]\([^)]+\)', '@\1', 'g');
+  IF char_length(_preview) > 120 THEN
+    _preview := left(_preview, 117) || '...';
+  END IF;
+
+  FOREACH _recipient IN ARRAY NEW.mentions LOOP
+    IF _recipient <> NEW.author_id THEN
+      PERFORM public.create_notification(
+        _recipient, 'mention', format('%s mentioned you on "%s"', COALESCE(_author, 'Someone'), _task.title),
+        _preview, NEW.task_id, jsonb_build_object('comment_id', NEW.id)
+      );
+    END IF;
+  END LOOP;
+
+  FOR _recipient IN
+    SELECT DISTINCT r.id
+    FROM (
+      SELECT _task.assigned_to AS id
+      UNION SELECT _task.created_by
+      UNION SELECT author_id FROM public.task_comments WHERE id = NEW.parent_id
+    ) r
+    WHERE r.id IS NOT NULL AND r.id <> NEW.author_id AND NOT (r.id = ANY(NEW.mentions))
+  LOOP
+    PERFORM public.create_notification(
+      _recipient, 'comment', format('%s commented on "%s"', COALESCE(_author, 'Someone'), _task.title),
+      _preview, NEW.task_id, jsonb_build_object('comment_id', NEW.id)
+    );
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.create_notification(UUID, TEXT, TEXT, TEXT, UUID, JSONB) FROM PUBLIC, anon, authenticated;
+
+-- ============================================================================
+-- TRIGGERS
+-- ============================================================================
+
+DROP TRIGGER IF EXISTS notify_invitation_change ON public.invitations;
+CREATE TRIGGER notify_invitation_change
+  AFTER INSERT OR UPDATE OF status ON public.invitations
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_invitation_change();
+
+DROP TRIGGER IF EXISTS notify_task_change ON public.tasks;
+CREATE TRIGGER notify_task_change
+  AFTER UPDATE OF status, review_status ON public.tasks
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_task_change();
+
+DROP TRIGGER IF EXISTS notify_payment_change ON public.payments;
+CREATE TRIGGER notify_payment_change
+  AFTER UPDATE OF status ON public.payments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_payment_change();
+
+DROP TRIGGER IF EXISTS notify_task_comment ON public.task_comments;
+CREATE TRIGGER notify_task_comment
+  AFTER INSERT ON public.task_comments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_task_comment();
+
+-- ============================================================================
+-- ROW LEVEL SECURITY (RLS) POLICIES
+-- ============================================================================
+
+-- Notifications are written by the triggers above; users read, mark read and
+-- clear their own
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.notification_preferences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own notifications" ON public.notifications FOR SELECT TO authenticated
+  USING (user_id = auth.uid());
+CREATE POLICY "Users can mark own notifications read" ON public.notifications FOR UPDATE TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+CREATE POLICY "Users can delete own notifications" ON public.notifications FOR DELETE TO authenticated
+  USING (user_id = auth.uid());
+
+-- Only the read state can change
+REVOKE UPDATE ON public.notifications FROM authenticated;
+GRANT UPDATE (read_at) ON public.notifications TO authenticated;
+
+CREATE POLICY "Users can manage own notification preferences" ON public.notification_preferences FOR ALL TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+-- ============================================================================
+-- REALTIME CONFIGURATION
+-- ============================================================================
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.notifications;
+
+-- ============================================================================
+-- COMMENTS FOR DOCUMENTATION
+-- ============================================================================
+
+COMMENT ON TABLE public.notifications IS 'Per-user notification inbox written by triggers; read_at is NULL while unread';
+COMMENT ON TABLE public.notification_preferences IS 'Per-type notification switches; a missing row means the type is enabled';
+COMMENT ON FUNCTION public.create_notification(UUID, TEXT, TEXT, TEXT, UUID, JSONB) IS 'Notifies a user unless they caused the event or disabled the type';
+
+-- ============================================================================
+-- MIGRATION COMPLETION
+-- ============================================================================
+
+DO $$
+BEGIN
+  RAISE NOTICE 'Notifications migration completed successfully!';
+  RAISE NOTICE 'Created: notifications, notification_preferences, create_notification';
+  RAISE NOTICE 'Created: invitation, task, payment and comment notification triggers';
+END $$;
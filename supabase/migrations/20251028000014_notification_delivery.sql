@@ -0,0 +1,302 @@
+-- ============================================================================
+-- NOTIFICATION DELIVERY MIGRATION
+-- Sends notifications outside the app. create_notification now also queues
+-- an email for the recipient (unless they switched email off for the type)
+-- and a signed POST for every matching admin-configured webhook in
+-- notification_outbox. The API server's delivery job claims due rows, sends
+-- them, and retries failures with exponential backoff. Users in digest mode
+-- get their emails batched once a day at their digest hour (UTC).
+-- Adds the deadline notification type used by deadline reminders.
+-- ============================================================================
+
+-- ============================================================================
+-- CREATE TABLES
+-- ============================================================================
+
+ALTER TABLE public.notifications DROP CONSTRAINT IF EXISTS notifications_type_check;
+ALTER TABLE public.notifications ADD CONSTRAINT notifications_type_check
+  CHECK (type IN ('invitation', 'task_status', 'review', 'payment', 'comment', 'mention', 'deadline'));
+
+ALTER TABLE public.notification_preferences DROP CONSTRAINT IF EXISTS notification_preferences_type_check;
+ALTER TABLE public.notification_preferences ADD CONSTRAINT notification_preferences_type_check
+  CHECK (type IN ('invitation', 'task_status', 'review', 'payment', 'comment', 'mention', 'deadline'));
+
+ALTER TABLE public.notification_preferences
+ADD COLUMN IF NOT EXISTS email BOOLEAN NOT NULL DEFAULT TRUE;
+
+CREATE TABLE IF NOT EXISTS public.notification_delivery_settings (
+  user_id UUID PRIMARY KEY REFERENCES public.profiles(id) ON DELETE CASCADE,
+  email_digest BOOLEAN NOT NULL DEFAULT FALSE,
+  digest_hour SMALLINT NOT NULL DEFAULT 8 CHECK (digest_hour BETWEEN 0 AND 23),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS public.notification_webhooks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL CHECK (char_length(btrim(name)) BETWEEN 1 AND 100),
+  url TEXT NOT NULL CHECK (url ~ '^https?://'),
+  -- Shared secret for the X-Webhook-Signature HMAC
+  secret TEXT NOT NULL DEFAULT replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', ''),
+  -- Notification types to send; empty means all
+  types TEXT[] NOT NULL DEFAULT '{}',
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- One row per message to send. The payload is a copy of the notification, so
+-- it is still delivered if the user clears their inbox first.
+CREATE TABLE IF NOT EXISTS public.notification_outbox (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  notification_id UUID REFERENCES public.notifications(id) ON DELETE SET NULL,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  channel TEXT NOT NULL CHECK (channel IN ('email', 'webhook')),
+  webhook_id UUID REFERENCES public.notification_webhooks(id) ON DELETE CASCADE,
+  event TEXT NOT NULL,
+  payload JSONB NOT NULL,
+  digest BOOLEAN NOT NULL DEFAULT FALSE,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sending', 'sent', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  locked_at TIMESTAMPTZ,
+  last_error TEXT,
+  sent_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  CONSTRAINT notification_outbox_webhook_channel CHECK ((channel = 'webhook') = (webhook_id IS NOT NULL))
+);
+
+-- ============================================================================
+-- CREATE INDEXES
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_notification_outbox_due ON public.notification_outbox(next_attempt_at)
+  WHERE status IN ('pending', 'sending');
+CREATE INDEX IF NOT EXISTS idx_notification_outbox_created ON public.notification_outbox(created_at DESC);
+
+-- ============================================================================
+-- FUNCTIONS
+-- ============================================================================
+
+-- Next time a digest goes out at _hour UTC
+CREATE OR REPLACE FUNCTION public.next_digest_at(_hour SMALLINT)
+RETURNS TIMESTAMPTZ
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT CASE
+    WHEN date_trunc('day', now()) + make_interval(hours => _hour) > now()
+      THEN date_trunc('day', now()) + make_interval(hours => _hour)
+    ELSE date_trunc('day', now()) + make_interval(days => 1, hours => _hour)
+  END;
+$$;
+
+-- Notify one user unless they caused the event themselves. Each channel
+-- honours the user's preference for the type; webhooks get every matching
+-- notification. Returns the in-app notification id, or NULL when none was
+-- created. The event (metadata.event, else the type) picks the email template.
+CREATE OR REPLACE FUNCTION public.create_notification(
+  _user_id UUID,
+  _type TEXT,
+  _title TEXT,
+  _message TEXT,
+  _task_id UUID DEFAULT NULL,
+  _metadata JSONB DEFAULT '{}'
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _id UUID;
+  _pref public.notification_preferences;
+  _settings public.notification_delivery_settings;
+  _event TEXT := COALESCE(_metadata->>'event', _type);
+  _payload JSONB;
+BEGIN
+  IF _user_id IS NULL OR _user_id = auth.uid() THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO _pref FROM public.notification_preferences WHERE user_id = _user_id AND type = _type;
+
+  IF _pref.in_app IS DISTINCT FROM FALSE THEN
+    INSERT INTO public.notifications (user_id, type, title, message, task_id, metadata)
+    VALUES (_user_id, _type, _title, _message, _task_id, COALESCE(_metadata, '{}'))
+    RETURNING id INTO _id;
+  END IF;
+
+  _payload := jsonb_build_object(
+    'notification_id', _id,
+    'user_id', _user_id,
+    'type', _type,
+    'event', _event,
+    'title', _title,
+    'message', _message,
+    'task_id', _task_id,
+    'task_title', (SELECT title FROM public.tasks WHERE id = _task_id),
+    'metadata', COALESCE(_metadata, '{}'),
+    'created_at', now()
+  );
+
+  IF _pref.email IS DISTINCT FROM FALSE THEN
+    SELECT * INTO _settings FROM public.notification_delivery_settings WHERE user_id = _user_id;
+
+    INSERT INTO public.notification_outbox (notification_id, user_id, channel, event, payload, digest, next_attempt_at)
+    VALUES (
+      _id, _user_id, 'email', _event, _payload,
+      COALESCE(_settings.email_digest, FALSE),
+      CASE WHEN _settings.email_digest THEN public.next_digest_at(_settings.digest_hour) ELSE now() END
+    );
+  END IF;
+
+  INSERT INTO public.notification_outbox (notification_id, user_id, channel, webhook_id, event, payload)
+  SELECT _id, _user_id, 'webhook', w.id, _event, _payload
+  FROM public.notification_webhooks w
+  WHERE w.is_active AND (w.types = '{}' OR _type = ANY(w.types));
+
+  RETURN _id;
+END;
+$$;
+
+-- Same as before, with the event that picks the email template
+CREATE OR REPLACE FUNCTION public.notify_invitation_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _task_title TEXT;
+  _invitee TEXT;
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT title INTO _task_title FROM public.tasks WHERE id = NEW.task_id;
+
+  IF NEW.status = 'pending' THEN
+    PERFORM public.create_notification(
+      NEW.to_user_id, 'invitation', 'New task invitation',
+      format('You have been invited to work on "%s"', _task_title),
+      NEW.task_id, jsonb_build_object('invitation_id', NEW.id, 'event', 'invitation_received')
+    );
+  ELSIF TG_OP = 'UPDATE' AND NEW.status IN ('accepted', 'rejected') THEN
+    SELECT full_name INTO _invitee FROM public.profiles WHERE id = NEW.to_user_id;
+    PERFORM public.create_notification(
+      NEW.from_user_id, 'invitation',
+      CASE WHEN NEW.status = 'accepted' THEN 'Invitation accepted' ELSE 'Invitation declined' END,
+      format('%s %s the invitation to "%s"', COALESCE(_invitee, 'An employee'), NEW.status, _task_title),
+      NEW.task_id, jsonb_build_object('invitation_id', NEW.id, 'event', 'invitation_' || NEW.status)
+    );
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.notify_payment_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _task_title TEXT;
+  _amount DECIMAL(10,2);
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status OR NEW.status NOT IN ('approved', 'paid') THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT title INTO _task_title FROM public.tasks WHERE id = NEW.task_id;
+  _amount := COALESCE(NEW.amount_manual, NEW.amount_ai_suggested);
+
+  PERFORM public.create_notification(
+    NEW.user_id, 'payment',
+    CASE WHEN NEW.status = 'approved' THEN 'Payment approved' ELSE 'Payment sent' END,
+    format('Your payment%s for "%s" was %s',
+      CASE WHEN _amount IS NOT NULL THEN format(' of $%s', _amount) ELSE '' END,
+      _task_title,
+      CASE WHEN NEW.status = 'approved' THEN 'approved' ELSE 'paid out' END),
+    NEW.task_id,
+    jsonb_build_object('payment_id', NEW.id, 'amount', _amount, 'event', 'payment_' || NEW.status)
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+-- Hand due outbox rows on the given channels to a delivery worker. Rows
+-- stuck in 'sending' longer than _lock_timeout (a worker died mid-send) are
+-- handed out again.
+CREATE OR REPLACE FUNCTION public.claim_notification_outbox(
+  _channels TEXT[] DEFAULT ARRAY['email', 'webhook'],
+  _limit INTEGER DEFAULT 50,
+  _lock_timeout INTERVAL DEFAULT INTERVAL '10 minutes'
+)
+RETURNS SETOF public.notification_outbox
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.notification_outbox o
+  SET status = 'sending', locked_at = now(), attempts = o.attempts + 1
+  WHERE o.id IN (
+    SELECT id FROM public.notification_outbox
+    WHERE channel = ANY(_channels)
+      AND (
+        (status = 'pending' AND next_attempt_at <= now())
+        OR (status = 'sending' AND locked_at < now() - _lock_timeout)
+      )
+    ORDER BY next_attempt_at
+    LIMIT _limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING o.*;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_notification_outbox(TEXT[], INTEGER, INTERVAL) FROM PUBLIC, anon, authenticated;
+
+-- ============================================================================
+-- ROW LEVEL SECURITY (RLS) POLICIES
+-- ============================================================================
+
+ALTER TABLE public.notification_delivery_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.notification_webhooks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.notification_outbox ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage own delivery settings" ON public.notification_delivery_settings FOR ALL TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Admins can manage webhooks" ON public.notification_webhooks FOR ALL TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+-- Written by create_notification and the delivery job; admins can inspect it
+CREATE POLICY "Admins can view the notification outbox" ON public.notification_outbox FOR SELECT TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- ============================================================================
+-- COMMENTS FOR DOCUMENTATION
+-- ============================================================================
+
+COMMENT ON TABLE public.notification_delivery_settings IS 'Per-user email delivery settings; a missing row means immediate emails';
+COMMENT ON COLUMN public.notification_delivery_settings.digest_hour IS 'UTC hour at which digest emails are sent';
+COMMENT ON TABLE public.notification_webhooks IS 'Endpoints that receive every matching notification as a signed JSON POST';
+COMMENT ON TABLE public.notification_outbox IS 'Emails and webhook calls waiting to be sent, with retry state';
+COMMENT ON COLUMN public.notification_outbox.event IS 'Picks the email template, e.g. invitation_received, deadline_tomorrow, payment_approved';
+COMMENT ON FUNCTION public.claim_notification_outbox(TEXT[], INTEGER, INTERVAL) IS 'Locks due outbox rows for one delivery run';
+
+-- ============================================================================
+-- MIGRATION COMPLETION
+-- ============================================================================
+
+DO $$
+BEGIN
+  RAISE NOTICE 'Notification delivery migration completed successfully!';
+  RAISE NOTICE 'Created: notification_delivery_settings, notification_webhooks, notification_outbox';
+  RAISE NOTICE 'Updated: create_notification queues email and webhook deliveries';
+END $$;
@@ -0,0 +1,173 @@
+-- ============================================================================
+-- DEADLINE REMINDERS MIGRATION
+-- The API server's reminder job calls send_deadline_reminders periodically.
+-- Assignees of accepted or ongoing tasks are reminded when the deadline is
+-- near and again once it has passed; if the task is still open after the
+-- grace period the task creator is notified too. Every reminder is recorded in
+-- task_deadline_reminders, once per task, kind and deadline, so a reminder is
+-- never sent twice and a moved deadline gets fresh reminders.
+-- ============================================================================
+
+-- ============================================================================
+-- CREATE TABLES
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.task_deadline_reminders (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  task_id UUID NOT NULL REFERENCES public.tasks(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('due_soon', 'overdue', 'escalated')),
+  -- The deadline the reminder was about
+  deadline TIMESTAMPTZ NOT NULL,
+  recipient_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  notification_id UUID REFERENCES public.notifications(id) ON DELETE SET NULL,
+  sent_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (task_id, kind, deadline)
+);
+
+-- ============================================================================
+-- CREATE INDEXES
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_task_deadline_reminders_task ON public.task_deadline_reminders(task_id, sent_at DESC);
+CREATE INDEX IF NOT EXISTS idx_tasks_open_deadline ON public.tasks(deadline)
+  WHERE status IN ('accepted', 'ongoing') AND deadline IS NOT NULL;
+
+-- ============================================================================
+-- FUNCTIONS
+-- ============================================================================
+
+-- Send the reminders that are due and haven't been sent for the current
+-- deadline. Returns how many of each kind went out.
+CREATE OR REPLACE FUNCTION public.send_deadline_reminders(
+  _remind_before INTERVAL DEFAULT INTERVAL '24 hours',
+  _escalate_after INTERVAL DEFAULT INTERVAL '24 hours'
+)
+RETURNS TABLE (due_soon INTEGER, overdue INTEGER, escalated INTEGER)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _task public.tasks;
+  _reminder_id UUID;
+  _assignee TEXT;
+  _due TEXT;
+BEGIN
+  due_soon := 0;
+  overdue := 0;
+  escalated := 0;
+
+  FOR _task IN
+    SELECT * FROM public.tasks
+    WHERE status IN ('accepted', 'ongoing')
+      AND assigned_to IS NOT NULL
+      AND deadline IS NOT NULL
+      AND deadline <= now() + _remind_before
+    ORDER BY deadline
+  LOOP
+    _due := to_char(_task.deadline AT TIME ZONE 'UTC', 'Mon DD, HH24:MI "UTC"');
+
+    IF _task.deadline > now() THEN
+      -- Recording first means a concurrent run can't remind twice
+      INSERT INTO public.task_deadline_reminders (task_id, kind, deadline, recipient_id)
+      VALUES (_task.id, 'due_soon', _task.deadline, _task.assigned_to)
+      ON CONFLICT (task_id, kind, deadline) DO NOTHING
+      RETURNING id INTO _reminder_id;
+
+      IF _reminder_id IS NOT NULL THEN
+        UPDATE public.task_deadline_reminders
+        SET notification_id = public.create_notification(
+          _task.assigned_to, 'deadline', 'Deadline approaching',
+          format('"%s" is due %s', _task.title, _due),
+          _task.id,
+          jsonb_build_object(
+            'event', CASE WHEN _task.deadline <= now() + INTERVAL '1 day' THEN 'deadline_tomorrow' ELSE 'deadline_approaching' END,
+            'deadline', _task.deadline
+          )
+        )
+        WHERE id = _reminder_id;
+        due_soon := due_soon + 1;
+      END IF;
+      CONTINUE;
+    END IF;
+
+    INSERT INTO public.task_deadline_reminders (task_id, kind, deadline, recipient_id)
+    VALUES (_task.id, 'overdue', _task.deadline, _task.assigned_to)
+    ON CONFLICT (task_id, kind, deadline) DO NOTHING
+    RETURNING id INTO _reminder_id;
+
+    IF _reminder_id IS NOT NULL THEN
+      UPDATE public.task_deadline_reminders
+      SET notification_id = public.create_notification(
+        _task.assigned_to, 'deadline', 'Task overdue',
+        format('"%s" was due %s. Post an update or ask for more time.', _task.title, _due),
+        _task.id,
+        jsonb_build_object('event', 'task_overdue', 'deadline', _task.deadline)
+      )
+      WHERE id = _reminder_id;
+      overdue := overdue + 1;
+    END IF;
+
+    -- The creator hears about it once the grace period is over; nobody to
+    -- escalate to when they assigned the task to themselves
+    IF _task.deadline <= now() - _escalate_after AND _task.created_by IS DISTINCT FROM _task.assigned_to THEN
+      INSERT INTO public.task_deadline_reminders (task_id, kind, deadline, recipient_id)
+      VALUES (_task.id, 'escalated', _task.deadline, _task.created_by)
+      ON CONFLICT (task_id, kind, deadline) DO NOTHING
+      RETURNING id INTO _reminder_id;
+
+      IF _reminder_id IS NOT NULL THEN
+        SELECT full_name INTO _assignee FROM public.profiles WHERE id = _task.assigned_to;
+        UPDATE public.task_deadline_reminders
+        SET notification_id = public.create_notification(
+          _task.created_by, 'deadline', 'Overdue task needs attention',
+          format('"%s" assigned to %s was due %s and is still %s',
+            _task.title, COALESCE(_assignee, 'an employee'), _due, _task.status),
+          _task.id,
+          jsonb_build_object('event', 'task_overdue_escalated', 'deadline', _task.deadline, 'assignee_id', _task.assigned_to)
+        )
+        WHERE id = _reminder_id;
+        escalated := escalated + 1;
+      END IF;
+    END IF;
+  END LOOP;
+
+  RETURN NEXT;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.send_deadline_reminders(INTERVAL, INTERVAL) FROM PUBLIC, anon, authenticated;
+
+-- ============================================================================
+-- ROW LEVEL SECURITY (RLS) POLICIES
+-- ============================================================================
+
+-- Written only by send_deadline_reminders
+ALTER TABLE public.task_deadline_reminders ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Managers and assignees can view deadline reminders" ON public.task_deadline_reminders FOR SELECT TO authenticated
+  USING (
+    public.has_role(auth.uid(), 'admin')
+    OR public.has_role(auth.uid(), 'staff')
+    OR EXISTS (
+      SELECT 1 FROM public.tasks t
+      WHERE t.id = task_deadline_reminders.task_id AND t.assigned_to = auth.uid()
+    )
+  );
+
+-- ============================================================================
+-- COMMENTS FOR DOCUMENTATION
+-- ============================================================================
+
+COMMENT ON TABLE public.task_deadline_reminders IS 'Deadline reminders sent per task: due_soon and overdue to the assignee, escalated to the creator';
+COMMENT ON FUNCTION public.send_deadline_reminders(INTERVAL, INTERVAL) IS 'Sends due deadline reminders and escalations, each at most once per deadline';
+
+-- ============================================================================
+-- MIGRATION COMPLETION
+-- ============================================================================
+
+DO $$
+BEGIN
+  RAISE NOTICE 'Deadline reminders migration completed successfully!';
+  RAISE NOTICE 'Created: task_deadline_reminders, send_deadline_reminders';
+END $$;
@@ -0,0 +1,67 @@
+-- ============================================================================
+-- TIME ENTRY TASK LOCK MIGRATION
+-- Only the assignee may log time on a task, but that was checked on INSERT
+-- alone: an employee could log time on their own task and then move the entry
+-- to any other task with an UPDATE. A time entry now stays on the task it was
+-- logged against; log a new entry instead. Entries can still be edited after
+-- the task is reassigned, which an assignee check on UPDATE would prevent.
+-- ============================================================================
+
+-- ============================================================================
+-- FUNCTIONS
+-- ============================================================================
+
+-- Same as in the time tracking migration, plus the task lock
+CREATE OR REPLACE FUNCTION public.enforce_time_entry()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _entry public.time_entries := CASE WHEN TG_OP = 'DELETE' THEN OLD ELSE NEW END;
+  _weeks DATE[] := ARRAY[public.timesheet_week_start(_entry.work_date)];
+  _locked public.timesheets;
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    IF NEW.task_id IS DISTINCT FROM OLD.task_id THEN
+      RAISE EXCEPTION 'A time entry can''t be moved to another task; log a new entry instead'
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    _weeks := _weeks || public.timesheet_week_start(OLD.work_date);
+  END IF;
+
+  SELECT * INTO _locked
+  FROM public.timesheets
+  WHERE user_id = _entry.user_id
+    AND week_start = ANY(_weeks)
+    AND status IN ('submitted', 'approved')
+  LIMIT 1;
+
+  IF FOUND THEN
+    RAISE EXCEPTION 'The timesheet for the week of % is % and can no longer be changed',
+      _locked.week_start, _locked.status;
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+
+  IF NEW.source = 'timer' AND NEW.ended_at IS NOT NULL THEN
+    NEW.minutes := LEAST(1440, GREATEST(1, ROUND(EXTRACT(EPOCH FROM NEW.ended_at - NEW.started_at) / 60)));
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- ============================================================================
+-- MIGRATION COMPLETION
+-- ============================================================================
+
+DO $$
+BEGIN
+  RAISE NOTICE 'Time entry task lock migration completed successfully!';
+  RAISE NOTICE 'Updated: enforce_time_entry rejects moving an entry to another task';
+END $$;
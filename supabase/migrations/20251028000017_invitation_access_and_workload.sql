@@ -0,0 +1,112 @@
+-- ============================================================================
+-- INVITATION ACCESS AND WORKLOAD MIGRATION
+-- Candidates could read a task through any invitation they ever received,
+-- including ones that were withdrawn, expired or rejected; only open and
+-- accepted invitations grant access now.
+-- employee_profiles.current_workload was bumped by hand when a task was
+-- offered, which counted invitations nobody accepted and never counted
+-- acceptances. It is now kept equal to the employee's accepted and ongoing
+-- tasks by a trigger on tasks, so it changes when a candidate accepts.
+-- ============================================================================
+
+-- ============================================================================
+-- FUNCTIONS
+-- ============================================================================
+
+-- Recount an employee's active (accepted or ongoing) tasks. Returns the new
+-- workload, or NULL when the user has no employee profile.
+CREATE OR REPLACE FUNCTION public.refresh_employee_workload(_user_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _workload INTEGER;
+BEGIN
+  UPDATE public.employee_profiles
+  SET current_workload = (
+    SELECT COUNT(*)
+    FROM public.tasks
+    WHERE assigned_to = _user_id AND status IN ('accepted', 'ongoing')
+  )
+  WHERE user_id = _user_id
+  RETURNING current_workload INTO _workload;
+
+  RETURN _workload;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.refresh_employee_workload(UUID) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.sync_employee_workload()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') AND OLD.assigned_to IS NOT NULL THEN
+    PERFORM public.refresh_employee_workload(OLD.assigned_to);
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') AND NEW.assigned_to IS NOT NULL THEN
+    IF TG_OP = 'INSERT' OR NEW.assigned_to IS DISTINCT FROM OLD.assigned_to THEN
+      PERFORM public.refresh_employee_workload(NEW.assigned_to);
+    END IF;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+-- ============================================================================
+-- TRIGGERS
+-- ============================================================================
+
+DROP TRIGGER IF EXISTS sync_employee_workload ON public.tasks;
+CREATE TRIGGER sync_employee_workload
+  AFTER INSERT OR DELETE OR UPDATE OF status, assigned_to ON public.tasks
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_employee_workload();
+
+-- Start from the real counts
+UPDATE public.employee_profiles ep
+SET current_workload = (
+  SELECT COUNT(*)
+  FROM public.tasks t
+  WHERE t.assigned_to = ep.user_id AND t.status IN ('accepted', 'ongoing')
+);
+
+-- ============================================================================
+-- ROW LEVEL SECURITY (RLS) POLICIES
+-- ============================================================================
+
+-- Candidates need to read a task before it is assigned to them
+DROP POLICY IF EXISTS "Invited candidates can view tasks" ON public.tasks;
+CREATE POLICY "Invited candidates can view tasks" ON public.tasks FOR SELECT TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.invitations
+      WHERE invitations.task_id = tasks.id
+        AND invitations.to_user_id = auth.uid()
+        AND invitations.status IN ('pending', 'accepted')
+    )
+  );
+
+-- ============================================================================
+-- COMMENTS FOR DOCUMENTATION
+-- ============================================================================
+
+COMMENT ON FUNCTION public.refresh_employee_workload(UUID) IS 'Sets employee_profiles.current_workload to the employee''s accepted and ongoing task count';
+
+-- ============================================================================
+-- MIGRATION COMPLETION
+-- ============================================================================
+
+DO $$
+BEGIN
+  RAISE NOTICE 'Invitation access and workload migration completed successfully!';
+  RAISE NOTICE 'Updated: "Invited candidates can view tasks" policy';
+  RAISE NOTICE 'Created: refresh_employee_workload, sync_employee_workload trigger';
+END $$;
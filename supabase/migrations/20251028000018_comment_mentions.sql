@@ -0,0 +1,193 @@
+-- ============================================================================
+-- COMMENT MENTIONS MIGRATION
+-- task_comments.mentions was written by the client, so anyone who could
+-- comment could notify (and show the comment to) any profile without
+-- mentioning them in the text. Mentions are now derived from the
+-- @[Full Name](profile-id) tokens in the body whenever a comment is written
+-- or edited, and whatever the client sends is ignored.
+-- Mentions added by an edit never notified anyone, as notify_task_comment
+-- only ran on insert; an edit now notifies the newly mentioned people.
+-- ============================================================================
+
+-- ============================================================================
+-- FUNCTIONS
+-- ============================================================================
+
+-- Existing profiles mentioned in a comment body, without duplicates. Same
+-- syntax as MENTION_PATTERN in src/lib/comments.js.
+CREATE OR REPLACE FUNCTION public.task_comment_mentions(_body TEXT)
+RETURNS UUID[]
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(array_agg(p.id ORDER BY p.id), '{}')
+  FROM public.profiles p
+  WHERE p.id::TEXT IN (
+    SELECT lower(m[1])
+    FROM regexp_matches(COALESCE(_body, ''), '@\[[^\]\n]+\]\(([0-9a-fA-F-]{36})\)', 'g') AS m
+  );
+$$;
+
+-- Same as in the task comments migration, plus the mentions
+CREATE OR REPLACE FUNCTION public.normalize_task_comment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _parent public.task_comments;
+BEGIN
+  IF NEW.parent_id IS NOT NULL THEN
+    SELECT * INTO _parent FROM public.task_comments WHERE id = NEW.parent_id;
+
+    IF NOT FOUND OR _parent.task_id <> NEW.task_id THEN
+      RAISE EXCEPTION 'Replies must belong to a comment on the same task';
+    END IF;
+
+    NEW.parent_id := COALESCE(_parent.parent_id, _parent.id);
+  END IF;
+
+  NEW.mentions := public.task_comment_mentions(NEW.body);
+
+  RETURN NEW;
+END;
+$$;
+
+-- Same as in the task comments migration, plus the mentions
+CREATE OR REPLACE FUNCTION public.track_task_comment_revision()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.task_id <> OLD.task_id OR NEW.author_id <> OLD.author_id
+     OR NEW.parent_id IS DISTINCT FROM OLD.parent_id THEN
+    RAISE EXCEPTION 'Only the text of a comment can be changed';
+  END IF;
+
+  IF OLD.deleted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Deleted comments cannot be changed';
+  END IF;
+
+  IF NEW.deleted_at IS NOT NULL THEN
+    INSERT INTO public.task_comment_revisions (comment_id, body, action, changed_by)
+    VALUES (OLD.id, OLD.body, 'delete', auth.uid());
+
+    NEW.body := '';
+    NEW.mentions := '{}';
+    NEW.deleted_at := NOW();
+  ELSE
+    IF NEW.body IS DISTINCT FROM OLD.body THEN
+      INSERT INTO public.task_comment_revisions (comment_id, body, action, changed_by)
+      VALUES (OLD.id, OLD.body, 'edit', auth.uid());
+
+      NEW.edited_at := NOW();
+    END IF;
+
+    NEW.mentions := public.task_comment_mentions(NEW.body);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Same as in the notifications migration, except that an edit only notifies
+-- the people it newly mentions
+CREATE OR REPLACE FUNCTION public.notify_task_comment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _task public.tasks;
+  _author TEXT;
+  _preview TEXT;
+  _recipient UUID;
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.mentions <@ OLD.mentions THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO _task FROM public.tasks WHERE id = NEW.task_id;
+  SELECT full_name INTO _author FROM public.profiles WHERE id = NEW.author_id;
+  -- Show mentions as @Name rather than their markdown link
+  _preview := regexp_replace(NEW.body, '@\[([^\]]+)\]\([^)]+\)', '@\1', 'g');
+  IF char_length(_preview) > 120 THEN
+    _preview := left(_preview, 117) || '...';
+  END IF;
+
+  FOREACH _recipient IN ARRAY NEW.mentions LOOP
+    IF _recipient <> NEW.author_id
+       AND (TG_OP = 'INSERT' OR NOT (_recipient = ANY(OLD.mentions))) THEN
+      PERFORM public.create_notification(
+        _recipient, 'mention', format('%s mentioned you on "%s"', COALESCE(_author, 'Someone'), _task.title),
+        _preview, NEW.task_id, jsonb_build_object('comment_id', NEW.id)
+      );
+    END IF;
+  END LOOP;
+
+  IF TG_OP = 'UPDATE' THEN
+    RETURN NULL;
+  END IF;
+
+  FOR _recipient IN
+    SELECT DISTINCT r.id
+    FROM (
+      SELECT _task.assigned_to AS id
+      UNION SELECT _task.created_by
+      UNION SELECT author_id FROM public.task_comments WHERE id = NEW.parent_id
+    ) r
+    WHERE r.id IS NOT NULL AND r.id <> NEW.author_id AND NOT (r.id = ANY(NEW.mentions))
+  LOOP
+    PERFORM public.create_notification(
+      _recipient, 'comment', format('%s commented on "%s"', COALESCE(_author, 'Someone'), _task.title),
+      _preview, NEW.task_id, jsonb_build_object('comment_id', NEW.id)
+    );
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$;
+
+-- ============================================================================
+-- BACKFILL
+-- ============================================================================
+
+-- Drop mentions the body doesn't contain. Runs before the update trigger
+-- below exists, so nobody is notified again.
+UPDATE public.task_comments
+SET mentions = public.task_comment_mentions(body)
+WHERE deleted_at IS NULL
+  AND mentions IS DISTINCT FROM public.task_comment_mentions(body);
+
+-- ============================================================================
+-- TRIGGERS
+-- ============================================================================
+
+DROP TRIGGER IF EXISTS notify_task_comment ON public.task_comments;
+CREATE TRIGGER notify_task_comment
+  AFTER INSERT OR UPDATE OF body ON public.task_comments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_task_comment();
+
+-- ============================================================================
+-- COMMENTS FOR DOCUMENTATION
+-- ============================================================================
+
+COMMENT ON COLUMN public.task_comments.mentions IS 'Profiles mentioned in the body; derived from the body by the normalize_task_comment and track_task_comment_revision triggers';
+COMMENT ON FUNCTION public.task_comment_mentions(TEXT) IS 'Ids of the existing profiles mentioned as @[Full Name](profile-id) in a comment body';
+
+-- ============================================================================
+-- MIGRATION COMPLETION
+-- ============================================================================
+
+DO $$
+BEGIN
+  RAISE NOTICE 'Comment mentions migration completed successfully!';
+  RAISE NOTICE 'Created: task_comment_mentions';
+  RAISE NOTICE 'Updated: normalize_task_comment, track_task_comment_revision, notify_task_comment (now also on edits)';
+END $$;
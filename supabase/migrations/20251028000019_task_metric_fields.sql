@@ -0,0 +1,87 @@
+-- ============================================================================
+-- TASK METRIC FIELDS MIGRATION
+-- Only quality_rating was protected from assignees, but "Employees can update
+-- assigned tasks" lets them change any column. The deadline, the estimate and
+-- the lifecycle timestamps drive on_time_rate, avg_completion_time, estimate
+-- accuracy and the estimated-hours fallback of payment calculation, so an
+-- employee could improve their own metrics and pay.
+-- Now only admins, staff and the API server (no auth.uid()) can change the
+-- rating, deadline and estimate. For everyone else accepted_at, started_at
+-- and completed_at are stamped by the database when the task enters the
+-- matching status and otherwise keep their value; whatever the client sends
+-- is ignored, so the existing accept and complete flows keep working.
+-- ============================================================================
+
+-- ============================================================================
+-- FUNCTIONS
+-- ============================================================================
+
+-- Replaces protect_task_quality_rating. Runs after
+-- enforce_task_status_transition (triggers fire by name) and overrides the
+-- timestamps it took from the client.
+CREATE OR REPLACE FUNCTION public.protect_task_metric_fields()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _status_changed BOOLEAN := NEW.status IS DISTINCT FROM OLD.status;
+BEGIN
+  IF auth.uid() IS NULL
+     OR public.has_role(auth.uid(), 'admin')
+     OR public.has_role(auth.uid(), 'staff') THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.quality_rating IS DISTINCT FROM OLD.quality_rating THEN
+    RAISE EXCEPTION 'Only admins and staff can rate a task'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF NEW.deadline IS DISTINCT FROM OLD.deadline
+     OR NEW.estimated_hours IS DISTINCT FROM OLD.estimated_hours THEN
+    RAISE EXCEPTION 'Only admins and staff can change a task''s deadline or estimate'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  -- Same stamps as enforce_task_status_transition, without the client's values.
+  -- Reopening a completed task clears completed_at in track_task_review_status.
+  NEW.accepted_at := CASE WHEN _status_changed AND NEW.status = 'accepted' THEN COALESCE(OLD.accepted_at, NOW()) ELSE OLD.accepted_at END;
+  NEW.started_at := CASE WHEN _status_changed AND NEW.status = 'ongoing' THEN COALESCE(OLD.started_at, NOW()) ELSE OLD.started_at END;
+  NEW.completed_at := CASE WHEN _status_changed AND NEW.status = 'completed' THEN COALESCE(OLD.completed_at, NOW()) ELSE OLD.completed_at END;
+
+  RETURN NEW;
+END;
+$$;
+
+-- ============================================================================
+-- TRIGGERS
+-- ============================================================================
+
+DROP TRIGGER IF EXISTS protect_task_quality_rating ON public.tasks;
+DROP FUNCTION IF EXISTS public.protect_task_quality_rating();
+
+DROP TRIGGER IF EXISTS protect_task_metric_fields ON public.tasks;
+CREATE TRIGGER protect_task_metric_fields
+  BEFORE UPDATE OF status, quality_rating, deadline, estimated_hours, accepted_at, started_at, completed_at
+  ON public.tasks
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_task_metric_fields();
+
+-- ============================================================================
+-- COMMENTS FOR DOCUMENTATION
+-- ============================================================================
+
+COMMENT ON FUNCTION public.protect_task_metric_fields() IS 'Keeps the fields behind employee metrics and payments (rating, deadline, estimate, lifecycle timestamps) out of assignees'' hands';
+
+-- ============================================================================
+-- MIGRATION COMPLETION
+-- ============================================================================
+
+DO $$
+BEGIN
+  RAISE NOTICE 'Task metric fields migration completed successfully!';
+  RAISE NOTICE 'Created: protect_task_metric_fields trigger';
+  RAISE NOTICE 'Dropped: protect_task_quality_rating';
+END $$;
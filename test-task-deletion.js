@@ -1,70 +1,60 @@
 #!/usr/bin/env node
 
 /**
- * Test Script for Task Deletion Fix
- * This script tests the critical fixes applied to resolve task deletion issues
+ * Test Script for Task Deletion
+ * This script checks that task deletion stays behind confirmation and approval
+ * in the server tool package (server/tools)
  */
 
-import { createRequire } from 'module';
-const require = createRequire(import.meta.url);
+import { readFileSync } from 'fs';
 
-console.log('🧪 Testing Task Deletion Fixes...\n');
+// The tools only need a Supabase URL to load; nothing here touches the database
+process.env.SUPABASE_URL ||= 'http://localhost:54321';
+
+console.log('🧪 Testing Task Deletion...\n');
 
 // Test 1: Verify server tools registration
 console.log('✅ Test 1: Server Tool Registration');
 try {
-  const { getToolsForRole } = require('./server/tools/index.js');
+  const { getToolsForRole } = await import('./server/tools/index.js');
   const adminTools = getToolsForRole('admin');
-  
+  const staffTools = getToolsForRole('staff');
+
   console.log('Available admin tools:', Object.keys(adminTools));
-  
+
   if (adminTools.deleteTask) {
     console.log('✅ deleteTask tool is available');
   } else {
     console.log('❌ deleteTask tool is missing');
   }
-  
+
   if (adminTools.getTaskDetails) {
     console.log('✅ getTaskDetails tool is available');
   } else {
     console.log('❌ getTaskDetails tool is missing');
   }
-  
-  console.log('');
-} catch (error) {
-  console.log('❌ Error checking tools:', error.message);
-}
 
-// Test 2: Verify server_copy tools registration
-console.log('✅ Test 2: Server Copy Tool Registration');
-try {
-  const { getToolsForRole: getToolsForRoleCopy } = require('./server_copy/tools/index.js');
-  const adminToolsCopy = getToolsForRoleCopy('admin');
-  
-  console.log('Available admin tools in server_copy:', Object.keys(adminToolsCopy));
-  
-  if (adminToolsCopy.deleteTask) {
-    console.log('✅ deleteTask tool is available in server_copy');
+  if (staffTools.deleteTask) {
+    console.log('❌ deleteTask tool is available to staff');
   } else {
-    console.log('❌ deleteTask tool is missing in server_copy');
+    console.log('✅ deleteTask tool is admin-only');
   }
   console.log('');
 } catch (error) {
-  console.log('❌ Error checking server_copy tools:', error.message);
+  console.log('❌ Error checking tools:', error.message);
 }
 
-// Test 3: Verify server API user context passing
-console.log('✅ Test 3: Server API User Context');
+// Test 2: Verify server API user context passing
+console.log('✅ Test 2: Server API User Context');
 try {
-  const fs = require('fs');
-  const serverApi = fs.readFileSync('./server/api.js', 'utf8');
-  
+  const serverApi = readFileSync('./server/api.js', 'utf8');
+
   if (serverApi.includes('configurable:')) {
     console.log('✅ Server API passes user context via configurable');
   } else {
     console.log('❌ Server API does not pass user context');
   }
-  
+
   if (serverApi.includes('user: req.user')) {
     console.log('✅ Server API includes user context mapping');
   } else {
@@ -75,19 +65,20 @@ try {
   console.log('❌ Error checking server API:', error.message);
 }
 
-// Test 4: Verify delete tool confirmation parameter
-console.log('✅ Test 4: Delete Tool Confirmation Parameter');
+// Test 3: Verify delete tool confirmation parameter
+console.log('✅ Test 3: Delete Tool Confirmation Parameter');
 try {
-  const fs = require('fs');
-  const tasksFile = fs.readFileSync('./server_copy/tools/admin/tasks.js', 'utf8');
-  
-  if (tasksFile.includes('confirmed:')) {
-    console.log('✅ deleteTask tool requires confirmation parameter');
+  const { deleteTaskSchema } = await import('./server/tools/shared/schemas.js');
+  const parsed = deleteTaskSchema.parse({ taskId: '00000000-0000-4000-8000-000000000000' });
+
+  if (parsed.confirmed === false) {
+    console.log('✅ deleteTask tool defaults to an unconfirmed preview');
   } else {
-    console.log('❌ deleteTask tool missing confirmation parameter');
+    console.log('❌ deleteTask tool does not default to a preview');
   }
-  
-  if (tasksFile.includes('Task deletion requires explicit confirmation')) {
+
+  const tasksFile = readFileSync('./server/tools/admin/tasks.js', 'utf8');
+  if (tasksFile.includes('Confirmation required')) {
     console.log('✅ deleteTask tool includes confirmation validation');
   } else {
     console.log('❌ deleteTask tool missing confirmation validation');
@@ -97,41 +88,32 @@ try {
   console.log('❌ Error checking delete tool:', error.message);
 }
 
-// Test 5: Verify client-side delete tool
-console.log('✅ Test 5: Client-side Delete Tool');
+// Test 4: Verify the agent can only propose a deletion
+console.log('✅ Test 4: Delete Tool Approval');
 try {
-  const fs = require('fs');
-  const clientTasks = fs.readFileSync('./src/api/chat/tools/admin/tasks.ts', 'utf8');
-  
-  if (clientTasks.includes('confirmed: z.boolean()')) {
-    console.log('✅ Client deleteTask tool requires confirmation parameter');
-  } else {
-    console.log('❌ Client deleteTask tool missing confirmation parameter');
-  }
-  
-  if (clientTasks.includes('When the user confirms')) {
-    console.log('✅ Client deleteTask tool includes confirmation guidance');
+  const { APPROVAL_REQUIRED_TOOLS } = await import('./server/tools/shared/approvals.js');
+
+  if (APPROVAL_REQUIRED_TOOLS.has('delete_task')) {
+    console.log('✅ delete_task requires the user\'s approval');
   } else {
-    console.log('❌ Client deleteTask tool missing confirmation guidance');
+    console.log('❌ delete_task runs without approval');
   }
   console.log('');
 } catch (error) {
-  console.log('❌ Error checking client delete tool:', error.message);
+  console.log('❌ Error checking approvals:', error.message);
 }
 
-// Test 6: Verify error handling improvements
-console.log('✅ Test 6: Error Handling Improvements');
+// Test 5: Verify error handling
+console.log('✅ Test 5: Error Handling');
 try {
-  const fs = require('fs');
-  const tasksFile = fs.readFileSync('./server_copy/tools/admin/tasks.js', 'utf8');
-  const clientTasks = fs.readFileSync('./src/api/chat/tools/admin/tasks.ts', 'utf8');
-  
+  const tasksFile = readFileSync('./server/tools/admin/tasks.js', 'utf8');
+
   if (tasksFile.includes('console.log("🗑️ Delete Task Called:"')) {
     console.log('✅ Server deleteTask tool includes debug logging');
   } else {
     console.log('❌ Server deleteTask tool missing debug logging');
   }
-  
+
   if (tasksFile.includes('Task with ID') && tasksFile.includes('not found')) {
     console.log('✅ Server deleteTask tool includes task validation');
   } else {
@@ -142,15 +124,8 @@ try {
   console.log('❌ Error checking error handling:', error.message);
 }
 
-console.log('🎯 Summary of Fixes Applied:');
-console.log('1. ✅ Fixed server/api.js to pass user context to tools via configurable parameter');
-console.log('2. ✅ Updated server_copy deleteTask tool to require confirmation parameter');
-console.log('3. ✅ Added proper error handling and logging to delete operations');
-console.log('4. ✅ Verified client-side delete tool requires confirmation');
-console.log('5. ✅ Both task deletion and retrieval operations now have proper error handling');
-console.log('\n🔧 Key Changes:');
-console.log('- Server now passes user context to tools (configurable: { user: req.user })');
-console.log('- Delete tool requires explicit confirmation for safety');
-console.log('- Added comprehensive error handling and logging');
-console.log('- Task existence validation before deletion');
-console.log('- Improved error messages for better debugging');
\ No newline at end of file
+console.log('🎯 Summary of Checks:');
+console.log('1. ✅ Server passes user context to tools via the configurable parameter');
+console.log('2. ✅ deleteTask only previews the deletion until confirmed');
+console.log('3. ✅ The agent has to ask for approval before deleting');
+console.log('4. ✅ Task existence is validated before deletion');